@@ -11,6 +11,7 @@ import { Loader2 } from "lucide-react";
 import LoginPage from "@/pages/login";
 import DashboardPage from "@/pages/dashboard";
 import LeadsPage from "@/pages/leads";
+import LeadDuplicatesPage from "@/pages/lead-duplicates";
 import FollowUpsPage from "@/pages/follow-ups";
 import PipelinePage from "@/pages/pipeline";
 import ClientsPage from "@/pages/clients";
@@ -31,6 +32,7 @@ import { hasPermission } from "@/lib/auth";
 const routePermissions: Record<string, string> = {
   "/": "dashboard",
   "/leads": "leads",
+  "/leads/duplicates": "leads",
   "/follow-ups": "follow_ups",
   "/whatsapp-inbox": "leads",
   "/pipeline": "pipeline",
@@ -124,6 +126,7 @@ function Router() {
         <Switch>
           <Route path="/" component={DashboardPage} />
           <Route path="/leads" component={LeadsPage} />
+          <Route path="/leads/duplicates" component={LeadDuplicatesPage} />
           <Route path="/follow-ups" component={FollowUpsPage} />
           <Route path="/whatsapp-inbox" component={WhatsAppInboxPage} />
           <Route path="/pipeline" component={PipelinePage} />
@@ -1,4 +1,5 @@
-import { Link, useLocation } from "wouter";
+import { Link, useLocation, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import {
   LayoutDashboard,
   Users,
@@ -29,6 +30,9 @@ import {
   SidebarMenu,
   SidebarMenuButton,
   SidebarMenuItem,
+  SidebarMenuSub,
+  SidebarMenuSubButton,
+  SidebarMenuSubItem,
 } from "@/components/ui/sidebar";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import {
@@ -40,6 +44,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useAuth } from "@/hooks/use-auth";
 import { hasPermission } from "@/lib/auth";
+import type { SavedLeadView } from "@/components/lead-filter-builder";
 
 const mainMenuItems = [
   { title: "Dashboard", url: "/", icon: LayoutDashboard, permission: "dashboard" },
@@ -71,8 +76,15 @@ const adminMenuItems = [
 
 export function AppSidebar() {
   const [location] = useLocation();
+  const searchString = useSearch();
   const { user, logout, isLoggingOut } = useAuth();
 
+  const { data: savedViews = [] } = useQuery<SavedLeadView[]>({
+    queryKey: ["/api/lead-views"],
+    enabled: hasPermission(user, "leads"),
+  });
+  const activeViewId = location === "/leads" ? new URLSearchParams(searchString).get("view") : null;
+
   const filterByPermission = (items: typeof mainMenuItems) =>
     items.filter(item => hasPermission(user, item.permission));
 
@@ -112,12 +124,25 @@ export function AppSidebar() {
               <SidebarMenu>
                 {filteredMain.map((item) => (
                   <SidebarMenuItem key={item.title}>
-                    <SidebarMenuButton asChild isActive={location === item.url} className="py-2 hover:bg-sidebar-accent/50 transition-colors">
+                    <SidebarMenuButton asChild isActive={location === item.url && !(item.url === "/leads" && activeViewId)} className="py-2 hover:bg-sidebar-accent/50 transition-colors">
                       <Link href={item.url} data-testid={`nav-${item.title.toLowerCase().replace(/\s+/g, "-")}`}>
                         <item.icon className="h-4 w-4" />
                         <span className="font-medium">{item.title}</span>
                       </Link>
                     </SidebarMenuButton>
+                    {item.url === "/leads" && savedViews.length > 0 && (
+                      <SidebarMenuSub>
+                        {savedViews.map((view) => (
+                          <SidebarMenuSubItem key={view.id}>
+                            <SidebarMenuSubButton asChild isActive={activeViewId === view.id}>
+                              <Link href={`/leads?view=${view.id}`} data-testid={`nav-lead-view-${view.id}`}>
+                                <span>{view.name}</span>
+                              </Link>
+                            </SidebarMenuSubButton>
+                          </SidebarMenuSubItem>
+                        ))}
+                      </SidebarMenuSub>
+                    )}
                   </SidebarMenuItem>
                 ))}
               </SidebarMenu>
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, ListChecks, Plus, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ChecklistTemplate } from "@shared/schema";
+
+// Template being edited; items are typed one per line
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  items: string;
+}
+
+const emptyDraft: TemplateDraft = { name: "", items: "" };
+
+function draftItems(draft: TemplateDraft): string[] {
+  return draft.items.split("\n").map((item) => item.trim()).filter(Boolean);
+}
+
+export function ChecklistTemplatesSettings() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+
+  const { data: templates = [], isLoading } = useQuery<ChecklistTemplate[]>({ queryKey: ["/api/checklist-templates"] });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (template: TemplateDraft) => {
+      const body = { name: template.name, items: draftItems(template) };
+      const response = template.id
+        ? await apiRequest("PATCH", `/api/checklist-templates/${template.id}`, body)
+        : await apiRequest("POST", "/api/checklist-templates", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/checklist-templates"] });
+      toast({ title: draft?.id ? "Checklist template updated" : "Checklist template created" });
+      setDraft(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/checklist-templates/${id}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/checklist-templates"] }),
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              Checklist Templates
+            </CardTitle>
+            <CardDescription>
+              Checklists such as client onboarding. A pipeline stage can add them to the client when a lead enters it.
+            </CardDescription>
+          </div>
+          {!draft && (
+            <Button size="sm" variant="outline" onClick={() => setDraft(emptyDraft)} data-testid="button-add-checklist-template">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Template
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {draft && (
+          <div className="space-y-3 rounded-md border p-3">
+            <div className="space-y-1">
+              <Label>Name</Label>
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. SEO onboarding"
+                data-testid="input-checklist-template-name"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Items, one per line</Label>
+              <Textarea
+                value={draft.items}
+                onChange={(e) => setDraft({ ...draft, items: e.target.value })}
+                rows={5}
+                placeholder={"Get Google Analytics access\nCollect brand assets\nKick-off call"}
+                data-testid="input-checklist-template-items"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                disabled={!draft.name.trim() || draftItems(draft).length === 0 || saveMutation.isPending}
+                onClick={() => saveMutation.mutate(draft)}
+                data-testid="button-save-checklist-template"
+              >
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Template
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex h-16 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="py-2 text-sm text-muted-foreground">No checklist templates yet.</p>
+        ) : (
+          templates.map((template) => (
+            <div key={template.id} className="flex items-center justify-between gap-3 rounded-md border p-3 text-sm" data-testid={`checklist-template-${template.id}`}>
+              <div className="min-w-0">
+                <p className="font-medium">{template.name}</p>
+                <p className="truncate text-xs text-muted-foreground">{template.items.join(" · ")}</p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setDraft({ id: template.id, name: template.name, items: template.items.join("\n") })}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  onClick={() => deleteMutation.mutate(template.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
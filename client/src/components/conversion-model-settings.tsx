@@ -0,0 +1,172 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, BrainCircuit, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import {
+  conversionFeatureLabels,
+  type ConversionCategoricalFeature,
+  type ConversionNumericFeature,
+  type SerializedConversionModel,
+} from "@shared/conversionModel";
+
+interface ConversionModelResponse {
+  current: SerializedConversionModel | null;
+  history: SerializedConversionModel[];
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// "source=google" -> "Source: google"
+function featureLabel(feature: string) {
+  const [name, value] = feature.split("=");
+  const label = conversionFeatureLabels[name as ConversionCategoricalFeature | ConversionNumericFeature] ?? name;
+  return value === undefined ? label : `${label}: ${value}`;
+}
+
+function Metric({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-md border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold">{value}</p>
+      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+    </div>
+  );
+}
+
+export function ConversionModelSettings() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<ConversionModelResponse>({ queryKey: ["/api/conversion-model"] });
+
+  const trainMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/conversion-model/train");
+      return response.json() as Promise<SerializedConversionModel>;
+    },
+    onSuccess: (model) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversion-model"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      toast({
+        title: "Conversion model retrained",
+        description: `Holdout accuracy ${percent(model.metrics.accuracy)} on ${model.metrics.holdoutSize} leads`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Training skipped", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const current = data?.current;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <BrainCircuit className="h-5 w-5" />
+              Conversion Probability Model
+            </CardTitle>
+            <CardDescription>
+              A logistic regression trained on leads marked converted or not interested, using source, UTM fields,
+              city, budget, interest level, interactions and time to first contact. It retrains nightly; a fifth
+              of the leads are held out to measure it.
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => trainMutation.mutate()}
+            disabled={trainMutation.isPending}
+            data-testid="button-train-conversion-model"
+          >
+            {trainMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Retrain now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex h-24 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !current ? (
+          <p className="text-sm text-muted-foreground">
+            No model trained yet. Training needs at least 30 leads marked converted or not interested.
+          </p>
+        ) : (
+          <>
+            <p className="text-xs text-muted-foreground">
+              Trained {format(new Date(current.trainedAt), "MMM d, yyyy h:mm a")}
+              {current.trainedById ? "" : " by the nightly schedule"} on {current.metrics.trainingSize} leads,
+              {" "}{percent(current.metrics.positiveRate)} of them converted
+            </p>
+
+            <div className="grid gap-3 sm:grid-cols-4">
+              <Metric
+                label="Holdout accuracy"
+                value={percent(current.metrics.accuracy)}
+                hint={`Baseline ${percent(current.metrics.baselineAccuracy)}`}
+              />
+              <Metric label="Holdout leads" value={String(current.metrics.holdoutSize)} />
+              <Metric label="Log loss" value={current.metrics.logLoss.toFixed(3)} hint="Lower is better" />
+              <Metric label="Brier score" value={current.metrics.brierScore.toFixed(3)} hint="Lower is better" />
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Calibration on the holdout set</p>
+              <div className="rounded-md border">
+                <div className="grid grid-cols-4 gap-2 border-b px-3 py-2 text-xs font-medium text-muted-foreground">
+                  <span>Predicted range</span>
+                  <span className="text-right">Leads</span>
+                  <span className="text-right">Avg. predicted</span>
+                  <span className="text-right">Actually converted</span>
+                </div>
+                {current.metrics.calibration.map((bin) => (
+                  <div key={bin.from} className="grid grid-cols-4 gap-2 px-3 py-1.5 text-sm">
+                    <span>{Math.round(bin.from * 100)}–{Math.round(bin.to * 100)}%</span>
+                    <span className="text-right">{bin.count}</span>
+                    <span className="text-right">{percent(bin.meanPredicted)}</span>
+                    <span className="text-right">{percent(bin.observedRate)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Strongest signals</p>
+              <div className="space-y-1">
+                {current.topFeatures.map(({ feature, weight }) => (
+                  <div key={feature} className="flex justify-between gap-2 text-sm">
+                    <span className="truncate">{featureLabel(feature)}</span>
+                    <span className={cn("font-medium", weight > 0 ? "text-green-600" : "text-red-600")}>
+                      {weight > 0 ? "Raises" : "Lowers"} · {Math.abs(weight).toFixed(2)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {data.history.length > 1 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Recent training runs</p>
+                {data.history.map((model) => (
+                  <div key={model.id} className="flex justify-between text-xs text-muted-foreground">
+                    <span>{format(new Date(model.trainedAt), "MMM d, yyyy h:mm a")}</span>
+                    <span>
+                      {percent(model.metrics.accuracy)} accuracy · {model.metrics.trainingSize} training leads
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
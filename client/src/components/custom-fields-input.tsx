@@ -0,0 +1,123 @@
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CustomFieldEntity, CustomFieldValues } from "@shared/schema";
+import type { SerializedCustomFieldDefinition } from "@shared/customFields";
+
+const NONE = "__none__";
+
+// Active custom field definitions for one entity, in admin-defined order
+export function useCustomFields(entityType: CustomFieldEntity) {
+  const { data = [] } = useQuery<SerializedCustomFieldDefinition[]>({
+    queryKey: ["/api/custom-fields"],
+  });
+  return data.filter(f => f.entityType === entityType && f.isActive);
+}
+
+interface CustomFieldsInputProps {
+  fields: SerializedCustomFieldDefinition[];
+  value: CustomFieldValues | undefined;
+  onChange: (value: CustomFieldValues) => void;
+  errors?: Record<string, string>;
+}
+
+export function CustomFieldsInput({ fields, value = {}, onChange, errors = {} }: CustomFieldsInputProps) {
+  if (fields.length === 0) return null;
+
+  const setField = (key: string, fieldValue: CustomFieldValues[string] | undefined) => {
+    const next = { ...value };
+    if (fieldValue === undefined || fieldValue === "") {
+      delete next[key];
+    } else {
+      next[key] = fieldValue;
+    }
+    onChange(next);
+  };
+
+  const renderControl = (field: SerializedCustomFieldDefinition) => {
+    const current = value[field.key];
+    const testId = `input-custom-${field.key}`;
+
+    switch (field.fieldType) {
+      case "boolean":
+        return (
+          <Switch
+            checked={current === true}
+            onCheckedChange={(checked) => setField(field.key, checked)}
+            data-testid={testId}
+          />
+        );
+      case "select":
+        return (
+          <Select
+            value={typeof current === "string" && current ? current : NONE}
+            onValueChange={(val) => setField(field.key, val === NONE ? undefined : val)}
+          >
+            <SelectTrigger data-testid={testId}>
+              <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>None</SelectItem>
+              {field.options.map((option) => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case "multi_select": {
+        const selected = Array.isArray(current) ? current : [];
+        return (
+          <div className="flex flex-wrap gap-3" data-testid={testId}>
+            {field.options.map((option) => (
+              <label key={option} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={selected.includes(option)}
+                  onCheckedChange={(checked) => {
+                    const next = checked ? [...selected, option] : selected.filter(o => o !== option);
+                    setField(field.key, next.length > 0 ? next : undefined);
+                  }}
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      default:
+        return (
+          <Input
+            type={field.fieldType === "number" ? "number" : field.fieldType === "date" ? "date" : "text"}
+            value={current === undefined ? "" : String(current)}
+            onChange={(e) => setField(field.key, e.target.value)}
+            data-testid={testId}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {fields.map((field) => (
+        <div key={field.id} className="space-y-2">
+          <Label>
+            {field.label}
+            {field.isRequired && <span className="text-destructive ml-1">*</span>}
+          </Label>
+          {renderControl(field)}
+          {errors[field.key] && (
+            <p className="text-sm font-medium text-destructive">{errors[field.key]}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,486 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Users, Plus, Trash2, Route } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  distributionMethods,
+  distributionRuleFields,
+  leadSources,
+  type Campaign,
+  type DistributionMethod,
+  type DistributionRule,
+  type DistributionRuleField,
+  type DistributionSettings as DistributionSettingsRow,
+} from "@shared/schema";
+import {
+  MAX_LEAD_REASSIGNMENTS,
+  distributionMethodLabels,
+  distributionRuleFieldLabels,
+  type DistributionRepStatus,
+} from "@shared/distribution";
+
+const methodDescriptions: Record<DistributionMethod, string> = {
+  round_robin: "Reps take turns in a fixed order.",
+  load_based: "The rep with the fewest open leads gets the next one.",
+  weighted: "Each rep gets their weight's share of the day's leads.",
+};
+
+const emptyRule = { name: "", field: "source" as DistributionRuleField, value: "", assigneeIds: [] as string[], priority: 0 };
+
+// Number input that saves on blur, so typing does not fire a request per keystroke
+function RepNumberInput({ value, onSave, placeholder, testId }: {
+  value: number | null;
+  onSave: (value: number | null) => void;
+  placeholder?: string;
+  testId?: string;
+}) {
+  const [draft, setDraft] = useState(value === null ? "" : String(value));
+  return (
+    <Input
+      type="number"
+      min={0}
+      className="h-8 w-20"
+      value={draft}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        const next = draft === "" ? null : Math.max(0, Math.round(Number(draft)));
+        if (next !== value) onSave(next);
+      }}
+      data-testid={testId}
+    />
+  );
+}
+
+export function DistributionSettings() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
+  const [newRule, setNewRule] = useState(emptyRule);
+  const [showRuleForm, setShowRuleForm] = useState(false);
+
+  const { data: settings } = useQuery<DistributionSettingsRow>({ queryKey: ["/api/distribution-settings"] });
+  const { data: reps = [], isLoading: repsLoading } = useQuery<DistributionRepStatus[]>({ queryKey: ["/api/distribution/reps"] });
+  const { data: rules = [] } = useQuery<DistributionRule[]>({ queryKey: ["/api/distribution/rules"] });
+  const { data: campaigns = [] } = useQuery<Campaign[]>({ queryKey: ["/api/campaigns"] });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: async (data: Partial<Pick<DistributionSettingsRow, "isEnabled" | "method" | "reassignAfterMinutes">>) => {
+      const response = await apiRequest("PATCH", "/api/distribution-settings", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/distribution-settings"] });
+      toast({ title: "Settings updated" });
+    },
+    onError,
+  });
+
+  const updateRepMutation = useMutation({
+    mutationFn: async ({ userId, ...data }: { userId: string; weight?: number; dailyCap?: number | null; isOutOfOffice?: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/distribution/reps/${userId}`, data);
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/distribution/reps"] }),
+    onError,
+  });
+
+  const createRuleMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/distribution/rules", newRule);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/distribution/rules"] });
+      setNewRule(emptyRule);
+      setShowRuleForm(false);
+      toast({ title: "Distribution rule created" });
+    },
+    onError,
+  });
+
+  const updateRuleMutation = useMutation({
+    mutationFn: async ({ id, ...data }: { id: string; isActive: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/distribution/rules/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/distribution/rules"] }),
+    onError,
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/distribution/rules/${id}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/distribution/rules"] }),
+    onError,
+  });
+
+  const distributeLeadsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/leads/distribute", {});
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/distribution/reps"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      toast({ title: "Leads distributed", description: data.message });
+    },
+    onError,
+  });
+
+  const method = (settings?.method ?? "round_robin") as DistributionMethod;
+  const rotation = reps.filter(rep => rep.inRotation && !rep.isOutOfOffice);
+  const totalWeight = rotation.reduce((sum, rep) => sum + rep.weight, 0);
+  const userName = (id: string) => reps.find(rep => rep.userId === id)?.name ?? "Unknown user";
+  const ruleValueLabel = (rule: DistributionRule) =>
+    rule.field === "campaignId" ? campaigns.find(c => c.id === rule.value)?.name ?? rule.value : rule.value;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Lead Distribution
+        </CardTitle>
+        <CardDescription>
+          Distribute unassigned leads among the sales team. Out-of-office reps and reps at their daily cap are skipped.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="font-medium">Enable distribution</p>
+            <p className="text-sm text-muted-foreground">Assign unassigned leads using the method below</p>
+          </div>
+          <Switch
+            checked={settings?.isEnabled || false}
+            disabled={!isAdmin}
+            onCheckedChange={(checked) => updateSettingsMutation.mutate({ isEnabled: checked })}
+            data-testid="switch-distribution"
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label>Method</Label>
+          <Select
+            value={method}
+            disabled={!isAdmin}
+            onValueChange={(value) => updateSettingsMutation.mutate({ method: value as DistributionMethod })}
+          >
+            <SelectTrigger className="w-60" data-testid="select-distribution-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {distributionMethods.map((option) => (
+                <SelectItem key={option} value={option}>{distributionMethodLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{methodDescriptions[method]}</p>
+        </div>
+
+        <div className="space-y-1">
+          <Label>Reassign if not contacted within (minutes)</Label>
+          {isAdmin ? (
+            <RepNumberInput
+              key={settings?.reassignAfterMinutes ?? "off"}
+              value={settings?.reassignAfterMinutes ?? null}
+              placeholder="Off"
+              onSave={(minutes) => updateSettingsMutation.mutate({ reassignAfterMinutes: minutes || null })}
+              testId="input-reassign-after-minutes"
+            />
+          ) : (
+            <p className="text-sm">{settings?.reassignAfterMinutes ?? "Off"}</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Captured and imported leads are assigned as they arrive. A call, outbound WhatsApp message, call/email
+            note or completed follow-up counts as contact; otherwise the lead moves to the next rep. Only leads
+            distributed after this is turned on move, and a lead still not contacted after {MAX_LEAD_REASSIGNMENTS}{" "}
+            moves stays with its rep and is flagged to managers. Won and lost leads never move.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Reps</p>
+          {repsLoading ? (
+            <div className="flex h-16 items-center justify-center">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <div className="grid grid-cols-[1fr_repeat(5,auto)] items-center gap-x-4 border-b px-3 py-2 text-xs font-medium text-muted-foreground">
+                <span>Rep</span>
+                <span>Weight</span>
+                <span>Daily cap</span>
+                <span>Today</span>
+                <span>Open</span>
+                <span>Out of office</span>
+              </div>
+              {reps.map((rep) => (
+                <div
+                  key={rep.userId}
+                  className="grid grid-cols-[1fr_repeat(5,auto)] items-center gap-x-4 px-3 py-1.5 text-sm"
+                  data-testid={`distribution-rep-${rep.userId}`}
+                >
+                  <span className="truncate">
+                    {rep.name}
+                    {!rep.inRotation && <span className="text-xs text-muted-foreground"> · rules only</span>}
+                    {method === "weighted" && rep.inRotation && !rep.isOutOfOffice && totalWeight > 0 && (
+                      <span className="text-xs text-muted-foreground"> · {Math.round((rep.weight / totalWeight) * 100)}%</span>
+                    )}
+                  </span>
+                  <RepNumberInput
+                    value={rep.weight}
+                    onSave={(weight) => updateRepMutation.mutate({ userId: rep.userId, weight: weight ?? 0 })}
+                    testId={`input-rep-weight-${rep.userId}`}
+                  />
+                  <RepNumberInput
+                    value={rep.dailyCap}
+                    placeholder="None"
+                    onSave={(dailyCap) => updateRepMutation.mutate({ userId: rep.userId, dailyCap })}
+                    testId={`input-rep-cap-${rep.userId}`}
+                  />
+                  <span className="w-10 text-right">{rep.distributedToday}</span>
+                  <span className="w-10 text-right">{rep.openLeads}</span>
+                  <Switch
+                    checked={rep.isOutOfOffice}
+                    onCheckedChange={(isOutOfOffice) => updateRepMutation.mutate({ userId: rep.userId, isOutOfOffice })}
+                    data-testid={`switch-rep-ooo-${rep.userId}`}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="flex items-center gap-2 text-sm font-medium">
+              <Route className="h-4 w-4" />
+              Routing rules
+            </p>
+            {isAdmin && !showRuleForm && (
+              <Button size="sm" variant="outline" onClick={() => setShowRuleForm(true)} data-testid="button-add-distribution-rule">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Rule
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Matching leads go only to the rule's reps, in priority order. If none of them is available, the next
+            matching rule or the general rotation is used.
+          </p>
+
+          {showRuleForm && (
+            <div className="space-y-3 rounded-md border p-3">
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label>Name</Label>
+                  <Input
+                    value={newRule.name}
+                    onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+                    placeholder="e.g. Pune leads to the west team"
+                    data-testid="input-rule-name"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Priority</Label>
+                  <Input
+                    type="number"
+                    value={newRule.priority}
+                    onChange={(e) => setNewRule({ ...newRule, priority: Number(e.target.value) })}
+                    data-testid="input-rule-priority"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>When</Label>
+                  <Select
+                    value={newRule.field}
+                    onValueChange={(value) => setNewRule({ ...newRule, field: value as DistributionRuleField, value: "" })}
+                  >
+                    <SelectTrigger data-testid="select-rule-field">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {distributionRuleFields.map((field) => (
+                        <SelectItem key={field} value={field}>{distributionRuleFieldLabels[field]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Is</Label>
+                  {newRule.field === "source" || newRule.field === "campaignId" ? (
+                    <Select value={newRule.value} onValueChange={(value) => setNewRule({ ...newRule, value })}>
+                      <SelectTrigger data-testid="select-rule-value">
+                        <SelectValue placeholder="Select..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {newRule.field === "source"
+                          ? leadSources.map((source) => (
+                            <SelectItem key={source} value={source} className="capitalize">{source}</SelectItem>
+                          ))
+                          : campaigns.map((campaign) => (
+                            <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input
+                      value={newRule.value}
+                      onChange={(e) => setNewRule({ ...newRule, value: e.target.value })}
+                      data-testid="input-rule-value"
+                    />
+                  )}
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label>Send to</Label>
+                <div className="grid gap-1 sm:grid-cols-3">
+                  {reps.map((rep) => (
+                    <label key={rep.userId} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={newRule.assigneeIds.includes(rep.userId)}
+                        onCheckedChange={(checked) => setNewRule({
+                          ...newRule,
+                          assigneeIds: checked
+                            ? [...newRule.assigneeIds, rep.userId]
+                            : newRule.assigneeIds.filter(id => id !== rep.userId),
+                        })}
+                      />
+                      {rep.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => { setShowRuleForm(false); setNewRule(emptyRule); }}>
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={!newRule.name || !newRule.value || newRule.assigneeIds.length === 0 || createRuleMutation.isPending}
+                  onClick={() => createRuleMutation.mutate()}
+                  data-testid="button-save-distribution-rule"
+                >
+                  {createRuleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Rule
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {rules.length === 0 ? (
+            <p className="py-2 text-sm text-muted-foreground">No routing rules. Every lead goes to the general rotation.</p>
+          ) : (
+            rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between gap-3 rounded-md border p-3 text-sm" data-testid={`distribution-rule-${rule.id}`}>
+                <div className="min-w-0">
+                  <p className="font-medium">
+                    {rule.name}
+                    <Badge variant="outline" className="ml-2">Priority {rule.priority}</Badge>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {distributionRuleFieldLabels[rule.field as DistributionRuleField] ?? rule.field} is {ruleValueLabel(rule)}
+                    {" → "}{rule.assigneeIds.map(userName).join(", ")}
+                  </p>
+                </div>
+                {isAdmin && (
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={rule.isActive}
+                      onCheckedChange={(isActive) => updateRuleMutation.mutate({ id: rule.id, isActive })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => deleteRuleMutation.mutate(rule.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <Button
+          onClick={() => distributeLeadsMutation.mutate()}
+          disabled={distributeLeadsMutation.isPending}
+          variant="outline"
+          data-testid="button-distribute-leads"
+        >
+          {distributeLeadsMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Distribute Unassigned Leads Now
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Lets any user take themselves out of the lead rotation
+export function AvailabilityCard() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data } = useQuery<{ isOutOfOffice: boolean }>({ queryKey: ["/api/distribution/reps/me"] });
+
+  const mutation = useMutation({
+    mutationFn: async (isOutOfOffice: boolean) => {
+      const response = await apiRequest("PATCH", `/api/distribution/reps/${user!.id}`, { isOutOfOffice });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/distribution/reps/me"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/distribution/reps"] });
+      toast({ title: "Availability updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Availability</CardTitle>
+        <CardDescription>While you are out of office, no new leads are distributed to you</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between max-w-md">
+          <p className="font-medium">Out of office</p>
+          <Switch
+            checked={data?.isOutOfOffice ?? false}
+            disabled={!user || mutation.isPending}
+            onCheckedChange={(checked) => mutation.mutate(checked)}
+            data-testid="switch-out-of-office"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Loader2,
+  StickyNote,
+  CalendarClock,
+  Phone,
+  MessageCircle,
+  CheckSquare,
+  FileText,
+  History,
+  ArrowRightLeft,
+  type LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { apiRequest } from "@/lib/queryClient";
+import { mentionsToPlainText } from "@shared/mentions";
+import type { PipelineWithStages } from "@shared/pipelines";
+import {
+  timelineEntryTypes,
+  timelineEntryLabels,
+  type TimelineEntry,
+  type TimelineEntryType,
+  type TimelineResponse,
+} from "@shared/timeline";
+
+interface EntityTimelineProps {
+  entity: "leads" | "clients";
+  id: string;
+}
+
+const PAGE_SIZE = 25;
+
+const entryIcons: Record<TimelineEntryType, LucideIcon> = {
+  note: StickyNote,
+  follow_up: CalendarClock,
+  call: Phone,
+  whatsapp_message: MessageCircle,
+  task: CheckSquare,
+  quotation: FileText,
+  stage_change: ArrowRightLeft,
+  activity: History,
+};
+
+function formatDuration(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+type StageNameLookup = (pipelineId: string | null, key: string) => string;
+
+// Headline, body text and an optional status badge for each kind of entry
+function describeEntry(entry: TimelineEntry, stageName: StageNameLookup): { title: string; body?: string | null; badge?: string } {
+  switch (entry.type) {
+    case "note":
+      return { title: entry.data.type === "note" ? "Note" : `Note (${entry.data.type})`, body: mentionsToPlainText(entry.data.content) };
+    case "follow_up":
+      return {
+        title: `Follow-up scheduled for ${format(new Date(entry.data.scheduledAt), "MMM d, yyyy h:mm a")}`,
+        body: entry.data.notes,
+        badge: entry.data.isCompleted ? "completed" : undefined,
+      };
+    case "call":
+      return {
+        title: `${entry.data.callType} call${entry.data.duration ? ` · ${formatDuration(entry.data.duration)}` : ""}`,
+        body: entry.data.notes,
+        badge: entry.data.outcome?.replace(/_/g, " "),
+      };
+    case "whatsapp_message":
+      return {
+        title: entry.data.isNote ? "WhatsApp internal note" : entry.data.direction === "in" ? "WhatsApp received" : "WhatsApp sent",
+        body: entry.data.content,
+      };
+    case "task":
+      return { title: `Task: ${entry.data.title}`, body: entry.data.description, badge: entry.data.status.replace(/_/g, " ") };
+    case "quotation":
+      return {
+        title: `Quotation ${entry.data.quotationNumber} · ${entry.data.packageName}`,
+        body: `Total ₹${Number(entry.data.total).toLocaleString()}`,
+        badge: entry.data.status,
+      };
+    case "stage_change":
+      return {
+        title: entry.data.fromStage
+          ? `Moved from ${stageName(entry.data.fromPipelineId, entry.data.fromStage)} to ${stageName(entry.data.pipelineId, entry.data.toStage)}`
+          : `Entered ${stageName(entry.data.pipelineId, entry.data.toStage)}`,
+      };
+    case "activity":
+      return { title: entry.data.action.replace(/_/g, " "), body: entry.data.details };
+  }
+}
+
+export function EntityTimeline({ entity, id }: EntityTimelineProps) {
+  const [types, setTypes] = useState<TimelineEntryType[]>([]);
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery<TimelineResponse>({
+    queryKey: [`/api/${entity}`, id, "timeline", types],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ page: String(pageParam), limit: String(PAGE_SIZE) });
+      if (types.length > 0) params.set("types", types.join(","));
+      const response = await apiRequest("GET", `/api/${entity}/${id}/timeline?${params}`);
+      return response.json();
+    },
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.pagination.page < lastPage.pagination.totalPages ? lastPage.pagination.page + 1 : undefined,
+    staleTime: 0,
+  });
+
+  const entries = data?.pages.flatMap(page => page.data) ?? [];
+
+  // Stage keys are shown by name; stages deleted since fall back to the key
+  const { data: pipelines = [] } = useQuery<PipelineWithStages[]>({ queryKey: ["/api/pipelines"] });
+  const stageName: StageNameLookup = (pipelineId, key) =>
+    pipelines.find((p) => p.id === pipelineId)?.stages.find((s) => s.key === key)?.name ?? key.replace(/_/g, " ");
+
+  return (
+    <div className="space-y-4">
+      <ToggleGroup
+        type="multiple"
+        size="sm"
+        variant="outline"
+        className="flex-wrap justify-start"
+        value={types}
+        onValueChange={(value) => setTypes(value as TimelineEntryType[])}
+      >
+        {timelineEntryTypes.map((type) => (
+          <ToggleGroupItem key={type} value={type} data-testid={`toggle-timeline-${type}`}>
+            {timelineEntryLabels[type]}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      {isLoading ? (
+        <div className="flex h-32 items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">Nothing on the timeline yet.</p>
+      ) : (
+        <ol className="relative space-y-4 border-l pl-6">
+          {entries.map((entry) => {
+            const Icon = entryIcons[entry.type];
+            const { title, body, badge } = describeEntry(entry, stageName);
+            return (
+              <li key={`${entry.type}-${entry.id}`} className="relative" data-testid={`timeline-entry-${entry.type}-${entry.id}`}>
+                <span className="absolute -left-[2.1rem] flex h-6 w-6 items-center justify-center rounded-full border bg-background">
+                  <Icon className="h-3.5 w-3.5 text-muted-foreground" />
+                </span>
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-sm font-medium first-letter:uppercase">{title}</p>
+                  {badge && <Badge variant="outline" className="shrink-0 capitalize">{badge}</Badge>}
+                </div>
+                {body && <p className="mt-1 whitespace-pre-wrap text-sm text-muted-foreground">{body}</p>}
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {format(new Date(entry.occurredAt), "MMM d, yyyy h:mm a")}
+                  {entry.userName && ` · ${entry.userName}`}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {hasNextPage && (
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+          data-testid="button-timeline-load-more"
+        >
+          {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Load more
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { ForecastReport } from "@shared/forecast";
+import type { PipelineWithStages } from "@shared/pipelines";
+
+const horizons = ["3", "6", "12"] as const;
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+// Pipeline value by expected close month: committed vs best case, with the probability-weighted forecast
+export function ForecastReportCard() {
+  const [months, setMonths] = useState<string>("6");
+  const [pipelineId, setPipelineId] = useState<string>("all");
+
+  const { data: pipelines = [] } = useQuery<PipelineWithStages[]>({ queryKey: ["/api/pipelines"] });
+  const { data, isLoading } = useQuery<ForecastReport>({
+    queryKey: ["/api/reports/forecast", months, pipelineId],
+    queryFn: async () => {
+      const params = new URLSearchParams({ months });
+      if (pipelineId !== "all") params.set("pipelineId", pipelineId);
+      const res = await fetch(`/api/reports/forecast?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch forecast");
+      return res.json();
+    },
+  });
+
+  const rows = data?.months ?? [];
+  const total = (key: "won" | "committed" | "bestCase" | "weighted") => rows.reduce((sum, row) => sum + row[key], 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="text-base font-semibold">Sales Forecast</CardTitle>
+            <CardDescription>
+              Deal value by expected close month; won deals count in the month they were won. Committed counts won deals and open deals at
+              {" "}{data?.committedMinProbability ?? 70}% probability or more; best case counts every open deal.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {pipelines.length > 1 && (
+              <Select value={pipelineId} onValueChange={setPipelineId}>
+                <SelectTrigger className="w-40" data-testid="select-forecast-pipeline">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All pipelines</SelectItem>
+                  {pipelines.map((pipeline) => (
+                    <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={months} onValueChange={setMonths}>
+              <SelectTrigger className="w-36" data-testid="select-forecast-months">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {horizons.map((horizon) => (
+                  <SelectItem key={horizon} value={horizon}>Next {horizon} months</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex h-[400px] items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              {([
+                ["Won", total("won")],
+                ["Weighted", total("weighted")],
+                ["Committed", total("committed")],
+                ["Best case", total("bestCase")],
+              ] as const).map(([label, value]) => (
+                <div key={label} className="rounded-lg border p-3" data-testid={`forecast-total-${label.toLowerCase().replace(" ", "-")}`}>
+                  <p className="text-xs text-muted-foreground">{label}</p>
+                  <p className="text-lg font-semibold">{formatCurrency(value)}</p>
+                </div>
+              ))}
+            </div>
+            <div className="h-[400px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={rows}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                  <XAxis dataKey="label" fontSize={12} tickLine={false} axisLine={false} />
+                  <YAxis
+                    fontSize={12}
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(value) => `₹${value / 1000}k`}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "8px",
+                    }}
+                    formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                  />
+                  <Legend />
+                  <Bar dataKey="committed" name="Committed" fill="hsl(var(--chart-2))" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="bestCase" name="Best case" fill="hsl(var(--chart-4))" radius={[4, 4, 0, 0]} />
+                  <Line
+                    type="monotone"
+                    dataKey="weighted"
+                    name="Weighted"
+                    stroke="hsl(var(--chart-1))"
+                    strokeWidth={2}
+                    dot={{ fill: "hsl(var(--chart-1))", strokeWidth: 2 }}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+            {data && (data.overdue.deals > 0 || data.unscheduled.deals > 0) && (
+              <div className="space-y-1 text-sm text-muted-foreground" data-testid="forecast-notes">
+                {data.overdue.deals > 0 && (
+                  <p>
+                    {data.overdue.deals} open deal{data.overdue.deals !== 1 ? "s" : ""} worth {formatCurrency(data.overdue.value)} passed
+                    their expected close date and are counted in this month.
+                  </p>
+                )}
+                {data.unscheduled.deals > 0 && (
+                  <p>
+                    {data.unscheduled.deals} open deal{data.unscheduled.deals !== 1 ? "s" : ""} worth {formatCurrency(data.unscheduled.value)}
+                    {" "}(weighted {formatCurrency(data.unscheduled.weighted)}) have no expected close date and are not shown.
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,342 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useCustomFields } from "@/components/custom-fields-input";
+import type { SerializedCustomFieldDefinition } from "@shared/customFields";
+import type { PipelineWithStages } from "@shared/pipelines";
+import {
+  Campaign,
+  LeadView,
+  LeadViewFilters,
+  User,
+  interestLevels,
+} from "@shared/schema";
+
+// Saved views come back from the API with their filters already parsed
+export type SavedLeadView = Omit<LeadView, "filters"> & { filters: LeadViewFilters };
+
+// Filters edited in this dialog; search/status/source/score live in the page's quick filter bar
+export type AdvancedLeadFilters = Omit<LeadViewFilters, "search" | "status" | "source" | "score">;
+
+interface LeadFilterBuilderProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: AdvancedLeadFilters;
+  onApply: (filters: AdvancedLeadFilters) => void;
+}
+
+const ANY = "any";
+
+export function countActiveFilters(filters: AdvancedLeadFilters): number {
+  const { customFields, ...rest } = filters;
+  const customCount = Object.values(customFields ?? {}).filter(Boolean).length;
+  return Object.values(rest).filter(value => value !== undefined && value !== "").length + customCount;
+}
+
+// Number and date custom field filters are sent as "from..to" ranges
+function splitRange(value: string | undefined): [string, string] {
+  if (!value) return ["", ""];
+  if (!value.includes("..")) return [value, value];
+  const [from, to] = value.split("..");
+  return [from, to];
+}
+
+export function LeadFilterBuilder({ open, onOpenChange, filters, onApply }: LeadFilterBuilderProps) {
+  const [draft, setDraft] = useState<AdvancedLeadFilters>(filters);
+
+  useEffect(() => {
+    if (open) setDraft(filters);
+  }, [open, filters]);
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: campaigns = [] } = useQuery<Campaign[]>({
+    queryKey: ["/api/campaigns"],
+  });
+
+  const { data: pipelines = [] } = useQuery<PipelineWithStages[]>({
+    queryKey: ["/api/pipelines"],
+  });
+  // Stages of the chosen pipeline; with none chosen, every stage key once (pipelines may share keys)
+  const stageOptions = (() => {
+    const chosen = pipelines.filter(p => !draft.pipelineId || p.id === draft.pipelineId);
+    const byKey = new Map(chosen.flatMap(p => p.stages).map(stage => [stage.key, stage.name] as const));
+    return Array.from(byKey, ([key, name]) => ({ key, name }));
+  })();
+
+  const customFields = useCustomFields("lead");
+
+  const setText = (key: keyof AdvancedLeadFilters, value: string) => {
+    setDraft(d => ({ ...d, [key]: value === "" || value === ANY ? undefined : value }));
+  };
+
+  const setNumber = (key: keyof AdvancedLeadFilters, value: string) => {
+    setDraft(d => ({ ...d, [key]: value === "" ? undefined : Number(value) }));
+  };
+
+  const textInput = (key: keyof AdvancedLeadFilters, label: string, type = "text") => (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type={type}
+        value={(draft[key] as string | undefined) ?? ""}
+        onChange={(e) => setText(key, e.target.value)}
+        data-testid={`filter-${key}`}
+      />
+    </div>
+  );
+
+  const setCustomField = (key: string, value: string | undefined) => {
+    setDraft(d => {
+      const next = { ...d.customFields };
+      if (value === undefined || value === "" || value === ANY || value === "..") {
+        delete next[key];
+      } else {
+        next[key] = value;
+      }
+      return { ...d, customFields: Object.keys(next).length > 0 ? next : undefined };
+    });
+  };
+
+  const customFieldFilter = (field: SerializedCustomFieldDefinition) => {
+    const current = draft.customFields?.[field.key];
+    const testId = `filter-custom-${field.key}`;
+
+    if (field.fieldType === "number" || field.fieldType === "date") {
+      const [from, to] = splitRange(current);
+      const type = field.fieldType === "number" ? "number" : "date";
+      return (
+        <div key={field.id} className="col-span-2 grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs">{field.label} from</Label>
+            <Input type={type} value={from} onChange={(e) => setCustomField(field.key, `${e.target.value}..${to}`)} data-testid={`${testId}-from`} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">{field.label} to</Label>
+            <Input type={type} value={to} onChange={(e) => setCustomField(field.key, `${from}..${e.target.value}`)} data-testid={`${testId}-to`} />
+          </div>
+        </div>
+      );
+    }
+
+    if (field.fieldType === "text") {
+      return (
+        <div key={field.id} className="space-y-1">
+          <Label className="text-xs">{field.label} contains</Label>
+          <Input value={current ?? ""} onChange={(e) => setCustomField(field.key, e.target.value)} data-testid={testId} />
+        </div>
+      );
+    }
+
+    const options = field.fieldType === "boolean" ? ["true", "false"] : field.options;
+    return (
+      <div key={field.id} className="space-y-1">
+        <Label className="text-xs">{field.label}</Label>
+        <Select value={current ?? ANY} onValueChange={(val) => setCustomField(field.key, val)}>
+          <SelectTrigger data-testid={testId}>
+            <SelectValue placeholder="Any" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any</SelectItem>
+            {options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {field.fieldType === "boolean" ? (option === "true" ? "Yes" : "No") : option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    );
+  };
+
+  const numberInput = (key: keyof AdvancedLeadFilters, label: string) => (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type="number"
+        value={(draft[key] as number | undefined) ?? ""}
+        onChange={(e) => setNumber(key, e.target.value)}
+        data-testid={`filter-${key}`}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Advanced Filters</DialogTitle>
+          <DialogDescription>
+            Combine any lead fields. Save the result as a view to reuse it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-4">
+          <div className="space-y-5">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label className="text-xs">Owner</Label>
+                <Select value={draft.ownerId ?? ANY} onValueChange={(val) => setText("ownerId", val)}>
+                  <SelectTrigger data-testid="filter-ownerId">
+                    <SelectValue placeholder="Any owner" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any owner</SelectItem>
+                    {users.filter(u => u.role !== "client").map((user) => (
+                      <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {pipelines.length > 1 && (
+                <div className="space-y-1">
+                  <Label className="text-xs">Pipeline</Label>
+                  <Select
+                    value={draft.pipelineId ?? ANY}
+                    onValueChange={(val) => {
+                      setText("pipelineId", val);
+                      setText("pipelineStage", ANY);
+                    }}
+                  >
+                    <SelectTrigger data-testid="filter-pipelineId">
+                      <SelectValue placeholder="Any pipeline" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any pipeline</SelectItem>
+                      {pipelines.map((pipeline) => (
+                        <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label className="text-xs">Pipeline Stage</Label>
+                <Select value={draft.pipelineStage ?? ANY} onValueChange={(val) => setText("pipelineStage", val)}>
+                  <SelectTrigger data-testid="filter-pipelineStage">
+                    <SelectValue placeholder="Any stage" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any stage</SelectItem>
+                    {stageOptions.map((stage) => (
+                      <SelectItem key={stage.key} value={stage.key}>
+                        {stage.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Campaign</Label>
+                <Select value={draft.campaignId ?? ANY} onValueChange={(val) => setText("campaignId", val)}>
+                  <SelectTrigger data-testid="filter-campaignId">
+                    <SelectValue placeholder="Any campaign" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any campaign</SelectItem>
+                    {campaigns.map((campaign) => (
+                      <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Interest Level</Label>
+                <Select value={draft.interestLevel ?? ANY} onValueChange={(val) => setText("interestLevel", val)}>
+                  <SelectTrigger data-testid="filter-interestLevel">
+                    <SelectValue placeholder="Any interest" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any interest</SelectItem>
+                    {interestLevels.map((level) => (
+                      <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium mb-2">UTM Tracking</p>
+              <div className="grid grid-cols-3 gap-4">
+                {textInput("utmSource", "Source")}
+                {textInput("utmMedium", "Medium")}
+                {textInput("utmCampaign", "Campaign")}
+                {textInput("utmContent", "Content")}
+                {textInput("utmTerm", "Term")}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {numberInput("budgetMin", "Budget from")}
+              {numberInput("budgetMax", "Budget to")}
+              {numberInput("leadScoreMin", "Lead score from (0-100)")}
+              {numberInput("leadScoreMax", "Lead score to (0-100)")}
+              {textInput("createdFrom", "Created from", "date")}
+              {textInput("createdTo", "Created to", "date")}
+              {textInput("lastActivityFrom", "Last activity from", "date")}
+              {textInput("lastActivityTo", "Last activity to", "date")}
+            </div>
+
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <p className="font-medium text-sm">Has overdue follow-up</p>
+                <p className="text-xs text-muted-foreground">Only leads with a pending follow-up past its scheduled time</p>
+              </div>
+              <Switch
+                checked={draft.hasOverdueFollowUp === true}
+                onCheckedChange={(checked) => setDraft(d => ({ ...d, hasOverdueFollowUp: checked ? true : undefined }))}
+                data-testid="filter-hasOverdueFollowUp"
+              />
+            </div>
+
+            {customFields.length > 0 && (
+              <div>
+                <p className="text-sm font-medium mb-2">Custom Fields</p>
+                <div className="grid grid-cols-2 gap-4">
+                  {customFields.map(customFieldFilter)}
+                </div>
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setDraft({})} data-testid="button-clear-filters">
+            Clear
+          </Button>
+          <Button
+            onClick={() => {
+              onApply(draft);
+              onOpenChange(false);
+            }}
+            data-testid="button-apply-filters"
+          >
+            Apply Filters
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
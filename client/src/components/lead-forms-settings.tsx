@@ -0,0 +1,501 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, FileCode2, Plus, Trash2, Pencil, Code, Copy, ArrowUp, ArrowDown, ExternalLink, KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  leadFormStandardFields,
+  leadSources,
+  type Campaign,
+  type LeadForm,
+  type LeadFormField,
+  type LeadFormStandardField,
+} from "@shared/schema";
+import type { SerializedCustomFieldDefinition } from "@shared/customFields";
+import {
+  defaultLeadFormFields,
+  leadFormStandardFieldLabels,
+  leadFormIframeSnippet,
+  leadFormScriptSnippet,
+  leadFormUrl,
+  LEAD_FORM_KEY_HEADER,
+  LEAD_FORM_SIGNATURE_HEADER,
+} from "@shared/leadForms";
+
+// Select value standing for "no campaign"; Radix selects cannot hold an empty string
+const NO_CAMPAIGN = "none";
+const ALWAYS_ON_FORM = ["name", "mobile"];
+
+interface LeadFormDraft {
+  name: string;
+  source: string;
+  campaignId: string | null;
+  submitLabel: string;
+  thankYouMessage: string;
+  redirectUrl: string;
+  fields: LeadFormField[];
+}
+
+const emptyDraft: LeadFormDraft = {
+  name: "",
+  source: "website",
+  campaignId: null,
+  submitLabel: "Submit",
+  thankYouMessage: "Thank you! We will be in touch soon.",
+  redirectUrl: "",
+  fields: defaultLeadFormFields,
+};
+
+const fieldId = (field: Pick<LeadFormField, "key" | "custom">) => `${field.custom ? "custom" : "lead"}:${field.key}`;
+
+function CopyableSnippet({ label, value, testId }: { label: string; value: string; testId: string }) {
+  const { toast } = useToast();
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <Label>{label}</Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={async () => {
+            await navigator.clipboard.writeText(value);
+            toast({ title: "Copied to clipboard" });
+          }}
+          data-testid={`button-copy-${testId}`}
+        >
+          <Copy className="mr-2 h-3 w-3" />
+          Copy
+        </Button>
+      </div>
+      <pre className="whitespace-pre-wrap break-all rounded-md border bg-muted p-2 text-xs">{value}</pre>
+    </div>
+  );
+}
+
+function LeadFormEditor({ form, open, onOpenChange }: {
+  form: LeadForm | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<LeadFormDraft>(() => form
+    ? {
+      name: form.name,
+      source: form.source,
+      campaignId: form.campaignId,
+      submitLabel: form.submitLabel,
+      thankYouMessage: form.thankYouMessage,
+      redirectUrl: form.redirectUrl ?? "",
+      fields: form.fields,
+    }
+    : emptyDraft);
+  const [fieldToAdd, setFieldToAdd] = useState("");
+
+  const { data: customFields = [] } = useQuery<SerializedCustomFieldDefinition[]>({ queryKey: ["/api/custom-fields"] });
+  const { data: campaigns = [] } = useQuery<Campaign[]>({ queryKey: ["/api/campaigns"] });
+  const leadCustomFields = customFields.filter(f => f.entityType === "lead" && f.isActive);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { ...draft, redirectUrl: draft.redirectUrl.trim() || null };
+      const response = form
+        ? await apiRequest("PATCH", `/api/lead-forms/${form.id}`, body)
+        : await apiRequest("POST", "/api/lead-forms", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lead-forms"] });
+      toast({ title: form ? "Form updated" : "Form created" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const onForm = new Set(draft.fields.map(fieldId));
+  const addable = [
+    ...leadFormStandardFields
+      .filter(key => !onForm.has(fieldId({ key, custom: false })))
+      .map(key => ({ key, custom: false, label: leadFormStandardFieldLabels[key] })),
+    ...leadCustomFields
+      .filter(f => !onForm.has(fieldId({ key: f.key, custom: true })))
+      .map(f => ({ key: f.key, custom: true, label: f.label })),
+  ];
+
+  const updateField = (index: number, updates: Partial<LeadFormField>) =>
+    setDraft({ ...draft, fields: draft.fields.map((field, i) => (i === index ? { ...field, ...updates } : field)) });
+  const moveField = (index: number, offset: number) => {
+    const fields = [...draft.fields];
+    [fields[index], fields[index + offset]] = [fields[index + offset], fields[index]];
+    setDraft({ ...draft, fields });
+  };
+  const addField = () => {
+    const field = addable.find(f => fieldId(f) === fieldToAdd);
+    if (!field) return;
+    setDraft({ ...draft, fields: [...draft.fields, { ...field, required: false }] });
+    setFieldToAdd("");
+  };
+  const fieldKind = (field: LeadFormField) =>
+    field.custom
+      ? customFields.find(f => f.key === field.key)?.label ?? `${field.key} (deleted)`
+      : leadFormStandardFieldLabels[field.key as LeadFormStandardField];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{form ? "Edit Lead Form" : "New Lead Form"}</DialogTitle>
+          <DialogDescription>Submissions become new leads with the form's source and campaign.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label>Name (shown as the form's heading)</Label>
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Get a free quote"
+                data-testid="input-lead-form-name"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Submit button</Label>
+              <Input
+                value={draft.submitLabel}
+                onChange={(e) => setDraft({ ...draft, submitLabel: e.target.value })}
+                data-testid="input-lead-form-submit-label"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Lead source</Label>
+              <Select value={draft.source} onValueChange={(source) => setDraft({ ...draft, source })}>
+                <SelectTrigger data-testid="select-lead-form-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {leadSources.map((source) => (
+                    <SelectItem key={source} value={source} className="capitalize">{source}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Campaign</Label>
+              <Select
+                value={draft.campaignId ?? NO_CAMPAIGN}
+                onValueChange={(value) => setDraft({ ...draft, campaignId: value === NO_CAMPAIGN ? null : value })}
+              >
+                <SelectTrigger data-testid="select-lead-form-campaign">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CAMPAIGN}>No campaign</SelectItem>
+                  {campaigns.map((campaign) => (
+                    <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Fields</Label>
+            {draft.fields.map((field, index) => (
+              <div key={fieldId(field)} className="flex items-center gap-2 rounded-md border p-2" data-testid={`lead-form-field-${field.key}`}>
+                <div className="flex flex-col">
+                  <Button variant="ghost" size="icon" className="h-5 w-5" disabled={index === 0} onClick={() => moveField(index, -1)}>
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5"
+                    disabled={index === draft.fields.length - 1}
+                    onClick={() => moveField(index, 1)}
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                </div>
+                <Input className="h-8 flex-1" value={field.label} onChange={(e) => updateField(index, { label: e.target.value })} />
+                <span className="w-28 truncate text-xs text-muted-foreground">{fieldKind(field)}</span>
+                <label className="flex items-center gap-1 text-xs">
+                  <Switch
+                    checked={field.required}
+                    disabled={!field.custom && ALWAYS_ON_FORM.includes(field.key)}
+                    onCheckedChange={(required) => updateField(index, { required })}
+                  />
+                  Required
+                </label>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  disabled={!field.custom && ALWAYS_ON_FORM.includes(field.key)}
+                  onClick={() => setDraft({ ...draft, fields: draft.fields.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {addable.length > 0 && (
+              <div className="flex gap-2">
+                <Select value={fieldToAdd} onValueChange={setFieldToAdd}>
+                  <SelectTrigger className="flex-1" data-testid="select-lead-form-add-field">
+                    <SelectValue placeholder="Add a field..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {addable.map((field) => (
+                      <SelectItem key={fieldId(field)} value={fieldId(field)}>
+                        {field.label}{field.custom ? " (custom)" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" onClick={addField} disabled={!fieldToAdd} data-testid="button-lead-form-add-field">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label>Thank-you message</Label>
+            <Textarea
+              value={draft.thankYouMessage}
+              onChange={(e) => setDraft({ ...draft, thankYouMessage: e.target.value })}
+              rows={2}
+              data-testid="input-lead-form-thank-you"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Redirect URL (optional)</Label>
+            <Input
+              value={draft.redirectUrl}
+              onChange={(e) => setDraft({ ...draft, redirectUrl: e.target.value })}
+              placeholder="https://example.com/thank-you"
+              data-testid="input-lead-form-redirect"
+            />
+            <p className="text-xs text-muted-foreground">When set, visitors go here instead of seeing the thank-you message.</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!draft.name.trim() || draft.fields.some(f => !f.label.trim()) || saveMutation.isPending}
+            data-testid="button-save-lead-form"
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Form
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function EmbedDialog({ form, onOpenChange, onRotated }: {
+  form: LeadForm | null;
+  onOpenChange: (open: boolean) => void;
+  onRotated: (form: LeadForm) => void;
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const baseUrl = window.location.origin;
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/lead-forms/${id}/rotate-keys`);
+      return response.json() as Promise<LeadForm>;
+    },
+    onSuccess: (rotated) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lead-forms"] });
+      onRotated(rotated);
+      toast({ title: "Keys rotated", description: "Update any integration using the old key or secret." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!form} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Embed "{form?.name}"</DialogTitle>
+          <DialogDescription>
+            The script embed picks up UTM parameters from the page it is on. With the iframe or a direct link, add
+            utm_source, utm_campaign and so on to the form's URL yourself.
+          </DialogDescription>
+        </DialogHeader>
+        {form && (
+          <div className="space-y-4">
+            <CopyableSnippet label="Script embed (recommended)" value={leadFormScriptSnippet(baseUrl, form.id)} testId="lead-form-script" />
+            <CopyableSnippet label="Iframe" value={leadFormIframeSnippet(baseUrl, form.id)} testId="lead-form-iframe" />
+            <CopyableSnippet label="Direct link" value={leadFormUrl(baseUrl, form.id)} testId="lead-form-link" />
+
+            <div className="space-y-3 border-t pt-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="font-medium">Posting from your own server</p>
+                  <p className="text-sm text-muted-foreground">
+                    POST to /api/leads/capture with formId "{form.id}" in the body, and either the API key in the{" "}
+                    {LEAD_FORM_KEY_HEADER} header or a {LEAD_FORM_SIGNATURE_HEADER} header of the form
+                    t=&lt;unix seconds&gt;,v1=&lt;HMAC-SHA256 hex of "t.raw body" keyed with the signing secret&gt;.
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={rotateMutation.isPending}
+                  onClick={() => rotateMutation.mutate(form.id)}
+                  data-testid="button-rotate-lead-form-keys"
+                >
+                  {rotateMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+                  Rotate
+                </Button>
+              </div>
+              <CopyableSnippet label="API key" value={form.apiKey} testId="lead-form-api-key" />
+              <CopyableSnippet label="Signing secret" value={form.signingSecret} testId="lead-form-signing-secret" />
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function LeadFormsSettings() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<{ form: LeadForm | null } | null>(null);
+  const [embedding, setEmbedding] = useState<LeadForm | null>(null);
+
+  const { data: forms = [], isLoading } = useQuery<LeadForm[]>({ queryKey: ["/api/lead-forms"] });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/lead-forms/${id}`, { isActive });
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/lead-forms"] }),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/lead-forms/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lead-forms"] });
+      toast({ title: "Form deleted" });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <FileCode2 className="h-5 w-5" />
+            Lead Forms
+          </CardTitle>
+          <CardDescription>
+            Hosted forms to embed on your websites. Submissions arrive as new leads with UTM tracking.
+          </CardDescription>
+        </div>
+        <Button onClick={() => setEditing({ form: null })} data-testid="button-add-lead-form">
+          <Plus className="mr-2 h-4 w-4" />
+          New Form
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex h-16 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : forms.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">No lead forms yet.</p>
+        ) : (
+          forms.map((form) => (
+            <div key={form.id} className="flex items-center justify-between gap-3 rounded-lg border p-3" data-testid={`lead-form-${form.id}`}>
+              <div className="min-w-0">
+                <p className="font-medium">
+                  {form.name}
+                  <Badge variant="outline" className="ml-2 capitalize">{form.source}</Badge>
+                  {!form.isActive && <Badge variant="secondary" className="ml-2">Inactive</Badge>}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {form.fields.length} fields · {form.viewCount} views · {form.submissionCount} submissions
+                  {form.viewCount > 0 && ` · ${Math.round((form.submissionCount / form.viewCount) * 100)}% submitted`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Switch
+                  checked={form.isActive}
+                  onCheckedChange={(isActive) => toggleMutation.mutate({ id: form.id, isActive })}
+                  data-testid={`switch-lead-form-${form.id}`}
+                />
+                <Button variant="ghost" size="icon" asChild>
+                  <a href={`${leadFormUrl("", form.id)}?preview=1`} target="_blank" rel="noreferrer" title="Preview">
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                </Button>
+                <Button variant="ghost" size="icon" title="Embed code" onClick={() => setEmbedding(form)} data-testid={`button-embed-lead-form-${form.id}`}>
+                  <Code className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" title="Edit" onClick={() => setEditing({ form })} data-testid={`button-edit-lead-form-${form.id}`}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive"
+                  onClick={() => deleteMutation.mutate(form.id)}
+                  data-testid={`button-delete-lead-form-${form.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      {editing && (
+        <LeadFormEditor
+          key={editing.form?.id ?? "new"}
+          form={editing.form}
+          open
+          onOpenChange={(open) => !open && setEditing(null)}
+        />
+      )}
+      <EmbedDialog form={embedding} onOpenChange={(open) => !open && setEmbedding(null)} onRotated={setEmbedding} />
+    </Card>
+  );
+}
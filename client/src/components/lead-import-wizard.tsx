@@ -0,0 +1,512 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Upload, FileText, CheckCircle2, XCircle, Loader2, SkipForward, RefreshCw, Download, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useCustomFields } from "@/components/custom-fields-input";
+import {
+  leadImportFields,
+  type DuplicateStrategy,
+  type LeadImportMapping,
+  type LeadImportRowResult,
+  type LeadImportSummary,
+  type LeadImportTarget,
+  type SerializedLeadImportJob,
+} from "@shared/leadImport";
+
+interface ImportPreview {
+  headers: string[];
+  sampleRows: string[][];
+  totalRows: number;
+  suggestedMapping: LeadImportMapping;
+}
+
+interface LeadImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Step = "upload" | "map" | "review" | "importing";
+
+const IGNORE = "__ignore__";
+
+const duplicateStrategyLabels: Record<DuplicateStrategy, string> = {
+  skip: "Skip the row",
+  update: "Update the existing lead",
+  create: "Create a new lead anyway",
+};
+
+const actionBadges: Record<string, { label: string; className: string }> = {
+  create: { label: "Create", className: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400" },
+  update: { label: "Update", className: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400" },
+  skip: { label: "Skip", className: "bg-gray-100 text-gray-700 dark:bg-gray-900/30 dark:text-gray-400" },
+  error: { label: "Error", className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400" },
+};
+
+export function LeadImportWizard({ open, onOpenChange }: LeadImportWizardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const customFields = useCustomFields("lead");
+  const [step, setStep] = useState<Step>("upload");
+  const [csvText, setCsvText] = useState("");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mapping, setMapping] = useState<LeadImportMapping>([]);
+  const [duplicateStrategy, setDuplicateStrategy] = useState<DuplicateStrategy>("skip");
+  const [summary, setSummary] = useState<LeadImportSummary | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [jobId, setJobId] = useState<string | null>(null);
+
+  const reset = () => {
+    setStep("upload");
+    setCsvText("");
+    setFileName("");
+    setJobId(null);
+    setPreview(null);
+    setMapping([]);
+    setDuplicateStrategy("skip");
+    setSummary(null);
+  };
+
+  const targetOptions: { value: LeadImportTarget; label: string }[] = [
+    ...leadImportFields.map(f => ({ value: f.key as LeadImportTarget, label: f.label })),
+    ...customFields.map(f => ({ value: `custom:${f.key}` as LeadImportTarget, label: `${f.label} (custom)` })),
+  ];
+
+  const previewMutation = useMutation({
+    mutationFn: async (text: string) => {
+      const response = await apiRequest("POST", "/api/leads/import/preview", { csvText: text });
+      return response.json() as Promise<ImportPreview>;
+    },
+    onSuccess: (result) => {
+      setPreview(result);
+      setMapping(result.suggestedMapping);
+      setStep("map");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Invalid CSV", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const dryRunMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/leads/import/dry-run", { csvText, mapping, duplicateStrategy });
+      return response.json() as Promise<LeadImportSummary>;
+    },
+    onSuccess: (result) => {
+      setSummary(result);
+      setStep("review");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const startImportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/leads/import", { csvText, fileName, mapping, duplicateStrategy });
+      return response.json() as Promise<SerializedLeadImportJob>;
+    },
+    onSuccess: (job) => {
+      setJobId(job.id);
+      setStep("importing");
+      queryClient.invalidateQueries({ queryKey: ["/api/lead-import-jobs"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const { data: recentJobs = [] } = useQuery<SerializedLeadImportJob[]>({
+    queryKey: ["/api/lead-import-jobs"],
+    enabled: open && step === "upload",
+  });
+
+  // Poll the running job until it settles
+  const { data: job } = useQuery<SerializedLeadImportJob>({
+    queryKey: ["/api/lead-import-jobs", jobId],
+    enabled: !!jobId,
+    staleTime: 0,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return !status || status === "pending" || status === "running" ? 1000 : false;
+    },
+  });
+
+  const jobSettled = job && job.status !== "pending" && job.status !== "running";
+  useEffect(() => {
+    if (!jobSettled) return;
+    queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/lead-import-jobs"], exact: true });
+  }, [jobSettled, queryClient]);
+
+  const undoMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/lead-import-jobs/${id}/undo`, {});
+      return response.json() as Promise<{ deleted: number; kept: number }>;
+    },
+    onSuccess: (result, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/lead-import-jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/lead-import-jobs", id] });
+      toast({
+        title: "Import undone",
+        description: result.kept > 0
+          ? `${result.deleted} leads removed. ${result.kept} were kept because they changed after the import.`
+          : `${result.deleted} leads removed.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Undo failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const downloadErrorReport = async (id: string) => {
+    try {
+      const response = await fetch(`/api/lead-import-jobs/${id}/errors`, { credentials: "include" });
+      if (!response.ok) throw new Error("Download failed");
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `import_errors_${id}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({ title: "Download failed", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = e.target?.result as string;
+      setCsvText(text);
+      setFileName(file.name);
+      previewMutation.mutate(text);
+    };
+    reader.readAsText(file);
+    event.target.value = "";
+  };
+
+  const setColumnTarget = (column: number, value: string) => {
+    setMapping(current => {
+      const next = [...current];
+      // A field can only come from one column; moving it clears the previous column
+      const target = value === IGNORE ? null : (value as LeadImportTarget);
+      if (target) {
+        next.forEach((existing, i) => {
+          if (existing === target) next[i] = null;
+        });
+      }
+      next[column] = target;
+      return next;
+    });
+  };
+
+  const mappedTargets = mapping.filter(Boolean);
+  const missingRequired = leadImportFields
+    .filter(f => "required" in f && f.required && !mappedTargets.includes(f.key))
+    .map(f => f.label);
+
+  const renderSummaryCounts = (result: Pick<LeadImportSummary, "dryRun" | "created" | "updated" | "skipped" | "failed">) => (
+    <div className="grid grid-cols-4 gap-2 text-center">
+      <div className="p-3 bg-muted rounded-lg">
+        <CheckCircle2 className="h-4 w-4 mx-auto text-green-500 mb-1" />
+        <p className="font-medium">{result.created}</p>
+        <p className="text-xs text-muted-foreground">{result.dryRun ? "to create" : "created"}</p>
+      </div>
+      <div className="p-3 bg-muted rounded-lg">
+        <RefreshCw className="h-4 w-4 mx-auto text-blue-500 mb-1" />
+        <p className="font-medium">{result.updated}</p>
+        <p className="text-xs text-muted-foreground">{result.dryRun ? "to update" : "updated"}</p>
+      </div>
+      <div className="p-3 bg-muted rounded-lg">
+        <SkipForward className="h-4 w-4 mx-auto text-muted-foreground mb-1" />
+        <p className="font-medium">{result.skipped}</p>
+        <p className="text-xs text-muted-foreground">{result.dryRun ? "to skip" : "skipped"}</p>
+      </div>
+      <div className="p-3 bg-muted rounded-lg">
+        <XCircle className="h-4 w-4 mx-auto text-red-500 mb-1" />
+        <p className="font-medium">{result.failed}</p>
+        <p className="text-xs text-muted-foreground">with errors</p>
+      </div>
+    </div>
+  );
+
+  // Only rows that need attention: errors and duplicates
+  const renderRowReport = (rows: LeadImportRowResult[]) => {
+    const flagged = rows.filter(r => r.action === "error" || r.duplicateOf);
+    if (flagged.length === 0) return null;
+    return (
+      <ScrollArea className="h-[220px] border rounded-md p-2">
+        {flagged.map((row) => (
+          <div key={row.row} className="text-xs p-2 border-b last:border-0" data-testid={`import-row-${row.row}`}>
+            <div className="flex items-center gap-2">
+              <span className="font-medium">Row {row.row}</span>
+              <Badge variant="secondary" className={actionBadges[row.action].className}>
+                {actionBadges[row.action].label}
+              </Badge>
+              {row.duplicateOf && (
+                <span className="text-muted-foreground">Duplicate of {row.duplicateOf.name}</span>
+              )}
+            </div>
+            {row.errors.map((error, i) => (
+              <p key={i} className="text-destructive mt-1">{error}</p>
+            ))}
+          </div>
+        ))}
+      </ScrollArea>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      onOpenChange(isOpen);
+      if (!isOpen) reset();
+    }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Leads from CSV</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV file. You will map its columns to lead fields next."}
+            {step === "map" && `${preview?.totalRows ?? 0} rows found. Check how each column maps to a lead field.`}
+            {step === "review" && "Dry run complete. Nothing has been saved yet."}
+            {step === "importing" && (jobSettled ? "Import finished." : "Importing in the background. You can close this window.")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div className="border-2 border-dashed rounded-lg p-8 text-center">
+              <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-sm text-muted-foreground mb-4">
+                Any column layout works. Name and mobile columns are required.
+              </p>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFile}
+                className="hidden"
+                id="csv-upload"
+                data-testid="input-csv-file"
+              />
+              <label htmlFor="csv-upload">
+                <Button asChild disabled={previewMutation.isPending}>
+                  <span>
+                    {previewMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Upload className="mr-2 h-4 w-4" />
+                    )}
+                    Choose CSV File
+                  </span>
+                </Button>
+              </label>
+            </div>
+            <div className="text-xs text-muted-foreground space-y-1">
+              <p><strong>Example CSV format:</strong></p>
+              <code className="block bg-muted p-2 rounded text-xs">
+                Full Name,Phone,Email,City,Lead Source,utm_campaign<br/>
+                John Doe,9876543210,john@example.com,Mumbai,facebook,diwali-sale
+              </code>
+            </div>
+            {recentJobs.length > 0 && (
+              <div>
+                <p className="text-sm font-medium mb-2">Recent Imports</p>
+                <ScrollArea className="max-h-[160px] border rounded-md">
+                  {recentJobs.slice(0, 5).map((recent) => (
+                    <div key={recent.id} className="flex items-center justify-between gap-2 p-2 border-b last:border-0 text-xs" data-testid={`import-job-${recent.id}`}>
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{recent.fileName || "CSV import"}</p>
+                        <p className="text-muted-foreground">
+                          {format(new Date(recent.createdAt), "MMM d, h:mm a")} · {recent.createdCount} created · <span className="capitalize">{recent.status}</span>
+                        </p>
+                      </div>
+                      <div className="flex gap-1">
+                        {recent.failedCount > 0 && (
+                          <Button variant="ghost" size="icon" onClick={() => downloadErrorReport(recent.id)} title="Download error report">
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {(recent.status === "completed" || recent.status === "failed") && recent.createdCount > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => undoMutation.mutate(recent.id)}
+                            disabled={undoMutation.isPending}
+                            title="Undo import"
+                          >
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "map" && preview && (
+          <div className="space-y-4">
+            <ScrollArea className="h-[320px] border rounded-md">
+              <div className="divide-y">
+                {preview.headers.map((header, column) => (
+                  <div key={column} className="grid grid-cols-2 gap-4 p-3 items-center">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{header || `Column ${column + 1}`}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {preview.sampleRows.map(r => r[column]).filter(Boolean).slice(0, 3).join(", ") || "No values"}
+                      </p>
+                    </div>
+                    <Select value={mapping[column] ?? IGNORE} onValueChange={(val) => setColumnTarget(column, val)}>
+                      <SelectTrigger data-testid={`select-import-column-${column}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={IGNORE}>Don't import</SelectItem>
+                        {targetOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="space-y-1">
+              <Label>When a row matches an existing lead (same mobile or email)</Label>
+              <Select value={duplicateStrategy} onValueChange={(val) => setDuplicateStrategy(val as DuplicateStrategy)}>
+                <SelectTrigger data-testid="select-duplicate-strategy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(duplicateStrategyLabels) as DuplicateStrategy[]).map((strategy) => (
+                    <SelectItem key={strategy} value={strategy}>{duplicateStrategyLabels[strategy]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-destructive">Map a column to: {missingRequired.join(", ")}</p>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={reset}>Back</Button>
+              <Button
+                onClick={() => dryRunMutation.mutate()}
+                disabled={missingRequired.length > 0 || dryRunMutation.isPending}
+                data-testid="button-import-dry-run"
+              >
+                {dryRunMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Check Rows
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {step === "review" && summary && (
+          <div className="space-y-4">
+            {renderSummaryCounts(summary)}
+            {renderRowReport(summary.rows)}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setStep("map")}>Back to Mapping</Button>
+              <Button
+                onClick={() => startImportMutation.mutate()}
+                disabled={summary.created + summary.updated === 0 || startImportMutation.isPending}
+                data-testid="button-import-commit"
+              >
+                {startImportMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {summary.created + summary.updated} Leads
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {step === "importing" && (
+          <div className="space-y-4">
+            {!job || !jobSettled ? (
+              <div className="space-y-2 py-4">
+                <Progress value={job && job.totalRows > 0 ? (job.processedRows / job.totalRows) * 100 : 0} className="h-2" />
+                <p className="text-sm text-muted-foreground text-center">
+                  {job ? `${job.processedRows} of ${job.totalRows} rows processed` : "Starting import..."}
+                </p>
+              </div>
+            ) : (
+              <>
+                {renderSummaryCounts({
+                  dryRun: false,
+                  created: job.createdCount,
+                  updated: job.updatedCount,
+                  skipped: job.skippedCount,
+                  failed: job.failedCount,
+                })}
+                {job.status === "failed" && (
+                  <p className="text-sm text-destructive">{job.error}</p>
+                )}
+                {job.status === "undone" && (
+                  <p className="text-sm text-muted-foreground">This import has been undone.</p>
+                )}
+                {renderRowReport(job.rows)}
+              </>
+            )}
+            <DialogFooter>
+              {job && jobSettled && job.failedCount > 0 && (
+                <Button variant="outline" onClick={() => downloadErrorReport(job.id)} data-testid="button-import-error-report">
+                  <Download className="mr-2 h-4 w-4" />
+                  Error Report
+                </Button>
+              )}
+              {job && (job.status === "completed" || job.status === "failed") && job.createdCount > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={() => undoMutation.mutate(job.id)}
+                  disabled={undoMutation.isPending}
+                  data-testid="button-import-undo"
+                >
+                  {undoMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Undo2 className="mr-2 h-4 w-4" />}
+                  Undo Import
+                </Button>
+              )}
+              <Button onClick={() => {
+                onOpenChange(false);
+                reset();
+              }}>
+                {jobSettled ? "Done" : "Close"}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
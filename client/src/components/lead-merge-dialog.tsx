@@ -0,0 +1,233 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, GitMerge } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Campaign, Lead, LossReason, User as UserType } from "@shared/schema";
+import { formatCustomFieldValue } from "@shared/customFields";
+import { mergeableLeadFields, resolveLeadMerge, type LeadMergeChoices, type SerializedLeadMerge } from "@shared/leadMerge";
+
+interface LeadMergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  leads: Lead[]; // the first lead is the suggested primary
+}
+
+interface MergeRow {
+  key: string; // field key, or "custom:<key>"
+  label: string;
+  display: (lead: Lead) => string;
+}
+
+export function LeadMergeDialog({ open, onOpenChange, leads }: LeadMergeDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [primaryId, setPrimaryId] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [choices, setChoices] = useState<LeadMergeChoices>({});
+
+  const { data: users = [] } = useQuery<UserType[]>({ queryKey: ["/api/users"], enabled: open });
+  const { data: campaigns = [] } = useQuery<Campaign[]>({ queryKey: ["/api/campaigns"], enabled: open });
+  const { data: lossReasons = [] } = useQuery<LossReason[]>({ queryKey: ["/api/loss-reasons"], enabled: open });
+
+  useEffect(() => {
+    if (!open) return;
+    setPrimaryId(leads[0]?.id ?? "");
+    setSelectedIds(leads.map(l => l.id));
+    setChoices({});
+  }, [open, leads]);
+
+  const selected = leads.filter(l => selectedIds.includes(l.id));
+  const primary = selected.find(l => l.id === primaryId);
+  const duplicates = selected.filter(l => l.id !== primaryId);
+  const resolution = primary ? resolveLeadMerge(primary, duplicates, choices) : null;
+
+  // Only fields whose values differ between the selected leads need a decision
+  const rows = useMemo<MergeRow[]>(() => {
+    const userName = (id: string | null) => users.find(u => u.id === id)?.name ?? id ?? "";
+    const campaignName = (id: string | null) => campaigns.find(c => c.id === id)?.name ?? id ?? "";
+    const lossReasonLabel = (id: string | null) => lossReasons.find(r => r.id === id)?.label ?? id ?? "";
+    const builtIn: MergeRow[] = mergeableLeadFields.map(field => ({
+      key: field.key,
+      label: field.label,
+      display: (lead: Lead) => {
+        if (field.key === "ownerId") return userName(lead.ownerId);
+        if (field.key === "campaignId") return campaignName(lead.campaignId);
+        if (field.key === "lossReasonId") return lossReasonLabel(lead.lossReasonId);
+        return String(lead[field.key] ?? "");
+      },
+    }));
+    const customKeys = Array.from(new Set(selected.flatMap(l => Object.keys(l.customFields ?? {}))));
+    const custom: MergeRow[] = customKeys.map(key => ({
+      key: `custom:${key}`,
+      label: key,
+      display: (lead: Lead) => formatCustomFieldValue(lead.customFields?.[key]),
+    }));
+    return [...builtIn, ...custom].filter(row => new Set(selected.map(row.display)).size > 1);
+  }, [selected, users, campaigns, lossReasons]);
+
+  const winnerFor = (key: string) => choices[key] ?? resolution?.fieldSources[key] ?? primaryId;
+
+  const undoMutation = useMutation({
+    mutationFn: async (mergeId: string) => {
+      const response = await apiRequest("POST", `/api/lead-merges/${mergeId}/undo`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/lead-merges"] });
+      toast({ title: "Merge undone", description: "The merged leads and their records were restored." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const fields = Object.fromEntries(rows.map(row => [row.key, winnerFor(row.key)]));
+      const response = await apiRequest("POST", "/api/leads/merge", {
+        primaryId,
+        duplicateIds: duplicates.map(d => d.id),
+        fields,
+      });
+      return response.json() as Promise<{ message: string; merge: SerializedLeadMerge }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/lead-merges"] });
+      onOpenChange(false);
+      toast({
+        title: "Leads merged",
+        description: result.message,
+        action: (
+          <ToastAction altText="Undo merge" onClick={() => undoMutation.mutate(result.merge.id)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Merge failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => (checked ? [...prev, id] : prev.filter(x => x !== id)));
+    if (!checked && id === primaryId) {
+      setPrimaryId(selectedIds.find(x => x !== id) ?? "");
+    }
+  };
+
+  const columns = `minmax(8rem, 10rem) repeat(${Math.max(selected.length, 1)}, minmax(10rem, 1fr))`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Merge Leads</DialogTitle>
+          <DialogDescription>
+            Choose the lead to keep and the value to keep for each field that differs. Notes, follow-ups, calls, tasks,
+            quotations, conversations and automation history from every lead move to the kept lead.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Leads</p>
+          {leads.map((lead) => (
+            <div key={lead.id} className="flex items-center justify-between gap-3 rounded-md border p-2">
+              <label className="flex items-center gap-3 text-sm min-w-0">
+                <Checkbox
+                  checked={selectedIds.includes(lead.id)}
+                  onCheckedChange={(checked) => toggleSelected(lead.id, checked === true)}
+                  data-testid={`checkbox-merge-lead-${lead.id}`}
+                />
+                <span className="truncate">
+                  <span className="font-medium">{lead.name}</span>
+                  <span className="text-muted-foreground"> · {lead.mobile}{lead.email ? ` · ${lead.email}` : ""}</span>
+                </span>
+              </label>
+              {lead.id === primaryId ? (
+                <Badge>Keep</Badge>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={!selectedIds.includes(lead.id)}
+                  onClick={() => setPrimaryId(lead.id)}
+                  data-testid={`button-merge-primary-${lead.id}`}
+                >
+                  Keep this lead
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {selected.length > 1 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Field values</p>
+            {rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">The selected leads have the same values for every field.</p>
+            ) : (
+              <div className="grid gap-x-3 gap-y-2 text-sm" style={{ gridTemplateColumns: columns }}>
+                <div />
+                {selected.map((lead) => (
+                  <div key={lead.id} className="font-medium truncate">
+                    {lead.name}
+                    {lead.id === primaryId && <span className="text-muted-foreground"> (kept)</span>}
+                  </div>
+                ))}
+                {rows.map((row) => (
+                  <RadioGroup
+                    key={row.key}
+                    className="contents"
+                    value={winnerFor(row.key)}
+                    onValueChange={(leadId) => setChoices(prev => ({ ...prev, [row.key]: leadId }))}
+                  >
+                    <div className="text-muted-foreground">{row.label}</div>
+                    {selected.map((lead) => (
+                      <label key={lead.id} className="flex items-start gap-2 min-w-0">
+                        <RadioGroupItem value={lead.id} className="mt-0.5" data-testid={`radio-merge-${row.key}-${lead.id}`} />
+                        <span className="break-words">{row.display(lead) || <span className="text-muted-foreground">(empty)</span>}</span>
+                      </label>
+                    ))}
+                  </RadioGroup>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => mergeMutation.mutate()}
+            disabled={!primary || duplicates.length === 0 || mergeMutation.isPending}
+            data-testid="button-confirm-merge"
+          >
+            {mergeMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <GitMerge className="mr-2 h-4 w-4" />}
+            Merge {duplicates.length > 0 ? `${duplicates.length + 1} leads` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
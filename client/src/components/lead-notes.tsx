@@ -0,0 +1,338 @@
+import { useRef, useState, type KeyboardEvent } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Pin, PinOff, Edit, Trash2, StickyNote } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { leadNoteTypes, type LeadNote, type LeadNoteType, type User as UserType } from "@shared/schema";
+import { formatMention, splitMentions } from "@shared/mentions";
+
+interface LeadNotesProps {
+  leadId: string;
+}
+
+const noteTypeLabels: Record<LeadNoteType, string> = {
+  note: "Note",
+  call: "Call",
+  email: "Email",
+  whatsapp: "WhatsApp",
+};
+
+type Teammate = Pick<UserType, "id" | "name" | "email" | "isActive">;
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  users: Teammate[];
+  placeholder?: string;
+  "data-testid"?: string;
+}
+
+// Textarea that suggests teammates after "@" and inserts them as mention markup
+function MentionTextarea({ value, onChange, users, placeholder, ...props }: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = query === null
+    ? []
+    : users.filter(u => u.isActive && u.name.toLowerCase().includes(query.toLowerCase())).slice(0, 6);
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = /(?:^|\s)@([^\s@\[]*)$/.exec(text.slice(0, caret));
+    setQuery(match ? match[1] : null);
+    setActiveIndex(0);
+  };
+
+  const insertMention = (user: Teammate) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? value.length;
+    const before = value.slice(0, caret).replace(/@([^\s@\[]*)$/, "");
+    const inserted = `${formatMention(user)} `;
+    onChange(before + inserted + value.slice(caret));
+    setQuery(null);
+    requestAnimationFrame(() => {
+      const position = before.length + inserted.length;
+      textarea?.focus();
+      textarea?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      insertMention(suggestions[activeIndex]);
+    } else if (e.key === "Escape") {
+      setQuery(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setQuery(null)}
+        {...props}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 right-0 top-full z-50 mt-1 rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((user, index) => (
+            <button
+              key={user.id}
+              type="button"
+              className={cn(
+                "flex w-full flex-col items-start rounded-sm px-2 py-1.5 text-left text-sm",
+                index === activeIndex ? "bg-accent text-accent-foreground" : "hover:bg-accent/50",
+              )}
+              // Keep focus in the textarea so onBlur does not close the list first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => insertMention(user)}
+            >
+              <span className="font-medium">{user.name}</span>
+              <span className="text-xs text-muted-foreground">{user.email}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function NoteContent({ content }: { content: string }) {
+  return (
+    <p className="whitespace-pre-wrap text-sm">
+      {splitMentions(content).map((segment, index) =>
+        segment.type === "mention" ? (
+          <span key={index} className="rounded bg-primary/10 px-1 font-medium text-primary">
+            @{segment.name}
+          </span>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </p>
+  );
+}
+
+export function LeadNotes({ leadId }: LeadNotesProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [content, setContent] = useState("");
+  const [type, setType] = useState<LeadNoteType>("note");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState("");
+
+  const { data: notes = [], isLoading } = useQuery<LeadNote[]>({
+    queryKey: ["/api/leads", leadId, "notes"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/leads/${leadId}/notes`);
+      return response.json();
+    },
+    staleTime: 0,
+  });
+
+  const { data: users = [] } = useQuery<Teammate[]>({ queryKey: ["/api/users"] });
+  const userName = (id: string) => users.find(u => u.id === id)?.name ?? "Unknown";
+  const canEdit = (note: LeadNote) =>
+    note.userId === currentUser?.id || currentUser?.role === "admin" || currentUser?.role === "manager";
+
+  // Notes feed the timeline and the lead's last activity, so refresh everything under the lead
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/leads/${leadId}/notes`, { content, type });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setContent("");
+      setType("note");
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...data }: { id: string; content?: string; isPinned?: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/lead-notes/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setEditingId(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/lead-notes/${id}`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <MentionTextarea
+          value={content}
+          onChange={setContent}
+          users={users}
+          placeholder="Add a note... type @ to mention a teammate"
+          data-testid="input-lead-note"
+        />
+        <div className="flex items-center justify-between gap-2">
+          <Select value={type} onValueChange={(value) => setType(value as LeadNoteType)}>
+            <SelectTrigger className="w-36" data-testid="select-lead-note-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {leadNoteTypes.map((noteType) => (
+                <SelectItem key={noteType} value={noteType}>{noteTypeLabels[noteType]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!content.trim() || createMutation.isPending}
+            data-testid="button-add-lead-note"
+          >
+            {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add Note
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex h-24 items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : notes.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 py-8 text-sm text-muted-foreground">
+          <StickyNote className="h-8 w-8" />
+          No notes yet.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {notes.map((note) => (
+            <div
+              key={note.id}
+              className={cn("space-y-2 rounded-md border p-3", note.isPinned && "border-primary/40 bg-primary/5")}
+              data-testid={`lead-note-${note.id}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{noteTypeLabels[note.type as LeadNoteType] ?? note.type}</Badge>
+                  {note.isPinned && (
+                    <span className="flex items-center gap-1 text-xs text-primary">
+                      <Pin className="h-3 w-3" />
+                      Pinned
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title={note.isPinned ? "Unpin" : "Pin"}
+                    onClick={() => updateMutation.mutate({ id: note.id, isPinned: !note.isPinned })}
+                    data-testid={`button-pin-note-${note.id}`}
+                  >
+                    {note.isPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                  </Button>
+                  {canEdit(note) && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title="Edit"
+                        onClick={() => {
+                          setEditingId(note.id);
+                          setEditContent(note.content);
+                        }}
+                        data-testid={`button-edit-note-${note.id}`}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-destructive"
+                        title="Delete"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(note.id)}
+                        data-testid={`button-delete-note-${note.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {editingId === note.id ? (
+                <div className="space-y-2">
+                  <MentionTextarea value={editContent} onChange={setEditContent} users={users} />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={!editContent.trim() || updateMutation.isPending}
+                      onClick={() => updateMutation.mutate({ id: note.id, content: editContent })}
+                      data-testid={`button-save-note-${note.id}`}
+                    >
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <NoteContent content={note.content} />
+              )}
+
+              <p className="text-xs text-muted-foreground">
+                {userName(note.userId)} · {format(new Date(note.createdAt), "MMM d, yyyy h:mm a")}
+                {note.updatedAt && " · edited"}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Check, Loader2, ShieldAlert, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { quarantineStatuses, type LeadForm, type QuarantinedLead, type QuarantineStatus } from "@shared/schema";
+import { quarantineReasonLabels, quarantineStatusLabels } from "@shared/quarantine";
+
+// Captured submissions held back as suspected spam. Releasing one creates the lead as if it had been
+// accepted on capture; discarding keeps the record but nothing reaches the leads list.
+export function LeadQuarantine() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<QuarantineStatus>("pending");
+
+  const { data: entries = [], isLoading } = useQuery<QuarantinedLead[]>({
+    queryKey: ["/api/lead-quarantine", status],
+    queryFn: async () => {
+      const res = await fetch(`/api/lead-quarantine?status=${status}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch quarantined leads");
+      return res.json();
+    },
+  });
+  const { data: forms = [] } = useQuery<LeadForm[]>({ queryKey: ["/api/lead-forms"] });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "release" | "discard" }) => {
+      const response = await apiRequest("POST", `/api/lead-quarantine/${id}/${action}`);
+      return response.json();
+    },
+    onSuccess: (_entry, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lead-quarantine"] });
+      if (action === "release") queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      toast({ title: action === "release" ? "Released as a new lead" : "Submission discarded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const formName = (formId: string | null) => forms.find((form) => form.id === formId)?.name ?? "Deleted form";
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5" />
+              Spam Quarantine
+            </CardTitle>
+            <CardDescription>
+              Form submissions that look like spam are held here instead of becoming leads. Release the genuine
+              ones; discarded submissions are kept for reference.
+            </CardDescription>
+          </div>
+          <Select value={status} onValueChange={(value) => setStatus(value as QuarantineStatus)}>
+            <SelectTrigger className="w-40" data-testid="select-quarantine-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {quarantineStatuses.map((value) => (
+                <SelectItem key={value} value={value}>{quarantineStatusLabels[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <div className="flex h-16 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">Nothing here.</p>
+        ) : (
+          entries.map((entry) => (
+            <div key={entry.id} className="flex items-center justify-between gap-3 rounded-lg border p-3" data-testid={`quarantined-lead-${entry.id}`}>
+              <div className="min-w-0 space-y-1">
+                <p className="font-medium">
+                  {entry.name}
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">
+                    {[entry.mobile, entry.email].filter(Boolean).join(" · ")}
+                  </span>
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {entry.reasons.map((reason) => (
+                    <Badge key={reason} variant="outline">{quarantineReasonLabels[reason] ?? reason}</Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formName(entry.formId)} · {format(new Date(entry.createdAt), "MMM d, yyyy h:mm a")}
+                  {entry.ipAddress && ` · ${entry.ipAddress}`}
+                </p>
+              </div>
+              {entry.status === "pending" && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={reviewMutation.isPending}
+                    onClick={() => reviewMutation.mutate({ id: entry.id, action: "release" })}
+                    data-testid={`button-release-quarantined-lead-${entry.id}`}
+                  >
+                    <Check className="mr-2 h-4 w-4" />
+                    Release
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive"
+                    title="Discard"
+                    disabled={reviewMutation.isPending}
+                    onClick={() => reviewMutation.mutate({ id: entry.id, action: "discard" })}
+                    data-testid={`button-discard-quarantined-lead-${entry.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
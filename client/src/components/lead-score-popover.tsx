@@ -0,0 +1,159 @@
+import { useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { LineChart, Line, YAxis, Tooltip, ResponsiveContainer } from "recharts";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import type { Lead, ScoreTrigger } from "@shared/schema";
+import {
+  parseScoreBreakdown,
+  scoreFactorLabels,
+  scoreTriggerLabels,
+  type SerializedLeadScoreHistoryEntry,
+} from "@shared/leadScoring";
+
+interface LeadScorePopoverProps {
+  lead: Lead;
+  children: ReactNode;
+}
+
+interface SparklinePoint {
+  at: string;
+  leadScore: number;
+  trigger: string;
+}
+
+function formatPoints(points: number) {
+  return points > 0 ? `+${points}` : String(points);
+}
+
+function ScoreSparkline({ history }: { history: SerializedLeadScoreHistoryEntry[] }) {
+  // Start from the score before the first recorded change so a single change still draws a line
+  const first = history[0];
+  const points: SparklinePoint[] = [
+    ...(first.previousLeadScore != null ? [{ at: "", leadScore: first.previousLeadScore, trigger: "" }] : []),
+    ...history.map(entry => ({
+      at: format(new Date(entry.createdAt), "MMM d, yyyy"),
+      leadScore: entry.leadScore,
+      trigger: scoreTriggerLabels[entry.trigger as ScoreTrigger] ?? entry.trigger,
+    })),
+  ];
+
+  return (
+    <div className="h-16" data-testid="chart-score-sparkline">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={points} margin={{ top: 4, right: 4, bottom: 4, left: 4 }}>
+          <YAxis domain={[0, 100]} hide />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: "hsl(var(--card))",
+              border: "1px solid hsl(var(--border))",
+              borderRadius: "8px",
+              fontSize: 12,
+            }}
+            labelFormatter={(_, payload) => {
+              const point = payload?.[0]?.payload as SparklinePoint | undefined;
+              return point?.at ? `${point.at} · ${point.trigger}` : "Before";
+            }}
+            formatter={(value: number) => [value, "Score"]}
+          />
+          <Line
+            type="monotone"
+            dataKey="leadScore"
+            stroke="hsl(var(--chart-1))"
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+// Explains a lead's score: the points each factor contributed and how the score moved over time
+export function LeadScorePopover({ lead, children }: LeadScorePopoverProps) {
+  const [open, setOpen] = useState(false);
+
+  const { data: history = [], isLoading } = useQuery<SerializedLeadScoreHistoryEntry[]>({
+    queryKey: ["/api/leads", lead.id, "score-history"],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const tier = lead.score || "warm";
+  const breakdown = parseScoreBreakdown(lead.scoreBreakdown);
+  const baseScore = [...history].reverse().find(entry => entry.baseScore != null)?.baseScore;
+  const unclamped = baseScore != null && breakdown
+    ? baseScore + breakdown.reduce((sum, c) => sum + c.points, 0)
+    : null;
+  const lastChange = history[history.length - 1];
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button type="button" className="flex items-center gap-2" data-testid={`button-score-why-${lead.id}`}>
+          {children}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-3">
+        <div className="flex items-baseline justify-between gap-2">
+          <p className="text-sm font-semibold">Why is this lead {tier}?</p>
+          <span className="text-2xl font-bold">{lead.leadScore ?? 50}</span>
+        </div>
+
+        {lead.conversionProbability != null && (
+          <p className="rounded-md bg-muted px-2 py-1.5 text-xs">
+            <span className="font-medium">{Math.round(lead.conversionProbability * 100)}%</span> predicted chance
+            to convert, from the statistical model trained on past leads
+          </p>
+        )}
+
+        {breakdown ? (
+          <div className="space-y-1 text-sm">
+            {baseScore != null && (
+              <div className="flex justify-between text-muted-foreground">
+                <span>Base score</span>
+                <span>{baseScore}</span>
+              </div>
+            )}
+            {breakdown.map((contribution) => (
+              <div key={contribution.factor} className="flex justify-between gap-2" data-testid={`score-factor-${contribution.factor}`}>
+                <span className="truncate" title={scoreFactorLabels[contribution.factor]}>{contribution.label}</span>
+                <span className={cn("font-medium", contribution.points > 0 ? "text-green-600" : "text-red-600")}>
+                  {formatPoints(contribution.points)}
+                </span>
+              </div>
+            ))}
+            {unclamped != null && (unclamped < 0 || unclamped > 100) && (
+              <p className="text-xs text-muted-foreground">Total {unclamped}, capped to the 0–100 range.</p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">{lead.scoreReason || "This lead has not been scored yet."}</p>
+        )}
+
+        <div className="space-y-1 border-t pt-3">
+          <p className="text-xs font-medium text-muted-foreground">Score over time</p>
+          {isLoading ? (
+            <div className="flex h-16 items-center justify-center">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : history.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No score changes recorded yet.</p>
+          ) : (
+            <>
+              <ScoreSparkline history={history} />
+              <p className="text-xs text-muted-foreground">
+                Last change {format(new Date(lastChange.createdAt), "MMM d, yyyy")}
+                {" · "}
+                {scoreTriggerLabels[lastChange.trigger as ScoreTrigger] ?? lastChange.trigger}
+              </p>
+            </>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
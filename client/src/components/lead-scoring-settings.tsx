@@ -0,0 +1,475 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Plus, Trash2, Eye, Check, History, Gauge } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { interestLevels, leadSources, leadStatuses } from "@shared/schema";
+import type { PipelineWithStages } from "@shared/pipelines";
+import type {
+  LeadScoringModelConfig,
+  LeadScoringPreview,
+  ScoreBand,
+  SerializedLeadScoringModel,
+} from "@shared/leadScoring";
+
+const tiers = ["hot", "warm", "cold"] as const;
+
+const humanize = (value: string) => {
+  const text = value.replace(/_/g, " ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+function PointsInput({ value, onChange, testId }: { value: number; onChange: (value: number) => void; testId?: string }) {
+  return (
+    <Input
+      type="number"
+      className="h-8 w-20"
+      value={Number.isFinite(value) ? value : ""}
+      onChange={(e) => onChange(e.target.value === "" ? 0 : Number(e.target.value))}
+      data-testid={testId}
+    />
+  );
+}
+
+// Points per value of a lead field, e.g. source quality
+function PointsMapEditor({ title, keys, values, onChange }: {
+  title: string;
+  keys: readonly string[];
+  values: Record<string, number>;
+  onChange: (values: Record<string, number>) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">{title}</p>
+      {keys.map((key) => (
+        <div key={key} className="flex items-center justify-between gap-3">
+          <Label className="font-normal text-muted-foreground">{humanize(key)}</Label>
+          <PointsInput
+            value={values[key] ?? 0}
+            onChange={(points) => onChange({ ...values, [key]: points })}
+            testId={`input-scoring-${title}-${key}`}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// "At least <min> ... <points>" rows; the highest band a lead reaches applies
+function BandEditor({ title, unit, bands, onChange }: {
+  title: string;
+  unit: string;
+  bands: ScoreBand[];
+  onChange: (bands: ScoreBand[]) => void;
+}) {
+  const update = (index: number, band: Partial<ScoreBand>) =>
+    onChange(bands.map((b, i) => (i === index ? { ...b, ...band } : b)));
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">{title}</p>
+        <Button variant="ghost" size="sm" onClick={() => onChange([...bands, { min: 0, points: 0 }])}>
+          <Plus className="mr-1 h-3 w-3" />
+          Band
+        </Button>
+      </div>
+      {bands.map((band, index) => (
+        <div key={index} className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">At least</span>
+          <Input
+            type="number"
+            className="h-8 w-24"
+            value={band.min}
+            onChange={(e) => update(index, { min: Number(e.target.value) })}
+          />
+          <span className="flex-1 text-muted-foreground">{unit}</span>
+          <PointsInput value={band.points} onChange={(points) => update(index, { points })} />
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onChange(bands.filter((_, i) => i !== index))}>
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function PreviewPanel({ preview }: { preview: LeadScoringPreview }) {
+  const changedCount = tiers.reduce(
+    (sum, from) => sum + tiers.reduce((inner, to) => inner + (from === to ? 0 : preview.transitions[from][to]), 0),
+    0,
+  );
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="grid grid-cols-3 gap-3 text-center">
+        {tiers.map((tier) => (
+          <div key={tier} className="rounded-md bg-muted/50 p-3">
+            <p className="text-xs uppercase text-muted-foreground">{tier}</p>
+            <p className="text-lg font-semibold">
+              {preview.before[tier]} → {preview.after[tier]}
+            </p>
+          </div>
+        ))}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {changedCount} of {preview.total} leads would change tier.
+      </p>
+      {preview.changed.length > 0 && (
+        <div className="max-h-64 space-y-1 overflow-y-auto text-sm">
+          {preview.changed.map((lead) => (
+            <div key={lead.leadId} className="flex items-center justify-between gap-2 rounded px-2 py-1 hover:bg-muted/50">
+              <span className="truncate">{lead.name}</span>
+              <span className="shrink-0 text-muted-foreground">
+                {lead.fromTier} ({lead.fromScore}) → <span className="font-medium text-foreground">{lead.toTier}</span> ({lead.toScore})
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function LeadScoringSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<LeadScoringModelConfig | null>(null);
+  const [notes, setNotes] = useState("");
+  const [preview, setPreview] = useState<LeadScoringPreview | null>(null);
+
+  const { data: models = [], isLoading } = useQuery<SerializedLeadScoringModel[]>({
+    queryKey: ["/api/lead-scoring/models"],
+  });
+  const active = models.find(m => m.isActive);
+
+  // Stage points are keyed by stage key, shared by every pipeline that has the key
+  const { data: pipelines = [] } = useQuery<PipelineWithStages[]>({ queryKey: ["/api/pipelines"] });
+  const stageKeys = Array.from(new Set([
+    ...pipelines.flatMap(p => p.stages.map(stage => stage.key)),
+    ...Object.keys(draft?.pipelineStage ?? {}),
+  ]));
+
+  useEffect(() => {
+    if (active && !draft) setDraft(active.config);
+  }, [active]);
+
+  // Any edit invalidates the last preview
+  const edit = (changes: Partial<LeadScoringModelConfig>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+    setPreview(null);
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/lead-scoring/preview", { config: draft });
+      return response.json() as Promise<LeadScoringPreview>;
+    },
+    onSuccess: setPreview,
+    onError,
+  });
+
+  const applied = (result: { model: SerializedLeadScoringModel; rescored: number }) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/lead-scoring/models"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+    setDraft(result.model.config);
+    setPreview(null);
+    setNotes("");
+    toast({
+      title: `Scoring model v${result.model.version} is active`,
+      description: `${result.rescored} leads re-scored.`,
+    });
+  };
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/lead-scoring/models", { config: draft, notes: notes || undefined });
+      return response.json();
+    },
+    onSuccess: applied,
+    onError,
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/lead-scoring/models/${id}/activate`);
+      return response.json();
+    },
+    onSuccess: applied,
+    onError,
+  });
+
+  if (isLoading || !draft) {
+    return (
+      <div className="flex h-48 items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            Lead Scoring Model
+          </CardTitle>
+          <CardDescription>
+            A lead starts at the base score and gains or loses the points of every rule it matches. The total
+            (0-100) is tiered Hot, Warm or Cold. Saving creates a new version and re-scores every lead.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-1">
+              <Label>Base score</Label>
+              <Input
+                type="number"
+                value={draft.baseScore}
+                onChange={(e) => edit({ baseScore: Number(e.target.value) })}
+                data-testid="input-scoring-base"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Hot at or above</Label>
+              <Input
+                type="number"
+                value={draft.hotThreshold}
+                onChange={(e) => edit({ hotThreshold: Number(e.target.value) })}
+                data-testid="input-scoring-hot"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Warm at or above</Label>
+              <Input
+                type="number"
+                value={draft.warmThreshold}
+                onChange={(e) => edit({ warmThreshold: Number(e.target.value) })}
+                data-testid="input-scoring-warm"
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-6 md:grid-cols-2">
+            <PointsMapEditor
+              title="Source quality"
+              keys={leadSources}
+              values={draft.sourceQuality}
+              onChange={(sourceQuality) => edit({ sourceQuality })}
+            />
+            <PointsMapEditor
+              title="Pipeline stage"
+              keys={stageKeys}
+              values={draft.pipelineStage}
+              onChange={(pipelineStage) => edit({ pipelineStage })}
+            />
+            <PointsMapEditor
+              title="Status"
+              keys={leadStatuses}
+              values={draft.status}
+              onChange={(status) => edit({ status })}
+            />
+            <div className="space-y-6">
+              <PointsMapEditor
+                title="Interest level"
+                keys={interestLevels}
+                values={draft.interestLevel}
+                onChange={(interestLevel) => edit({ interestLevel })}
+              />
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Contact details</p>
+                <div className="flex items-center justify-between gap-3">
+                  <Label className="font-normal text-muted-foreground">Has email</Label>
+                  <PointsInput value={draft.hasEmail} onChange={(hasEmail) => edit({ hasEmail })} />
+                </div>
+                <div className="flex items-center justify-between gap-3">
+                  <Label className="font-normal text-muted-foreground">Has city</Label>
+                  <PointsInput value={draft.hasCity} onChange={(hasCity) => edit({ hasCity })} />
+                </div>
+              </div>
+            </div>
+            <BandEditor
+              title="Interactions"
+              unit="calls and call/WhatsApp notes"
+              bands={draft.interactions}
+              onChange={(interactions) => edit({ interactions })}
+            />
+            <BandEditor
+              title="Completed follow-ups"
+              unit="completed"
+              bands={draft.completedFollowUps}
+              onChange={(completedFollowUps) => edit({ completedFollowUps })}
+            />
+            <BandEditor
+              title="Budget"
+              unit="budget"
+              bands={draft.budget}
+              onChange={(budget) => edit({ budget })}
+            />
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium">Recency</p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => edit({ recency: [...draft.recency, { maxDays: 0, points: 0 }] })}
+                >
+                  <Plus className="mr-1 h-3 w-3" />
+                  Band
+                </Button>
+              </div>
+              {draft.recency.map((band, index) => (
+                <div key={index} className="flex items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">Active within</span>
+                  <Input
+                    type="number"
+                    className="h-8 w-20"
+                    value={band.maxDays}
+                    onChange={(e) => edit({
+                      recency: draft.recency.map((b, i) => (i === index ? { ...b, maxDays: Number(e.target.value) } : b)),
+                    })}
+                  />
+                  <span className="flex-1 text-muted-foreground">days</span>
+                  <PointsInput
+                    value={band.points}
+                    onChange={(points) => edit({
+                      recency: draft.recency.map((b, i) => (i === index ? { ...b, points } : b)),
+                    })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => edit({ recency: draft.recency.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Inactive over</span>
+                <Input
+                  type="number"
+                  className="h-8 w-20"
+                  value={draft.inactivity.minDays}
+                  onChange={(e) => edit({ inactivity: { ...draft.inactivity, minDays: Number(e.target.value) } })}
+                />
+                <span className="flex-1 text-muted-foreground">days</span>
+                <PointsInput
+                  value={draft.inactivity.points}
+                  onChange={(points) => edit({ inactivity: { ...draft.inactivity, points } })}
+                />
+                <div className="w-8" />
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>What changed</Label>
+            <Input
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Referral leads convert better than we assumed"
+              data-testid="input-scoring-notes"
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => previewMutation.mutate()}
+              disabled={previewMutation.isPending}
+              data-testid="button-scoring-preview"
+            >
+              {previewMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+              Preview impact
+            </Button>
+            <Button
+              onClick={() => applyMutation.mutate()}
+              disabled={!preview || applyMutation.isPending}
+              data-testid="button-scoring-apply"
+            >
+              {applyMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+              Save as v{(models[0]?.version ?? 0) + 1} and re-score
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => {
+                if (active) setDraft(active.config);
+                setPreview(null);
+              }}
+            >
+              Reset
+            </Button>
+          </div>
+          {!preview && <p className="text-xs text-muted-foreground">Preview the impact before saving.</p>}
+          {preview && <PreviewPanel preview={preview} />}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Model Versions
+          </CardTitle>
+          <CardDescription>Every score records the version that produced it</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {models.map((model) => (
+            <div
+              key={model.id}
+              className="flex items-center justify-between gap-3 rounded-md border p-3 text-sm"
+              data-testid={`scoring-model-${model.version}`}
+            >
+              <div className="min-w-0">
+                <p className="font-medium">
+                  Version {model.version}
+                  {model.notes && <span className="font-normal text-muted-foreground"> · {model.notes}</span>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Created {format(new Date(model.createdAt), "MMM d, yyyy h:mm a")}
+                  {" · "}hot ≥ {model.config.hotThreshold}, warm ≥ {model.config.warmThreshold}
+                </p>
+              </div>
+              {model.isActive ? (
+                <Badge>Active</Badge>
+              ) : (
+                <div className="flex gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setDraft(model.config);
+                      setPreview(null);
+                    }}
+                  >
+                    Load
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={activateMutation.isPending}
+                    onClick={() => activateMutation.mutate(model.id)}
+                    data-testid={`button-activate-scoring-model-${model.version}`}
+                  >
+                    Activate
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
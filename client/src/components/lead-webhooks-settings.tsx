@@ -0,0 +1,153 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, Loader2, RotateCw, Webhook } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { leadWebhookProviders, type LeadWebhookEventStatus } from "@shared/schema";
+import {
+  leadWebhookEventStatusLabels,
+  leadWebhookPaths,
+  leadWebhookProviderLabels,
+  type LeadWebhookOverview,
+} from "@shared/leadWebhooks";
+
+const statusVariants: Record<LeadWebhookEventStatus, "default" | "secondary" | "destructive"> = {
+  processed: "default",
+  duplicate: "secondary",
+  test: "secondary",
+  failed: "destructive",
+};
+
+// Setup details for the Meta and Google lead webhooks and their recent deliveries
+export function LeadWebhooksSettings() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const baseUrl = window.location.origin;
+
+  const { data, isLoading } = useQuery<LeadWebhookOverview>({ queryKey: ["/api/lead-webhooks"] });
+  const events = data?.events ?? [];
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/lead-webhook-events/${id}/retry`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lead-webhooks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Webhook className="h-5 w-5" />
+          Ad Platform Leads
+        </CardTitle>
+        <CardDescription>
+          Leads from Facebook and Instagram Lead Ads and Google Ads lead forms arrive by webhook. They are linked to
+          the campaign whose ad platform campaign ID matches.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {leadWebhookProviders.map((provider) => {
+          const url = `${baseUrl}${leadWebhookPaths[provider]}`;
+          return (
+            <div key={provider} className="flex items-center justify-between gap-3 rounded-lg border p-3" data-testid={`lead-webhook-${provider}`}>
+              <div className="min-w-0">
+                <p className="font-medium">
+                  {leadWebhookProviderLabels[provider]}
+                  {data && (
+                    <Badge variant={data.configured[provider] ? "outline" : "secondary"} className="ml-2">
+                      {data.configured[provider] ? "Configured" : "Not configured"}
+                    </Badge>
+                  )}
+                </p>
+                <p className="truncate font-mono text-xs text-muted-foreground">{url}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={async () => {
+                  await navigator.clipboard.writeText(url);
+                  toast({ title: "Copied to clipboard" });
+                }}
+                data-testid={`button-copy-lead-webhook-${provider}`}
+              >
+                <Copy className="mr-2 h-3 w-3" />
+                Copy
+              </Button>
+            </div>
+          );
+        })}
+
+        {isLoading ? (
+          <div className="flex h-16 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="py-2 text-center text-sm text-muted-foreground">No webhook leads received yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Received</TableHead>
+                <TableHead>Platform</TableHead>
+                <TableHead>Lead ID</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id} data-testid={`lead-webhook-event-${event.id}`}>
+                  <TableCell className="whitespace-nowrap">{format(new Date(event.processedAt), "MMM d, h:mm a")}</TableCell>
+                  <TableCell className="capitalize">{event.provider}</TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {event.externalLeadId}
+                    {event.isTest && <Badge variant="outline" className="ml-2">Test</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariants[event.status as LeadWebhookEventStatus] ?? "secondary"}>
+                      {leadWebhookEventStatusLabels[event.status as LeadWebhookEventStatus] ?? event.status}
+                    </Badge>
+                    {event.error && <p className="mt-1 text-xs text-muted-foreground">{event.error}</p>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {event.status === "failed" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={retryMutation.isPending}
+                        onClick={() => retryMutation.mutate(event.id)}
+                        data-testid={`button-retry-lead-webhook-event-${event.id}`}
+                      >
+                        <RotateCw className="mr-2 h-3 w-3" />
+                        Retry
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { LossReason } from "@shared/schema";
+
+export interface LossDetails {
+  lossReasonId: string;
+  lossCompetitor: string;
+  lossNotes: string;
+}
+
+export const emptyLossDetails: LossDetails = { lossReasonId: "", lossCompetitor: "", lossNotes: "" };
+
+interface LossDetailsFieldsProps {
+  value: LossDetails;
+  onChange: (value: LossDetails) => void;
+  reasonError?: string;
+}
+
+// Reason (required), competitor and notes for a lost lead; inactive reasons are only offered when already chosen
+export function LossDetailsFields({ value, onChange, reasonError }: LossDetailsFieldsProps) {
+  const { data: reasons = [] } = useQuery<LossReason[]>({ queryKey: ["/api/loss-reasons"] });
+  const options = reasons.filter((reason) => reason.isActive || reason.id === value.lossReasonId);
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label>Loss reason</Label>
+        <Select value={value.lossReasonId} onValueChange={(lossReasonId) => onChange({ ...value, lossReasonId })}>
+          <SelectTrigger data-testid="select-loss-reason">
+            <SelectValue placeholder="Why was this lead lost?" />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((reason) => (
+              <SelectItem key={reason.id} value={reason.id}>{reason.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {reasonError && <p className="text-sm font-medium text-destructive">{reasonError}</p>}
+      </div>
+      <div className="space-y-1">
+        <Label>Competitor (optional)</Label>
+        <Input
+          value={value.lossCompetitor}
+          onChange={(e) => onChange({ ...value, lossCompetitor: e.target.value })}
+          placeholder="Who did they go with?"
+          data-testid="input-loss-competitor"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label>Notes (optional)</Label>
+        <Textarea
+          value={value.lossNotes}
+          onChange={(e) => onChange({ ...value, lossNotes: e.target.value })}
+          placeholder="Anything worth remembering about this loss"
+          data-testid="input-loss-notes"
+        />
+      </div>
+    </div>
+  );
+}
+
+interface LossReasonDialogProps {
+  leadName: string | null; // the dialog is open while a lead is named
+  stageName: string;
+  isPending: boolean;
+  onConfirm: (details: LossDetails) => void;
+  onCancel: () => void;
+}
+
+// Asks why a lead is lost before it is moved into a lost stage
+export function LossReasonDialog({ leadName, stageName, isPending, onConfirm, onCancel }: LossReasonDialogProps) {
+  const [details, setDetails] = useState<LossDetails>(emptyLossDetails);
+
+  useEffect(() => {
+    if (leadName) setDetails(emptyLossDetails);
+  }, [leadName]);
+
+  return (
+    <Dialog open={!!leadName} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Move {leadName} to {stageName}</DialogTitle>
+          <DialogDescription>Record why this lead was lost. Reasons feed the win/loss report.</DialogDescription>
+        </DialogHeader>
+        <LossDetailsFields value={details} onChange={setDetails} />
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button
+            disabled={!details.lossReasonId || isPending}
+            onClick={() => onConfirm(details)}
+            data-testid="button-confirm-loss"
+          >
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Mark as Lost
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
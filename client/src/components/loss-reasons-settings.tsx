@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, ThumbsDown, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { LossReason } from "@shared/schema";
+
+export function LossReasonsSettings() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [newLabel, setNewLabel] = useState("");
+
+  const { data: reasons = [], isLoading } = useQuery<LossReason[]>({ queryKey: ["/api/loss-reasons"] });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/loss-reasons", { label: newLabel });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/loss-reasons"] });
+      setNewLabel("");
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...data }: { id: string; label?: string; isActive?: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/loss-reasons/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/loss-reasons"] }),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/loss-reasons/${id}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/loss-reasons"] }),
+    onError,
+  });
+
+  const rename = (reason: LossReason, label: string) => {
+    if (label.trim() && label.trim() !== reason.label) updateMutation.mutate({ id: reason.id, label });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ThumbsDown className="h-5 w-5" />
+          Loss Reasons
+        </CardTitle>
+        <CardDescription>
+          Reps pick one of these whenever a lead is moved to a lost stage or marked not interested. Inactive reasons
+          stay on the leads that have them but are no longer offered.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (newLabel.trim()) createMutation.mutate();
+          }}
+        >
+          <Input
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            placeholder="e.g. Chose an in-house team"
+            data-testid="input-new-loss-reason"
+          />
+          <Button type="submit" variant="outline" disabled={!newLabel.trim() || createMutation.isPending} data-testid="button-add-loss-reason">
+            {createMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Add
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex h-16 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          reasons.map((reason) => (
+            <div key={reason.id} className="flex items-center gap-3 rounded-md border p-2" data-testid={`loss-reason-${reason.id}`}>
+              <Input
+                key={reason.label}
+                defaultValue={reason.label}
+                onBlur={(e) => rename(reason, e.target.value)}
+                className={reason.isActive ? "" : "text-muted-foreground line-through"}
+              />
+              <Switch
+                checked={reason.isActive}
+                onCheckedChange={(isActive) => updateMutation.mutate({ id: reason.id, isActive })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0 text-destructive"
+                onClick={() => deleteMutation.mutate(reason.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
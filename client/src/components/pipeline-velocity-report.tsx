@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Bar, BarChart, CartesianGrid, LabelList, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import {
+  NORMAL_DWELL_PERCENTILE,
+  salesCycleGroupingLabels,
+  salesCycleGroupings,
+  type PipelineVelocityReport,
+  type SalesCycleGrouping,
+} from "@shared/pipelineVelocity";
+import type { PipelineWithStages } from "@shared/pipelines";
+
+const periods = ["30", "90", "180", "365"] as const;
+
+function formatDays(value: number | null) {
+  return value === null ? "—" : `${value} d`;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+// Stage dwell times, the stage funnel, sales cycle length and stuck deals of one pipeline
+export function PipelineVelocityReportCard() {
+  const [days, setDays] = useState<string>("90");
+  const [pipelineId, setPipelineId] = useState<string>("");
+  const [grouping, setGrouping] = useState<SalesCycleGrouping>("source");
+
+  const { data: pipelines = [] } = useQuery<PipelineWithStages[]>({ queryKey: ["/api/pipelines"] });
+  const { data, isLoading } = useQuery<PipelineVelocityReport>({
+    queryKey: ["/api/reports/pipeline-velocity", days, pipelineId],
+    queryFn: async () => {
+      const params = new URLSearchParams({ days });
+      if (pipelineId) params.set("pipelineId", pipelineId);
+      const res = await fetch(`/api/reports/pipeline-velocity?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch pipeline velocity");
+      return res.json();
+    },
+  });
+
+  const funnel = (data?.funnel ?? []).map((step) => ({
+    ...step,
+    label: step.conversion === null ? String(step.reached) : `${step.reached} (${Math.round(step.conversion * 100)}%)`,
+  }));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle className="text-base font-semibold">Time in Stage</CardTitle>
+              <CardDescription>
+                How long leads stay in each stage, from stays that ended in the period. Leads in a stage longer than its
+                normal time ({NORMAL_DWELL_PERCENTILE}th percentile) are listed as stuck below.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              {pipelines.length > 1 && (
+                <Select value={pipelineId || data?.pipelineId || ""} onValueChange={setPipelineId}>
+                  <SelectTrigger className="w-40" data-testid="select-velocity-pipeline">
+                    <SelectValue placeholder="Pipeline" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {pipelines.map((pipeline) => (
+                      <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Select value={days} onValueChange={setDays}>
+                <SelectTrigger className="w-36" data-testid="select-velocity-period">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {periods.map((period) => (
+                    <SelectItem key={period} value={period}>Last {period} days</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex h-24 items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stage</TableHead>
+                  <TableHead className="text-right">Completed stays</TableHead>
+                  <TableHead className="text-right">Average</TableHead>
+                  <TableHead className="text-right">Median</TableHead>
+                  <TableHead className="text-right">Normal</TableHead>
+                  <TableHead className="text-right">In stage now</TableHead>
+                  <TableHead className="text-right">Avg. time there</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(data?.stages ?? []).map((stage) => (
+                  <TableRow key={stage.key} data-testid={`velocity-stage-${stage.key}`}>
+                    <TableCell className="font-medium">{stage.name}</TableCell>
+                    <TableCell className="text-right">{stage.completedStays}</TableCell>
+                    <TableCell className="text-right">{formatDays(stage.avgDays)}</TableCell>
+                    <TableCell className="text-right">{formatDays(stage.medianDays)}</TableCell>
+                    <TableCell className="text-right">{formatDays(stage.normalDays)}</TableCell>
+                    <TableCell className="text-right">{stage.currentLeads}</TableCell>
+                    <TableCell className="text-right">{formatDays(stage.avgCurrentDays)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base font-semibold">Stage Funnel</CardTitle>
+            <CardDescription>
+              Leads that entered the pipeline in the period and how far they got, with the share that made it from the
+              previous stage
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={funnel} layout="vertical" margin={{ right: 80 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                  <XAxis type="number" fontSize={12} tickLine={false} axisLine={false} allowDecimals={false} />
+                  <YAxis type="category" dataKey="name" fontSize={12} tickLine={false} axisLine={false} width={110} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "8px",
+                    }}
+                  />
+                  <Bar dataKey="reached" name="Leads" fill="hsl(var(--chart-1))" radius={[0, 4, 4, 0]}>
+                    <LabelList dataKey="label" position="right" fontSize={12} />
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle className="text-base font-semibold">Sales Cycle</CardTitle>
+                <CardDescription>Days from lead creation to won, for leads won in the period</CardDescription>
+              </div>
+              <Select value={grouping} onValueChange={(value) => setGrouping(value as SalesCycleGrouping)}>
+                <SelectTrigger className="w-32" data-testid="select-sales-cycle-grouping">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {salesCycleGroupings.map((option) => (
+                    <SelectItem key={option} value={option}>By {salesCycleGroupingLabels[option].toLowerCase()}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {(data?.salesCycle[grouping] ?? []).length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">No leads won in this period.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{salesCycleGroupingLabels[grouping]}</TableHead>
+                    <TableHead className="text-right">Won</TableHead>
+                    <TableHead className="text-right">Average</TableHead>
+                    <TableHead className="text-right">Median</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data!.salesCycle[grouping].map((group) => (
+                    <TableRow key={group.key ?? "none"} data-testid={`sales-cycle-${grouping}-${group.key ?? "none"}`}>
+                      <TableCell className="font-medium capitalize">{group.label}</TableCell>
+                      <TableCell className="text-right">{group.won}</TableCell>
+                      <TableCell className="text-right">{formatDays(group.avgDays)}</TableCell>
+                      <TableCell className="text-right">{formatDays(group.medianDays)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base font-semibold">Stuck Deals</CardTitle>
+          <CardDescription>Open leads that have been in their stage longer than the stage's normal time</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {(data?.stuck ?? []).length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No stuck deals.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Lead</TableHead>
+                  <TableHead>Stage</TableHead>
+                  <TableHead>Owner</TableHead>
+                  <TableHead className="text-right">In stage</TableHead>
+                  <TableHead className="text-right">Normal</TableHead>
+                  <TableHead className="text-right">Deal value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data!.stuck.map((deal) => (
+                  <TableRow key={deal.leadId} data-testid={`stuck-deal-${deal.leadId}`}>
+                    <TableCell className="font-medium">{deal.name}</TableCell>
+                    <TableCell>{deal.stageName}</TableCell>
+                    <TableCell>{deal.ownerName ?? "Unassigned"}</TableCell>
+                    <TableCell className="text-right">
+                      <Badge variant={deal.daysInStage > deal.normalDays * 2 ? "destructive" : "secondary"}>
+                        {formatDays(deal.daysInStage)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{formatDays(deal.normalDays)}</TableCell>
+                    <TableCell className="text-right">{deal.dealValue ? formatCurrency(Number(deal.dealValue)) : "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,555 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Kanban, Plus, Trash2, Pencil, ArrowUp, ArrowDown, Star, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  pipelineStageOutcomes,
+  stageEntryActionTypes,
+  taskPriorities,
+  type ChecklistTemplate,
+  type Package,
+  type PipelineStageOutcome,
+  type StageEntryAction,
+} from "@shared/schema";
+import type { SerializedCustomFieldDefinition } from "@shared/customFields";
+import {
+  customStageField,
+  pipelineStageOutcomeLabels,
+  requirableLeadFields,
+  stageFieldLabel,
+  type PipelineStageInput,
+  type PipelineWithStages,
+} from "@shared/pipelines";
+import { newStageEntryAction, stageEntryActionLabels } from "@shared/stageActions";
+
+// Stages being edited; clientKey keeps React rows stable while unsaved stages are reordered
+type StageDraft = PipelineStageInput & { clientKey: string };
+
+interface PipelineDraft {
+  name: string;
+  description: string;
+  stages: StageDraft[];
+}
+
+let nextClientKey = 0;
+const newClientKey = () => `new-${nextClientKey++}`;
+
+const emptyStage = (): StageDraft => ({
+  clientKey: newClientKey(),
+  key: "",
+  name: "",
+  winProbability: 0,
+  outcome: "open",
+  requiredFields: [],
+  entryActions: [],
+});
+
+const emptyDraft = (): PipelineDraft => ({
+  name: "",
+  description: "",
+  stages: [
+    { ...emptyStage(), key: "new", name: "New", winProbability: 10 },
+    { ...emptyStage(), key: "won", name: "Won", winProbability: 100, outcome: "won" },
+    { ...emptyStage(), key: "lost", name: "Lost", winProbability: 0, outcome: "lost" },
+  ],
+});
+
+// Whether an action has the settings it needs to run
+function isActionComplete(action: StageEntryAction): boolean {
+  switch (action.type) {
+    case "create_quotation":
+      return !!action.packageId;
+    case "create_task":
+      return !!action.title.trim();
+    case "assign_checklists":
+      return action.checklistTemplateIds.length > 0;
+    default:
+      return true;
+  }
+}
+
+// Actions run when a lead is moved into the stage, each with its settings
+function StageEntryActionsEditor({ actions, index, onChange }: {
+  actions: StageEntryAction[];
+  index: number;
+  onChange: (actions: StageEntryAction[]) => void;
+}) {
+  const { data: packages = [] } = useQuery<Package[]>({ queryKey: ["/api/packages"] });
+  const { data: templates = [] } = useQuery<ChecklistTemplate[]>({ queryKey: ["/api/checklist-templates"] });
+  const available = stageEntryActionTypes.filter((type) => !actions.some((action) => action.type === type));
+
+  const update = (position: number, action: StageEntryAction) =>
+    onChange(actions.map((a, i) => (i === position ? action : a)));
+
+  return (
+    <div className="space-y-1 pl-7">
+      {actions.map((action, position) => (
+        <div key={action.type} className="flex flex-wrap items-center gap-2 text-xs" data-testid={`pipeline-stage-action-${index}-${action.type}`}>
+          <Badge variant="outline">{stageEntryActionLabels[action.type]}</Badge>
+          {action.type === "create_quotation" && (
+            <Select value={action.packageId} onValueChange={(packageId) => update(position, { ...action, packageId })}>
+              <SelectTrigger className="h-7 w-40 text-xs">
+                <SelectValue placeholder="Package..." />
+              </SelectTrigger>
+              <SelectContent>
+                {packages.map((pkg) => (
+                  <SelectItem key={pkg.id} value={pkg.id}>{pkg.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {action.type === "create_task" && (
+            <>
+              <Input
+                className="h-7 w-48 text-xs"
+                value={action.title}
+                onChange={(e) => update(position, { ...action, title: e.target.value })}
+                placeholder="Task title"
+              />
+              <Select
+                value={action.priority}
+                onValueChange={(priority) => update(position, { ...action, priority: priority as typeof action.priority })}
+              >
+                <SelectTrigger className="h-7 w-24 text-xs capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {taskPriorities.map((priority) => (
+                    <SelectItem key={priority} value={priority} className="capitalize">{priority}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-muted-foreground">due in</span>
+              <Input
+                type="number"
+                min={0}
+                max={365}
+                className="h-7 w-16 text-xs"
+                value={action.dueInDays}
+                onChange={(e) => update(position, { ...action, dueInDays: Math.min(365, Math.max(0, Number(e.target.value) || 0)) })}
+              />
+              <span className="text-muted-foreground">days</span>
+            </>
+          )}
+          {action.type === "assign_checklists" && (
+            <>
+              {action.checklistTemplateIds.map((id) => (
+                <Badge key={id} variant="secondary" className="gap-1">
+                  {templates.find((t) => t.id === id)?.name ?? "Deleted template"}
+                  <button
+                    type="button"
+                    onClick={() => update(position, { ...action, checklistTemplateIds: action.checklistTemplateIds.filter((t) => t !== id) })}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              {templates.some((t) => !action.checklistTemplateIds.includes(t.id)) && (
+                <Select
+                  value=""
+                  onValueChange={(id) => update(position, { ...action, checklistTemplateIds: [...action.checklistTemplateIds, id] })}
+                >
+                  <SelectTrigger className="h-7 w-40 text-xs">
+                    <SelectValue placeholder="Add a checklist..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.filter((t) => !action.checklistTemplateIds.includes(t.id)).map((t) => (
+                      <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {templates.length === 0 && <span className="text-muted-foreground">Create a checklist template first</span>}
+            </>
+          )}
+          <button type="button" onClick={() => onChange(actions.filter((_, i) => i !== position))}>
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+      {available.length > 0 && (
+        <div className="flex items-center gap-1">
+          <span className="text-xs text-muted-foreground">On entry:</span>
+          <Select value="" onValueChange={(type) => onChange([...actions, newStageEntryAction(type as StageEntryAction["type"])])}>
+            <SelectTrigger className="h-7 w-40 text-xs" data-testid={`select-pipeline-stage-action-${index}`}>
+              <SelectValue placeholder="Add an action..." />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map((type) => (
+                <SelectItem key={type} value={type}>{stageEntryActionLabels[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Stage keys are derived from the name until the stage is saved; after that they never change
+function stageKeyFromName(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  return /^[a-z]/.test(slug) ? slug : slug ? `stage_${slug}` : "";
+}
+
+function PipelineEditor({ pipeline, open, onOpenChange }: {
+  pipeline: PipelineWithStages | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<PipelineDraft>(() => pipeline
+    ? {
+      name: pipeline.name,
+      description: pipeline.description ?? "",
+      stages: pipeline.stages.map((stage) => ({
+        clientKey: stage.id,
+        id: stage.id,
+        key: stage.key,
+        name: stage.name,
+        winProbability: stage.winProbability,
+        outcome: stage.outcome as PipelineStageOutcome,
+        requiredFields: stage.requiredFields,
+        entryActions: stage.entryActions,
+      })),
+    }
+    : emptyDraft());
+
+  const { data: customFields = [] } = useQuery<SerializedCustomFieldDefinition[]>({ queryKey: ["/api/custom-fields"] });
+  const leadCustomFields = customFields.filter(f => f.entityType === "lead" && f.isActive);
+  const customLabels = Object.fromEntries(customFields.map(f => [f.key, f.label]));
+  const requirable = [
+    ...Object.keys(requirableLeadFields),
+    ...leadCustomFields.map(f => customStageField(f.key)),
+  ];
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: draft.name,
+        description: draft.description.trim() || null,
+        stages: draft.stages.map(({ clientKey, ...stage }) => stage),
+      };
+      const response = pipeline
+        ? await apiRequest("PATCH", `/api/pipelines/${pipeline.id}`, body)
+        : await apiRequest("POST", "/api/pipelines", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pipelines"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      toast({ title: pipeline ? "Pipeline updated" : "Pipeline created" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateStage = (index: number, updates: Partial<StageDraft>) =>
+    setDraft({ ...draft, stages: draft.stages.map((stage, i) => (i === index ? { ...stage, ...updates } : stage)) });
+  const renameStage = (index: number, name: string) => {
+    const stage = draft.stages[index];
+    updateStage(index, stage.id ? { name } : { name, key: stageKeyFromName(name) });
+  };
+  const moveStage = (index: number, offset: number) => {
+    const stages = [...draft.stages];
+    [stages[index], stages[index + offset]] = [stages[index + offset], stages[index]];
+    setDraft({ ...draft, stages });
+  };
+
+  const keys = draft.stages.map(stage => stage.key);
+  const invalid = !draft.name.trim()
+    || draft.stages.length === 0
+    || draft.stages.some(stage => !stage.name.trim() || !stage.key || !stage.entryActions.every(isActionComplete))
+    || new Set(keys).size !== keys.length
+    || !draft.stages.some(stage => stage.outcome === "open");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{pipeline ? "Edit Pipeline" : "New Pipeline"}</DialogTitle>
+          <DialogDescription>
+            Stages are the Kanban columns, in order. A lead can only enter a stage once its required fields are filled in.
+            Entry actions run when a lead is moved into the stage; converting to a client runs first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label>Name</Label>
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. SEO retainer"
+                data-testid="input-pipeline-name"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Description (optional)</Label>
+              <Textarea
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                rows={1}
+                data-testid="input-pipeline-description"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Stages</Label>
+            {draft.stages.map((stage, index) => (
+              <div key={stage.clientKey} className="space-y-2 rounded-md border p-2" data-testid={`pipeline-stage-row-${index}`}>
+                <div className="flex items-center gap-2">
+                  <div className="flex flex-col">
+                    <Button variant="ghost" size="icon" className="h-5 w-5" disabled={index === 0} onClick={() => moveStage(index, -1)}>
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-5 w-5"
+                      disabled={index === draft.stages.length - 1}
+                      onClick={() => moveStage(index, 1)}
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                  </div>
+                  <Input
+                    className="h-8 flex-1"
+                    value={stage.name}
+                    onChange={(e) => renameStage(index, e.target.value)}
+                    placeholder="Stage name"
+                    data-testid={`input-pipeline-stage-name-${index}`}
+                  />
+                  <span className="w-28 truncate font-mono text-xs text-muted-foreground" title="Stage key">{stage.key}</span>
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      className="h-8 w-16"
+                      value={stage.winProbability}
+                      onChange={(e) => updateStage(index, { winProbability: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+                      title="Win probability"
+                      data-testid={`input-pipeline-stage-probability-${index}`}
+                    />
+                    <span className="text-xs text-muted-foreground">%</span>
+                  </div>
+                  <Select
+                    value={stage.outcome}
+                    onValueChange={(outcome) => updateStage(index, { outcome: outcome as PipelineStageOutcome })}
+                  >
+                    <SelectTrigger className="h-8 w-24" data-testid={`select-pipeline-stage-outcome-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {pipelineStageOutcomes.map((outcome) => (
+                        <SelectItem key={outcome} value={outcome}>{pipelineStageOutcomeLabels[outcome]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive"
+                    disabled={draft.stages.length === 1}
+                    onClick={() => setDraft({ ...draft, stages: draft.stages.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap items-center gap-1 pl-7">
+                  <span className="text-xs text-muted-foreground">Requires:</span>
+                  {stage.requiredFields.map((field) => (
+                    <Badge key={field} variant="secondary" className="gap-1">
+                      {stageFieldLabel(field, customLabels)}
+                      <button
+                        type="button"
+                        onClick={() => updateStage(index, { requiredFields: stage.requiredFields.filter(f => f !== field) })}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                  {requirable.some(field => !stage.requiredFields.includes(field)) && (
+                    <Select
+                      value=""
+                      onValueChange={(field) => updateStage(index, { requiredFields: [...stage.requiredFields, field] })}
+                    >
+                      <SelectTrigger className="h-7 w-40 text-xs" data-testid={`select-pipeline-stage-require-${index}`}>
+                        <SelectValue placeholder="Add a field..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {requirable.filter(field => !stage.requiredFields.includes(field)).map((field) => (
+                          <SelectItem key={field} value={field}>{stageFieldLabel(field, customLabels)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+                <StageEntryActionsEditor
+                  actions={stage.entryActions}
+                  index={index}
+                  onChange={(entryActions) => updateStage(index, { entryActions })}
+                />
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft({ ...draft, stages: [...draft.stages, emptyStage()] })}
+              data-testid="button-pipeline-add-stage"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Stage
+            </Button>
+            {new Set(keys).size !== keys.length && (
+              <p className="text-xs text-destructive">Two stages have the same key; rename one of them.</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={invalid || saveMutation.isPending}
+            data-testid="button-save-pipeline"
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Pipeline
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Admin-defined sales pipelines and their stages. Leads created without a pipeline go to the default one.
+export function PipelinesSettings() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<{ pipeline: PipelineWithStages | null } | null>(null);
+
+  const { data: pipelines = [], isLoading } = useQuery<PipelineWithStages[]>({ queryKey: ["/api/pipelines"] });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const defaultMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("PATCH", `/api/pipelines/${id}`, { isDefault: true });
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/pipelines"] }),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/pipelines/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pipelines"] });
+      toast({ title: "Pipeline deleted" });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Kanban className="h-5 w-5" />
+            Pipelines
+          </CardTitle>
+          <CardDescription>
+            Separate sales processes, each with its own stages and win probabilities. Leads without a pipeline go to the default one.
+          </CardDescription>
+        </div>
+        <Button onClick={() => setEditing({ pipeline: null })} data-testid="button-add-pipeline">
+          <Plus className="mr-2 h-4 w-4" />
+          New Pipeline
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex h-16 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          pipelines.map((pipeline) => (
+            <div key={pipeline.id} className="flex items-center justify-between gap-3 rounded-lg border p-3" data-testid={`pipeline-${pipeline.id}`}>
+              <div className="min-w-0">
+                <p className="font-medium">
+                  {pipeline.name}
+                  {pipeline.isDefault && <Badge variant="outline" className="ml-2">Default</Badge>}
+                </p>
+                <p className="truncate text-sm text-muted-foreground">
+                  {pipeline.stages.map((stage) => `${stage.name} (${stage.winProbability}%)`).join(" → ")}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                {!pipeline.isDefault && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Make default"
+                    disabled={defaultMutation.isPending}
+                    onClick={() => defaultMutation.mutate(pipeline.id)}
+                    data-testid={`button-default-pipeline-${pipeline.id}`}
+                  >
+                    <Star className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button variant="ghost" size="icon" title="Edit" onClick={() => setEditing({ pipeline })} data-testid={`button-edit-pipeline-${pipeline.id}`}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive"
+                  disabled={pipeline.isDefault}
+                  onClick={() => deleteMutation.mutate(pipeline.id)}
+                  data-testid={`button-delete-pipeline-${pipeline.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      {editing && (
+        <PipelineEditor
+          key={editing.pipeline?.id ?? "new"}
+          pipeline={editing.pipeline}
+          open
+          onOpenChange={(open) => !open && setEditing(null)}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { SlaReport } from "@shared/sla";
+
+const periods = ["7", "30", "90"] as const;
+
+function formatMinutes(minutes: number | null) {
+  if (minutes === null) return "—";
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 24 * 60) return `${(minutes / 60).toFixed(1)} h`;
+  return `${(minutes / (24 * 60)).toFixed(1)} d`;
+}
+
+// First response times and SLA breaches per rep
+export function SlaReportCard() {
+  const [days, setDays] = useState<string>("30");
+  const { data, isLoading } = useQuery<SlaReport>({
+    queryKey: ["/api/reports/sla", days],
+    queryFn: async () => {
+      const res = await fetch(`/api/reports/sla?days=${days}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch SLA report");
+      return res.json();
+    },
+  });
+  const reps = data?.reps ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="text-base font-semibold">Response SLA</CardTitle>
+            <CardDescription>
+              Time to first response on new leads, and SLA breaches on leads and inbound WhatsApp messages
+            </CardDescription>
+          </div>
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-36" data-testid="select-sla-report-period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {periods.map((period) => (
+                <SelectItem key={period} value={period}>Last {period} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex h-24 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : reps.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No leads or breaches in this period.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rep</TableHead>
+                <TableHead className="text-right">New leads</TableHead>
+                <TableHead className="text-right">Responded</TableHead>
+                <TableHead className="text-right">Avg. first response</TableHead>
+                <TableHead className="text-right">Lead breaches</TableHead>
+                <TableHead className="text-right">Message breaches</TableHead>
+                <TableHead className="text-right">Still unanswered</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reps.map((rep) => (
+                <TableRow key={rep.userId ?? "unassigned"} data-testid={`sla-report-row-${rep.userId ?? "unassigned"}`}>
+                  <TableCell className="font-medium">{rep.name}</TableCell>
+                  <TableCell className="text-right">{rep.leads}</TableCell>
+                  <TableCell className="text-right">{rep.responded}</TableCell>
+                  <TableCell className="text-right">{formatMinutes(rep.avgFirstResponseMinutes)}</TableCell>
+                  <TableCell className="text-right">{rep.leadBreaches}</TableCell>
+                  <TableCell className="text-right">{rep.messageBreaches}</TableCell>
+                  <TableCell className="text-right">
+                    {rep.openBreaches > 0 ? <Badge variant="destructive">{rep.openBreaches}</Badge> : 0}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
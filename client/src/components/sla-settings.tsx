@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Timer, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { leadScores, leadSources, slaScopes, type SlaPolicy, type SlaScope } from "@shared/schema";
+import { slaScopeLabels } from "@shared/sla";
+
+// Select value standing for "no restriction"; Radix selects cannot hold an empty string
+const ANY = "any";
+
+const emptyPolicy = { name: "", scope: "new_lead" as SlaScope, source: ANY, score: ANY, responseMinutes: 15 };
+
+function policyDescription(policy: SlaPolicy) {
+  const matches = [policy.score, policy.source].filter(Boolean).join(" ");
+  return `${matches ? `${matches} leads` : "Any lead"} · respond within ${policy.responseMinutes} minutes`;
+}
+
+export function SlaSettings() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [newPolicy, setNewPolicy] = useState(emptyPolicy);
+  const [showForm, setShowForm] = useState(false);
+
+  const { data: policies = [], isLoading } = useQuery<SlaPolicy[]>({ queryKey: ["/api/sla-policies"] });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/sla-policies", {
+        ...newPolicy,
+        source: newPolicy.source === ANY ? null : newPolicy.source,
+        score: newPolicy.score === ANY ? null : newPolicy.score,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sla-policies"] });
+      setNewPolicy(emptyPolicy);
+      setShowForm(false);
+      toast({ title: "SLA policy created" });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...data }: { id: string; isActive: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/sla-policies/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/sla-policies"] }),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/sla-policies/${id}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/sla-policies"] }),
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Timer className="h-5 w-5" />
+              Response SLAs
+            </CardTitle>
+            <CardDescription>
+              How quickly reps must answer new leads and inbound WhatsApp messages. A call, an outbound WhatsApp
+              message or a completed follow-up counts as a response. Breaches are escalated to managers.
+            </CardDescription>
+          </div>
+          {!showForm && (
+            <Button size="sm" variant="outline" onClick={() => setShowForm(true)} data-testid="button-add-sla-policy">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Policy
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <p className="text-xs text-muted-foreground">
+          When several policies match, the most specific one applies, then the shortest limit. A new policy only
+          applies to leads and messages that arrive after it was created.
+        </p>
+
+        {showForm && (
+          <div className="space-y-3 rounded-md border p-3">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label>Name</Label>
+                <Input
+                  value={newPolicy.name}
+                  onChange={(e) => setNewPolicy({ ...newPolicy, name: e.target.value })}
+                  placeholder="e.g. Hot leads within 15 minutes"
+                  data-testid="input-sla-policy-name"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Applies to</Label>
+                <Select value={newPolicy.scope} onValueChange={(value) => setNewPolicy({ ...newPolicy, scope: value as SlaScope })}>
+                  <SelectTrigger data-testid="select-sla-policy-scope">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {slaScopes.map((scope) => (
+                      <SelectItem key={scope} value={scope}>{slaScopeLabels[scope]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Lead source</Label>
+                <Select value={newPolicy.source} onValueChange={(source) => setNewPolicy({ ...newPolicy, source })}>
+                  <SelectTrigger data-testid="select-sla-policy-source">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any source</SelectItem>
+                    {leadSources.map((source) => (
+                      <SelectItem key={source} value={source} className="capitalize">{source}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Lead score</Label>
+                <Select value={newPolicy.score} onValueChange={(score) => setNewPolicy({ ...newPolicy, score })}>
+                  <SelectTrigger data-testid="select-sla-policy-score">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any score</SelectItem>
+                    {leadScores.map((score) => (
+                      <SelectItem key={score} value={score} className="capitalize">{score}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Respond within (minutes)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={newPolicy.responseMinutes}
+                  onChange={(e) => setNewPolicy({ ...newPolicy, responseMinutes: Number(e.target.value) })}
+                  data-testid="input-sla-policy-minutes"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => { setShowForm(false); setNewPolicy(emptyPolicy); }}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                disabled={!newPolicy.name || newPolicy.responseMinutes < 1 || createMutation.isPending}
+                onClick={() => createMutation.mutate()}
+                data-testid="button-save-sla-policy"
+              >
+                {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Policy
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex h-16 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : policies.length === 0 ? (
+          <p className="py-2 text-sm text-muted-foreground">No SLA policies. Response times are reported but never breached.</p>
+        ) : (
+          policies.map((policy) => (
+            <div key={policy.id} className="flex items-center justify-between gap-3 rounded-md border p-3 text-sm" data-testid={`sla-policy-${policy.id}`}>
+              <div className="min-w-0">
+                <p className="font-medium">
+                  {policy.name}
+                  <Badge variant="outline" className="ml-2">{slaScopeLabels[policy.scope as SlaScope] ?? policy.scope}</Badge>
+                </p>
+                <p className="text-xs text-muted-foreground">{policyDescription(policy)}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={policy.isActive}
+                  onCheckedChange={(isActive) => updateMutation.mutate({ id: policy.id, isActive })}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  onClick={() => deleteMutation.mutate(policy.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
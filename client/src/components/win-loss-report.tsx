@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import {
+  winLossGroupingLabels,
+  winLossGroupings,
+  type WinLossGroup,
+  type WinLossGrouping,
+  type WinLossReport,
+} from "@shared/lossReasons";
+import type { PipelineWithStages } from "@shared/pipelines";
+
+const periods = ["30", "90", "180", "365"] as const;
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+function winRate(won: number, lost: number) {
+  return won + lost > 0 ? `${Math.round((won / (won + lost)) * 100)}%` : "—";
+}
+
+// Wins and losses in the period, loss reasons overall and per source, rep or stage, and the competitors lost to
+export function WinLossReportCard() {
+  const [days, setDays] = useState<string>("90");
+  const [pipelineId, setPipelineId] = useState<string>("all");
+  const [grouping, setGrouping] = useState<WinLossGrouping>("source");
+
+  const { data: pipelines = [] } = useQuery<PipelineWithStages[]>({ queryKey: ["/api/pipelines"] });
+  const params = new URLSearchParams({ days });
+  if (pipelineId !== "all") params.set("pipelineId", pipelineId);
+
+  const { data, isLoading } = useQuery<WinLossReport>({
+    queryKey: ["/api/reports/win-loss", days, pipelineId],
+    queryFn: async () => {
+      const res = await fetch(`/api/reports/win-loss?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch win/loss report");
+      return res.json();
+    },
+  });
+
+  const reasons = data?.reasons ?? [];
+  const reasonLabel = (reasonId: string) => reasons.find((reason) => (reason.reasonId ?? "none") === reasonId)?.label ?? "Unknown reason";
+  const topReason = (group: WinLossGroup) => {
+    const [reasonId] = Object.entries(group.reasons).sort((a, b) => b[1] - a[1])[0] ?? [];
+    return reasonId ? reasonLabel(reasonId) : "—";
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle className="text-base font-semibold">Win/Loss</CardTitle>
+              <CardDescription>
+                Leads lost in the period with the reasons given, against leads won in it (moved to a won stage or
+                converted to a client)
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              {pipelines.length > 1 && (
+                <Select value={pipelineId} onValueChange={setPipelineId}>
+                  <SelectTrigger className="w-40" data-testid="select-win-loss-pipeline">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All pipelines</SelectItem>
+                    {pipelines.map((pipeline) => (
+                      <SelectItem key={pipeline.id} value={pipeline.id}>{pipeline.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Select value={days} onValueChange={setDays}>
+                <SelectTrigger className="w-36" data-testid="select-win-loss-period">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {periods.map((period) => (
+                    <SelectItem key={period} value={period}>Last {period} days</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                onClick={() => window.open(`/api/reports/export?type=win-loss&${params}`, "_blank")}
+                data-testid="button-export-win-loss"
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLoading ? (
+            <div className="flex h-[300px] items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="rounded-lg border p-3" data-testid="win-loss-won">
+                  <p className="text-xs text-muted-foreground">Won</p>
+                  <p className="text-lg font-semibold">{data?.won ?? 0}</p>
+                  <p className="text-xs text-muted-foreground">{formatCurrency(data?.wonValue ?? 0)}</p>
+                </div>
+                <div className="rounded-lg border p-3" data-testid="win-loss-lost">
+                  <p className="text-xs text-muted-foreground">Lost</p>
+                  <p className="text-lg font-semibold">{data?.lost ?? 0}</p>
+                  <p className="text-xs text-muted-foreground">{formatCurrency(data?.lostValue ?? 0)}</p>
+                </div>
+                <div className="rounded-lg border p-3" data-testid="win-loss-rate">
+                  <p className="text-xs text-muted-foreground">Win rate</p>
+                  <p className="text-lg font-semibold">{winRate(data?.won ?? 0, data?.lost ?? 0)}</p>
+                </div>
+              </div>
+              {reasons.length === 0 ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">No leads lost in this period.</p>
+              ) : (
+                <div className="h-[300px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={reasons} layout="vertical">
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                      <XAxis type="number" fontSize={12} tickLine={false} axisLine={false} allowDecimals={false} />
+                      <YAxis type="category" dataKey="label" fontSize={12} tickLine={false} axisLine={false} width={160} />
+                      <Tooltip
+                        contentStyle={{
+                          backgroundColor: "hsl(var(--card))",
+                          border: "1px solid hsl(var(--border))",
+                          borderRadius: "8px",
+                        }}
+                      />
+                      <Bar dataKey="count" name="Lost leads" fill="hsl(var(--chart-5))" radius={[0, 4, 4, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle className="text-base font-semibold">Breakdown</CardTitle>
+                <CardDescription>Wins, losses and the most common loss reason</CardDescription>
+              </div>
+              <Select value={grouping} onValueChange={(value) => setGrouping(value as WinLossGrouping)}>
+                <SelectTrigger className="w-44" data-testid="select-win-loss-grouping">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {winLossGroupings.map((option) => (
+                    <SelectItem key={option} value={option}>By {winLossGroupingLabels[option].toLowerCase()}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {(data?.groups[grouping] ?? []).length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">No leads won or lost in this period.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{winLossGroupingLabels[grouping]}</TableHead>
+                    {grouping !== "stage" && <TableHead className="text-right">Won</TableHead>}
+                    <TableHead className="text-right">Lost</TableHead>
+                    {grouping !== "stage" && <TableHead className="text-right">Win rate</TableHead>}
+                    <TableHead>Top loss reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data!.groups[grouping].map((group) => (
+                    <TableRow key={group.key ?? "none"} data-testid={`win-loss-${grouping}-${group.key ?? "none"}`}>
+                      <TableCell className="font-medium capitalize">{group.label}</TableCell>
+                      {group.won !== null && <TableCell className="text-right">{group.won}</TableCell>}
+                      <TableCell className="text-right">{group.lost}</TableCell>
+                      {group.won !== null && <TableCell className="text-right">{winRate(group.won, group.lost)}</TableCell>}
+                      <TableCell>{topReason(group)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base font-semibold">Lost To</CardTitle>
+            <CardDescription>Competitors named on lost leads</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {(data?.competitors ?? []).length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">No competitors recorded.</p>
+            ) : (
+              <div className="space-y-2">
+                {data!.competitors.map((competitor) => (
+                  <div key={competitor.name} className="flex items-center justify-between text-sm">
+                    <span>{competitor.name}</span>
+                    <span className="font-medium">{competitor.count}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -47,6 +47,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -69,6 +70,7 @@ import { Campaign, Lead } from "@shared/schema";
 const campaignFormSchema = z.object({
   name: z.string().min(2, "Campaign name is required"),
   platform: z.string().min(1, "Platform is required"),
+  externalCampaignId: z.string().optional(),
   budget: z.string().min(1, "Budget is required"),
   startDate: z.string().optional(),
   endDate: z.string().optional(),
@@ -106,6 +108,7 @@ export default function CampaignsPage() {
     defaultValues: {
       name: "",
       platform: "facebook",
+      externalCampaignId: "",
       budget: "",
       startDate: "",
       endDate: "",
@@ -163,6 +166,7 @@ export default function CampaignsPage() {
     const cleanedData: any = { ...data };
     if (!cleanedData.startDate) delete cleanedData.startDate;
     if (!cleanedData.endDate) delete cleanedData.endDate;
+    cleanedData.externalCampaignId = data.externalCampaignId?.trim() || null;
     if (editingCampaign) {
       updateMutation.mutate({ id: editingCampaign.id, data: cleanedData });
     } else {
@@ -175,6 +179,7 @@ export default function CampaignsPage() {
     form.reset({
       name: campaign.name,
       platform: campaign.platform,
+      externalCampaignId: campaign.externalCampaignId || "",
       budget: campaign.budget,
       startDate: campaign.startDate || "",
       endDate: campaign.endDate || "",
@@ -272,6 +277,20 @@ export default function CampaignsPage() {
                       )}
                     />
                   </div>
+                  <FormField
+                    control={form.control}
+                    name="externalCampaignId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Ad Platform Campaign ID</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g. 120210000000000000" {...field} data-testid="input-campaign-external-id" />
+                        </FormControl>
+                        <FormDescription>Leads from Meta or Google lead form webhooks with this campaign ID are linked here</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                   <div className="grid grid-cols-2 gap-4">
                     <FormField
                       control={form.control}
@@ -17,6 +17,7 @@ import {
   Settings,
   X,
   Wand2,
+  History,
 } from "lucide-react";
 import { PageHeader } from "@/components/page-header";
 import { DataTable } from "@/components/data-table";
@@ -61,6 +62,16 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { Client, Service, ClientService } from "@shared/schema";
 import { AIMessageGenerator } from "@/components/ai-message-generator";
+import { CustomFieldsInput, useCustomFields } from "@/components/custom-fields-input";
+import { EntityTimeline } from "@/components/entity-timeline";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { validateCustomFieldValues } from "@shared/customFields";
 import {
   Select,
   SelectContent,
@@ -79,6 +90,7 @@ const clientFormSchema = z.object({
   gstNumber: z.string().optional(),
   contractStartDate: z.string().optional(),
   contractEndDate: z.string().optional(),
+  customFields: z.record(z.any()).optional(),
 });
 
 type ClientFormData = z.infer<typeof clientFormSchema>;
@@ -91,8 +103,11 @@ export default function ClientsPage() {
   const [managingServicesClient, setManagingServicesClient] = useState<Client | null>(null);
   const [selectedServiceId, setSelectedServiceId] = useState<string>("");
   const [messageGeneratorClient, setMessageGeneratorClient] = useState<Client | null>(null);
+  const [timelineClient, setTimelineClient] = useState<Client | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const clientCustomFields = useCustomFields("client");
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({});
 
   const buildClientsUrl = () => {
     const params = new URLSearchParams();
@@ -179,6 +194,7 @@ export default function ClientsPage() {
       gstNumber: "",
       contractStartDate: "",
       contractEndDate: "",
+      customFields: {},
     },
   });
 
@@ -229,6 +245,10 @@ export default function ClientsPage() {
   });
 
   const handleSubmit = (data: ClientFormData) => {
+    const { errors } = validateCustomFieldValues(clientCustomFields, data.customFields);
+    setCustomFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
     const cleanedData = {
       ...data,
       contractStartDate: data.contractStartDate || undefined,
@@ -253,6 +273,7 @@ export default function ClientsPage() {
       gstNumber: client.gstNumber || "",
       contractStartDate: client.contractStartDate || "",
       contractEndDate: client.contractEndDate || "",
+      customFields: client.customFields ?? {},
     });
   };
 
@@ -328,6 +349,13 @@ export default function ClientsPage() {
               <Edit className="mr-2 h-4 w-4" />
               Edit
             </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => setTimelineClient(client)}
+              data-testid={`button-timeline-${client.id}`}
+            >
+              <History className="mr-2 h-4 w-4" />
+              Timeline
+            </DropdownMenuItem>
             <DropdownMenuItem 
               onClick={() => setMessageGeneratorClient(client)}
               data-testid={`button-ai-message-${client.id}`}
@@ -369,6 +397,7 @@ export default function ClientsPage() {
             if (!open) {
               setIsCreateOpen(false);
               setEditingClient(null);
+              setCustomFieldErrors({});
               form.reset();
             }
           }}>
@@ -378,7 +407,7 @@ export default function ClientsPage() {
                 Add Client
               </Button>
             </DialogTrigger>
-            <DialogContent className="max-w-lg">
+            <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>{editingClient ? "Edit Client" : "Add New Client"}</DialogTitle>
                 <DialogDescription>
@@ -512,6 +541,18 @@ export default function ClientsPage() {
                       )}
                     />
                   </div>
+                  <FormField
+                    control={form.control}
+                    name="customFields"
+                    render={({ field }) => (
+                      <CustomFieldsInput
+                        fields={clientCustomFields}
+                        value={field.value}
+                        onChange={field.onChange}
+                        errors={customFieldErrors}
+                      />
+                    )}
+                  />
                   <DialogFooter>
                     <Button
                       type="submit"
@@ -672,6 +713,25 @@ export default function ClientsPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      <Sheet open={timelineClient !== null} onOpenChange={(open) => !open && setTimelineClient(null)}>
+        <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Timeline
+            </SheetTitle>
+            <SheetDescription>
+              Everything that happened with {timelineClient?.companyName}, including its history as a lead
+            </SheetDescription>
+          </SheetHeader>
+          {timelineClient && (
+            <div className="mt-6">
+              <EntityTimeline entity="clients" id={timelineClient.id} />
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
     </div>
   );
 }
@@ -50,6 +50,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { FollowUp, Lead } from "@shared/schema";
+import { whatsAppLink } from "@shared/phone";
 import { cn } from "@/lib/utils";
 
 const followUpSchema = z.object({
@@ -125,7 +126,7 @@ export default function FollowUpsPage() {
   };
 
   const handleWhatsApp = (mobile: string) => {
-    window.open(`https://wa.me/${mobile.replace(/\D/g, "")}`, "_blank");
+    window.open(whatsAppLink(mobile), "_blank");
   };
 
   const handleCall = (mobile: string) => {
@@ -183,7 +184,7 @@ export default function FollowUpsPage() {
                 <Button
                   variant="ghost"
                   size="icon"
-                  onClick={() => followUp.lead && handleWhatsApp(followUp.lead.mobile)}
+                  onClick={() => followUp.lead && handleWhatsApp(followUp.lead.mobileE164 ?? followUp.lead.mobile)}
                 >
                   <MessageCircle className="h-4 w-4 text-green-600" />
                 </Button>
@@ -0,0 +1,318 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Copy, Building2, XCircle, ArrowLeft, GitMerge, Undo2 } from "lucide-react";
+import { PageHeader } from "@/components/page-header";
+import { LeadMergeDialog } from "@/components/lead-merge-dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import type { DuplicateDismissal, Lead } from "@shared/schema";
+import type { DuplicateGroup, DuplicateReason } from "@shared/duplicates";
+import type { SerializedLeadMerge } from "@shared/leadMerge";
+
+const confidenceOptions = [
+  { value: "0.5", label: "50% and above" },
+  { value: "0.6", label: "60% and above" },
+  { value: "0.75", label: "75% and above" },
+  { value: "0.9", label: "90% and above" },
+];
+
+function confidenceVariant(confidence: number): "destructive" | "default" | "secondary" {
+  if (confidence >= 0.9) return "destructive";
+  if (confidence >= 0.75) return "default";
+  return "secondary";
+}
+
+function ConfidenceBadge({ confidence }: { confidence: number }) {
+  return <Badge variant={confidenceVariant(confidence)}>{Math.round(confidence * 100)}% match</Badge>;
+}
+
+function ReasonList({ reasons }: { reasons: DuplicateReason[] }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {reasons.map((reason) => (
+        <Badge key={reason.type + reason.label} variant="outline" className="font-normal">
+          {reason.label}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+function ContactLine({ name, phone, email, city }: { name: string; phone: string; email?: string | null; city?: string | null }) {
+  return (
+    <div className="min-w-0">
+      <p className="font-medium truncate">{name}</p>
+      <p className="text-sm text-muted-foreground truncate">
+        {[phone, email, city].filter(Boolean).join(" · ")}
+      </p>
+    </div>
+  );
+}
+
+export default function LeadDuplicatesPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [minConfidence, setMinConfidence] = useState("0.6");
+  const [mergingLeads, setMergingLeads] = useState<Lead[] | null>(null);
+  const canMerge = user?.role === "admin" || user?.role === "manager";
+
+  const { data: groups = [], isLoading } = useQuery<DuplicateGroup[]>({
+    queryKey: ["/api/leads/duplicates", minConfidence],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/leads/duplicates?minConfidence=${minConfidence}`);
+      return response.json();
+    },
+    staleTime: 0,
+  });
+
+  const { data: merges = [] } = useQuery<SerializedLeadMerge[]>({
+    queryKey: ["/api/lead-merges"],
+  });
+
+  const undoMergeMutation = useMutation({
+    mutationFn: async (mergeId: string) => {
+      const response = await apiRequest("POST", `/api/lead-merges/${mergeId}/undo`);
+      return response.json() as Promise<{ keptFields: string[] }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leads/duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/lead-merges"] });
+      toast({
+        title: "Merge undone",
+        description: result.keptFields.length > 0
+          ? `Leads restored. Fields edited since the merge were kept: ${result.keptFields.join(", ")}`
+          : "The merged leads and their records were restored.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const undoDismissalMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/leads/duplicates/dismissals/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads/duplicates"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (data: { leadId: string; matchLeadId?: string; matchClientId?: string }) => {
+      const response = await apiRequest("POST", "/api/leads/duplicates/dismissals", data);
+      return response.json() as Promise<DuplicateDismissal>;
+    },
+    onSuccess: (dismissal) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leads/duplicates"] });
+      toast({
+        title: "Marked as not a duplicate",
+        description: "This pair will no longer be suggested.",
+        action: (
+          <ToastAction altText="Undo" onClick={() => undoDismissalMutation.mutate(dismissal.id)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex flex-col">
+      <PageHeader
+        title="Duplicate Leads"
+        description="Leads that look like the same person, scored by phone, email, name and city"
+        actions={
+          <div className="flex items-center gap-2">
+            <Select value={minConfidence} onValueChange={setMinConfidence}>
+              <SelectTrigger className="w-44" data-testid="select-duplicate-confidence">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {confidenceOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" asChild>
+              <Link href="/leads">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Leads
+              </Link>
+            </Button>
+          </div>
+        }
+      />
+
+      <div className="flex-1 p-6 space-y-4">
+        {isLoading ? (
+          <div className="flex h-64 items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : groups.length === 0 ? (
+          <Card>
+            <CardContent className="flex h-64 flex-col items-center justify-center gap-2 text-muted-foreground">
+              <Copy className="h-10 w-10" />
+              <p>No likely duplicates found at this confidence level.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          groups.map((group) => (
+            <Card key={group.lead.id} data-testid={`duplicate-group-${group.lead.id}`}>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 pb-3">
+                <div className="min-w-0">
+                  <CardTitle className="text-base">{group.lead.name}</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    {[group.lead.mobile, group.lead.email, group.lead.city].filter(Boolean).join(" · ")}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <ConfidenceBadge confidence={group.confidence} />
+                  {canMerge && group.matches.length > 0 && (
+                    <Button
+                      size="sm"
+                      onClick={() => setMergingLeads([group.lead, ...group.matches.map(m => m.lead)])}
+                      data-testid={`button-merge-group-${group.lead.id}`}
+                    >
+                      <GitMerge className="mr-2 h-4 w-4" />
+                      Merge
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {group.matches.map((match) => (
+                  <div
+                    key={match.lead.id}
+                    className="flex flex-col gap-2 rounded-md border p-3 sm:flex-row sm:items-center sm:justify-between"
+                    data-testid={`duplicate-match-${match.lead.id}`}
+                  >
+                    <div className="space-y-2 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <ContactLine name={match.lead.name} phone={match.lead.mobile} email={match.lead.email} city={match.lead.city} />
+                        <ConfidenceBadge confidence={match.confidence} />
+                      </div>
+                      <ReasonList reasons={match.reasons} />
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={dismissMutation.isPending}
+                      onClick={() => dismissMutation.mutate({ leadId: group.lead.id, matchLeadId: match.lead.id })}
+                      data-testid={`button-not-duplicate-${match.lead.id}`}
+                    >
+                      <XCircle className="mr-2 h-4 w-4" />
+                      Not a duplicate
+                    </Button>
+                  </div>
+                ))}
+                {group.clientMatches.map((match) => (
+                  <div
+                    key={match.client.id}
+                    className="flex flex-col gap-2 rounded-md border border-dashed p-3 sm:flex-row sm:items-center sm:justify-between"
+                    data-testid={`duplicate-client-${match.client.id}`}
+                  >
+                    <div className="space-y-2 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <Building2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        <ContactLine
+                          name={`${match.client.contactName} (${match.client.companyName})`}
+                          phone={match.client.phone}
+                          email={match.client.email}
+                          city={match.client.city}
+                        />
+                        <Badge variant="outline">Existing client</Badge>
+                        <ConfidenceBadge confidence={match.confidence} />
+                      </div>
+                      <ReasonList reasons={match.reasons} />
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={dismissMutation.isPending}
+                      onClick={() => dismissMutation.mutate({ leadId: group.lead.id, matchClientId: match.client.id })}
+                      data-testid={`button-not-duplicate-client-${match.client.id}`}
+                    >
+                      <XCircle className="mr-2 h-4 w-4" />
+                      Not a duplicate
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          ))
+        )}
+
+        {merges.length > 0 && (
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Merge History</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {merges.slice(0, 20).map((merge) => (
+                <div
+                  key={merge.id}
+                  className="flex items-center justify-between gap-3 rounded-md border p-3 text-sm"
+                  data-testid={`lead-merge-${merge.id}`}
+                >
+                  <div className="min-w-0">
+                    <p className="truncate">
+                      Merged {merge.mergedLeads.map(l => l.name).join(", ")}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {format(new Date(merge.createdAt), "MMM d, yyyy h:mm a")}
+                      {" · "}
+                      {Object.values(merge.movedRecords).reduce((sum, records) => sum + (records?.length ?? 0), 0)} related records moved
+                    </p>
+                  </div>
+                  {merge.undoneAt ? (
+                    <Badge variant="secondary">Undone</Badge>
+                  ) : canMerge ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={undoMergeMutation.isPending}
+                      onClick={() => undoMergeMutation.mutate(merge.id)}
+                      data-testid={`button-undo-merge-${merge.id}`}
+                    >
+                      <Undo2 className="mr-2 h-4 w-4" />
+                      Undo
+                    </Button>
+                  ) : null}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <LeadMergeDialog
+        open={mergingLeads !== null}
+        onOpenChange={(open) => !open && setMergingLeads(null)}
+        leads={mergingLeads ?? []}
+      />
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { Link, useSearch } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -19,17 +20,22 @@ import {
   UserCheck,
   Upload,
   Download,
-  FileText,
-  CheckCircle2,
-  XCircle,
   Wand2,
+  SlidersHorizontal,
+  Bookmark,
+  Copy,
+  History,
+  StickyNote,
 } from "lucide-react";
 import { PageHeader } from "@/components/page-header";
 import { DataTable } from "@/components/data-table";
+import { LeadScorePopover } from "@/components/lead-score-popover";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   Dialog,
   DialogContent,
@@ -56,6 +62,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -71,18 +78,34 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Progress } from "@/components/ui/progress";
-import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Lead, User as UserType, leadSources, leadStatuses } from "@shared/schema";
 import { AIMessageGenerator } from "@/components/ai-message-generator";
-
-interface ImportResult {
-  success: { row: number; lead: Lead }[];
-  failed: { row: number; data: any; error: string }[];
-  total: number;
-}
+import {
+  LeadFilterBuilder,
+  countActiveFilters,
+  type AdvancedLeadFilters,
+  type SavedLeadView,
+} from "@/components/lead-filter-builder";
+import { useAuth } from "@/hooks/use-auth";
+import { CustomFieldsInput, useCustomFields } from "@/components/custom-fields-input";
+import { LeadImportWizard } from "@/components/lead-import-wizard";
+import { EntityTimeline } from "@/components/entity-timeline";
+import { LeadNotes } from "@/components/lead-notes";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { validateCustomFieldValues } from "@shared/customFields";
+import { whatsAppLink } from "@shared/phone";
+import type { PipelineWithStages } from "@shared/pipelines";
+import { isLostLead } from "@shared/lossReasons";
+import { LossDetailsFields } from "@/components/loss-reason-dialog";
 
 const leadFormSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
@@ -93,8 +116,15 @@ const leadFormSchema = z.object({
   status: z.string(),
   notes: z.string().optional(),
   ownerId: z.string().optional(),
+  pipelineId: z.string().optional(),
   interestLevel: z.string().optional(),
   budget: z.string().optional(),
+  dealValue: z.string().optional(),
+  expectedCloseDate: z.string().optional(),
+  lossReasonId: z.string().optional(),
+  lossCompetitor: z.string().optional(),
+  lossNotes: z.string().optional(),
+  customFields: z.record(z.any()).optional(),
 });
 
 type LeadFormData = z.infer<typeof leadFormSchema>;
@@ -122,7 +152,6 @@ export default function LeadsPage() {
   const [sourceFilter, setSourceFilter] = useState<string>("all");
   const [temperatureFilter, setTemperatureFilter] = useState<string>("all");
   const [isImportOpen, setIsImportOpen] = useState(false);
-  const [importResult, setImportResult] = useState<ImportResult | null>(null);
   const [isExporting, setIsExporting] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -132,16 +161,41 @@ export default function LeadsPage() {
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   const [convertingLead, setConvertingLead] = useState<Lead | null>(null);
   const [messageGeneratorLead, setMessageGeneratorLead] = useState<Lead | null>(null);
+  const [sheetLead, setSheetLead] = useState<Lead | null>(null);
+  const [sheetTab, setSheetTab] = useState<"notes" | "timeline">("notes");
+  const [advancedFilters, setAdvancedFilters] = useState<AdvancedLeadFilters>({});
+  const [isFilterBuilderOpen, setIsFilterBuilderOpen] = useState(false);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [isSaveViewOpen, setIsSaveViewOpen] = useState(false);
+  const [viewName, setViewName] = useState("");
+  const [viewShared, setViewShared] = useState(false);
+  const { user: currentUser } = useAuth();
+  const leadCustomFields = useCustomFields("lead");
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({});
+  const searchString = useSearch();
   const pageSize = 20;
 
-  const buildLeadsUrl = () => {
+  // Same filter params drive the list, the CSV export and saved views
+  const buildFilterParams = () => {
     const params = new URLSearchParams();
     if (searchQuery) params.append("search", searchQuery);
     if (statusFilter && statusFilter !== "all") params.append("status", statusFilter);
     if (sourceFilter && sourceFilter !== "all") params.append("source", sourceFilter);
     if (temperatureFilter && temperatureFilter !== "all") params.append("score", temperatureFilter);
+    const { customFields, ...otherFilters } = advancedFilters;
+    Object.entries(otherFilters).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") params.append(key, String(value));
+    });
+    Object.entries(customFields ?? {}).forEach(([key, value]) => {
+      if (value) params.append(`customFields[${key}]`, value);
+    });
     params.append("sortBy", sortBy);
     params.append("sortOrder", sortOrder);
+    return params;
+  };
+
+  const buildLeadsUrl = () => {
+    const params = buildFilterParams();
     params.append("page", currentPage.toString());
     params.append("limit", pageSize.toString());
     return `/api/leads?${params.toString()}`;
@@ -158,7 +212,7 @@ export default function LeadsPage() {
   }
 
   const { data: leadsResponse, isLoading } = useQuery<LeadsResponse>({
-    queryKey: ["/api/leads", searchQuery, statusFilter, sourceFilter, temperatureFilter, sortBy, sortOrder, currentPage],
+    queryKey: ["/api/leads", searchQuery, statusFilter, sourceFilter, temperatureFilter, advancedFilters, sortBy, sortOrder, currentPage],
     queryFn: async () => {
       const res = await fetch(buildLeadsUrl(), { credentials: "include" });
       if (!res.ok) throw new Error("Failed to fetch leads");
@@ -173,6 +227,93 @@ export default function LeadsPage() {
     queryKey: ["/api/users"],
   });
 
+  const { data: pipelines = [] } = useQuery<PipelineWithStages[]>({
+    queryKey: ["/api/pipelines"],
+  });
+
+  const { data: savedViews = [] } = useQuery<SavedLeadView[]>({
+    queryKey: ["/api/lead-views"],
+  });
+
+  const activeView = savedViews.find(v => v.id === activeViewId) || null;
+
+  const applyView = (view: SavedLeadView | null) => {
+    const { search, status, source, score, ...rest } = view?.filters ?? {};
+    setSearchQuery(search ?? "");
+    setStatusFilter(status ?? "all");
+    setSourceFilter(source ?? "all");
+    setTemperatureFilter(score ?? "all");
+    setAdvancedFilters(rest);
+    setSortBy(view?.sortBy ?? "createdAt");
+    setSortOrder(view?.sortOrder === "asc" ? "asc" : "desc");
+    setActiveViewId(view?.id ?? null);
+    setCurrentPage(1);
+  };
+
+  // Sidebar links open a saved view via /leads?view=<id>
+  const viewParam = new URLSearchParams(searchString).get("view");
+  useEffect(() => {
+    if (!viewParam || viewParam === activeViewId) return;
+    const view = savedViews.find(v => v.id === viewParam);
+    if (view) applyView(view);
+  }, [viewParam, savedViews]);
+
+  const openLeadSheet = (lead: Lead, tab: "notes" | "timeline") => {
+    setSheetLead(lead);
+    setSheetTab(tab);
+  };
+
+  // Mention notifications link to /leads?notes=<leadId>
+  const notesParam = new URLSearchParams(searchString).get("notes");
+  useEffect(() => {
+    if (!notesParam) return;
+    apiRequest("GET", `/api/leads/${notesParam}`)
+      .then(response => response.json())
+      .then((lead: Lead) => openLeadSheet(lead, "notes"))
+      .catch(() => toast({ title: "Lead not found", variant: "destructive" }));
+  }, [notesParam]);
+
+  const currentViewFilters = () => ({
+    search: searchQuery || undefined,
+    status: statusFilter !== "all" ? statusFilter : undefined,
+    source: sourceFilter !== "all" ? sourceFilter : undefined,
+    score: temperatureFilter !== "all" ? temperatureFilter : undefined,
+    ...advancedFilters,
+  });
+
+  const saveViewMutation = useMutation({
+    mutationFn: async () => {
+      const body = { name: viewName, isShared: viewShared, filters: currentViewFilters(), sortBy, sortOrder };
+      const response = activeView && activeView.userId === currentUser?.id && activeView.name === viewName
+        ? await apiRequest("PATCH", `/api/lead-views/${activeView.id}`, body)
+        : await apiRequest("POST", "/api/lead-views", body);
+      return response.json() as Promise<SavedLeadView>;
+    },
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lead-views"] });
+      setActiveViewId(view.id);
+      setIsSaveViewOpen(false);
+      toast({ title: "View saved", description: `"${view.name}" is available in the sidebar.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteViewMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/lead-views/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lead-views"] });
+      applyView(null);
+      toast({ title: "View deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
   const form = useForm<LeadFormData>({
     resolver: zodResolver(leadFormSchema),
     defaultValues: {
@@ -184,11 +325,26 @@ export default function LeadsPage() {
       status: "new",
       notes: "",
       ownerId: "",
+      pipelineId: "",
       interestLevel: "medium",
       budget: "",
+      dealValue: "",
+      expectedCloseDate: "",
+      lossReasonId: "",
+      lossCompetitor: "",
+      lossNotes: "",
+      customFields: {},
     },
   });
 
+  // Loss details are asked for while the lead is not interested, or sits in a lost stage it is not moved out of
+  const watchedPipelineId = form.watch("pipelineId");
+  const editingStageOutcome =
+    editingLead && (!watchedPipelineId || watchedPipelineId === editingLead.pipelineId)
+      ? pipelines.find((p) => p.id === editingLead.pipelineId)?.stages.find((s) => s.key === editingLead.pipelineStage)?.outcome
+      : undefined;
+  const showLossFields = isLostLead(form.watch("status"), editingStageOutcome);
+
   const createMutation = useMutation({
     mutationFn: async (data: LeadFormData) => {
       const response = await apiRequest("POST", "/api/leads", data);
@@ -251,89 +407,11 @@ export default function LeadsPage() {
     },
   });
 
-  const importMutation = useMutation({
-    mutationFn: async (csvData: any[]) => {
-      const response = await apiRequest("POST", "/api/leads/import", { csvData });
-      return response.json() as Promise<ImportResult>;
-    },
-    onSuccess: (result) => {
-      setImportResult(result);
-      queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
-      if (result.failed.length === 0) {
-        toast({ title: "Import successful", description: `${result.success.length} leads imported.` });
-      } else {
-        toast({ 
-          title: "Import completed with errors", 
-          description: `${result.success.length} imported, ${result.failed.length} failed.`,
-          variant: result.success.length > 0 ? "default" : "destructive"
-        });
-      }
-    },
-    onError: (error: Error) => {
-      toast({ title: "Import failed", description: error.message, variant: "destructive" });
-    },
-  });
-
-  const parseCSV = (text: string): any[] => {
-    const lines = text.split("\n").filter(line => line.trim());
-    if (lines.length < 2) return [];
-    
-    const headers = lines[0].split(",").map(h => h.trim().toLowerCase().replace(/"/g, ""));
-    const data: any[] = [];
-    
-    for (let i = 1; i < lines.length; i++) {
-      const values: string[] = [];
-      let current = "";
-      let inQuotes = false;
-      
-      for (const char of lines[i]) {
-        if (char === '"') {
-          inQuotes = !inQuotes;
-        } else if (char === "," && !inQuotes) {
-          values.push(current.trim().replace(/^"|"$/g, ""));
-          current = "";
-        } else {
-          current += char;
-        }
-      }
-      values.push(current.trim().replace(/^"|"$/g, ""));
-      
-      const row: any = {};
-      headers.forEach((header, index) => {
-        row[header] = values[index] || "";
-      });
-      data.push(row);
-    }
-    
-    return data;
-  };
-
-  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-    
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      const csvData = parseCSV(text);
-      if (csvData.length === 0) {
-        toast({ title: "Invalid CSV", description: "The file is empty or has no data rows.", variant: "destructive" });
-        return;
-      }
-      importMutation.mutate(csvData);
-    };
-    reader.readAsText(file);
-    event.target.value = "";
-  };
-
   const handleExport = async () => {
     setIsExporting(true);
     try {
-      const params = new URLSearchParams();
-      if (statusFilter && statusFilter !== "all") params.append("status", statusFilter);
-      if (sourceFilter && sourceFilter !== "all") params.append("source", sourceFilter);
-      if (searchQuery) params.append("search", searchQuery);
-      
+      const params = buildFilterParams();
+
       const response = await fetch(`/api/leads/export?${params.toString()}`, { credentials: "include" });
       if (!response.ok) throw new Error("Export failed");
       
@@ -356,10 +434,25 @@ export default function LeadsPage() {
   };
 
   const handleSubmit = (data: LeadFormData) => {
+    const { errors } = validateCustomFieldValues(leadCustomFields, data.customFields);
+    setCustomFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+    if (showLossFields && !data.lossReasonId) {
+      form.setError("lossReasonId", { message: "Pick a loss reason" });
+      return;
+    }
+
+    // Left empty, new leads go to the default pipeline and edited ones stay where they are
+    const { lossReasonId, lossCompetitor, lossNotes, ...rest } = data;
+    const payload = {
+      ...rest,
+      ...(showLossFields && { lossReasonId, lossCompetitor, lossNotes }),
+      pipelineId: data.pipelineId || undefined,
+    };
     if (editingLead) {
-      updateMutation.mutate({ id: editingLead.id, data });
+      updateMutation.mutate({ id: editingLead.id, data: payload });
     } else {
-      createMutation.mutate(data);
+      createMutation.mutate(payload);
     }
   };
 
@@ -374,11 +467,18 @@ export default function LeadsPage() {
       status: lead.status,
       notes: lead.notes || "",
       ownerId: lead.ownerId || "",
+      pipelineId: lead.pipelineId || "",
+      dealValue: lead.dealValue || "",
+      expectedCloseDate: lead.expectedCloseDate || "",
+      lossReasonId: lead.lossReasonId || "",
+      lossCompetitor: lead.lossCompetitor || "",
+      lossNotes: lead.lossNotes || "",
+      customFields: lead.customFields ?? {},
     });
   };
 
   const handleWhatsApp = (mobile: string) => {
-    window.open(`https://wa.me/${mobile.replace(/\D/g, "")}`, "_blank");
+    window.open(whatsAppLink(mobile), "_blank");
   };
 
   const handleCall = (mobile: string) => {
@@ -426,14 +526,19 @@ export default function LeadsPage() {
         const temp = (lead as any).score || "warm";
         const numScore = (lead as any).leadScore ?? 50;
         return (
-          <div className="flex items-center gap-2">
+          <LeadScorePopover lead={lead}>
             <Badge className={scoreColors[temp] || scoreColors.warm} data-testid={`badge-score-${lead.id}`}>
               {temp.toUpperCase()}
             </Badge>
             <span className="text-xs text-muted-foreground" data-testid={`text-leadscore-${lead.id}`}>
               {numScore}
             </span>
-          </div>
+            {lead.conversionProbability != null && (
+              <span className="text-xs text-muted-foreground" data-testid={`text-conversion-${lead.id}`}>
+                · {Math.round(lead.conversionProbability * 100)}% likely
+              </span>
+            )}
+          </LeadScorePopover>
         );
       },
     },
@@ -461,7 +566,7 @@ export default function LeadsPage() {
           <Button
             variant="ghost"
             size="icon"
-            onClick={() => handleWhatsApp(lead.mobile)}
+            onClick={() => handleWhatsApp(lead.mobileE164 ?? lead.mobile)}
             data-testid={`button-whatsapp-${lead.id}`}
           >
             <MessageCircle className="h-4 w-4 text-green-600" />
@@ -485,6 +590,20 @@ export default function LeadsPage() {
                 <Edit className="mr-2 h-4 w-4" />
                 Edit
               </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => openLeadSheet(lead, "notes")}
+                data-testid={`button-notes-${lead.id}`}
+              >
+                <StickyNote className="mr-2 h-4 w-4" />
+                Notes
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => openLeadSheet(lead, "timeline")}
+                data-testid={`button-timeline-${lead.id}`}
+              >
+                <History className="mr-2 h-4 w-4" />
+                Timeline
+              </DropdownMenuItem>
               <DropdownMenuItem 
                 onClick={() => setMessageGeneratorLead(lead)}
                 data-testid={`button-ai-message-${lead.id}`}
@@ -535,114 +654,21 @@ export default function LeadsPage() {
               {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
               Export
             </Button>
-            <Dialog open={isImportOpen} onOpenChange={(open) => {
-              setIsImportOpen(open);
-              if (!open) setImportResult(null);
-            }}>
-              <DialogTrigger asChild>
-                <Button variant="outline" data-testid="button-import-leads">
-                  <Upload className="mr-2 h-4 w-4" />
-                  Import
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="max-w-lg">
-                <DialogHeader>
-                  <DialogTitle>Import Leads from CSV</DialogTitle>
-                  <DialogDescription>
-                    Upload a CSV file with columns: name, mobile, email, city, source, status, notes
-                  </DialogDescription>
-                </DialogHeader>
-                
-                {!importResult ? (
-                  <div className="space-y-4">
-                    <div className="border-2 border-dashed rounded-lg p-8 text-center">
-                      <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-                      <p className="text-sm text-muted-foreground mb-4">
-                        Upload a CSV file with lead data. Required columns: name, mobile
-                      </p>
-                      <input
-                        type="file"
-                        accept=".csv"
-                        onChange={handleImportFile}
-                        className="hidden"
-                        id="csv-upload"
-                        data-testid="input-csv-file"
-                      />
-                      <label htmlFor="csv-upload">
-                        <Button asChild disabled={importMutation.isPending}>
-                          <span>
-                            {importMutation.isPending ? (
-                              <>
-                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                Processing...
-                              </>
-                            ) : (
-                              <>
-                                <Upload className="mr-2 h-4 w-4" />
-                                Choose CSV File
-                              </>
-                            )}
-                          </span>
-                        </Button>
-                      </label>
-                    </div>
-                    <div className="text-xs text-muted-foreground space-y-1">
-                      <p><strong>Example CSV format:</strong></p>
-                      <code className="block bg-muted p-2 rounded text-xs">
-                        name,mobile,email,city,source,status<br/>
-                        John Doe,9876543210,john@example.com,Mumbai,facebook,new
-                      </code>
-                    </div>
-                  </div>
-                ) : (
-                  <div className="space-y-4">
-                    <div className="flex items-center justify-between p-4 bg-muted rounded-lg">
-                      <div className="flex items-center gap-2">
-                        <CheckCircle2 className="h-5 w-5 text-green-500" />
-                        <span className="font-medium">{importResult.success.length} imported</span>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <XCircle className="h-5 w-5 text-red-500" />
-                        <span className="font-medium">{importResult.failed.length} failed</span>
-                      </div>
-                    </div>
-                    
-                    {importResult.success.length > 0 && (
-                      <Progress value={(importResult.success.length / importResult.total) * 100} className="h-2" />
-                    )}
-                    
-                    {importResult.failed.length > 0 && (
-                      <div>
-                        <p className="text-sm font-medium mb-2">Failed Rows:</p>
-                        <ScrollArea className="h-[200px] border rounded-md p-2">
-                          {importResult.failed.map((item, i) => (
-                            <div key={i} className="text-xs p-2 border-b last:border-0">
-                              <span className="font-medium">Row {item.row}:</span> {item.error}
-                              <div className="text-muted-foreground mt-1">
-                                Data: {JSON.stringify(item.data)}
-                              </div>
-                            </div>
-                          ))}
-                        </ScrollArea>
-                      </div>
-                    )}
-                    
-                    <DialogFooter>
-                      <Button onClick={() => {
-                        setImportResult(null);
-                        setIsImportOpen(false);
-                      }}>
-                        Done
-                      </Button>
-                    </DialogFooter>
-                  </div>
-                )}
-              </DialogContent>
-            </Dialog>
+            <Button variant="outline" onClick={() => setIsImportOpen(true)} data-testid="button-import-leads">
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <Button variant="outline" asChild data-testid="button-lead-duplicates">
+              <Link href="/leads/duplicates">
+                <Copy className="mr-2 h-4 w-4" />
+                Duplicates
+              </Link>
+            </Button>
             <Dialog open={isFormOpen} onOpenChange={(open) => {
               if (!open) {
                 setIsCreateOpen(false);
                 setEditingLead(null);
+                setCustomFieldErrors({});
                 form.reset();
               }
             }}>
@@ -652,7 +678,7 @@ export default function LeadsPage() {
                   Add Lead
                 </Button>
               </DialogTrigger>
-            <DialogContent className="max-w-md">
+            <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>{editingLead ? "Edit Lead" : "Add New Lead"}</DialogTitle>
                 <DialogDescription>
@@ -765,6 +791,24 @@ export default function LeadsPage() {
                       )}
                     />
                   </div>
+                  {showLossFields && (
+                    <div className="rounded-md border p-3" data-testid="lead-loss-details">
+                      <LossDetailsFields
+                        value={{
+                          lossReasonId: form.watch("lossReasonId") || "",
+                          lossCompetitor: form.watch("lossCompetitor") || "",
+                          lossNotes: form.watch("lossNotes") || "",
+                        }}
+                        onChange={(details) => {
+                          form.setValue("lossReasonId", details.lossReasonId);
+                          form.setValue("lossCompetitor", details.lossCompetitor);
+                          form.setValue("lossNotes", details.lossNotes);
+                          if (details.lossReasonId) form.clearErrors("lossReasonId");
+                        }}
+                        reasonError={form.formState.errors.lossReasonId?.message}
+                      />
+                    </div>
+                  )}
                   <FormField
                     control={form.control}
                     name="notes"
@@ -822,6 +866,41 @@ export default function LeadsPage() {
                       </FormItem>
                     )}
                   />
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="dealValue"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Expected Deal Value</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              placeholder="e.g., 75000"
+                              {...field}
+                              data-testid="input-lead-deal-value"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="expectedCloseDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Expected Close Date</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} data-testid="input-lead-close-date" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
                   <FormField
                     control={form.control}
                     name="ownerId"
@@ -846,6 +925,45 @@ export default function LeadsPage() {
                       </FormItem>
                     )}
                   />
+                  {pipelines.length > 1 && (
+                    <FormField
+                      control={form.control}
+                      name="pipelineId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Pipeline</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-lead-pipeline">
+                                <SelectValue placeholder="Default pipeline" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {pipelines.map((pipeline) => (
+                                <SelectItem key={pipeline.id} value={pipeline.id}>
+                                  {pipeline.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormDescription>Moving a lead to another pipeline starts it at that pipeline's first stage.</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  <FormField
+                    control={form.control}
+                    name="customFields"
+                    render={({ field }) => (
+                      <CustomFieldsInput
+                        fields={leadCustomFields}
+                        value={field.value}
+                        onChange={field.onChange}
+                        errors={customFieldErrors}
+                      />
+                    )}
+                  />
                   <DialogFooter>
                     <Button
                       type="submit"
@@ -929,6 +1047,8 @@ export default function LeadsPage() {
               <SelectItem value="status">Status</SelectItem>
               <SelectItem value="source">Source</SelectItem>
               <SelectItem value="city">City</SelectItem>
+              <SelectItem value="leadScore">Lead Score</SelectItem>
+              <SelectItem value="lastActivityAt">Last Activity</SelectItem>
             </SelectContent>
           </Select>
           <Button
@@ -939,6 +1059,63 @@ export default function LeadsPage() {
           >
             {sortOrder === "asc" ? "↑" : "↓"}
           </Button>
+          <Button
+            variant="outline"
+            onClick={() => setIsFilterBuilderOpen(true)}
+            data-testid="button-advanced-filters"
+          >
+            <SlidersHorizontal className="mr-2 h-4 w-4" />
+            Filters
+            {countActiveFilters(advancedFilters) > 0 && (
+              <Badge variant="secondary" className="ml-2">{countActiveFilters(advancedFilters)}</Badge>
+            )}
+          </Button>
+        </div>
+
+        {/* Saved Views */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={activeViewId ?? "none"}
+            onValueChange={(val) => applyView(savedViews.find(v => v.id === val) || null)}
+          >
+            <SelectTrigger className="w-[220px]" data-testid="select-lead-view">
+              <SelectValue placeholder="Saved views" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">All leads</SelectItem>
+              {savedViews.map((view) => (
+                <SelectItem key={view.id} value={view.id}>
+                  {view.name}{view.isShared ? " (shared)" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setViewName(activeView?.name ?? "");
+              setViewShared(activeView?.isShared ?? false);
+              setIsSaveViewOpen(true);
+            }}
+            data-testid="button-save-view"
+          >
+            <Bookmark className="mr-2 h-4 w-4" />
+            Save view
+          </Button>
+          {activeView && (activeView.userId === currentUser?.id || currentUser?.role === "admin") && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-destructive"
+              onClick={() => deleteViewMutation.mutate(activeView.id)}
+              disabled={deleteViewMutation.isPending}
+              data-testid="button-delete-view"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete view
+            </Button>
+          )}
         </div>
 
         {/* Data Table */}
@@ -1032,6 +1209,57 @@ export default function LeadsPage() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <LeadImportWizard open={isImportOpen} onOpenChange={setIsImportOpen} />
+
+      <LeadFilterBuilder
+        open={isFilterBuilderOpen}
+        onOpenChange={setIsFilterBuilderOpen}
+        filters={advancedFilters}
+        onApply={(filters) => {
+          setAdvancedFilters(filters);
+          setCurrentPage(1);
+        }}
+      />
+
+      <Dialog open={isSaveViewOpen} onOpenChange={setIsSaveViewOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Save the current filters and sorting as a named view.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Name</Label>
+              <Input
+                value={viewName}
+                onChange={(e) => setViewName(e.target.value)}
+                placeholder="Hot Facebook leads"
+                data-testid="input-view-name"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium text-sm">Share with team</p>
+                <p className="text-xs text-muted-foreground">Everyone can open shared views</p>
+              </div>
+              <Switch checked={viewShared} onCheckedChange={setViewShared} data-testid="switch-view-shared" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => saveViewMutation.mutate()}
+              disabled={!viewName.trim() || saveViewMutation.isPending}
+              data-testid="button-confirm-save-view"
+            >
+              {saveViewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={messageGeneratorLead !== null} onOpenChange={(open) => !open && setMessageGeneratorLead(null)}>
         <DialogContent className="max-w-lg">
           <DialogHeader>
@@ -1051,6 +1279,37 @@ export default function LeadsPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      <Sheet open={sheetLead !== null} onOpenChange={(open) => !open && setSheetLead(null)}>
+        <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>{sheetLead?.name}</SheetTitle>
+            <SheetDescription>
+              {[sheetLead?.mobile, sheetLead?.email].filter(Boolean).join(" · ")}
+            </SheetDescription>
+          </SheetHeader>
+          {sheetLead && (
+            <Tabs value={sheetTab} onValueChange={(value) => setSheetTab(value as "notes" | "timeline")} className="mt-6">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="notes" data-testid="tab-lead-notes">
+                  <StickyNote className="mr-2 h-4 w-4" />
+                  Notes
+                </TabsTrigger>
+                <TabsTrigger value="timeline" data-testid="tab-lead-timeline">
+                  <History className="mr-2 h-4 w-4" />
+                  Timeline
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="notes" className="mt-4">
+                <LeadNotes leadId={sheetLead.id} />
+              </TabsContent>
+              <TabsContent value="timeline" className="mt-4">
+                <EntityTimeline entity="leads" id={sheetLead.id} />
+              </TabsContent>
+            </Tabs>
+          )}
+        </SheetContent>
+      </Sheet>
     </div>
   );
 }
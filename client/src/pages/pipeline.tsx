@@ -1,6 +1,6 @@
 import { useState, useMemo } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { format, isPast, isFuture } from "date-fns";
+import { keepPreviousData, useQuery, useQueries, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, isPast, isFuture, parseISO } from "date-fns";
 import {
   Phone,
   MessageCircle,
@@ -24,27 +24,26 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Lead, User as UserType, FollowUp, pipelineStages, leadSources } from "@shared/schema";
-
-const stageLabels: Record<string, string> = {
-  new_lead: "New Lead",
-  contacted: "Contacted",
-  qualified: "Qualified",
-  proposal_sent: "Proposal Sent",
-  negotiation: "Negotiation",
-  won: "Won",
-  lost: "Lost",
-};
-
-const stageColors: Record<string, string> = {
-  new_lead: "bg-blue-500",
-  contacted: "bg-yellow-500",
-  qualified: "bg-purple-500",
-  proposal_sent: "bg-orange-500",
-  negotiation: "bg-pink-500",
-  won: "bg-green-500",
-  lost: "bg-gray-500",
-};
+import { Lead, User as UserType, FollowUp, leadSources, type PipelineStage } from "@shared/schema";
+import type { SerializedCustomFieldDefinition } from "@shared/customFields";
+import { whatsAppLink } from "@shared/phone";
+import { missingStageFields, stageFieldLabel, type PipelineWithStages } from "@shared/pipelines";
+import type { PipelineStageTotals } from "@shared/forecast";
+import { isLostLead } from "@shared/lossReasons";
+import type { StageActionResult } from "@shared/stageActions";
+import { LossReasonDialog, type LossDetails } from "@/components/loss-reason-dialog";
+
+// Open stages take colours in order; won and lost stages are always green and grey
+const openStageColors = ["bg-blue-500", "bg-yellow-500", "bg-purple-500", "bg-orange-500", "bg-pink-500", "bg-cyan-500"];
+
+function stageColor(stage: PipelineStage, index: number): string {
+  if (stage.outcome === "won") return "bg-green-500";
+  if (stage.outcome === "lost") return "bg-gray-500";
+  return openStageColors[index % openStageColors.length];
+}
+
+// Each column loads its leads a page at a time; the column totals come from the server and cover them all
+const COLUMN_PAGE_SIZE = 50;
 
 interface LeadWithRelations extends Lead {
   owner?: UserType;
@@ -55,13 +54,62 @@ export default function PipelinePage() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [draggedLead, setDraggedLead] = useState<Lead | null>(null);
+  const [pipelineId, setPipelineId] = useState<string | null>(null);
   const [ownerFilter, setOwnerFilter] = useState<string>("all");
   const [sourceFilter, setSourceFilter] = useState<string>("all");
+  const [losingMove, setLosingMove] = useState<{ lead: Lead; stage: PipelineStage } | null>(null);
+  const [columnPages, setColumnPages] = useState<Record<string, number>>({});
+
+  const { data: pipelines = [], isLoading: pipelinesLoading } = useQuery<PipelineWithStages[]>({
+    queryKey: ["/api/pipelines"],
+  });
+  const pipeline = pipelines.find((p) => p.id === pipelineId) ?? pipelines.find((p) => p.isDefault) ?? pipelines[0];
+
+  // The board shows one pipeline at a time; owner and source filters apply on the server ("all" is ignored)
+  const filterParams = { ownerId: ownerFilter, source: sourceFilter };
+
+  const { data: stageTotals } = useQuery<Record<string, PipelineStageTotals>>({
+    queryKey: ["/api/leads", "stage-totals", pipeline?.id, filterParams],
+    queryFn: async () => {
+      const params = new URLSearchParams({ pipelineId: pipeline!.id, ...filterParams });
+      const res = await fetch(`/api/leads/stage-totals?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch pipeline totals");
+      return res.json();
+    },
+    enabled: !!pipeline,
+    placeholderData: keepPreviousData,
+  });
+
+  const columnQueries = (pipeline?.stages ?? []).flatMap((stage) =>
+    Array.from({ length: columnPages[stage.key] ?? 1 }, (_, index) => ({ stage: stage.key, page: index + 1 })),
+  );
+  const columnResults = useQueries({
+    queries: columnQueries.map(({ stage, page }) => ({
+      queryKey: ["/api/leads", "pipeline", pipeline?.id, stage, filterParams, page],
+      queryFn: async (): Promise<{ data: Lead[]; pagination: any }> => {
+        const params = new URLSearchParams({
+          pipelineId: pipeline!.id,
+          pipelineStage: stage,
+          ...filterParams,
+          page: String(page),
+          limit: String(COLUMN_PAGE_SIZE),
+        });
+        const res = await fetch(`/api/leads?${params}`, { credentials: "include" });
+        if (!res.ok) throw new Error("Failed to fetch leads");
+        return res.json();
+      },
+      enabled: !!pipeline,
+    })),
+  });
+  const isLoading = pipelinesLoading || (!!pipeline && !stageTotals);
 
-  const { data: leadsResponse, isLoading } = useQuery<{ data: Lead[]; pagination: any }>({
-    queryKey: ["/api/leads"],
+  const { data: customFields = [] } = useQuery<SerializedCustomFieldDefinition[]>({
+    queryKey: ["/api/custom-fields"],
   });
-  const leads = leadsResponse?.data || [];
+  const customLabels = useMemo(
+    () => Object.fromEntries(customFields.filter((f) => f.entityType === "lead").map((f) => [f.key, f.label])),
+    [customFields],
+  );
 
   const { data: users = [] } = useQuery<UserType[]>({
     queryKey: ["/api/users"],
@@ -91,22 +139,47 @@ export default function PipelinePage() {
     return map;
   }, [followUps]);
 
-  const filteredLeads = useMemo(() => {
-    return leads.filter((lead) => {
-      if (ownerFilter !== "all" && lead.ownerId !== ownerFilter) return false;
-      if (sourceFilter !== "all" && lead.source !== sourceFilter) return false;
-      return true;
+  // Pages of a column in order; a lead that moved between two page loads is shown once
+  const columnLeads = (stage: string) => {
+    const leads = new Map<string, Lead>();
+    columnQueries.forEach((query, index) => {
+      if (query.stage !== stage) return;
+      for (const lead of columnResults[index].data?.data ?? []) {
+        if (!leads.has(lead.id)) leads.set(lead.id, lead);
+      }
     });
-  }, [leads, ownerFilter, sourceFilter]);
+    return Array.from(leads.values());
+  };
+
+  const columnLoading = (stage: string) =>
+    columnQueries.some((query, index) => query.stage === stage && columnResults[index].isFetching);
+
+  const loadMore = (stage: string) => {
+    setColumnPages((pages) => ({ ...pages, [stage]: (pages[stage] ?? 1) + 1 }));
+  };
+
+  const totalLeads = Object.values(stageTotals ?? {}).reduce((sum, totals) => sum + totals.count, 0);
 
   const updateStageMutation = useMutation({
-    mutationFn: async ({ id, stage }: { id: string; stage: string }) => {
-      const response = await apiRequest("PATCH", `/api/leads/${id}`, { pipelineStage: stage });
-      return response.json();
+    mutationFn: async ({ id, stage, loss }: { id: string; stage: string; loss?: LossDetails }) => {
+      const response = await apiRequest("PATCH", `/api/leads/${id}`, { pipelineStage: stage, ...loss });
+      return response.json() as Promise<Lead & { stageActions?: StageActionResult[] }>;
     },
-    onSuccess: () => {
+    onSuccess: ({ stageActions = [] }) => {
+      setLosingMove(null);
       queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
-      toast({ title: "Lead updated", description: "Pipeline stage has been updated." });
+      if (stageActions.some((result) => result.status === "done")) {
+        for (const key of ["/api/quotations", "/api/tasks", "/api/clients", "/api/checklists"]) {
+          queryClient.invalidateQueries({ queryKey: [key] });
+        }
+      }
+      toast({
+        title: "Lead updated",
+        description: stageActions.length > 0
+          ? stageActions.map((result) => result.message).join(". ")
+          : "Pipeline stage has been updated.",
+        variant: stageActions.some((result) => result.status === "failed") ? "destructive" : "default",
+      });
     },
     onError: (error: Error) => {
       toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -123,11 +196,30 @@ export default function PipelinePage() {
     e.dataTransfer.dropEffect = "move";
   };
 
-  const handleDrop = (e: React.DragEvent, stage: string) => {
-    e.preventDefault();
-    if (draggedLead && draggedLead.pipelineStage !== stage) {
-      updateStageMutation.mutate({ id: draggedLead.id, stage });
+  // Stages with required fields turn the lead away until they are filled in (the server checks too).
+  // Moving a lead that is not yet lost into a lost stage asks for the loss reason first.
+  const moveLead = (lead: Lead, stage: PipelineStage) => {
+    if (lead.pipelineStage === stage.key) return;
+    const missing = missingStageFields(lead, stage);
+    if (missing.length > 0) {
+      toast({
+        title: `Cannot move to ${stage.name}`,
+        description: `Fill in ${missing.map((field) => stageFieldLabel(field, customLabels)).join(", ")} first.`,
+        variant: "destructive",
+      });
+      return;
     }
+    const currentOutcome = pipeline?.stages.find((s) => s.key === lead.pipelineStage)?.outcome;
+    if (stage.outcome === "lost" && !isLostLead(lead.status, currentOutcome)) {
+      setLosingMove({ lead, stage });
+      return;
+    }
+    updateStageMutation.mutate({ id: lead.id, stage: stage.key });
+  };
+
+  const handleDrop = (e: React.DragEvent, stage: PipelineStage) => {
+    e.preventDefault();
+    if (draggedLead) moveLead(draggedLead, stage);
     setDraggedLead(null);
   };
 
@@ -135,28 +227,47 @@ export default function PipelinePage() {
     setDraggedLead(lead);
   };
 
-  const handleTouchEnd = (stage: string) => {
-    if (draggedLead && draggedLead.pipelineStage !== stage) {
-      updateStageMutation.mutate({ id: draggedLead.id, stage });
-    }
+  const handleTouchEnd = (stage: PipelineStage) => {
+    if (draggedLead) moveLead(draggedLead, stage);
     setDraggedLead(null);
   };
 
   const handleWhatsApp = (mobile: string) => {
-    window.open(`https://wa.me/${mobile.replace(/\D/g, "")}`, "_blank");
+    window.open(whatsAppLink(mobile), "_blank");
   };
 
   const handleCall = (mobile: string) => {
     window.open(`tel:${mobile}`, "_self");
   };
 
-  const getLeadsByStage = (stage: string) => {
-    return filteredLeads.filter((lead) => lead.pipelineStage === stage);
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency: "INR",
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  // A new pipeline or filter starts every column back at its first page
+  const changePipeline = (id: string) => {
+    setPipelineId(id);
+    setColumnPages({});
+  };
+
+  const changeOwnerFilter = (ownerId: string) => {
+    setOwnerFilter(ownerId);
+    setColumnPages({});
+  };
+
+  const changeSourceFilter = (source: string) => {
+    setSourceFilter(source);
+    setColumnPages({});
   };
 
   const clearFilters = () => {
     setOwnerFilter("all");
     setSourceFilter("all");
+    setColumnPages({});
   };
 
   const hasActiveFilters = ownerFilter !== "all" || sourceFilter !== "all";
@@ -180,11 +291,25 @@ export default function PipelinePage() {
       />
 
       <div className="flex flex-wrap items-center gap-3 px-6 pb-4">
+        {pipelines.length > 1 && (
+          <Select value={pipeline?.id} onValueChange={changePipeline}>
+            <SelectTrigger className="w-[200px]" data-testid="select-pipeline">
+              <SelectValue placeholder="Pipeline" />
+            </SelectTrigger>
+            <SelectContent>
+              {pipelines.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
         <div className="flex items-center gap-2">
           <Filter className="h-4 w-4 text-muted-foreground" />
           <span className="text-sm text-muted-foreground">Filters:</span>
         </div>
-        <Select value={ownerFilter} onValueChange={setOwnerFilter}>
+        <Select value={ownerFilter} onValueChange={changeOwnerFilter}>
           <SelectTrigger className="w-[180px]" data-testid="select-pipeline-owner-filter">
             <SelectValue placeholder="Filter by owner" />
           </SelectTrigger>
@@ -197,7 +322,7 @@ export default function PipelinePage() {
             ))}
           </SelectContent>
         </Select>
-        <Select value={sourceFilter} onValueChange={setSourceFilter}>
+        <Select value={sourceFilter} onValueChange={changeSourceFilter}>
           <SelectTrigger className="w-[180px]" data-testid="select-pipeline-source-filter">
             <SelectValue placeholder="Filter by source" />
           </SelectTrigger>
@@ -223,41 +348,52 @@ export default function PipelinePage() {
           </Button>
         )}
         <div className="text-sm text-muted-foreground ml-auto">
-          {filteredLeads.length} lead{filteredLeads.length !== 1 ? "s" : ""}
+          {totalLeads} lead{totalLeads !== 1 ? "s" : ""}
         </div>
       </div>
 
       <ScrollArea className="flex-1">
         <div className="flex gap-4 p-6 pt-0 min-w-max">
-          {pipelineStages.map((stage) => {
-            const stageLeads = getLeadsByStage(stage);
+          {(pipeline?.stages ?? []).map((stage, index) => {
+            const stageLeads = columnLeads(stage.key);
+            const totals = stageTotals?.[stage.key] ?? { count: 0, value: 0, weighted: 0 };
+            const loading = columnLoading(stage.key);
             return (
               <div
-                key={stage}
+                key={stage.id}
                 className="flex flex-col w-[300px] flex-shrink-0"
                 onDragOver={handleDragOver}
                 onDrop={(e) => handleDrop(e, stage)}
                 onTouchEnd={() => draggedLead && handleTouchEnd(stage)}
-                data-testid={`pipeline-stage-${stage}`}
+                data-testid={`pipeline-stage-${stage.key}`}
               >
                 <Card className="flex flex-col h-full bg-muted/30">
                   <CardHeader className="pb-3">
                     <div className="flex items-center justify-between gap-2">
                       <div className="flex items-center gap-2">
-                        <div className={`h-2 w-2 rounded-full ${stageColors[stage]}`} />
+                        <div className={`h-2 w-2 rounded-full ${stageColor(stage, index)}`} />
                         <CardTitle className="text-sm font-medium">
-                          {stageLabels[stage]}
+                          {stage.name}
                         </CardTitle>
+                        <span className="text-xs text-muted-foreground" title="Win probability">
+                          {stage.winProbability}%
+                        </span>
                       </div>
                       <Badge variant="secondary" className="text-xs">
-                        {stageLeads.length}
+                        {totals.count}
                       </Badge>
                     </div>
+                    {totals.value > 0 && (
+                      <div className="flex items-center justify-between text-xs text-muted-foreground" data-testid={`pipeline-stage-total-${stage.key}`}>
+                        <span className="font-medium text-foreground">{formatCurrency(totals.value)}</span>
+                        {stage.outcome === "open" && <span title="Value × win probability">Weighted {formatCurrency(totals.weighted)}</span>}
+                      </div>
+                    )}
                   </CardHeader>
                   <CardContent className="flex-1 space-y-3 pt-0 max-h-[calc(100vh-280px)] overflow-y-auto">
                     {stageLeads.length === 0 ? (
                       <div className="flex h-24 items-center justify-center rounded-lg border border-dashed text-sm text-muted-foreground">
-                        No leads
+                        {loading ? "Loading leads..." : "No leads"}
                       </div>
                     ) : (
                       stageLeads.map((lead) => {
@@ -317,6 +453,19 @@ export default function PipelinePage() {
                                     )}
                                   </div>
 
+                                  {(lead.dealValue || lead.expectedCloseDate) && (
+                                    <div className="flex items-center justify-between gap-2 text-xs" data-testid={`lead-deal-${lead.id}`}>
+                                      <span className="font-medium">
+                                        {lead.dealValue ? formatCurrency(Number(lead.dealValue)) : ""}
+                                      </span>
+                                      {lead.expectedCloseDate && (
+                                        <span className="text-muted-foreground">
+                                          Closes {format(parseISO(lead.expectedCloseDate), "MMM d")}
+                                        </span>
+                                      )}
+                                    </div>
+                                  )}
+
                                   {nextFollowUp && followUpDate && (
                                     <div 
                                       className={`flex items-center gap-1 text-xs ${isOverdue ? "text-destructive" : "text-muted-foreground"}`}
@@ -337,7 +486,7 @@ export default function PipelinePage() {
                                       className="h-7 w-7"
                                       onClick={(e) => {
                                         e.stopPropagation();
-                                        handleWhatsApp(lead.mobile);
+                                        handleWhatsApp(lead.mobileE164 ?? lead.mobile);
                                       }}
                                       data-testid={`button-whatsapp-${lead.id}`}
                                     >
@@ -363,6 +512,18 @@ export default function PipelinePage() {
                         );
                       })
                     )}
+                    {stageLeads.length > 0 && stageLeads.length < totals.count && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-full"
+                        onClick={() => loadMore(stage.key)}
+                        disabled={loading}
+                        data-testid={`button-pipeline-load-more-${stage.key}`}
+                      >
+                        {loading ? "Loading..." : `Load more (${totals.count - stageLeads.length})`}
+                      </Button>
+                    )}
                   </CardContent>
                 </Card>
               </div>
@@ -371,6 +532,14 @@ export default function PipelinePage() {
         </div>
         <ScrollBar orientation="horizontal" />
       </ScrollArea>
+
+      <LossReasonDialog
+        leadName={losingMove?.lead.name ?? null}
+        stageName={losingMove?.stage.name ?? ""}
+        isPending={updateStageMutation.isPending}
+        onConfirm={(loss) => losingMove && updateStageMutation.mutate({ id: losingMove.lead.id, stage: losingMove.stage.key, loss })}
+        onCancel={() => setLosingMove(null)}
+      />
     </div>
   );
 }
@@ -65,6 +65,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Quotation, Lead, Client, Package } from "@shared/schema";
+import { whatsAppLink } from "@shared/phone";
 
 const quotationFormSchema = z.object({
   leadId: z.string().optional(),
@@ -255,9 +256,9 @@ export default function QuotationsPage() {
   };
 
   const handleWhatsAppSend = (quotation: QuotationWithRelations) => {
-    const mobile = quotation.lead?.mobile || "";
+    const mobile = quotation.lead?.mobileE164 || quotation.lead?.mobile || "";
     const message = `Hi, here's your quotation for ${quotation.packageName} package. Total: ₹${quotation.total}`;
-    window.open(`https://wa.me/${mobile.replace(/\D/g, "")}?text=${encodeURIComponent(message)}`, "_blank");
+    window.open(whatsAppLink(mobile, message), "_blank");
   };
 
   const formatCurrency = (value: string) => {
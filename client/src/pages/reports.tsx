@@ -13,6 +13,10 @@ import { StatsCard } from "@/components/stats-card";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { SlaReportCard } from "@/components/sla-report";
+import { ForecastReportCard } from "@/components/forecast-report";
+import { PipelineVelocityReportCard } from "@/components/pipeline-velocity-report";
+import { WinLossReportCard } from "@/components/win-loss-report";
 import {
   AreaChart,
   Area,
@@ -119,7 +123,11 @@ export default function ReportsPage() {
             <TabsTrigger value="overview" data-testid="tab-overview">Overview</TabsTrigger>
             <TabsTrigger value="leads" data-testid="tab-leads-report">Leads</TabsTrigger>
             <TabsTrigger value="revenue" data-testid="tab-revenue">Revenue</TabsTrigger>
+            <TabsTrigger value="forecast" data-testid="tab-forecast-report">Forecast</TabsTrigger>
+            <TabsTrigger value="velocity" data-testid="tab-velocity-report">Velocity</TabsTrigger>
+            <TabsTrigger value="win-loss" data-testid="tab-win-loss-report">Win/Loss</TabsTrigger>
             <TabsTrigger value="team" data-testid="tab-team-report">Team</TabsTrigger>
+            <TabsTrigger value="sla" data-testid="tab-sla-report">Response SLA</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview" className="space-y-6">
@@ -315,6 +323,18 @@ export default function ReportsPage() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="forecast" className="space-y-6">
+            <ForecastReportCard />
+          </TabsContent>
+
+          <TabsContent value="velocity" className="space-y-6">
+            <PipelineVelocityReportCard />
+          </TabsContent>
+
+          <TabsContent value="win-loss" className="space-y-6">
+            <WinLossReportCard />
+          </TabsContent>
+
           <TabsContent value="team" className="space-y-6">
             <Card>
               <CardHeader>
@@ -344,6 +364,10 @@ export default function ReportsPage() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="sla" className="space-y-6">
+            <SlaReportCard />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
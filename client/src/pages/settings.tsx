@@ -10,11 +10,14 @@ import {
   Building2,
   Loader2,
   Zap,
-  Users,
   History,
   RefreshCw,
   Trash2,
   Plus,
+  ListPlus,
+  FileCode2,
+  Gauge,
+  Kanban,
 } from "lucide-react";
 import { PageHeader } from "@/components/page-header";
 import { Button } from "@/components/ui/button";
@@ -34,6 +37,18 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest } from "@/lib/queryClient";
+import { customFieldTypes } from "@shared/schema";
+import type { SerializedCustomFieldDefinition } from "@shared/customFields";
+import { LeadScoringSettings } from "@/components/lead-scoring-settings";
+import { ConversionModelSettings } from "@/components/conversion-model-settings";
+import { DistributionSettings, AvailabilityCard } from "@/components/distribution-settings";
+import { SlaSettings } from "@/components/sla-settings";
+import { LeadFormsSettings } from "@/components/lead-forms-settings";
+import { LeadQuarantine } from "@/components/lead-quarantine";
+import { LeadWebhooksSettings } from "@/components/lead-webhooks-settings";
+import { PipelinesSettings } from "@/components/pipelines-settings";
+import { LossReasonsSettings } from "@/components/loss-reasons-settings";
+import { ChecklistTemplatesSettings } from "@/components/checklist-templates-settings";
 
 const profileFormSchema = z.object({
   name: z.string().min(2, "Name is required"),
@@ -172,9 +187,33 @@ export default function SettingsPage() {
               <RefreshCw className="mr-2 h-4 w-4" />
               Automations
             </TabsTrigger>
+            {(user?.role === "admin" || user?.role === "manager") && (
+              <TabsTrigger value="lead-scoring" data-testid="tab-lead-scoring">
+                <Gauge className="mr-2 h-4 w-4" />
+                Lead Scoring
+              </TabsTrigger>
+            )}
+            {user?.role === "admin" && (
+              <TabsTrigger value="pipelines" data-testid="tab-pipelines">
+                <Kanban className="mr-2 h-4 w-4" />
+                Pipelines
+              </TabsTrigger>
+            )}
+            {user?.role === "admin" && (
+              <TabsTrigger value="custom-fields" data-testid="tab-custom-fields">
+                <ListPlus className="mr-2 h-4 w-4" />
+                Custom Fields
+              </TabsTrigger>
+            )}
+            {user?.role === "admin" && (
+              <TabsTrigger value="lead-forms" data-testid="tab-lead-forms">
+                <FileCode2 className="mr-2 h-4 w-4" />
+                Lead Forms
+              </TabsTrigger>
+            )}
           </TabsList>
 
-          <TabsContent value="profile">
+          <TabsContent value="profile" className="space-y-6">
             <Card>
               <CardHeader>
                 <CardTitle>Profile Information</CardTitle>
@@ -230,6 +269,7 @@ export default function SettingsPage() {
                 </Form>
               </CardContent>
             </Card>
+            <AvailabilityCard />
           </TabsContent>
 
           <TabsContent value="security">
@@ -400,6 +440,35 @@ export default function SettingsPage() {
           <TabsContent value="automations">
             <AutomationsSettings />
           </TabsContent>
+
+          {(user?.role === "admin" || user?.role === "manager") && (
+            <TabsContent value="lead-scoring" className="space-y-6">
+              <LeadScoringSettings />
+              <ConversionModelSettings />
+            </TabsContent>
+          )}
+
+          {user?.role === "admin" && (
+            <TabsContent value="pipelines" className="space-y-6">
+              <PipelinesSettings />
+              <LossReasonsSettings />
+              <ChecklistTemplatesSettings />
+            </TabsContent>
+          )}
+
+          {user?.role === "admin" && (
+            <TabsContent value="custom-fields">
+              <CustomFieldsSettings />
+            </TabsContent>
+          )}
+
+          {user?.role === "admin" && (
+            <TabsContent value="lead-forms" className="space-y-6">
+              <LeadFormsSettings />
+              <LeadWebhooksSettings />
+              <LeadQuarantine />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div>
@@ -409,10 +478,7 @@ export default function SettingsPage() {
 function AdvancedSettings() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-
-  const { data: distributionSettings } = useQuery<any>({
-    queryKey: ["/api/distribution-settings"],
-  });
+  const { user } = useAuth();
 
   const { data: automationRules } = useQuery<any[]>({
     queryKey: ["/api/automation-rules"],
@@ -422,27 +488,6 @@ function AdvancedSettings() {
     queryKey: ["/api/activity-logs"],
   });
 
-  const updateDistributionMutation = useMutation({
-    mutationFn: async (data: any) => {
-      const response = await apiRequest("PATCH", "/api/distribution-settings", data);
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/distribution-settings"] });
-      toast({ title: "Settings updated" });
-    },
-  });
-
-  const distributeLeadsMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest("POST", "/api/leads/distribute", {});
-      return response.json();
-    },
-    onSuccess: (data) => {
-      toast({ title: "Leads distributed", description: data.message });
-    },
-  });
-
   const scoreAllLeadsMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest("POST", "/api/leads/score-all", {});
@@ -482,41 +527,12 @@ function AdvancedSettings() {
         </CardContent>
       </Card>
 
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Users className="h-5 w-5" />
-            Lead Distribution (Round Robin)
-          </CardTitle>
-          <CardDescription>
-            Automatically distribute new leads among sales team members
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="font-medium">Enable Round Robin</p>
-              <p className="text-sm text-muted-foreground">
-                Automatically assign new leads to sales team members in rotation
-              </p>
-            </div>
-            <Switch
-              checked={distributionSettings?.isEnabled || false}
-              onCheckedChange={(checked) => updateDistributionMutation.mutate({ isEnabled: checked })}
-              data-testid="switch-distribution"
-            />
-          </div>
-          <Button 
-            onClick={() => distributeLeadsMutation.mutate()}
-            disabled={distributeLeadsMutation.isPending}
-            variant="outline"
-            data-testid="button-distribute-leads"
-          >
-            {distributeLeadsMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-            Distribute Unassigned Leads Now
-          </Button>
-        </CardContent>
-      </Card>
+      {(user?.role === "admin" || user?.role === "manager") && (
+        <>
+          <DistributionSettings />
+          <SlaSettings />
+        </>
+      )}
 
       <Card>
         <CardHeader>
@@ -622,6 +638,7 @@ function AutomationsSettings() {
       case "new_lead": return `Lead created (after ${value || 5} minutes)`;
       case "no_activity": return `No activity (after ${value || 1} day${value !== "1" ? "s" : ""})`;
       case "status_change": return `Status changed to ${value || "proposal"}`;
+      case "custom_field": return `Custom field ${value ? value.replace("=", " is ") : "matches"}`;
       default: return trigger;
     }
   };
@@ -678,12 +695,17 @@ function AutomationsSettings() {
                       <option value="new_lead">Lead Created</option>
                       <option value="no_activity">No Activity</option>
                       <option value="status_change">Status Change</option>
+                      <option value="custom_field">Custom Field Value</option>
                     </select>
                   </div>
                   <div>
                     <label className="text-sm font-medium">Trigger Value</label>
                     <Input
-                      placeholder={newRule.trigger === "status_change" ? "proposal" : "5"}
+                      placeholder={
+                        newRule.trigger === "status_change" ? "proposal"
+                          : newRule.trigger === "custom_field" ? "field_key=value"
+                          : "5"
+                      }
                       value={newRule.triggerValue}
                       onChange={(e) => setNewRule({ ...newRule, triggerValue: e.target.value })}
                       data-testid="input-trigger-value"
@@ -803,3 +825,232 @@ function AutomationsSettings() {
     </div>
   );
 }
+
+const customFieldTypeLabels: Record<string, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  select: "Select",
+  multi_select: "Multi-select",
+  boolean: "Yes / No",
+};
+
+function CustomFieldsSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [showNewFieldForm, setShowNewFieldForm] = useState(false);
+  const emptyField = { entityType: "lead", label: "", key: "", fieldType: "text", options: "", isRequired: false };
+  const [newField, setNewField] = useState(emptyField);
+
+  const { data: fields = [] } = useQuery<SerializedCustomFieldDefinition[]>({
+    queryKey: ["/api/custom-fields"],
+  });
+
+  const createFieldMutation = useMutation({
+    mutationFn: async (data: typeof emptyField) => {
+      const needsOptions = data.fieldType === "select" || data.fieldType === "multi_select";
+      const response = await apiRequest("POST", "/api/custom-fields", {
+        ...data,
+        sortOrder: fields.filter(f => f.entityType === data.entityType).length,
+        options: needsOptions ? data.options.split(",").map(o => o.trim()).filter(Boolean) : undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/custom-fields"] });
+      toast({ title: "Custom field created" });
+      setShowNewFieldForm(false);
+      setNewField(emptyField);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleFieldMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/custom-fields/${id}`, { isActive });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/custom-fields"] });
+      toast({ title: "Custom field updated" });
+    },
+  });
+
+  const deleteFieldMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/custom-fields/${id}`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/custom-fields"] });
+      toast({ title: "Custom field deleted" });
+    },
+  });
+
+  // Suggest a key from the label until the admin edits it
+  const keyFromLabel = (label: string) =>
+    label.toLowerCase().trim().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "").replace(/^(\d)/, "f_$1");
+
+  const needsOptions = newField.fieldType === "select" || newField.fieldType === "multi_select";
+
+  const renderFieldList = (entityType: string, title: string) => {
+    const entityFields = fields.filter(f => f.entityType === entityType);
+    return (
+      <div className="space-y-3">
+        <p className="text-sm font-medium">{title}</p>
+        {entityFields.length > 0 ? (
+          entityFields.map((field) => (
+            <div key={field.id} className="flex items-center justify-between p-3 rounded-lg border" data-testid={`custom-field-${field.id}`}>
+              <div className="flex-1">
+                <p className="font-medium">
+                  {field.label}
+                  {field.isRequired && <span className="text-destructive ml-1">*</span>}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  <code>{field.key}</code> · {customFieldTypeLabels[field.fieldType] || field.fieldType}
+                  {field.options.length > 0 && ` · ${field.options.join(", ")}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <Switch
+                  checked={field.isActive}
+                  onCheckedChange={(checked) => toggleFieldMutation.mutate({ id: field.id, isActive: checked })}
+                  data-testid={`switch-custom-field-${field.id}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteFieldMutation.mutate(field.id)}
+                  data-testid={`button-delete-custom-field-${field.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">No custom fields yet.</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ListPlus className="h-5 w-5" />
+              Custom Fields
+            </CardTitle>
+            <CardDescription>
+              Add your own fields to leads and clients. They appear in forms, filters, CSV files and automation rules.
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => setShowNewFieldForm(!showNewFieldForm)}
+            data-testid="button-add-custom-field"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Field
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {showNewFieldForm && (
+            <Card className="bg-muted/50">
+              <CardContent className="pt-4 space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-sm font-medium">Applies To</label>
+                    <select
+                      className="w-full h-9 rounded-md border bg-background px-3 text-sm"
+                      value={newField.entityType}
+                      onChange={(e) => setNewField({ ...newField, entityType: e.target.value })}
+                      data-testid="select-custom-field-entity"
+                    >
+                      <option value="lead">Leads</option>
+                      <option value="client">Clients</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium">Type</label>
+                    <select
+                      className="w-full h-9 rounded-md border bg-background px-3 text-sm"
+                      value={newField.fieldType}
+                      onChange={(e) => setNewField({ ...newField, fieldType: e.target.value })}
+                      data-testid="select-custom-field-type"
+                    >
+                      {customFieldTypes.map((type) => (
+                        <option key={type} value={type}>{customFieldTypeLabels[type]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium">Label</label>
+                    <Input
+                      placeholder="Industry"
+                      value={newField.label}
+                      onChange={(e) => {
+                        const label = e.target.value;
+                        const autoKey = newField.key === keyFromLabel(newField.label);
+                        setNewField({ ...newField, label, key: autoKey ? keyFromLabel(label) : newField.key });
+                      }}
+                      data-testid="input-custom-field-label"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium">Key</label>
+                    <Input
+                      placeholder="industry"
+                      value={newField.key}
+                      onChange={(e) => setNewField({ ...newField, key: e.target.value })}
+                      data-testid="input-custom-field-key"
+                    />
+                  </div>
+                </div>
+                {needsOptions && (
+                  <div>
+                    <label className="text-sm font-medium">Options</label>
+                    <Input
+                      placeholder="Retail, Healthcare, Real Estate"
+                      value={newField.options}
+                      onChange={(e) => setNewField({ ...newField, options: e.target.value })}
+                      data-testid="input-custom-field-options"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">Separate options with commas</p>
+                  </div>
+                )}
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={newField.isRequired}
+                    onCheckedChange={(checked) => setNewField({ ...newField, isRequired: checked })}
+                    data-testid="switch-custom-field-required"
+                  />
+                  <span className="text-sm">Required</span>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => createFieldMutation.mutate(newField)}
+                    disabled={!newField.label || !newField.key || createFieldMutation.isPending}
+                    data-testid="button-save-custom-field"
+                  >
+                    {createFieldMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Save Field
+                  </Button>
+                  <Button variant="outline" onClick={() => setShowNewFieldForm(false)}>
+                    Cancel
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {renderFieldList("lead", "Lead Fields")}
+          {renderFieldList("client", "Client Fields")}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -57,6 +57,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { WhatsappConversation, WhatsappMessage, User as UserType, Lead, Client, QuickReplyTemplate } from "@shared/schema";
+import { whatsAppLink } from "@shared/phone";
 
 type EnrichedConversation = WhatsappConversation & {
   lead?: Lead | null;
@@ -209,11 +210,7 @@ export default function WhatsAppInboxPage() {
   };
 
   const openWhatsAppLink = (phone: string, message?: string) => {
-    const cleanPhone = phone.replace(/\D/g, "");
-    const url = message 
-      ? `https://wa.me/${cleanPhone}?text=${encodeURIComponent(message)}`
-      : `https://wa.me/${cleanPhone}`;
-    window.open(url, "_blank");
+    window.open(whatsAppLink(phone, message), "_blank");
   };
 
   const getTagIcon = (tag: string | null) => {
@@ -376,7 +373,7 @@ export default function WhatsAppInboxPage() {
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => selectedConversation && openWhatsAppLink(selectedConversation.phone)}
+                      onClick={() => selectedConversation && openWhatsAppLink(selectedConversation.phoneE164 ?? selectedConversation.phone)}
                       data-testid="button-open-whatsapp"
                     >
                       <ExternalLink className="mr-2 h-4 w-4" />
@@ -553,7 +550,7 @@ export default function WhatsAppInboxPage() {
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => selectedConversation && openWhatsAppLink(selectedConversation.phone, messageInput)}
+                      onClick={() => selectedConversation && openWhatsAppLink(selectedConversation.phoneE164 ?? selectedConversation.phone, messageInput)}
                       data-testid="button-send-via-whatsapp"
                     >
                       <ExternalLink className="mr-2 h-4 w-4" />
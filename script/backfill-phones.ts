@@ -0,0 +1,24 @@
+import "dotenv/config";
+import { storage } from "../server/storage";
+import { pool } from "../server/db";
+import { getDefaultPhoneCountry } from "../server/phone";
+
+// Fills the E.164 phone columns for rows created before they existed.
+// Pass --all to recompute every row, e.g. after changing DEFAULT_PHONE_COUNTRY.
+async function main() {
+  const all = process.argv.includes("--all");
+  console.log(`Normalizing phone numbers (default country ${getDefaultPhoneCountry()}${all ? ", all rows" : ""})...`);
+
+  const result = await storage.backfillPhoneNumbers({ all });
+  console.log(
+    `Updated ${result.leads} leads, ${result.clients} clients, ${result.conversations} conversations. ` +
+    `${result.unparseable} numbers could not be normalized and will be matched as entered.`,
+  );
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,46 @@
+import "dotenv/config";
+import { readFileSync } from "fs";
+import { storage } from "../server/storage";
+import { pool } from "../server/db";
+import {
+  metaLeadgenChanges, metaLeadSchema, normalizeMetaLead, processMetaLeadgen,
+  googleLeadSchema, normalizeGoogleLead, processGoogleLead, mapWebhookLead, type WebhookLead,
+} from "../server/leadWebhooks";
+
+// Feeds the recorded webhook payloads in script/fixtures/lead-webhooks through the same parsing and
+// lead creation as the webhook routes; signatures and keys are not checked. Meta's Graph API lookup is
+// answered with the recorded lead. Pass --dry-run to print the mapped lead without writing anything.
+//   npm run webhooks:replay -- meta|google [--dry-run]
+const fixture = (name: string) => JSON.parse(readFileSync(new URL(`./fixtures/lead-webhooks/${name}`, import.meta.url), "utf8"));
+
+async function show(lead: WebhookLead) {
+  const mapped = mapWebhookLead(lead, await storage.getCustomFieldDefinitions("lead"));
+  console.log(JSON.stringify({ ...lead, mapped }, null, 2));
+}
+
+async function main() {
+  const provider = process.argv[2];
+  const dryRun = process.argv.includes("--dry-run");
+
+  if (provider === "meta") {
+    const lead = metaLeadSchema.parse(fixture("meta-lead.json"));
+    for (const change of metaLeadgenChanges(fixture("meta-leadgen-webhook.json"))) {
+      if (dryRun) await show(normalizeMetaLead(change, lead));
+      else console.log(await processMetaLeadgen(change, async () => lead));
+    }
+  } else if (provider === "google") {
+    // The recorded payload is Google's test lead; it is replayed as a real one so a lead is created
+    const payload = googleLeadSchema.parse({ ...fixture("google-lead-form-webhook.json"), is_test: false });
+    if (dryRun) await show(normalizeGoogleLead(payload));
+    else console.log(await processGoogleLead(payload));
+  } else {
+    throw new Error("Usage: npm run webhooks:replay -- meta|google [--dry-run]");
+  }
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -1,5 +1,10 @@
 import cron from 'node-cron';
 import { storage } from './storage';
+import { buildWhatsAppLink } from './phone';
+import { runNightlyScoreDecay } from './leadScoring';
+import { runScheduledConversionTraining } from './conversionModel';
+import { reassignUncontactedLeads } from './distribution';
+import { checkResponseSlas } from './sla';
 import type { Lead, AutomationRule } from '@shared/schema';
 
 const WHATSAPP_TEMPLATE = `Hi {name}! Thank you for your interest in our services. We'd love to discuss how we can help you achieve your marketing goals. Reply to this message or call us to get started!`;
@@ -14,7 +19,7 @@ async function executeAutomation(rule: AutomationRule, lead: Lead): Promise<{ su
     switch (rule.action) {
       case 'send_whatsapp': {
         const message = WHATSAPP_TEMPLATE.replace('{name}', lead.name);
-        const waLink = `https://wa.me/${lead.mobile.replace(/\D/g, '')}?text=${encodeURIComponent(message)}`;
+        const waLink = buildWhatsAppLink(lead.mobileE164 ?? lead.mobile, message);
         await storage.createAutomationRunLog({
           ruleId: rule.id,
           leadId: lead.id,
@@ -87,6 +92,19 @@ async function executeAutomation(rule: AutomationRule, lead: Lead): Promise<{ su
   }
 }
 
+// custom_field rules use "key=value"; multi-select values match when the option is among the selected ones
+function matchesCustomFieldTrigger(lead: Lead, triggerValue: string | null): boolean {
+  const [key, ...rest] = (triggerValue || '').split('=');
+  if (!key.trim() || rest.length === 0) return false;
+  const expected = rest.join('=').trim().toLowerCase();
+  const value = lead.customFields?.[key.trim()];
+
+  if (value === undefined) return false;
+  if (Array.isArray(value)) return value.some(v => v.toLowerCase() === expected);
+  if (typeof value === 'boolean') return String(value) === (['yes', '1'].includes(expected) ? 'true' : expected);
+  return String(value).toLowerCase() === expected;
+}
+
 async function runAutomations() {
   try {
     const rules = await storage.getActiveAutomationRules();
@@ -130,6 +148,15 @@ async function runAutomations() {
           }
           break;
         }
+
+        case 'custom_field': {
+          for (const lead of leads) {
+            if (matchesCustomFieldTrigger(lead, rule.triggerValue)) {
+              await executeAutomation(rule, lead);
+            }
+          }
+          break;
+        }
       }
     }
   } catch (error) {
@@ -143,5 +170,17 @@ export function startAutomationScheduler() {
     console.log('Running automation check...');
     runAutomations();
   });
+  cron.schedule('* * * * *', () => {
+    reassignUncontactedLeads();
+  });
+  cron.schedule('* * * * *', () => {
+    checkResponseSlas();
+  });
+  cron.schedule('0 2 * * *', () => {
+    runNightlyScoreDecay();
+  });
+  cron.schedule('0 3 * * *', () => {
+    runScheduledConversionTraining();
+  });
   runAutomations();
 }
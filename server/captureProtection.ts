@@ -0,0 +1,138 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { Request } from 'express';
+import { phoneMatchKey, toE164 } from './phone';
+import { LEAD_FORM_KEY_HEADER, LEAD_FORM_SIGNATURE_HEADER } from '@shared/leadForms';
+import type { LeadForm, QuarantineReason } from '@shared/schema';
+
+// Guards for the public capture endpoint. A submission must name a form and prove it came from
+// somewhere that form trusts: its API key, a body signed with its secret, or a token from its hosted
+// page. Rate limits reject floods outright; anything that merely looks like spam is quarantined.
+
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+const HOSTED_TOKEN_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+// People take longer than this to fill in even a two-field form
+const MIN_FILL_MS = 3000;
+
+export function generateLeadFormKeys(): { apiKey: string; signingSecret: string } {
+  return { apiKey: randomBytes(16).toString('hex'), signingSecret: randomBytes(16).toString('hex') };
+}
+
+const hmac = (secret: string, payload: string | Buffer) => createHmac('sha256', secret).update(payload).digest('hex');
+
+// Constant-time comparison for keys and signatures
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// The hosted page carries a token saying which form rendered it and when; rotating the form's keys
+// invalidates every page already open
+export function issueHostedFormToken(form: LeadForm, now = Date.now()): string {
+  return `${now}.${hmac(form.signingSecret, `hosted:${form.id}:${now}`)}`;
+}
+
+export type CaptureAuthResult =
+  | { ok: true; filledInMs: number | null }
+  | { ok: false; message: string };
+
+export function authenticateCapture(form: LeadForm, req: Request, formToken?: string): CaptureAuthResult {
+  const now = Date.now();
+
+  const apiKey = req.get(LEAD_FORM_KEY_HEADER);
+  if (apiKey) {
+    return safeEqual(apiKey, form.apiKey) ? { ok: true, filledInMs: null } : { ok: false, message: 'Invalid form key' };
+  }
+
+  // Signature header: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+  const signature = req.get(LEAD_FORM_SIGNATURE_HEADER);
+  if (signature) {
+    const parts = Object.fromEntries(signature.split(',').map(part => part.trim().split('=', 2)));
+    const timestamp = Number(parts.t);
+    if (!Number.isFinite(timestamp) || !parts.v1) return { ok: false, message: 'Malformed signature' };
+    if (Math.abs(now - timestamp * 1000) > SIGNATURE_TOLERANCE_MS) return { ok: false, message: 'Signature expired' };
+    const body = Buffer.isBuffer(req.rawBody) ? req.rawBody : Buffer.alloc(0);
+    const expected = hmac(form.signingSecret, Buffer.concat([Buffer.from(`${parts.t}.`), body]));
+    return safeEqual(parts.v1, expected) ? { ok: true, filledInMs: null } : { ok: false, message: 'Invalid signature' };
+  }
+
+  if (formToken) {
+    const [issued, digest] = formToken.split('.', 2);
+    const issuedAt = Number(issued);
+    if (!digest || !Number.isFinite(issuedAt) || !safeEqual(digest, hmac(form.signingSecret, `hosted:${form.id}:${issued}`))) {
+      return { ok: false, message: 'Invalid form token' };
+    }
+    if (now - issuedAt > HOSTED_TOKEN_MAX_AGE_MS) return { ok: false, message: 'Form expired, reload the page' };
+    return { ok: true, filledInMs: now - issuedAt };
+  }
+
+  return { ok: false, message: 'A form key, signature or form token is required' };
+}
+
+// Sliding-window counter per key, kept in memory: limits reset on restart and are per instance
+function createRateLimiter(limit: number, windowMs: number) {
+  const hits = new Map<string, number[]>();
+  setInterval(() => {
+    const cutoff = Date.now() - windowMs;
+    hits.forEach((times, key) => {
+      if (times[times.length - 1] <= cutoff) hits.delete(key);
+    });
+  }, windowMs).unref();
+
+  // Records a hit and reports whether the key is over its limit. Refused hits are not recorded,
+  // so a key keeps at most `limit` times and is let through again once the oldest leaves the window.
+  return (key: string): boolean => {
+    const now = Date.now();
+    const times = (hits.get(key) ?? []).filter(time => time > now - windowMs);
+    hits.set(key, times);
+    if (times.length >= limit) return true;
+    times.push(now);
+    return false;
+  };
+}
+
+const ipLimiter = createRateLimiter(20, 10 * 60 * 1000);
+const phoneLimiter = createRateLimiter(3, 60 * 60 * 1000);
+
+export function exceedsCaptureIpLimit(ip: string | undefined): boolean {
+  return ip ? ipLimiter(ip) : false;
+}
+
+export function exceedsCapturePhoneLimit(mobile: string): boolean {
+  return phoneLimiter(phoneMatchKey(mobile));
+}
+
+const disposableEmailDomains = new Set([
+  '10minutemail.com', 'discard.email', 'dispostable.com', 'emailondeck.com', 'fakeinbox.com',
+  'getairmail.com', 'getnada.com', 'guerrillamail.com', 'guerrillamail.net', 'maildrop.cc',
+  'mailinator.com', 'mailnesia.com', 'mintemail.com', 'mohmal.com', 'moakt.com', 'sharklasers.com',
+  'spamgourmet.com', 'temp-mail.org', 'tempmail.com', 'tempmailo.com', 'throwawaymail.com',
+  'trashmail.com', 'yopmail.com',
+]);
+
+const linkCount = (text = '') => text.match(/https?:\/\/|www\./gi)?.length ?? 0;
+
+// Numbers like 9999999999 or 9876543210 are what people type when they do not want to be called
+function isPlaceholderPhone(e164: string): boolean {
+  const tail = e164.slice(-8);
+  return /^(\d)\1+$/.test(tail) || '0123456789'.includes(tail) || '9876543210'.includes(tail);
+}
+
+export function detectSpam(
+  data: { name: string; mobile: string; email?: string; notes?: string; website?: string },
+  filledInMs: number | null,
+): QuarantineReason[] {
+  const reasons: QuarantineReason[] = [];
+  if (data.website?.trim()) reasons.push('honeypot');
+  if (filledInMs !== null && filledInMs < MIN_FILL_MS) reasons.push('too_fast');
+
+  const domain = data.email?.split('@')[1]?.trim().toLowerCase();
+  if (domain && disposableEmailDomains.has(domain)) reasons.push('disposable_email');
+
+  const e164 = toE164(data.mobile);
+  if (!e164) reasons.push('invalid_phone');
+  else if (isPlaceholderPhone(e164)) reasons.push('suspicious_phone');
+
+  if (linkCount(data.name) > 0 || linkCount(data.notes) > 2) reasons.push('links');
+  return reasons;
+}
@@ -0,0 +1,269 @@
+import { storage } from './storage';
+import type { ConversionModel, Lead } from '@shared/schema';
+import {
+  conversionCategoricalFeatures, conversionNumericFeatures,
+  type CalibrationBin, type ConversionModelMetrics, type ConversionNumericFeature,
+  type SerializedConversionModel, type TrainedConversionModel,
+} from '@shared/conversionModel';
+
+// Logistic regression fitted by batch gradient descent on leads that reached converted (1) or
+// not_interested (0). Every fifth lead, picked by a hash of its id, is held out for the metrics, so
+// a lead stays on the same side of the split across retrains.
+// Interaction counts include activity after the outcome was reached, which flatters them somewhat;
+// there is no status history to cut them off at the conversion date.
+
+const MIN_LABELLED_LEADS = 30;
+const HOLDOUT_EVERY = 5;
+const MIN_CATEGORY_COUNT = 3;
+const ITERATIONS = 500;
+const LEARNING_RATE = 0.3;
+const L2_PENALTY = 0.01;
+const TOP_FEATURES = 8;
+const CALIBRATION_BINS = 10;
+const HOUR_MS = 60 * 60 * 1000;
+
+interface ConversionSignals {
+  interactions: number;
+  firstResponseAt?: Date;
+}
+
+interface Sample {
+  features: number[];
+  label: number;
+}
+
+export type ConversionTrainingResult =
+  | { trained: true; model: ConversionModel }
+  | { trained: false; reason: string };
+
+function parseModel(model: ConversionModel): TrainedConversionModel {
+  return JSON.parse(model.model);
+}
+
+export function serializeConversionModel(model: ConversionModel): SerializedConversionModel {
+  const trained = parseModel(model);
+  const topFeatures = trained.featureNames
+    .map((feature, index) => ({ feature, weight: trained.weights[index] }))
+    .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight))
+    .slice(0, TOP_FEATURES);
+  const { model: _model, metrics, ...rest } = model;
+  return { ...rest, metrics: JSON.parse(metrics), topFeatures };
+}
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+function categoryValue(lead: Lead, feature: typeof conversionCategoricalFeatures[number]): string {
+  const value = lead[feature];
+  return value ? value.trim().toLowerCase() : 'none';
+}
+
+function numericValues(lead: Lead, signals: ConversionSignals): number[] {
+  const budget = lead.budget ? parseFloat(lead.budget.toString()) : 0;
+  const responseHours = signals.firstResponseAt
+    ? Math.max(0, (signals.firstResponseAt.getTime() - new Date(lead.createdAt).getTime()) / HOUR_MS)
+    : 0;
+  const values: Record<ConversionNumericFeature, number> = {
+    budget: Math.log1p(Math.max(0, budget)),
+    hasBudget: budget > 0 ? 1 : 0,
+    interactions: Math.log1p(signals.interactions),
+    responded: signals.firstResponseAt ? 1 : 0,
+    responseHours: Math.log1p(responseHours),
+  };
+  return conversionNumericFeatures.map(feature => values[feature]);
+}
+
+function encode(model: Omit<TrainedConversionModel, 'weights' | 'bias' | 'featureNames'>, lead: Lead, signals: ConversionSignals): number[] {
+  const features: number[] = [];
+  for (const feature of conversionCategoricalFeatures) {
+    const value = categoryValue(lead, feature);
+    for (const known of model.vocabulary[feature]) features.push(known === value ? 1 : 0);
+  }
+  numericValues(lead, signals).forEach((value, index) => {
+    features.push((value - model.means[index]) / model.stds[index]);
+  });
+  return features;
+}
+
+function predict(model: TrainedConversionModel, features: number[]): number {
+  let z = model.bias;
+  for (let i = 0; i < features.length; i++) z += model.weights[i] * features[i];
+  return sigmoid(z);
+}
+
+function fit(samples: Sample[], featureCount: number): { weights: number[]; bias: number } {
+  const weights = new Array<number>(featureCount).fill(0);
+  let bias = 0;
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const gradient = new Array<number>(featureCount).fill(0);
+    let biasGradient = 0;
+    for (const sample of samples) {
+      let z = bias;
+      for (let i = 0; i < featureCount; i++) z += weights[i] * sample.features[i];
+      const error = sigmoid(z) - sample.label;
+      for (let i = 0; i < featureCount; i++) gradient[i] += error * sample.features[i];
+      biasGradient += error;
+    }
+    for (let i = 0; i < featureCount; i++) {
+      weights[i] -= LEARNING_RATE * (gradient[i] / samples.length + L2_PENALTY * weights[i]);
+    }
+    bias -= LEARNING_RATE * (biasGradient / samples.length);
+  }
+  return { weights, bias };
+}
+
+// FNV-1a, so the holdout split does not depend on row order
+function isHoldout(leadId: string): boolean {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < leadId.length; i++) {
+    hash ^= leadId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % HOLDOUT_EVERY === 0;
+}
+
+function evaluate(predictions: { probability: number; label: number }[], trainingPositiveRate: number) {
+  const majority = trainingPositiveRate >= 0.5 ? 1 : 0;
+  let correct = 0;
+  let baselineCorrect = 0;
+  let logLoss = 0;
+  let brier = 0;
+  const bins = Array.from({ length: CALIBRATION_BINS }, () => ({ count: 0, predicted: 0, positives: 0 }));
+
+  for (const { probability, label } of predictions) {
+    if ((probability >= 0.5 ? 1 : 0) === label) correct++;
+    if (majority === label) baselineCorrect++;
+    const clipped = Math.min(Math.max(probability, 1e-15), 1 - 1e-15);
+    logLoss -= label * Math.log(clipped) + (1 - label) * Math.log(1 - clipped);
+    brier += (probability - label) ** 2;
+    const bin = bins[Math.min(CALIBRATION_BINS - 1, Math.floor(probability * CALIBRATION_BINS))];
+    bin.count++;
+    bin.predicted += probability;
+    bin.positives += label;
+  }
+
+  const calibration: CalibrationBin[] = bins.flatMap((bin, index) => bin.count === 0 ? [] : [{
+    from: index / CALIBRATION_BINS,
+    to: (index + 1) / CALIBRATION_BINS,
+    count: bin.count,
+    meanPredicted: bin.predicted / bin.count,
+    observedRate: bin.positives / bin.count,
+  }]);
+
+  return {
+    accuracy: correct / predictions.length,
+    baselineAccuracy: baselineCorrect / predictions.length,
+    logLoss: logLoss / predictions.length,
+    brierScore: brier / predictions.length,
+    calibration,
+  };
+}
+
+async function loadSignals(leadIds?: string[]): Promise<(leadId: string) => ConversionSignals> {
+  const [scoringSignals, firstResponses] = await Promise.all([
+    storage.getLeadScoringSignals(leadIds),
+    storage.getLeadFirstResponses(leadIds),
+  ]);
+  return (leadId) => ({
+    interactions: scoringSignals.get(leadId)?.interactions ?? 0,
+    firstResponseAt: firstResponses.get(leadId),
+  });
+}
+
+// Trains a new model on every labelled lead, saves it with its holdout metrics and
+// stores its prediction on every lead
+export async function trainConversionModel(trainedById: string | null): Promise<ConversionTrainingResult> {
+  const leads = await storage.getAllLeads();
+  const signalsFor = await loadSignals();
+  const labelled = leads.filter(lead => lead.status === 'converted' || lead.status === 'not_interested');
+  if (labelled.length < MIN_LABELLED_LEADS) {
+    return {
+      trained: false,
+      reason: `Need at least ${MIN_LABELLED_LEADS} converted or not interested leads to train, found ${labelled.length}`,
+    };
+  }
+
+  const training = labelled.filter(lead => !isHoldout(lead.id));
+  const holdout = labelled.filter(lead => isHoldout(lead.id));
+  const positives = training.filter(lead => lead.status === 'converted').length;
+  if (holdout.length === 0 || positives === 0 || positives === training.length) {
+    return { trained: false, reason: 'The training data needs both converted and not interested leads, plus some to hold out' };
+  }
+
+  // Encoding learned from the training split only
+  const vocabulary = {} as TrainedConversionModel['vocabulary'];
+  const featureNames: string[] = [];
+  for (const feature of conversionCategoricalFeatures) {
+    const counts = new Map<string, number>();
+    for (const lead of training) {
+      const value = categoryValue(lead, feature);
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    vocabulary[feature] = Array.from(counts).filter(([, count]) => count >= MIN_CATEGORY_COUNT).map(([value]) => value).sort();
+    featureNames.push(...vocabulary[feature].map(value => `${feature}=${value}`));
+  }
+  featureNames.push(...conversionNumericFeatures);
+
+  const rawNumerics = training.map(lead => numericValues(lead, signalsFor(lead.id)));
+  const means = conversionNumericFeatures.map((_, index) =>
+    rawNumerics.reduce((sum, row) => sum + row[index], 0) / rawNumerics.length);
+  const stds = conversionNumericFeatures.map((_, index) => {
+    const variance = rawNumerics.reduce((sum, row) => sum + (row[index] - means[index]) ** 2, 0) / rawNumerics.length;
+    return Math.sqrt(variance) || 1;
+  });
+
+  const encoding = { vocabulary, means, stds };
+  const samples = training.map(lead => ({
+    features: encode(encoding, lead, signalsFor(lead.id)),
+    label: lead.status === 'converted' ? 1 : 0,
+  }));
+  const trained: TrainedConversionModel = { ...encoding, featureNames, ...fit(samples, featureNames.length) };
+
+  const positiveRate = positives / training.length;
+  const metrics: ConversionModelMetrics = {
+    trainingSize: training.length,
+    holdoutSize: holdout.length,
+    positiveRate,
+    ...evaluate(holdout.map(lead => ({
+      probability: predict(trained, encode(trained, lead, signalsFor(lead.id))),
+      label: lead.status === 'converted' ? 1 : 0,
+    })), positiveRate),
+  };
+
+  const model = await storage.createConversionModel({
+    model: JSON.stringify(trained),
+    metrics: JSON.stringify(metrics),
+    trainedById,
+  });
+
+  const probabilities = new Map<string, number>();
+  for (const lead of leads) {
+    probabilities.set(lead.id, predict(trained, encode(trained, lead, signalsFor(lead.id))));
+  }
+  await storage.setLeadConversionProbabilities(probabilities, model.id);
+
+  return { trained: true, model };
+}
+
+// Updates one lead's prediction with the latest model, e.g. after new activity. No-op before the first training.
+export async function refreshConversionProbability(lead: Lead): Promise<void> {
+  const model = await storage.getLatestConversionModel();
+  if (!model) return;
+  const trained = parseModel(model);
+  const signalsFor = await loadSignals([lead.id]);
+  const probability = predict(trained, encode(trained, lead, signalsFor(lead.id)));
+  await storage.setLeadConversionProbabilities(new Map([[lead.id, probability]]), model.id);
+}
+
+export async function runScheduledConversionTraining(): Promise<void> {
+  try {
+    const result = await trainConversionModel(null);
+    if (result.trained) {
+      const metrics: ConversionModelMetrics = JSON.parse(result.model.metrics);
+      console.log(`Conversion model retrained: holdout accuracy ${(metrics.accuracy * 100).toFixed(1)}% on ${metrics.holdoutSize} leads`);
+    } else {
+      console.log(`Conversion model not retrained: ${result.reason}`);
+    }
+  } catch (error) {
+    console.error('Conversion model training error:', error);
+  }
+}
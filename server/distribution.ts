@@ -0,0 +1,219 @@
+import { storage, type RepLoad } from './storage';
+import { MAX_LEAD_REASSIGNMENTS } from '@shared/distribution';
+import type { DistributionMethod, DistributionRep, DistributionRule, DistributionRuleField, Lead, User } from '@shared/schema';
+
+// Picks owners for leads. A distributor loads reps, rules and today's loads once and keeps its own
+// counts as it assigns, so a bulk run spreads leads as if each had been assigned on its own.
+//
+// Reps in the general rotation are active sales users; a rule may also name other active users.
+// Out-of-office reps and reps who reached their daily cap are skipped everywhere.
+
+// The lead fields distribution looks at; a lead that is about to be created works as well
+export type DistributableLead = Partial<Pick<Lead, DistributionRuleField>>;
+
+export interface LeadDistributor {
+  method: DistributionMethod;
+  // `exclude` keeps reps out of the pick, e.g. the owner a lead is being taken from
+  assign(lead: DistributableLead, exclude?: string[]): User | undefined;
+  lastAssignedUserId: string | null;
+}
+
+export interface LeadAssignment {
+  leadId: string;
+  leadName: string;
+  userId: string;
+}
+
+const DEFAULT_REP: Omit<DistributionRep, 'userId' | 'updatedAt'> = { weight: 1, dailyCap: null, isOutOfOffice: false };
+
+export function startOfToday(now: Date = new Date()): Date {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+function ruleMatches(rule: DistributionRule, lead: DistributableLead): boolean {
+  const value = lead[rule.field as DistributionRuleField];
+  return typeof value === 'string' && value.trim().toLowerCase() === rule.value.trim().toLowerCase();
+}
+
+// Undefined when distribution is disabled
+export async function createLeadDistributor(): Promise<LeadDistributor | undefined> {
+  const settings = await storage.getDistributionSettings();
+  if (!settings?.isEnabled) return undefined;
+
+  const [users, reps, rules, loads] = await Promise.all([
+    storage.getAllUsers(),
+    storage.getDistributionReps(),
+    storage.getDistributionRules(),
+    storage.getRepLoads(startOfToday()),
+  ]);
+
+  // Oldest account first, the order round robin rotates in
+  const activeUsers = users.filter(u => u.isActive).sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const order = new Map(activeUsers.map((user, index) => [user.id, index]));
+  const repSettings = new Map(reps.map(rep => [rep.userId, rep]));
+  const repFor = (userId: string) => repSettings.get(userId) ?? DEFAULT_REP;
+  const loadFor = (userId: string): RepLoad => {
+    let load = loads.get(userId);
+    if (!load) {
+      load = { openLeads: 0, distributedSince: 0 };
+      loads.set(userId, load);
+    }
+    return load;
+  };
+
+  const available = (user: User) => {
+    const rep = repFor(user.id);
+    return !rep.isOutOfOffice && (rep.dailyCap == null || loadFor(user.id).distributedSince < rep.dailyCap);
+  };
+  const rotation = activeUsers.filter(u => u.role === 'sales');
+  const activeRules = rules.filter(rule => rule.isActive);
+  const method = settings.method as DistributionMethod;
+
+  const distributor: LeadDistributor = {
+    method,
+    lastAssignedUserId: settings.lastAssignedUserId,
+    assign(lead, exclude = []) {
+      const eligible = (user: User) => !exclude.includes(user.id) && available(user);
+      let pool: User[] = [];
+      for (const rule of activeRules.filter(rule => ruleMatches(rule, lead))) {
+        pool = activeUsers.filter(user => rule.assigneeIds.includes(user.id) && eligible(user));
+        if (pool.length > 0) break;
+      }
+      if (pool.length === 0) pool = rotation.filter(eligible);
+      if (pool.length === 0) return undefined;
+
+      const assignee = pick(method, pool, distributor.lastAssignedUserId, order, repFor, loadFor);
+      if (!assignee) return undefined;
+      const load = loadFor(assignee.id);
+      load.openLeads++;
+      load.distributedSince++;
+      distributor.lastAssignedUserId = assignee.id;
+      return assignee;
+    },
+  };
+  return distributor;
+}
+
+// Remembers where the rotation stopped and tells each rep about the leads they were given
+export async function recordAssignments(distributor: LeadDistributor, assignments: LeadAssignment[], reason?: string): Promise<void> {
+  if (assignments.length === 0) return;
+  await storage.updateDistributionSettings({ lastAssignedUserId: distributor.lastAssignedUserId });
+
+  const byUser = new Map<string, LeadAssignment[]>();
+  for (const assignment of assignments) {
+    byUser.set(assignment.userId, [...(byUser.get(assignment.userId) ?? []), assignment]);
+  }
+  for (const [userId, assigned] of Array.from(byUser)) {
+    const [first] = assigned;
+    await storage.createNotification({
+      userId,
+      type: 'assignment',
+      title: assigned.length === 1 ? 'New lead assigned' : 'New leads assigned',
+      message: assigned.length === 1
+        ? `${first.leadName} was assigned to you${reason ? ` (${reason})` : ''}`
+        : `${assigned.length} leads were assigned to you${reason ? ` (${reason})` : ''}`,
+      link: assigned.length === 1 ? `/leads?notes=${first.leadId}` : '/leads',
+    });
+  }
+}
+
+// Moves distributed leads that nobody contacted within the SLA to the next rep. The timer restarts
+// with the new owner; a lead with no other rep available stays where it is and is retried next run.
+// Only leads distributed since reassignment was turned on are considered. After MAX_LEAD_REASSIGNMENTS
+// moves a lead stays with its owner, its timer stops and managers are told instead.
+export async function reassignUncontactedLeads(): Promise<void> {
+  try {
+    const settings = await storage.getDistributionSettings();
+    if (!settings?.isEnabled || !settings.reassignAfterMinutes || !settings.reassignEnabledAt) return;
+
+    const deadline = new Date(Date.now() - settings.reassignAfterMinutes * 60 * 1000);
+    const overdue = await storage.getUncontactedDistributedLeads(settings.reassignEnabledAt, deadline);
+    if (overdue.length === 0) return;
+
+    const reason = `not contacted within ${settings.reassignAfterMinutes} minutes`;
+    const exhausted = overdue.filter(lead => lead.reassignCount >= MAX_LEAD_REASSIGNMENTS);
+    if (exhausted.length > 0) await escalateUncontactedLeads(exhausted, reason);
+
+    const distributor = await createLeadDistributor();
+    if (!distributor) return;
+    const assignments: LeadAssignment[] = [];
+    for (const lead of overdue.filter(lead => lead.reassignCount < MAX_LEAD_REASSIGNMENTS)) {
+      const assignee = distributor.assign(lead, [lead.ownerId!]);
+      if (!assignee) continue;
+      await storage.updateLead(lead.id, { ownerId: assignee.id, distributedAt: new Date(), reassignCount: lead.reassignCount + 1 });
+      assignments.push({ leadId: lead.id, leadName: lead.name, userId: assignee.id });
+      await storage.createNotification({
+        userId: lead.ownerId!,
+        type: 'assignment',
+        title: 'Lead reassigned',
+        message: `${lead.name} was reassigned to ${assignee.name}: ${reason}`,
+        link: `/leads?notes=${lead.id}`,
+      });
+    }
+    await recordAssignments(distributor, assignments, reason);
+    if (assignments.length > 0) console.log(`Reassigned ${assignments.length} uncontacted leads`);
+  } catch (error) {
+    console.error('Lead reassignment error:', error);
+  }
+}
+
+// Leads reassigned as often as allowed stop their timer and go to managers (admins when there are none)
+async function escalateUncontactedLeads(leads: Lead[], reason: string): Promise<void> {
+  const users = (await storage.getAllUsers()).filter(user => user.isActive);
+  const managers = users.filter(user => user.role === 'manager');
+  const escalateTo = managers.length > 0 ? managers : users.filter(user => user.role === 'admin');
+  for (const lead of leads) {
+    await storage.updateLead(lead.id, { distributedAt: null });
+    for (const manager of escalateTo) {
+      await storage.createNotification({
+        userId: manager.id,
+        type: 'assignment',
+        title: 'Lead still not contacted',
+        message: `${lead.name} was reassigned ${lead.reassignCount} times and is still ${reason}`,
+        link: `/leads?notes=${lead.id}`,
+      });
+    }
+  }
+  console.log(`Escalated ${leads.length} leads that were never contacted`);
+}
+
+function pick(
+  method: DistributionMethod,
+  pool: User[],
+  lastAssignedUserId: string | null,
+  order: Map<string, number>,
+  repFor: (userId: string) => Pick<DistributionRep, 'weight'>,
+  loadFor: (userId: string) => RepLoad,
+): User | undefined {
+  // The pool in rotation order, starting with the rep after the last one assigned
+  const lastIndex = lastAssignedUserId ? order.get(lastAssignedUserId) ?? -1 : -1;
+  const inRotation = [...pool].sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+  const next = inRotation.findIndex(user => order.get(user.id)! > lastIndex);
+  const queue = next === -1 ? inRotation : [...inRotation.slice(next), ...inRotation.slice(0, next)];
+
+  if (method === 'load_based') {
+    const fewest = Math.min(...queue.map(user => loadFor(user.id).openLeads));
+    return queue.find(user => loadFor(user.id).openLeads === fewest);
+  }
+
+  if (method === 'weighted') {
+    // Whoever is furthest behind their share of today's leads; reps with weight 0 get none
+    const weighted = queue.filter(user => repFor(user.id).weight > 0);
+    const totalWeight = weighted.reduce((sum, user) => sum + repFor(user.id).weight, 0);
+    const assigned = weighted.reduce((sum, user) => sum + loadFor(user.id).distributedSince, 0) + 1;
+    let best: User | undefined;
+    let bestDeficit = -Infinity;
+    for (const user of weighted) {
+      const deficit = (repFor(user.id).weight / totalWeight) * assigned - loadFor(user.id).distributedSince;
+      if (deficit > bestDeficit) {
+        best = user;
+        bestDeficit = deficit;
+      }
+    }
+    return best;
+  }
+
+  return queue[0];
+}
@@ -0,0 +1,129 @@
+import { storage } from './storage';
+import type { Client, DuplicateDismissal, Lead } from '@shared/schema';
+import {
+  DEFAULT_DUPLICATE_THRESHOLD, scoreDuplicate, leadToCandidate, clientToCandidate,
+  nameTokens, emailParts, phoneSuffix,
+  type DuplicateCandidate, type DuplicateGroup, type DuplicateScore,
+} from '@shared/duplicates';
+
+// Name tokens shared by more records than this (e.g. a very common first name) are not used
+// to pick comparison candidates; such records are still compared through phone and email.
+const MAX_BLOCK_SIZE = 500;
+
+// Keys that two records must share at least one of to be compared at all
+function blockingKeys(candidate: DuplicateCandidate): string[] {
+  const keys: string[] = [];
+  if (candidate.phone) keys.push(`phone:${candidate.phone.trim()}`);
+  const suffix = phoneSuffix(candidate.phone);
+  if (suffix) keys.push(`suffix:${suffix}`);
+  const email = emailParts(candidate.email);
+  if (email) keys.push(`local:${email.local}`);
+  for (const token of nameTokens(candidate.name)) {
+    if (token.length >= 3) keys.push(`name:${token}`);
+  }
+  return keys;
+}
+
+function buildIndex<T>(items: T[], toCandidate: (item: T) => DuplicateCandidate): Map<string, number[]> {
+  const index = new Map<string, number[]>();
+  items.forEach((item, position) => {
+    for (const key of blockingKeys(toCandidate(item))) {
+      const bucket = index.get(key);
+      if (bucket) bucket.push(position);
+      else index.set(key, [position]);
+    }
+  });
+  return index;
+}
+
+function candidatePositions(index: Map<string, number[]>, candidate: DuplicateCandidate): Set<number> {
+  const positions = new Set<number>();
+  for (const key of blockingKeys(candidate)) {
+    const bucket = index.get(key);
+    if (!bucket || (key.startsWith('name:') && bucket.length > MAX_BLOCK_SIZE)) continue;
+    bucket.forEach(position => positions.add(position));
+  }
+  return positions;
+}
+
+export function leadPairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+function dismissedKeys(dismissals: DuplicateDismissal[]): Set<string> {
+  const keys = new Set<string>();
+  for (const dismissal of dismissals) {
+    if (dismissal.matchLeadId) keys.add(`lead:${leadPairKey(dismissal.leadId, dismissal.matchLeadId)}`);
+    if (dismissal.matchClientId) keys.add(`client:${dismissal.leadId}:${dismissal.matchClientId}`);
+  }
+  return keys;
+}
+
+// Scores every plausible lead/lead and lead/client pair and groups the matches around the oldest lead.
+// Pairs marked "not a duplicate" are left out.
+export async function findDuplicateGroups(minConfidence = DEFAULT_DUPLICATE_THRESHOLD): Promise<DuplicateGroup[]> {
+  const [allLeads, allClients, dismissals] = await Promise.all([
+    storage.getAllLeads(),
+    storage.getAllClients(),
+    storage.getDuplicateDismissals(),
+  ]);
+  const leads = [...allLeads].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const dismissed = dismissedKeys(dismissals);
+
+  const leadIndex = buildIndex(leads, leadToCandidate);
+  const clientIndex = buildIndex(allClients, clientToCandidate);
+
+  const leadMatches = new Map<string, { lead: Lead; score: DuplicateScore }[]>();
+  leads.forEach((lead, position) => {
+    const candidate = leadToCandidate(lead);
+    candidatePositions(leadIndex, candidate).forEach(other => {
+      if (other <= position) return; // each pair once
+      const match = leads[other];
+      if (dismissed.has(`lead:${leadPairKey(lead.id, match.id)}`)) return;
+      const score = scoreDuplicate(candidate, leadToCandidate(match));
+      if (score.confidence < minConfidence) return;
+      for (const [from, to] of [[lead, match], [match, lead]]) {
+        const list = leadMatches.get(from.id) ?? [];
+        list.push({ lead: to, score });
+        leadMatches.set(from.id, list);
+      }
+    });
+  });
+
+  const groups: DuplicateGroup[] = [];
+  const processed = new Set<string>();
+
+  for (const lead of leads) {
+    if (processed.has(lead.id)) continue;
+    const candidate = leadToCandidate(lead);
+
+    const matches = (leadMatches.get(lead.id) ?? [])
+      .filter(m => !processed.has(m.lead.id))
+      .map(m => ({ lead: m.lead, ...m.score }));
+
+    const clientMatches: DuplicateGroup['clientMatches'] = [];
+    candidatePositions(clientIndex, candidate).forEach(position => {
+      const client: Client = allClients[position];
+      // The client this lead was converted into is not a duplicate
+      if (client.leadId === lead.id) return;
+      if (dismissed.has(`client:${lead.id}:${client.id}`)) return;
+      const score = scoreDuplicate(candidate, clientToCandidate(client));
+      if (score.confidence >= minConfidence) clientMatches.push({ client, ...score });
+    });
+
+    if (matches.length === 0 && clientMatches.length === 0) continue;
+
+    processed.add(lead.id);
+    matches.forEach(m => processed.add(m.lead.id));
+    matches.sort((a, b) => b.confidence - a.confidence);
+    clientMatches.sort((a, b) => b.confidence - a.confidence);
+    groups.push({
+      lead,
+      confidence: Math.max(...matches.map(m => m.confidence), ...clientMatches.map(m => m.confidence)),
+      matches,
+      clientMatches,
+    });
+  }
+
+  return groups.sort((a, b) => b.confidence - a.confidence);
+}
@@ -0,0 +1,97 @@
+import { storage, type LeadQueryFilters } from './storage';
+import { COMMITTED_MIN_PROBABILITY, type ForecastMonth, type ForecastReport } from '@shared/forecast';
+import { isWonLead } from '@shared/pipelines';
+import { isLostLead } from '@shared/lossReasons';
+
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+// Weighted pipeline value by expected close month, from the current month `months` months ahead; won
+// deals (in a won stage or converted) count in the month they were won.
+// Deals are leads with a deal value; their stage's probability and outcome come from the lead's pipeline.
+// Lost deals (in a lost stage or not interested) and deals closing outside the window are left out.
+export async function buildForecast(filters: LeadQueryFilters, months: number): Promise<ForecastReport> {
+  const [{ data: leads }, pipelines] = await Promise.all([
+    storage.queryLeads(filters),
+    storage.getPipelines(),
+  ]);
+  const defaultPipeline = pipelines.find(p => p.isDefault);
+  const stageOf = (pipelineId: string | null, stageKey: string) =>
+    (pipelines.find(p => p.id === pipelineId) ?? defaultPipeline)?.stages.find(s => s.key === stageKey);
+
+  const now = new Date();
+  const currentMonth = monthKey(now);
+  const rows: ForecastMonth[] = [];
+  for (let i = 0; i < months; i++) {
+    const date = new Date(now.getFullYear(), now.getMonth() + i, 1);
+    rows.push({
+      month: monthKey(date),
+      label: date.toLocaleString('default', { month: 'short', year: 'numeric' }),
+      won: 0,
+      committed: 0,
+      bestCase: 0,
+      weighted: 0,
+      deals: 0,
+    });
+  }
+
+  const unscheduled = { deals: 0, value: 0, weighted: 0 };
+  const overdue = { deals: 0, value: 0 };
+
+  for (const lead of leads) {
+    const value = Number(lead.dealValue ?? 0);
+    if (!(value > 0)) continue;
+    const stage = stageOf(lead.pipelineId, lead.pipelineStage);
+    if (isLostLead(lead.status, stage?.outcome)) continue;
+
+    if (isWonLead(lead.status, stage?.outcome)) {
+      // Won deals count in the month they were won
+      const row = rows.find(r => r.month === monthKey(new Date(lead.wonAt ?? lead.updatedAt)));
+      if (!row) continue;
+      row.deals++;
+      row.won += value;
+      row.committed += value;
+      row.bestCase += value;
+      row.weighted += value;
+      continue;
+    }
+
+    if (!stage) continue;
+    const probability = stage.winProbability / 100;
+
+    if (!lead.expectedCloseDate) {
+      unscheduled.deals++;
+      unscheduled.value += value;
+      unscheduled.weighted += value * probability;
+      continue;
+    }
+
+    let month = lead.expectedCloseDate.slice(0, 7);
+    if (month < currentMonth) {
+      overdue.deals++;
+      overdue.value += value;
+      month = currentMonth;
+    }
+    const row = rows.find(r => r.month === month);
+    if (!row) continue;
+    row.deals++;
+    row.bestCase += value;
+    row.weighted += value * probability;
+    if (stage.winProbability >= COMMITTED_MIN_PROBABILITY) row.committed += value;
+  }
+
+  const round = (amount: number) => Math.round(amount * 100) / 100;
+  return {
+    months: rows.map(row => ({
+      ...row,
+      won: round(row.won),
+      committed: round(row.committed),
+      bestCase: round(row.bestCase),
+      weighted: round(row.weighted),
+    })),
+    unscheduled: { ...unscheduled, value: round(unscheduled.value), weighted: round(unscheduled.weighted) },
+    overdue: { ...overdue, value: round(overdue.value) },
+    committedMinProbability: COMMITTED_MIN_PROBABILITY,
+  };
+}
@@ -4,10 +4,17 @@ import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { startAutomationScheduler } from "./automation";
+import { failInterruptedImportJobs } from "./leadImport";
 
 const app = express();
 const httpServer = createServer(app);
 
+// In production the app runs behind one reverse proxy; trusting it makes req.ip the visitor's address,
+// which the lead capture rate limits are keyed on
+if (process.env.NODE_ENV === "production") {
+  app.set("trust proxy", 1);
+}
+
 declare module "http" {
   interface IncomingMessage {
     rawBody: unknown;
@@ -16,6 +23,7 @@ declare module "http" {
 
 app.use(
   express.json({
+    limit: "10mb", // raw CSV uploads for lead import
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
@@ -87,6 +95,8 @@ app.use((req, res, next) => {
   // this serves both the API and the client.
   // It is the only port that is not firewalled.
   const port = parseInt(process.env.PORT || "5000", 10);
+  // Before accepting requests, so an import queued right after startup is not taken for an interrupted one
+  await failInterruptedImportJobs();
   httpServer.listen(
     {
       port,
@@ -0,0 +1,67 @@
+import { storage } from './storage';
+import { createLeadDistributor, recordAssignments } from './distribution';
+import { rescoreLeadAfterEvent } from './leadScoring';
+import type { CustomFieldValues, Lead, LeadForm, leadSources } from '@shared/schema';
+
+// Leads arriving from outside the CRM: the capture endpoint, released quarantine entries and ad
+// platform webhooks all create them the same way.
+
+export interface CapturedLeadFields {
+  name: string;
+  mobile: string;
+  email?: string | null;
+  city?: string | null;
+  source: typeof leadSources[number];
+  notes?: string | null;
+  campaignId?: string | null;
+  utmSource?: string | null;
+  utmMedium?: string | null;
+  utmCampaign?: string | null;
+  utmContent?: string | null;
+  utmTerm?: string | null;
+}
+
+// Creates the lead unless it is a duplicate. A form's source and campaign replace the submitted ones.
+export async function createCapturedLead(
+  data: CapturedLeadFields,
+  form: LeadForm | undefined,
+  customFields: CustomFieldValues,
+): Promise<{ lead: Lead } | { existingLead: Lead }> {
+  // Check for duplicate lead by mobile or email
+  const existingLead = await storage.findLeadByMobileOrEmail(data.mobile, data.email || undefined);
+
+  if (form) await storage.recordLeadFormSubmission(form.id);
+  if (existingLead) return { existingLead };
+
+  const source = form?.source ?? data.source;
+  const campaignId = form ? form.campaignId : data.campaignId || null;
+
+  // With distribution on, the lead goes straight to a rep; otherwise a CRM user assigns it later
+  const distributor = await createLeadDistributor();
+  const assignee = distributor?.assign({ ...data, source, campaignId });
+
+  const lead = await storage.createLead({
+    name: data.name,
+    mobile: data.mobile,
+    email: data.email || null,
+    city: data.city || null,
+    source,
+    status: 'new',
+    notes: data.notes || null,
+    campaignId,
+    leadFormId: form?.id ?? null,
+    customFields,
+    ownerId: assignee?.id ?? null,
+    distributedAt: assignee ? new Date() : null,
+    utmSource: data.utmSource || null,
+    utmMedium: data.utmMedium || null,
+    utmCampaign: data.utmCampaign || null,
+    utmContent: data.utmContent || null,
+    utmTerm: data.utmTerm || null,
+  });
+  if (distributor && assignee) {
+    await recordAssignments(distributor, [{ leadId: lead.id, leadName: lead.name, userId: assignee.id }]);
+  }
+  await rescoreLeadAfterEvent(lead.id, 'lead_created');
+  return { lead };
+}
@@ -0,0 +1,284 @@
+import { storage } from './storage';
+import { issueHostedFormToken } from './captureProtection';
+import { validateCustomFieldValues, parseCustomFieldOptions } from '@shared/customFields';
+import { leadFormUtmParams, LEAD_FORM_MESSAGE_TYPE } from '@shared/leadForms';
+import type { CustomFieldDefinition, CustomFieldValues, LeadForm, LeadFormField, LeadFormStandardField } from '@shared/schema';
+
+// Hosted lead forms. The form page is plain server-rendered HTML with a small script that posts to
+// /api/leads/capture from the CRM's own origin, so embedding it needs no CORS. The JS embed is an
+// iframe of that page which also hands over the host page's UTM parameters and follows its height.
+
+export interface LeadFormSubmissionError {
+  field: string;
+  message: string;
+}
+
+type StandardValues = Partial<Record<LeadFormStandardField, string>>;
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// JSON inside a <script> block must not be able to close it
+const scriptJson = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+// The form's custom fields paired with their active definitions; fields whose definition was removed
+// or deactivated are left off the form
+function customFieldsOf(form: LeadForm, definitions: CustomFieldDefinition[]) {
+  return form.fields.filter(field => field.custom).flatMap(field => {
+    const definition = definitions.find(d => d.key === field.key && d.entityType === 'lead' && d.isActive);
+    return definition ? [{ field, definition }] : [];
+  });
+}
+
+// Enforces the form's own required fields and validates its custom fields. A custom field's
+// required flag comes from the form, not the definition, so fields left off a form never block it.
+export async function validateLeadFormSubmission(
+  form: LeadForm,
+  data: StandardValues & { customFields?: Record<string, unknown> },
+): Promise<{ customFields: CustomFieldValues; errors: LeadFormSubmissionError[] }> {
+  const errors: LeadFormSubmissionError[] = [];
+  for (const field of form.fields.filter(f => !f.custom && f.required)) {
+    if (!data[field.key as LeadFormStandardField]?.trim()) {
+      errors.push({ field: field.key, message: `${field.label} is required` });
+    }
+  }
+
+  const definitions = await storage.getCustomFieldDefinitions('lead');
+  const formDefinitions = customFieldsOf(form, definitions).map(({ field, definition }) => ({
+    ...definition,
+    label: field.label,
+    isRequired: field.required,
+  }));
+  const { values, errors: customErrors } = validateCustomFieldValues(formDefinitions, data.customFields);
+  for (const [key, message] of Object.entries(customErrors)) {
+    errors.push({ field: `customFields.${key}`, message });
+  }
+  return { customFields: values, errors };
+}
+
+function renderStandardInput(field: LeadFormField, key: LeadFormStandardField): string {
+  const required = field.required ? ' required' : '';
+  if (key === 'notes') return `<textarea id="f-${key}" name="${key}" rows="4"${required}></textarea>`;
+  const type = key === 'mobile' ? 'tel' : key === 'email' ? 'email' : 'text';
+  const autocomplete = { name: 'name', mobile: 'tel', email: 'email', city: 'address-level2' }[key];
+  return `<input id="f-${key}" name="${key}" type="${type}" autocomplete="${autocomplete}"${required}>`;
+}
+
+function renderCustomInput(field: LeadFormField, definition: CustomFieldDefinition): string {
+  const name = `cf:${escapeHtml(field.key)}`;
+  const id = `f-cf-${escapeHtml(field.key)}`;
+  const required = field.required ? ' required' : '';
+  const options = parseCustomFieldOptions(definition);
+  switch (definition.fieldType) {
+    case 'number':
+      return `<input id="${id}" name="${name}" type="number" step="any"${required}>`;
+    case 'date':
+      return `<input id="${id}" name="${name}" type="date"${required}>`;
+    case 'boolean':
+      return `<label class="check"><input id="${id}" name="${name}" type="checkbox" value="true"${required}> Yes</label>`;
+    case 'select':
+      return `<select id="${id}" name="${name}"${required}><option value="">Select...</option>${options
+        .map(option => `<option>${escapeHtml(option)}</option>`).join('')}</select>`;
+    case 'multi_select':
+      return options
+        .map(option => `<label class="check"><input name="${name}" type="checkbox" value="${escapeHtml(option)}"> ${escapeHtml(option)}</label>`)
+        .join('');
+    default:
+      return `<input id="${id}" name="${name}" type="text"${required}>`;
+  }
+}
+
+function renderField(field: LeadFormField, input: string, inputId?: string): string {
+  const label = `${escapeHtml(field.label)}${field.required ? ' <span class="req">*</span>' : ''}`;
+  return inputId
+    ? `<div class="field"><label for="${inputId}">${label}</label>${input}</div>`
+    : `<div class="field"><span class="label">${label}</span>${input}</div>`;
+}
+
+// Runs in the hosted page: collects values, adds UTM parameters from the page URL and posts to the capture endpoint
+const FORM_SCRIPT = `(function () {
+  var config = JSON.parse(document.getElementById('lead-form-config').textContent);
+  var form = document.getElementById('lead-form');
+  var errorBox = document.getElementById('lead-form-errors');
+  var thanks = document.getElementById('lead-form-thanks');
+  var button = form.querySelector('button');
+  var params = new URLSearchParams(window.location.search);
+  var utm = {};
+  Object.keys(config.utmParams).forEach(function (param) {
+    var value = params.get(param);
+    if (value) utm[config.utmParams[param]] = value;
+  });
+
+  function notifyParent(message) {
+    if (window.parent === window) return;
+    message.type = config.messageType;
+    message.formId = config.formId;
+    window.parent.postMessage(message, '*');
+  }
+  function resize() {
+    notifyParent({ height: document.documentElement.scrollHeight });
+  }
+  window.addEventListener('load', resize);
+  window.addEventListener('resize', resize);
+
+  function showErrors(messages) {
+    errorBox.innerHTML = '';
+    messages.forEach(function (message) {
+      var item = document.createElement('li');
+      item.textContent = message;
+      errorBox.appendChild(item);
+    });
+    errorBox.hidden = messages.length === 0;
+    resize();
+  }
+  function finish() {
+    if (config.redirectUrl) {
+      notifyParent({ redirectUrl: config.redirectUrl });
+      try { window.top.location.href = config.redirectUrl; } catch (e) { window.location.href = config.redirectUrl; }
+      return;
+    }
+    form.hidden = true;
+    thanks.hidden = false;
+    resize();
+  }
+
+  form.addEventListener('submit', function (event) {
+    event.preventDefault();
+    var data = new FormData(form);
+    var body = { formId: config.formId, formToken: config.token, website: data.get('website') || '', customFields: {} };
+    Object.keys(utm).forEach(function (key) { body[key] = utm[key]; });
+    config.fields.forEach(function (field) {
+      var name = (field.custom ? 'cf:' : '') + field.key;
+      var value;
+      if (field.type === 'multi_select') value = data.getAll(name);
+      else if (field.type === 'boolean') value = data.get(name) ? true : undefined;
+      else value = (data.get(name) || '').toString().trim();
+      if (field.custom) { if (value !== undefined) body.customFields[field.key] = value; }
+      else body[field.key] = value;
+    });
+    button.disabled = true;
+    showErrors([]);
+    fetch('/api/leads/capture', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+      .then(function (response) {
+        return response.json().then(function (result) { return { status: response.status, result: result }; });
+      })
+      .then(function (reply) {
+        // A duplicate means we already have this person's details, which is all they need to know
+        if (reply.status === 201 || reply.status === 409) return finish();
+        if (reply.status === 401) return showErrors(['This form has expired. Please reload the page and try again.']);
+        var errors = reply.result.errors || [];
+        showErrors(errors.length ? errors.map(function (e) { return e.message; }) : [reply.result.message || 'Something went wrong']);
+      })
+      .catch(function () { showErrors(['The form could not be sent. Please try again.']); })
+      .then(function () { button.disabled = false; });
+  });
+})();`;
+
+const PAGE_STYLE = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #111827; background: transparent; }
+  main { max-width: 560px; margin: 0 auto; padding: 24px 16px; }
+  h1 { font-size: 1.25rem; margin: 0 0 16px; }
+  .field { margin-bottom: 14px; }
+  .field label, .field .label { display: block; font-size: 0.875rem; font-weight: 500; margin-bottom: 4px; }
+  .field label.check { display: flex; align-items: center; gap: 6px; font-weight: 400; }
+  input:not([type=checkbox]), select, textarea { width: 100%; padding: 8px 10px; font: inherit; border: 1px solid #d1d5db; border-radius: 6px; background: #fff; }
+  .req { color: #dc2626; }
+  button { width: 100%; padding: 10px; font: inherit; font-weight: 600; color: #fff; background: #2563eb; border: 0; border-radius: 6px; cursor: pointer; }
+  button:disabled { opacity: 0.6; cursor: default; }
+  #lead-form-errors { color: #dc2626; font-size: 0.875rem; padding-left: 18px; }
+  #lead-form-thanks { font-size: 1rem; }
+  .hp { position: absolute; left: -10000px; width: 1px; height: 1px; overflow: hidden; }
+`;
+
+function renderDocument(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+<style>${PAGE_STYLE}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+export function renderLeadFormPage(form: LeadForm, definitions: CustomFieldDefinition[]): string {
+  const custom = new Map(customFieldsOf(form, definitions).map(({ field, definition }) => [field.key, definition]));
+  const fields = form.fields.filter(field => !field.custom || custom.has(field.key));
+
+  const inputs = fields.map(field => {
+    if (!field.custom) return renderField(field, renderStandardInput(field, field.key as LeadFormStandardField), `f-${field.key}`);
+    const definition = custom.get(field.key)!;
+    const inputId = definition.fieldType === 'multi_select' || definition.fieldType === 'boolean' ? undefined : `f-cf-${escapeHtml(field.key)}`;
+    return renderField(field, renderCustomInput(field, definition), inputId);
+  }).join('\n');
+
+  const config = {
+    formId: form.id,
+    token: issueHostedFormToken(form),
+    redirectUrl: form.redirectUrl,
+    utmParams: leadFormUtmParams,
+    messageType: LEAD_FORM_MESSAGE_TYPE,
+    fields: fields.map(field => ({
+      key: field.key,
+      custom: field.custom,
+      type: field.custom ? custom.get(field.key)!.fieldType : 'text',
+    })),
+  };
+
+  return renderDocument(form.name, `<main>
+<h1>${escapeHtml(form.name)}</h1>
+<form id="lead-form">
+${inputs}
+<div class="hp" aria-hidden="true"><label for="f-website">Website</label><input id="f-website" name="website" type="text" tabindex="-1" autocomplete="off"></div>
+<ul id="lead-form-errors" hidden></ul>
+<button type="submit">${escapeHtml(form.submitLabel)}</button>
+</form>
+<p id="lead-form-thanks" hidden>${escapeHtml(form.thankYouMessage)}</p>
+</main>
+<script type="application/json" id="lead-form-config">${scriptJson(config)}</script>
+<script>${FORM_SCRIPT}</script>`);
+}
+
+export function renderLeadFormUnavailablePage(): string {
+  return renderDocument('Form unavailable', '<main><p>This form is no longer available.</p></main>');
+}
+
+// The embed script inserts the hosted form as an iframe right after its own <script> tag
+export function renderLeadFormEmbedScript(form: LeadForm): string {
+  return `(function () {
+  var script = document.currentScript;
+  if (!script) return;
+  var origin = new URL(script.src).origin;
+  var query = new URLSearchParams();
+  new URLSearchParams(window.location.search).forEach(function (value, key) {
+    if (key.indexOf('utm_') === 0) query.set(key, value);
+  });
+  var iframe = document.createElement('iframe');
+  iframe.src = origin + '/forms/' + ${scriptJson(form.id)} + (query.toString() ? '?' + query.toString() : '');
+  iframe.title = ${scriptJson(form.name)};
+  iframe.style.cssText = 'width:100%;height:640px;border:0;';
+  script.parentNode.insertBefore(iframe, script.nextSibling);
+  window.addEventListener('message', function (event) {
+    if (event.origin !== origin || event.source !== iframe.contentWindow) return;
+    var data = event.data || {};
+    if (data.type !== ${scriptJson(LEAD_FORM_MESSAGE_TYPE)}) return;
+    if (data.height) iframe.style.height = data.height + 'px';
+    if (data.redirectUrl) window.location.href = data.redirectUrl;
+  });
+})();
+`;
+}
@@ -0,0 +1,377 @@
+import { storage } from './storage';
+import {
+  leadSources, leadStatuses, interestLevels,
+  type Lead, type InsertLead, type User, type CustomFieldValues, type LeadImportJob,
+} from '@shared/schema';
+import { validateCustomFieldValues } from '@shared/customFields';
+import { missingStageFields, stageFieldLabel, type PipelineWithStages } from '@shared/pipelines';
+import { phoneMatchKey, toE164 } from './phone';
+import { createLeadDistributor, recordAssignments, type LeadAssignment } from './distribution';
+import { resolveLeadOutcome } from './lossReasons';
+import { rescoreLeadsAfterEvent } from './leadScoring';
+import {
+  parseCsv,
+  type DuplicateStrategy, type LeadImportMapping, type LeadImportRowResult, type LeadImportSummary,
+} from '@shared/leadImport';
+
+export interface LeadImportOptions {
+  rows: string[][]; // data rows, header excluded
+  mapping: LeadImportMapping;
+  duplicateStrategy: DuplicateStrategy;
+  user: User;
+  dryRun: boolean;
+  importJobId?: string; // stamped on created leads so the import can be undone
+  onProgress?: (summary: LeadImportSummary, processedRows: number) => Promise<void>;
+}
+
+const PROGRESS_INTERVAL = 50;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function matchEnum<T extends string>(values: readonly T[], raw: string): T | undefined {
+  const normalized = raw.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return values.find(v => v === normalized);
+}
+
+function matchStage(pipeline: PipelineWithStages, raw: string) {
+  const key = matchEnum(pipeline.stages.map(s => s.key), raw);
+  return pipeline.stages.find(s => s.key === key || s.name.toLowerCase() === raw.trim().toLowerCase());
+}
+
+// Validates every row against the column mapping and, unless dryRun, writes the result.
+// Duplicates are matched by canonical mobile or email against existing leads and earlier rows of the same file.
+export async function runLeadImport(options: LeadImportOptions): Promise<LeadImportSummary> {
+  const { rows, mapping, duplicateStrategy, user, dryRun, importJobId, onProgress } = options;
+
+  const [existingLeads, users, campaigns, customFieldDefs, pipelines] = await Promise.all([
+    storage.getAllLeads(),
+    storage.getAllUsers(),
+    storage.getAllCampaigns(),
+    storage.getCustomFieldDefinitions('lead'),
+    storage.getPipelines(),
+  ]);
+  const defaultPipeline = pipelines.find(p => p.isDefault);
+  // Leads created without a stage start in the first one
+  const stageOutcome = (pipelineId: string | null, stageKey: string | undefined) => {
+    const pipeline = pipelines.find(p => p.id === pipelineId) ?? defaultPipeline;
+    return (pipeline?.stages.find(s => s.key === stageKey) ?? pipeline?.stages[0])?.outcome;
+  };
+  const customLabels = Object.fromEntries(customFieldDefs.map(d => [d.key, d.label]));
+
+  const byMobile = new Map<string, Lead>();
+  const byEmail = new Map<string, Lead>();
+  const remember = (lead: Lead) => {
+    byMobile.set(lead.mobileE164 ?? lead.mobile.trim(), lead);
+    if (lead.email) byEmail.set(lead.email.trim().toLowerCase(), lead);
+  };
+  existingLeads.forEach(remember);
+
+  // Created leads without an owner column go through lead distribution when it is on, else to the importer
+  const distributor = dryRun ? undefined : await createLeadDistributor();
+  const assignments: LeadAssignment[] = [];
+
+  // Leads written since the last batch, scored together as the routes score a lead they create or update
+  let createdLeads: Lead[] = [];
+  let updatedLeads: Lead[] = [];
+  const rescoreBatch = async () => {
+    await rescoreLeadsAfterEvent(createdLeads, 'lead_created');
+    await rescoreLeadsAfterEvent(updatedLeads, 'lead_updated');
+    createdLeads = [];
+    updatedLeads = [];
+  };
+
+  const summary: LeadImportSummary = {
+    dryRun,
+    total: rows.length,
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    failed: 0,
+    rows: [],
+  };
+
+  for (let i = 0; i < rows.length; i++) {
+    if (i > 0 && i % PROGRESS_INTERVAL === 0) {
+      await rescoreBatch();
+      if (onProgress) await onProgress(summary, i);
+    }
+
+    const cells = rows[i];
+    const result: LeadImportRowResult = { row: i + 1, action: 'create', errors: [] };
+    summary.rows.push(result);
+
+    const values: Record<string, string> = {};
+    const customInput: Record<string, string> = {};
+    mapping.forEach((target, column) => {
+      const value = (cells[column] ?? '').trim();
+      if (!target || value === '') return;
+      if (target.startsWith('custom:')) {
+        customInput[target.slice('custom:'.length)] = value;
+      } else {
+        values[target] = value;
+      }
+    });
+
+    const lead: Partial<InsertLead> = {};
+    const errors = result.errors;
+
+    if (!values.name || values.name.length < 2) {
+      errors.push('Name is required (min 2 characters)');
+    } else {
+      lead.name = values.name;
+    }
+
+    if (!values.mobile || values.mobile.replace(/\D/g, '').length < 10) {
+      errors.push('Mobile is required (min 10 digits)');
+    } else {
+      lead.mobile = values.mobile;
+    }
+
+    if (values.email) {
+      if (EMAIL_PATTERN.test(values.email)) lead.email = values.email;
+      else errors.push(`Invalid email "${values.email}"`);
+    }
+
+    if (values.city) lead.city = values.city;
+    if (values.notes) lead.notes = values.notes;
+    for (const key of ['utmSource', 'utmMedium', 'utmCampaign', 'utmContent', 'utmTerm'] as const) {
+      if (values[key]) lead[key] = values[key];
+    }
+
+    const enumFields = [
+      { key: 'source', values: leadSources, label: 'source' },
+      { key: 'status', values: leadStatuses, label: 'status' },
+      { key: 'interestLevel', values: interestLevels, label: 'interest level' },
+    ] as const;
+    for (const field of enumFields) {
+      const raw = values[field.key];
+      if (!raw) continue;
+      const matched = matchEnum(field.values, raw);
+      if (matched) lead[field.key] = matched;
+      else errors.push(`Unknown ${field.label} "${raw}" (expected one of: ${field.values.join(', ')})`);
+    }
+
+    if (values.budget) {
+      const budget = Number(values.budget.replace(/[₹$,\s]/g, ''));
+      if (Number.isFinite(budget) && budget >= 0) lead.budget = String(budget);
+      else errors.push(`Invalid budget "${values.budget}"`);
+    }
+
+    if (values.campaign) {
+      const needle = values.campaign.toLowerCase();
+      const campaign = campaigns.find(c => c.id === values.campaign || c.name.toLowerCase() === needle);
+      if (campaign) lead.campaignId = campaign.id;
+      else errors.push(`Unknown campaign "${values.campaign}"`);
+    }
+
+    if (values.owner) {
+      const needle = values.owner.toLowerCase();
+      const owner = users.find(u =>
+        u.id === values.owner || u.email.toLowerCase() === needle || u.name.toLowerCase() === needle
+      );
+      if (owner) lead.ownerId = owner.id;
+      else errors.push(`Unknown owner "${values.owner}"`);
+    }
+
+    const duplicate = (lead.mobile && byMobile.get(phoneMatchKey(lead.mobile)))
+      || (lead.email && byEmail.get(lead.email.toLowerCase()))
+      || undefined;
+
+    // Updates only validate the custom fields present in the file; creates enforce required ones
+    const updating = !!duplicate && duplicateStrategy === 'update';
+    const customResult = validateCustomFieldValues(customFieldDefs, customInput, { partial: updating });
+    errors.push(...Object.values(customResult.errors));
+
+    // Stages are those of the lead's pipeline (the default one for new leads), matched by key or name
+    if (values.pipelineStage) {
+      const pipeline = (updating && pipelines.find(p => p.id === duplicate.pipelineId)) || defaultPipeline;
+      const stage = pipeline && matchStage(pipeline, values.pipelineStage);
+      if (!pipeline || !stage) {
+        const expected = pipeline?.stages.map(s => s.key).join(', ') ?? '';
+        errors.push(`Unknown pipeline stage "${values.pipelineStage}" (expected one of: ${expected})`);
+      } else {
+        const customFields = { ...(updating ? duplicate.customFields : {}), ...customResult.values };
+        const missing = missingStageFields({ ...(updating ? duplicate : {}), ...lead, customFields }, stage);
+        if (missing.length > 0) {
+          errors.push(`Stage "${stage.name}" needs ${missing.map(field => stageFieldLabel(field, customLabels)).join(', ')}`);
+        } else {
+          lead.pipelineStage = stage.key;
+        }
+      }
+    }
+
+    if (duplicate) {
+      result.duplicateOf = { id: duplicate.id, name: duplicate.name };
+    }
+
+    if (errors.length > 0) {
+      result.action = 'error';
+      summary.failed++;
+      continue;
+    }
+
+    if (duplicate && duplicateStrategy === 'skip') {
+      result.action = 'skip';
+      summary.skipped++;
+      continue;
+    }
+
+    try {
+      if (updating && duplicate) {
+        result.action = 'update';
+        // Rows matched in this same file have no id yet during a dry run
+        if (!dryRun && duplicate.id) {
+          const customFields: CustomFieldValues = { ...duplicate.customFields, ...customResult.values };
+          // A new status or stage can lose, win or reopen the lead; imports do not ask for a loss reason
+          const outcome = lead.status !== undefined || lead.pipelineStage !== undefined
+            ? resolveLeadOutcome(duplicate, { ...duplicate, ...lead }, stageOutcome(duplicate.pipelineId, lead.pipelineStage ?? duplicate.pipelineStage))
+            : {};
+          const updated = await storage.updateLead(duplicate.id, { ...lead, ...outcome, customFields }, user.id);
+          if (updated) {
+            remember(updated);
+            updatedLeads.push(updated);
+            result.leadId = updated.id;
+          }
+        }
+        summary.updated++;
+      } else {
+        result.action = 'create';
+        const assignee = lead.ownerId ? undefined : distributor?.assign(lead);
+        const insert = {
+          ...lead,
+          name: lead.name!,
+          mobile: lead.mobile!,
+          ownerId: lead.ownerId || assignee?.id || user.id,
+          distributedAt: assignee ? new Date() : null,
+          customFields: customResult.values,
+          importJobId,
+          ...resolveLeadOutcome(undefined, lead, stageOutcome(null, lead.pipelineStage)),
+        };
+        if (dryRun) {
+          remember({ ...insert, id: '', email: insert.email ?? null, mobileE164: toE164(insert.mobile) } as Lead);
+        } else {
+          const created = await storage.createLead(insert, user.id);
+          remember(created);
+          createdLeads.push(created);
+          result.leadId = created.id;
+          if (assignee) assignments.push({ leadId: created.id, leadName: created.name, userId: assignee.id });
+        }
+        summary.created++;
+      }
+    } catch (error: any) {
+      result.action = 'error';
+      result.errors.push(error.message);
+      summary.failed++;
+    }
+  }
+
+  await rescoreBatch();
+  if (distributor) await recordAssignments(distributor, assignments);
+  return summary;
+}
+
+// Rows worth keeping on the job: anything that was not a clean create
+function notableRows(summary: LeadImportSummary): LeadImportRowResult[] {
+  return summary.rows.filter(r => r.action !== 'create' || r.errors.length > 0);
+}
+
+function progressFields(summary: LeadImportSummary, processedRows: number) {
+  return {
+    processedRows,
+    createdCount: summary.created,
+    updatedCount: summary.updated,
+    skippedCount: summary.skipped,
+    failedCount: summary.failed,
+  };
+}
+
+// Processes a queued import job outside the request that created it.
+// Progress is written back to the job row so the client can poll it.
+export async function processLeadImportJob(job: LeadImportJob): Promise<void> {
+  try {
+    const user = await storage.getUser(job.userId);
+    if (!user) throw new Error('Import owner no longer exists');
+
+    const [, ...rows] = parseCsv(job.csvText);
+    await storage.updateLeadImportJob(job.id, { status: 'running', startedAt: new Date(), totalRows: rows.length });
+
+    const summary = await runLeadImport({
+      rows,
+      mapping: JSON.parse(job.mapping) as LeadImportMapping,
+      duplicateStrategy: job.duplicateStrategy as DuplicateStrategy,
+      user,
+      dryRun: false,
+      importJobId: job.id,
+      onProgress: async (partial, processedRows) => {
+        await storage.updateLeadImportJob(job.id, progressFields(partial, processedRows));
+      },
+    });
+
+    await storage.updateLeadImportJob(job.id, {
+      ...progressFields(summary, rows.length),
+      status: 'completed',
+      results: JSON.stringify(notableRows(summary)),
+      completedAt: new Date(),
+    });
+    await storage.createActivityLog({
+      userId: user.id,
+      action: 'imported',
+      entityType: 'lead_import_job',
+      entityId: job.id,
+      details: `${summary.created} created, ${summary.updated} updated, ${summary.skipped} skipped, ${summary.failed} failed`,
+    });
+  } catch (error) {
+    console.error('Lead import job error:', error);
+    await storage.updateLeadImportJob(job.id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      completedAt: new Date(),
+    });
+  }
+}
+
+// Errors the job could not record itself, e.g. the database was unreachable when it failed, still end it
+export function enqueueLeadImportJob(job: LeadImportJob) {
+  setImmediate(() => {
+    processLeadImportJob(job).catch(async (error) => {
+      console.error('Lead import job error:', error);
+      await storage.updateLeadImportJob(job.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      }).catch(updateError => console.error('Failed to mark import job as failed:', updateError));
+    });
+  });
+}
+
+// Jobs left running by a restart cannot be resumed safely (rows may be half-applied)
+export async function failInterruptedImportJobs() {
+  try {
+    const interrupted = await storage.getLeadImportJobsByStatus(['pending', 'running']);
+    for (const job of interrupted) {
+      await storage.updateLeadImportJob(job.id, {
+        status: 'failed',
+        error: 'Interrupted by a server restart. Leads created so far can still be undone.',
+        completedAt: new Date(),
+      });
+    }
+  } catch (error) {
+    console.error('Failed to recover import jobs:', error);
+  }
+}
+
+// CSV of the rows that failed, with the original cells plus an error column
+export function buildImportErrorReport(job: LeadImportJob): string {
+  const [headers = [], ...rows] = parseCsv(job.csvText);
+  const results: LeadImportRowResult[] = job.results ? JSON.parse(job.results) : [];
+  const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+  const lines = [[...headers, 'Row', 'Error'].map(escape).join(',')];
+  for (const result of results) {
+    if (result.action !== 'error') continue;
+    const cells = rows[result.row - 1] ?? [];
+    const padded = headers.map((_, i) => cells[i] ?? '');
+    lines.push([...padded, String(result.row), result.errors.join('; ')].map(escape).join(','));
+  }
+  return lines.join('\n');
+}
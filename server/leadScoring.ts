@@ -0,0 +1,170 @@
+import { storage } from './storage';
+import { refreshConversionProbability } from './conversionModel';
+import type { Lead, LeadScoreHistoryEntry, LeadScoringModel, ScoreTrigger } from '@shared/schema';
+import {
+  DEFAULT_LEAD_SCORING_CONFIG, scoreLead, parseScoreBreakdown, samePoints,
+  type LeadScoreResult, type LeadScoringModelConfig, type LeadScoringPreview,
+  type SerializedLeadScoreHistoryEntry, type SerializedLeadScoringModel,
+} from '@shared/leadScoring';
+
+const PREVIEW_CHANGED_LIMIT = 100;
+
+const NO_SIGNALS = { interactions: 0, completedFollowUps: 0 };
+
+export function modelConfig(model: LeadScoringModel): LeadScoringModelConfig {
+  return JSON.parse(model.config);
+}
+
+export function serializeLeadScoringModel(model: LeadScoringModel): SerializedLeadScoringModel {
+  return { ...model, config: modelConfig(model) };
+}
+
+// The active model. On a fresh database the built-in defaults are saved as version 1 on first use.
+export async function getActiveScoringModel(): Promise<LeadScoringModel> {
+  const active = await storage.getActiveLeadScoringModel();
+  if (active) return active;
+  const created = await storage.createLeadScoringModel({
+    config: JSON.stringify(DEFAULT_LEAD_SCORING_CONFIG),
+    notes: 'Built-in default scoring',
+    createdById: null,
+  });
+  return (await storage.activateLeadScoringModel(created.id)) ?? created;
+}
+
+// Saves the result on the lead and, when the score, tier or any factor's points moved, appends it with
+// its full breakdown to the score history. Leads whose result and model are unchanged are not written at all.
+async function saveLeadScore(lead: Lead, result: LeadScoreResult, model: LeadScoringModel, trigger: ScoreTrigger): Promise<Lead> {
+  const scoreChanged = lead.leadScore !== result.leadScore || lead.score !== result.score;
+  const previousBreakdown = parseScoreBreakdown(lead.scoreBreakdown);
+  const breakdownChanged = !previousBreakdown || !samePoints(previousBreakdown, result.breakdown);
+  if (!scoreChanged && !breakdownChanged && lead.scoringModelId === model.id && lead.scoreReason === result.reason) {
+    return lead;
+  }
+
+  const breakdown = JSON.stringify(result.breakdown);
+  const updated = await storage.updateLeadScore(lead.id, {
+    score: result.score,
+    leadScore: result.leadScore,
+    scoreReason: result.reason,
+    scoreBreakdown: breakdown,
+    scoringModelId: model.id,
+  });
+  if (scoreChanged || breakdownChanged) {
+    await storage.createLeadScoreHistoryEntry({
+      leadId: lead.id,
+      leadScore: result.leadScore,
+      score: result.score,
+      previousLeadScore: lead.leadScore,
+      previousScore: lead.score,
+      scoringModelId: model.id,
+      baseScore: result.baseScore,
+      breakdown,
+      trigger,
+    });
+  }
+  return updated ?? lead;
+}
+
+export function serializeLeadScoreHistoryEntry(entry: LeadScoreHistoryEntry): SerializedLeadScoreHistoryEntry {
+  return { ...entry, breakdown: parseScoreBreakdown(entry.breakdown) };
+}
+
+// Scores one lead with the active model and saves the result
+export async function rescoreLead(lead: Lead, trigger: ScoreTrigger): Promise<{ lead: Lead; result: LeadScoreResult; model: LeadScoringModel }> {
+  const model = await getActiveScoringModel();
+  const signals = (await storage.getLeadScoringSignals([lead.id])).get(lead.id) ?? NO_SIGNALS;
+  const result = scoreLead(lead, signals, modelConfig(model));
+  return { lead: await saveLeadScore(lead, result, model, trigger), result, model };
+}
+
+// Re-scores a lead, and refreshes its predicted conversion probability, after something that can
+// move its score. Scoring must never fail the request that triggered it, so errors are logged and swallowed.
+export async function rescoreLeadAfterEvent(leadId: string | null | undefined, trigger: ScoreTrigger): Promise<void> {
+  if (!leadId) return;
+  try {
+    const lead = await storage.getLead(leadId);
+    if (!lead) return;
+    const { lead: scored } = await rescoreLead(lead, trigger);
+    await refreshConversionProbability(scored);
+  } catch (error) {
+    console.error(`Lead re-scoring after ${trigger} failed:`, error);
+  }
+}
+
+// The same for a batch of leads, such as those a CSV import just wrote, with one model and signal lookup
+export async function rescoreLeadsAfterEvent(leads: Lead[], trigger: ScoreTrigger): Promise<void> {
+  if (leads.length === 0) return;
+  try {
+    const model = await getActiveScoringModel();
+    const config = modelConfig(model);
+    const signals = await storage.getLeadScoringSignals(leads.map(lead => lead.id));
+    for (const lead of leads) {
+      const scored = await saveLeadScore(lead, scoreLead(lead, signals.get(lead.id) ?? NO_SIGNALS, config), model, trigger);
+      await refreshConversionProbability(scored);
+    }
+  } catch (error) {
+    console.error(`Lead re-scoring after ${trigger} failed:`, error);
+  }
+}
+
+// Scores every lead with the given model (the active one by default); returns how many were scored
+export async function rescoreAllLeads(trigger: ScoreTrigger, model?: LeadScoringModel): Promise<number> {
+  const scoringModel = model ?? await getActiveScoringModel();
+  const config = modelConfig(scoringModel);
+  const [leads, signals] = await Promise.all([storage.getAllLeads(), storage.getLeadScoringSignals()]);
+  const now = new Date();
+  for (const lead of leads) {
+    await saveLeadScore(lead, scoreLead(lead, signals.get(lead.id) ?? NO_SIGNALS, config, now), scoringModel, trigger);
+  }
+  return leads.length;
+}
+
+// Recency points fade as leads go quiet; the nightly run applies that without waiting for an event
+export async function runNightlyScoreDecay(): Promise<void> {
+  try {
+    const count = await rescoreAllLeads('nightly_decay');
+    console.log(`Nightly score decay: re-scored ${count} leads`);
+  } catch (error) {
+    console.error('Nightly score decay error:', error);
+  }
+}
+
+// Scores every lead with both the active model and the proposed config, without saving anything.
+// Both are computed now so the comparison shows the effect of the model change alone.
+export async function previewScoringModel(config: LeadScoringModelConfig): Promise<LeadScoringPreview> {
+  const current = modelConfig(await getActiveScoringModel());
+  const [leads, signals] = await Promise.all([storage.getAllLeads(), storage.getLeadScoringSignals()]);
+  const now = new Date();
+
+  const tiers = () => ({ hot: 0, warm: 0, cold: 0 });
+  const preview: LeadScoringPreview = {
+    total: leads.length,
+    before: tiers(),
+    after: tiers(),
+    transitions: { hot: tiers(), warm: tiers(), cold: tiers() },
+    changed: [],
+  };
+
+  for (const lead of leads) {
+    const leadSignals = signals.get(lead.id) ?? NO_SIGNALS;
+    const before = scoreLead(lead, leadSignals, current, now);
+    const after = scoreLead(lead, leadSignals, config, now);
+    preview.before[before.score]++;
+    preview.after[after.score]++;
+    preview.transitions[before.score][after.score]++;
+    if (before.score !== after.score) {
+      preview.changed.push({
+        leadId: lead.id,
+        name: lead.name,
+        fromScore: before.leadScore,
+        toScore: after.leadScore,
+        fromTier: before.score,
+        toTier: after.score,
+      });
+    }
+  }
+
+  preview.changed.sort((a, b) => Math.abs(b.toScore - b.fromScore) - Math.abs(a.toScore - a.fromScore));
+  preview.changed = preview.changed.slice(0, PREVIEW_CHANGED_LIMIT);
+  return preview;
+}
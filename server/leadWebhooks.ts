@@ -0,0 +1,290 @@
+import { createHmac } from 'crypto';
+import { z } from 'zod';
+import { storage } from './storage';
+import { safeEqual } from './captureProtection';
+import { createCapturedLead, type CapturedLeadFields } from './leadCapture';
+import { validateCustomFieldValues } from '@shared/customFields';
+import type { CustomFieldDefinition, CustomFieldValues, LeadWebhookEvent, LeadWebhookProvider } from '@shared/schema';
+
+// Lead-form webhooks from Meta (Facebook and Instagram Lead Ads) and Google Ads. Each platform's
+// payload becomes a WebhookLead, whose answers are mapped onto lead fields and then created like any
+// captured lead.
+//
+// Meta only sends the lead's ID, signed with the app secret; the answers are fetched from the Graph
+// API with a page access token. Google sends the answers in the payload along with the key set on the
+// lead form, which is how its deliveries are verified.
+
+const META_GRAPH_URL = 'https://graph.facebook.com/v21.0';
+const GRAPH_TIMEOUT_MS = 10000;
+
+export function leadWebhookConfig() {
+  return {
+    metaAppSecret: process.env.META_APP_SECRET || null,
+    metaVerifyToken: process.env.META_VERIFY_TOKEN || null,
+    metaAccessToken: process.env.META_PAGE_ACCESS_TOKEN || null,
+    googleKey: process.env.GOOGLE_ADS_WEBHOOK_KEY || null,
+  };
+}
+
+export interface WebhookLeadAnswer {
+  key: string; // the platform's field ID, lowercased: full_name, phone_number, ...
+  label: string;
+  value: string;
+}
+
+export interface WebhookLead {
+  provider: LeadWebhookProvider;
+  externalLeadId: string;
+  externalFormId: string | null;
+  externalCampaignId: string | null;
+  source: 'facebook' | 'instagram' | 'google';
+  isTest: boolean;
+  answers: WebhookLeadAnswer[];
+}
+
+// Campaign platforms a provider's campaign IDs are looked up under
+const providerPlatforms: Record<LeadWebhookProvider, string[]> = {
+  meta: ['facebook', 'instagram'],
+  google: ['google'],
+};
+
+const humanize = (key: string) => key.replace(/[_?]+/g, ' ').trim().replace(/^\w/, c => c.toUpperCase());
+
+// Meta
+
+const metaWebhookSchema = z.object({
+  object: z.string(),
+  entry: z.array(z.object({
+    changes: z.array(z.object({ field: z.string(), value: z.record(z.unknown()) })).default([]),
+  })).default([]),
+});
+
+export const metaLeadgenSchema = z.object({
+  leadgen_id: z.coerce.string(),
+  form_id: z.coerce.string().optional(),
+  page_id: z.coerce.string().optional(),
+  ad_id: z.coerce.string().optional(),
+  campaign_id: z.coerce.string().optional(),
+  created_time: z.number().optional(),
+});
+export type MetaLeadgenChange = z.infer<typeof metaLeadgenSchema>;
+
+export const metaLeadSchema = z.object({
+  id: z.string(),
+  form_id: z.string().optional(),
+  campaign_id: z.string().optional(),
+  platform: z.string().optional(), // fb or ig
+  field_data: z.array(z.object({ name: z.string(), values: z.array(z.string()).default([]) })).default([]),
+});
+export type MetaLead = z.infer<typeof metaLeadSchema>;
+
+// X-Hub-Signature-256: sha256=<hex HMAC-SHA256 of the raw body keyed with the app secret>
+export function verifyMetaSignature(rawBody: unknown, header: string | undefined): boolean {
+  const { metaAppSecret } = leadWebhookConfig();
+  if (!metaAppSecret || !header?.startsWith('sha256=') || !Buffer.isBuffer(rawBody)) return false;
+  return safeEqual(header.slice('sha256='.length), createHmac('sha256', metaAppSecret).update(rawBody).digest('hex'));
+}
+
+// Answers Meta's subscription check; null when the request is not a valid one
+export function metaSubscriptionChallenge(query: Record<string, unknown>): string | null {
+  const { metaVerifyToken } = leadWebhookConfig();
+  const token = query['hub.verify_token'];
+  const challenge = query['hub.challenge'];
+  if (!metaVerifyToken || query['hub.mode'] !== 'subscribe' || typeof token !== 'string' || typeof challenge !== 'string') return null;
+  return safeEqual(token, metaVerifyToken) ? challenge : null;
+}
+
+// The new-lead notifications in a webhook delivery; other page events are ignored
+export function metaLeadgenChanges(payload: unknown): MetaLeadgenChange[] {
+  const parsed = metaWebhookSchema.safeParse(payload);
+  if (!parsed.success || parsed.data.object !== 'page') return [];
+  return parsed.data.entry
+    .flatMap(entry => entry.changes)
+    .filter(change => change.field === 'leadgen')
+    .flatMap(change => {
+      const value = metaLeadgenSchema.safeParse(change.value);
+      return value.success ? [value.data] : [];
+    });
+}
+
+export async function fetchMetaLead(leadgenId: string): Promise<MetaLead> {
+  const { metaAccessToken } = leadWebhookConfig();
+  if (!metaAccessToken) throw new Error('META_PAGE_ACCESS_TOKEN is not set');
+  const url = `${META_GRAPH_URL}/${encodeURIComponent(leadgenId)}?fields=id,form_id,campaign_id,platform,field_data&access_token=${encodeURIComponent(metaAccessToken)}`;
+  const response = await fetch(url, { signal: AbortSignal.timeout(GRAPH_TIMEOUT_MS) });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`Graph API returned ${response.status}: ${body?.error?.message ?? 'no details'}`);
+  }
+  return metaLeadSchema.parse(body);
+}
+
+export function normalizeMetaLead(change: MetaLeadgenChange, lead: MetaLead): WebhookLead {
+  return {
+    provider: 'meta',
+    externalLeadId: change.leadgen_id,
+    externalFormId: lead.form_id ?? change.form_id ?? null,
+    externalCampaignId: lead.campaign_id ?? change.campaign_id ?? null,
+    source: lead.platform === 'ig' ? 'instagram' : 'facebook',
+    isTest: false,
+    answers: lead.field_data.map(field => ({
+      key: field.name.toLowerCase(),
+      label: humanize(field.name),
+      value: field.values.join(', '),
+    })),
+  };
+}
+
+// Google
+
+export const googleLeadSchema = z.object({
+  lead_id: z.string(),
+  form_id: z.coerce.string().optional(),
+  campaign_id: z.coerce.string().optional(),
+  google_key: z.string().optional(),
+  is_test: z.boolean().optional(),
+  user_column_data: z.array(z.object({
+    column_id: z.string().optional(),
+    column_name: z.string().optional(),
+    string_value: z.string().optional(),
+  })).default([]),
+}).passthrough();
+export type GoogleLeadPayload = z.infer<typeof googleLeadSchema>;
+
+export function verifyGoogleKey(key: string | undefined): boolean {
+  const { googleKey } = leadWebhookConfig();
+  return !!googleKey && !!key && safeEqual(key, googleKey);
+}
+
+export function normalizeGoogleLead(payload: GoogleLeadPayload): WebhookLead {
+  return {
+    provider: 'google',
+    externalLeadId: payload.lead_id,
+    externalFormId: payload.form_id ?? null,
+    externalCampaignId: payload.campaign_id ?? null,
+    source: 'google',
+    isTest: payload.is_test ?? false,
+    answers: payload.user_column_data.flatMap(column => {
+      const key = (column.column_id ?? column.column_name ?? '').toLowerCase();
+      return key ? [{ key, label: column.column_name ?? humanize(key), value: column.string_value ?? '' }] : [];
+    }),
+  };
+}
+
+// Mapping
+
+// Field IDs the two platforms use for the lead's own details
+const nameKeys = ['full_name'];
+const phoneKeys = ['phone_number', 'work_phone', 'work_phone_number'];
+const emailKeys = ['email', 'work_email'];
+const cityKeys = ['city'];
+const knownKeys = new Set([...nameKeys, 'first_name', 'last_name', ...phoneKeys, ...emailKeys, ...cityKeys]);
+
+export interface MappedWebhookLead {
+  fields: Omit<CapturedLeadFields, 'name' | 'mobile' | 'source'> & { name: string | null; mobile: string | null };
+  customFields: CustomFieldValues;
+}
+
+// Standard answers fill the lead's fields; answers whose ID matches a lead custom field key fill that
+// field; everything else, and custom values that do not validate, is written into the notes.
+export function mapWebhookLead(lead: WebhookLead, definitions: CustomFieldDefinition[]): MappedWebhookLead {
+  const answer = (keys: string[]) => lead.answers.find(a => keys.includes(a.key) && a.value.trim())?.value.trim() ?? null;
+  const name = answer(nameKeys) ?? ([answer(['first_name']), answer(['last_name'])].filter(Boolean).join(' ') || null);
+
+  const rest = lead.answers.filter(a => !knownKeys.has(a.key) && a.value.trim());
+  const custom = definitions.filter(d => d.entityType === 'lead' && d.isActive && rest.some(a => a.key === d.key));
+  const { values } = validateCustomFieldValues(
+    custom.map(d => ({ ...d, isRequired: false })),
+    Object.fromEntries(rest.map(a => [a.key, a.value])),
+  );
+  const notes = rest
+    .filter(a => !(a.key in values))
+    .map(a => `${a.label}: ${a.value}`)
+    .join('\n');
+
+  return {
+    fields: { name, mobile: answer(phoneKeys), email: answer(emailKeys), city: answer(cityKeys), notes: notes || null },
+    customFields: values,
+  };
+}
+
+// Creates the lead for a delivery and records the outcome. Test deliveries, such as the one Google sends
+// when the webhook is set up, are recorded without creating a lead. A lead already processed is not
+// created again; one that failed before is tried again.
+export async function ingestWebhookLead(lead: WebhookLead, payload: Record<string, unknown>): Promise<LeadWebhookEvent> {
+  const previous = await storage.findLeadWebhookEvent(lead.provider, lead.externalLeadId);
+  if (previous && previous.status !== 'failed') return previous;
+
+  const campaign = lead.externalCampaignId
+    ? await storage.getCampaignByExternalId(lead.externalCampaignId, providerPlatforms[lead.provider])
+    : undefined;
+  const event = {
+    provider: lead.provider,
+    externalLeadId: lead.externalLeadId,
+    externalFormId: lead.externalFormId,
+    externalCampaignId: lead.externalCampaignId,
+    payload,
+    isTest: lead.isTest,
+    campaignId: campaign?.id ?? null,
+    error: null,
+    leadId: null,
+  };
+  if (lead.isTest) return storage.saveLeadWebhookEvent({ ...event, status: 'test' });
+
+  const { fields, customFields } = mapWebhookLead(lead, await storage.getCustomFieldDefinitions('lead'));
+  if (!fields.name || !fields.mobile) {
+    return storage.saveLeadWebhookEvent({ ...event, status: 'failed', error: 'The lead has no name or phone number' });
+  }
+
+  const result = await createCapturedLead(
+    { ...fields, name: fields.name, mobile: fields.mobile, source: lead.source, campaignId: campaign?.id ?? null },
+    undefined,
+    customFields,
+  );
+  return 'lead' in result
+    ? storage.saveLeadWebhookEvent({ ...event, status: 'processed', leadId: result.lead.id })
+    : storage.saveLeadWebhookEvent({ ...event, status: 'duplicate', leadId: result.existingLead.id });
+}
+
+// The Graph API lookup is a parameter so recorded lead fixtures can stand in for it
+export async function processMetaLeadgen(
+  change: MetaLeadgenChange,
+  fetchLead: (leadgenId: string) => Promise<MetaLead> = fetchMetaLead,
+): Promise<LeadWebhookEvent> {
+  const previous = await storage.findLeadWebhookEvent('meta', change.leadgen_id);
+  if (previous && previous.status !== 'failed') return previous;
+
+  let lead: MetaLead;
+  try {
+    lead = await fetchLead(change.leadgen_id);
+  } catch (error: any) {
+    return storage.saveLeadWebhookEvent({
+      provider: 'meta',
+      externalLeadId: change.leadgen_id,
+      externalFormId: change.form_id ?? null,
+      externalCampaignId: change.campaign_id ?? null,
+      payload: { webhook: change },
+      status: 'failed',
+      error: `Could not fetch the lead: ${error.message}`,
+      leadId: null,
+      campaignId: null,
+    });
+  }
+  return ingestWebhookLead(normalizeMetaLead(change, lead), { webhook: change, lead });
+}
+
+// The shared key is not stored with the payload
+export async function processGoogleLead(payload: GoogleLeadPayload): Promise<LeadWebhookEvent> {
+  const { google_key: _key, ...stored } = payload;
+  return ingestWebhookLead(normalizeGoogleLead(payload), stored);
+}
+
+// Reprocesses a failed delivery from its stored payload; a Meta lead fetched before is not fetched again
+export async function retryLeadWebhookEvent(event: LeadWebhookEvent): Promise<LeadWebhookEvent> {
+  if (event.provider === 'google') {
+    return processGoogleLead(googleLeadSchema.parse(event.payload));
+  }
+  const change = metaLeadgenSchema.parse(event.payload.webhook);
+  const stored = metaLeadSchema.safeParse(event.payload.lead);
+  return processMetaLeadgen(change, stored.success ? async () => stored.data : fetchMetaLead);
+}
@@ -0,0 +1,181 @@
+import { storage, type LeadQueryFilters } from './storage';
+import { stageOutcome } from './pipelines';
+import {
+  defaultLossReasons,
+  isLostLead,
+  type LeadLossInput,
+  type LossReasonCount,
+  type WinLossGroup,
+  type WinLossGrouping,
+  type WinLossReport,
+} from '@shared/lossReasons';
+import { isWonLead, type PipelineWithStages } from '@shared/pipelines';
+import type { InsertLead, Lead, PipelineStageOutcome } from '@shared/schema';
+
+// Creates the default loss reasons on first start
+export async function seedLossReasons() {
+  if ((await storage.getLossReasons()).length > 0) return;
+  for (const label of defaultLossReasons) {
+    await storage.createLossReason({ label });
+  }
+  console.log('Default loss reasons created');
+}
+
+const clearedLoss = { lossReasonId: null, lossCompetitor: null, lossNotes: null, lostFromStage: null, lostAt: null };
+
+export type LeadLossResult =
+  | { ok: true; updates: Pick<Partial<InsertLead>, keyof typeof clearedLoss> }
+  | { ok: false; message: string; lossReasonRequired?: boolean };
+
+// Checks the loss details of a lead being created or updated; `body` already holds the resolved stage.
+// A lead becoming lost needs an active loss reason, and records when and from which stage it was lost.
+// A lost lead can have its details corrected; a lead that is not lost, or is reopened, has none.
+export async function resolveLeadLoss(existing: Lead | undefined, body: Partial<InsertLead>, input: LeadLossInput): Promise<LeadLossResult> {
+  const stageKey = body.pipelineStage ?? existing?.pipelineStage;
+  const lost = isLostLead(body.status ?? existing?.status ?? 'new', await stageOutcome(body.pipelineId ?? existing?.pipelineId, stageKey));
+  const wasLost = !!existing && isLostLead(existing.status, await stageOutcome(existing.pipelineId, existing.pipelineStage));
+
+  if (!lost) return { ok: true, updates: clearedLoss };
+
+  if (wasLost ? input.lossReasonId === null : !input.lossReasonId) {
+    return { ok: false, message: 'Pick a loss reason before marking the lead as lost', lossReasonRequired: true };
+  }
+  if (input.lossReasonId && input.lossReasonId !== existing?.lossReasonId) {
+    const reason = await storage.getLossReason(input.lossReasonId);
+    if (!reason || !reason.isActive) return { ok: false, message: 'Loss reason not found' };
+  }
+
+  const details = {
+    ...(input.lossReasonId !== undefined && { lossReasonId: input.lossReasonId }),
+    ...(input.lossCompetitor !== undefined && { lossCompetitor: input.lossCompetitor }),
+    ...(input.lossNotes !== undefined && { lossNotes: input.lossNotes }),
+  };
+  if (wasLost) return { ok: true, updates: details };
+  return {
+    ok: true,
+    updates: {
+      ...clearedLoss,
+      ...details,
+      lostFromStage: existing?.pipelineStage ?? stageKey ?? null,
+      lostAt: new Date(),
+    },
+  };
+}
+
+// Loss details and won date of a lead whose status or stage is set without anyone picking a loss reason,
+// as CSV imports and merges do; `lead` is the lead as it will be saved, in a stage with `outcome`.
+// A lead that became lost records when and from which stage, and one that is not lost has no loss details.
+export function resolveLeadOutcome(
+  existing: Lead | undefined,
+  lead: Partial<InsertLead>,
+  outcome: PipelineStageOutcome | string | undefined,
+): Pick<Partial<InsertLead>, keyof typeof clearedLoss | 'wonAt'> {
+  const status = lead.status ?? 'new';
+  const wonAt = isWonLead(status, outcome) ? lead.wonAt ?? new Date() : null;
+  if (!isLostLead(status, outcome)) return { ...clearedLoss, wonAt };
+  if (lead.lostAt) return { wonAt };
+  return { lostFromStage: existing?.pipelineStage ?? lead.pipelineStage ?? null, lostAt: new Date(), wonAt };
+}
+
+function stageOf(pipelines: PipelineWithStages[], pipelineId: string | null, stageKey: string) {
+  const pipeline = pipelines.find(p => p.id === pipelineId) ?? pipelines.find(p => p.isDefault);
+  return pipeline?.stages.find(stage => stage.key === stageKey);
+}
+
+export interface WinLossDeal {
+  lead: Lead;
+  outcome: 'won' | 'lost';
+  closedOn: string; // YYYY-MM-DD
+}
+
+// Leads won in the period (entered a won stage or were converted) and lost in it
+export async function getWinLossDeals(filters: LeadQueryFilters, from: Date, to: Date): Promise<WinLossDeal[]> {
+  const { data: leads } = await storage.queryLeads(filters);
+
+  const deals: WinLossDeal[] = [];
+  for (const lead of leads) {
+    const closedAt = lead.lostAt ?? lead.wonAt;
+    if (!closedAt) continue;
+    const closed = new Date(closedAt);
+    if (closed >= from && closed <= to) {
+      deals.push({ lead, outcome: lead.lostAt ? 'lost' : 'won', closedOn: closed.toISOString().slice(0, 10) });
+    }
+  }
+  return deals.sort((a, b) => b.closedOn.localeCompare(a.closedOn));
+}
+
+// Loss reasons and win rates by source, rep and the stage leads were lost from
+export async function buildWinLossReport(filters: LeadQueryFilters, from: Date, to: Date): Promise<WinLossReport> {
+  const [deals, reasons, users, pipelines] = await Promise.all([
+    getWinLossDeals(filters, from, to),
+    storage.getLossReasons(),
+    storage.getAllUsers(),
+    storage.getPipelines(),
+  ]);
+  const lost = deals.filter(deal => deal.outcome === 'lost').map(deal => deal.lead);
+  const won = deals.filter(deal => deal.outcome === 'won').map(deal => deal.lead);
+  const value = (leads: Lead[]) => leads.reduce((sum, lead) => sum + Number(lead.dealValue ?? 0), 0);
+
+  const reasonCounts: LossReasonCount[] = [];
+  for (const reasonId of Array.from(new Set(lost.map(lead => lead.lossReasonId)))) {
+    const leads = lost.filter(lead => lead.lossReasonId === reasonId);
+    const label = reasonId ? reasons.find(reason => reason.id === reasonId)?.label ?? 'Unknown reason' : 'No reason given';
+    reasonCounts.push({ reasonId, label, count: leads.length, value: value(leads) });
+  }
+  reasonCounts.sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+
+  const competitors = new Map<string, { name: string; count: number }>();
+  for (const lead of lost) {
+    const name = lead.lossCompetitor?.trim();
+    if (!name) continue;
+    const entry = competitors.get(name.toLowerCase()) ?? { name, count: 0 };
+    entry.count++;
+    competitors.set(name.toLowerCase(), entry);
+  }
+
+  const groupBy = (keyOf: (lead: Lead) => string | null, labelOf: (key: string | null) => string, countWins: boolean): WinLossGroup[] => {
+    const groups = new Map<string | null, WinLossGroup>();
+    const groupFor = (key: string | null) => {
+      let group = groups.get(key);
+      if (!group) {
+        group = { key, label: labelOf(key), won: countWins ? 0 : null, lost: 0, reasons: {} };
+        groups.set(key, group);
+      }
+      return group;
+    };
+    if (countWins) {
+      for (const lead of won) groupFor(keyOf(lead)).won!++;
+    }
+    for (const lead of lost) {
+      const group = groupFor(keyOf(lead));
+      group.lost++;
+      const reasonKey = lead.lossReasonId ?? 'none';
+      group.reasons[reasonKey] = (group.reasons[reasonKey] ?? 0) + 1;
+    }
+    return Array.from(groups.values()).sort((a, b) => b.lost - a.lost || (b.won ?? 0) - (a.won ?? 0) || a.label.localeCompare(b.label));
+  };
+
+  const stageNames = new Map<string, string>();
+  for (const lead of lost) {
+    if (lead.lostFromStage && !stageNames.has(lead.lostFromStage)) {
+      stageNames.set(lead.lostFromStage, stageOf(pipelines, lead.pipelineId, lead.lostFromStage)?.name ?? lead.lostFromStage);
+    }
+  }
+  const groups: Record<WinLossGrouping, WinLossGroup[]> = {
+    source: groupBy(lead => lead.source, key => key ?? 'Unknown', true),
+    owner: groupBy(lead => lead.ownerId, key => (key ? users.find(user => user.id === key)?.name ?? 'Unknown user' : 'Unassigned'), true),
+    stage: groupBy(lead => lead.lostFromStage, key => (key ? stageNames.get(key) ?? key : 'Unknown'), false),
+  };
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    won: won.length,
+    lost: lost.length,
+    wonValue: value(won),
+    lostValue: value(lost),
+    reasons: reasonCounts,
+    competitors: Array.from(competitors.values()).sort((a, b) => b.count - a.count).slice(0, 10),
+    groups,
+  };
+}
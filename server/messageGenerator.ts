@@ -1,4 +1,5 @@
 import type { Lead, Client, FollowUp, Quotation, Invoice } from '@shared/schema';
+import { buildWhatsAppLink } from './phone';
 
 export type MessageType = 'whatsapp_followup' | 'proposal_followup' | 'payment_reminder' | 'meeting_scheduling';
 export type LanguageStyle = 'english' | 'hindi_english_mixed';
@@ -98,7 +99,5 @@ export function generateMessage(
 }
 
 export function generateWhatsAppLink(phone: string, message: string): string {
-  const cleanPhone = phone.replace(/\D/g, '');
-  const phoneWithCountry = cleanPhone.startsWith('91') ? cleanPhone : `91${cleanPhone}`;
-  return `https://wa.me/${phoneWithCountry}?text=${encodeURIComponent(message)}`;
+  return buildWhatsAppLink(phone, message);
 }
@@ -0,0 +1,20 @@
+import { DEFAULT_PHONE_COUNTRY, normalizePhone, phoneCountries, whatsAppLink } from '@shared/phone';
+
+// Country used for numbers entered without a country code (ISO 3166 alpha-2, e.g. IN, AE, GB)
+export function getDefaultPhoneCountry(): string {
+  const configured = process.env.DEFAULT_PHONE_COUNTRY?.trim().toUpperCase();
+  return configured && phoneCountries[configured] ? configured : DEFAULT_PHONE_COUNTRY;
+}
+
+export function toE164(raw: string | null | undefined): string | null {
+  return normalizePhone(raw, getDefaultPhoneCountry());
+}
+
+// Key used to compare two numbers: the E.164 form, or the trimmed input when it does not normalize
+export function phoneMatchKey(raw: string): string {
+  return toE164(raw) ?? raw.trim();
+}
+
+export function buildWhatsAppLink(phone: string, message?: string): string {
+  return whatsAppLink(phone, message, getDefaultPhoneCountry());
+}
@@ -0,0 +1,156 @@
+import { storage } from './storage';
+import {
+  MIN_DWELL_SAMPLES,
+  NORMAL_DWELL_PERCENTILE,
+  type PipelineVelocityReport,
+  type SalesCycleGroup,
+  type SalesCycleGrouping,
+  type StageVelocity,
+  type StuckDeal,
+} from '@shared/pipelineVelocity';
+import type { PipelineWithStages } from '@shared/pipelines';
+import type { Lead, LeadStageChange, PipelineStageOutcome } from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function days(from: Date, to: Date): number {
+  return Math.max(0, to.getTime() - from.getTime()) / DAY_MS;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+}
+
+// Nearest-rank percentile
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return round(sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]);
+}
+
+// Time in stage, stage-to-stage funnel, sales cycle length and stuck deals for one pipeline, built from the
+// stage history. A stay in a stage runs from the lead entering it to the lead's next stage change.
+export async function buildPipelineVelocity(pipeline: PipelineWithStages, from: Date, to: Date): Promise<PipelineVelocityReport> {
+  const [changes, { data: leads }, users, campaigns] = await Promise.all([
+    storage.getLeadStageChanges({ pipelineId: pipeline.id }),
+    storage.queryLeads({ pipelineId: pipeline.id }),
+    storage.getAllUsers(),
+    storage.getAllCampaigns(),
+  ]);
+
+  const historyByLead = new Map<string, LeadStageChange[]>();
+  for (const change of changes) {
+    historyByLead.set(change.leadId, [...(historyByLead.get(change.leadId) ?? []), change]);
+  }
+  const inPipeline = (change: LeadStageChange) => change.pipelineId === pipeline.id;
+  const inPeriod = (at: Date) => at >= from && at <= to;
+
+  // Completed stays per stage key
+  const stays = new Map<string, number[]>();
+  for (const history of Array.from(historyByLead.values())) {
+    for (let i = 0; i < history.length - 1; i++) {
+      const ended = new Date(history[i + 1].changedAt);
+      if (!inPipeline(history[i]) || !inPeriod(ended)) continue;
+      const key = history[i].toStage;
+      stays.set(key, [...(stays.get(key) ?? []), days(new Date(history[i].changedAt), ended)]);
+    }
+  }
+
+  // Leads in the pipeline now, with when they entered their current stage
+  const current = leads.map(lead => {
+    const last = historyByLead.get(lead.id)?.at(-1);
+    const enteredAt = last && inPipeline(last) && last.toStage === lead.pipelineStage ? new Date(last.changedAt) : new Date(lead.createdAt);
+    return { lead, daysInStage: days(enteredAt, to) };
+  });
+
+  const stages: StageVelocity[] = pipeline.stages.map(stage => {
+    const completed = stays.get(stage.key) ?? [];
+    const here = current.filter(c => c.lead.pipelineStage === stage.key);
+    return {
+      key: stage.key,
+      name: stage.name,
+      outcome: stage.outcome as PipelineStageOutcome,
+      completedStays: completed.length,
+      avgDays: average(completed),
+      medianDays: percentile(completed, 50),
+      normalDays: completed.length >= MIN_DWELL_SAMPLES ? percentile(completed, NORMAL_DWELL_PERCENTILE) : null,
+      currentLeads: here.length,
+      avgCurrentDays: average(here.map(c => c.daysInStage)),
+    };
+  });
+
+  // Funnel over the stages that are not lost, for leads that entered the pipeline in the period.
+  // A lead that skipped a stage still counts as having reached it.
+  const funnelStages = pipeline.stages.filter(stage => stage.outcome !== 'lost');
+  const reached = funnelStages.map(() => 0);
+  for (const history of Array.from(historyByLead.values())) {
+    const entries = history.filter(inPipeline);
+    if (entries.length === 0 || !inPeriod(new Date(entries[0].changedAt))) continue;
+    const furthest = Math.max(...entries.map(entry => funnelStages.findIndex(stage => stage.key === entry.toStage)));
+    for (let i = 0; i <= furthest; i++) reached[i]++;
+  }
+  const funnel = funnelStages.map((stage, i) => ({
+    key: stage.key,
+    name: stage.name,
+    reached: reached[i],
+    conversion: i === 0 ? null : reached[i - 1] > 0 ? reached[i] / reached[i - 1] : null,
+  }));
+
+  // Sales cycle of leads won in the period: from creation to first entering a won stage
+  const wonKeys = new Set(pipeline.stages.filter(stage => stage.outcome === 'won').map(stage => stage.key));
+  const won: { lead: Lead; cycleDays: number }[] = [];
+  for (const lead of leads) {
+    if (!wonKeys.has(lead.pipelineStage)) continue;
+    const wonAt = historyByLead.get(lead.id)?.find(change => inPipeline(change) && wonKeys.has(change.toStage))?.changedAt;
+    if (wonAt && inPeriod(new Date(wonAt))) won.push({ lead, cycleDays: days(new Date(lead.createdAt), new Date(wonAt)) });
+  }
+  const userName = (id: string | null) => (id ? users.find(user => user.id === id)?.name ?? 'Unknown user' : null);
+  const campaignName = (id: string | null) => (id ? campaigns.find(campaign => campaign.id === id)?.name ?? 'Deleted campaign' : null);
+  const cycleBy = (keyOf: (lead: Lead) => string | null, labelOf: (key: string | null) => string): SalesCycleGroup[] => {
+    const groups = new Map<string | null, number[]>();
+    for (const { lead, cycleDays } of won) {
+      const key = keyOf(lead);
+      groups.set(key, [...(groups.get(key) ?? []), cycleDays]);
+    }
+    return Array.from(groups.entries())
+      .map(([key, cycles]) => ({ key, label: labelOf(key), won: cycles.length, avgDays: average(cycles)!, medianDays: percentile(cycles, 50)! }))
+      .sort((a, b) => b.won - a.won || a.label.localeCompare(b.label));
+  };
+  const salesCycle: Record<SalesCycleGrouping, SalesCycleGroup[]> = {
+    source: cycleBy(lead => lead.source, key => key ?? 'Unknown'),
+    campaign: cycleBy(lead => lead.campaignId, key => campaignName(key) ?? 'No campaign'),
+    owner: cycleBy(lead => lead.ownerId, key => userName(key) ?? 'Unassigned'),
+  };
+
+  const stuck: StuckDeal[] = [];
+  for (const { lead, daysInStage } of current) {
+    const stage = stages.find(s => s.key === lead.pipelineStage);
+    if (!stage || stage.outcome !== 'open' || stage.normalDays === null || daysInStage <= stage.normalDays) continue;
+    stuck.push({
+      leadId: lead.id,
+      name: lead.name,
+      ownerName: userName(lead.ownerId),
+      stageKey: stage.key,
+      stageName: stage.name,
+      daysInStage: round(daysInStage),
+      normalDays: stage.normalDays,
+      dealValue: lead.dealValue,
+    });
+  }
+  stuck.sort((a, b) => b.daysInStage / Math.max(b.normalDays, 0.1) - a.daysInStage / Math.max(a.normalDays, 0.1));
+
+  return {
+    pipelineId: pipeline.id,
+    pipelineName: pipeline.name,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    stages,
+    funnel,
+    salesCycle,
+    stuck,
+  };
+}
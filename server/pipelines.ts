@@ -0,0 +1,84 @@
+import { format } from 'date-fns';
+import { storage } from './storage';
+import { defaultPipelineStages, isWonLead, missingStageFields, stageFieldLabel } from '@shared/pipelines';
+import type { InsertLead, Lead } from '@shared/schema';
+
+// Creates the default pipeline on first start, with the stages leads had before pipelines were
+// configurable, and puts leads that have no pipeline (created before, or restored by a merge undo) in it.
+// Leads created before stage history was kept get their current stage as its first entry, and won leads
+// from before won dates were kept get the date they last entered a won stage.
+export async function seedDefaultPipeline() {
+  let pipeline = await storage.getDefaultPipeline();
+  if (!pipeline) {
+    const [first] = await storage.getPipelines();
+    pipeline = first
+      ? await storage.updatePipeline(first.id, { isDefault: true })
+      : await storage.createPipeline({ name: 'Sales', isDefault: true }, defaultPipelineStages);
+    if (!first) console.log('Default sales pipeline created');
+  }
+  if (!pipeline) return;
+
+  const moved = await storage.moveLeadsWithoutPipeline(pipeline.id);
+  if (moved > 0) console.log(`Moved ${moved} leads into the ${pipeline.name} pipeline`);
+
+  const backfilled = await storage.addMissingLeadStageChanges();
+  if (backfilled > 0) console.log(`Started stage history for ${backfilled} leads`);
+
+  const dated = await storage.addMissingWonDates();
+  if (dated > 0) console.log(`Recorded won dates for ${dated} leads`);
+}
+
+export async function stageOutcome(pipelineId: string | null | undefined, stageKey: string | undefined) {
+  const pipeline = pipelineId ? await storage.getPipeline(pipelineId) : await storage.getDefaultPipeline();
+  return pipeline?.stages.find(stage => stage.key === stageKey)?.outcome;
+}
+
+export type LeadStageResult =
+  | { ok: true; updates: Pick<Partial<InsertLead>, 'pipelineId' | 'pipelineStage' | 'expectedCloseDate'> }
+  | { ok: false; message: string; missingFields?: string[] };
+
+// Checks a lead entering a stage, on create (no existing lead) or update. The stage must be one of the
+// pipeline's, and the lead as it will be saved must have every field the stage requires. Moving a lead to
+// another pipeline without naming a stage puts it in that pipeline's first stage. Updates that leave the
+// lead where it is are not checked, so clearing a required field later does not lock the lead.
+// A lead entering a won stage without an expected close date, or with one already past, gets today's.
+export async function resolveLeadStage(existing: Lead | undefined, body: Partial<InsertLead>): Promise<LeadStageResult> {
+  if (body.pipelineId === undefined && body.pipelineStage === undefined) return { ok: true, updates: {} };
+
+  const pipelineId = body.pipelineId ?? existing?.pipelineId;
+  const pipeline = pipelineId ? await storage.getPipeline(pipelineId) : await storage.getDefaultPipeline();
+  if (!pipeline) return { ok: false, message: 'Pipeline not found' };
+
+  const pipelineChanged = !existing || pipeline.id !== existing.pipelineId;
+  const stageKey = body.pipelineStage ?? (pipelineChanged ? pipeline.stages[0]?.key : existing.pipelineStage);
+  const stage = pipeline.stages.find(s => s.key === stageKey);
+  if (!stage) return { ok: false, message: `"${stageKey}" is not a stage of the ${pipeline.name} pipeline` };
+
+  const updates = { pipelineId: pipeline.id, pipelineStage: stage.key };
+  if (!pipelineChanged && stage.key === existing.pipelineStage) return { ok: true, updates };
+
+  const lead = { ...existing, ...body, customFields: body.customFields ?? existing?.customFields };
+  const missing = missingStageFields(lead as Partial<Lead>, stage);
+  if (missing.length > 0) {
+    return { ok: false, message: await missingFieldsMessage(missing, stage.name), missingFields: missing };
+  }
+  const today = format(new Date(), 'yyyy-MM-dd');
+  if (stage.outcome === 'won' && (!lead.expectedCloseDate || lead.expectedCloseDate < today)) {
+    return { ok: true, updates: { ...updates, expectedCloseDate: today } };
+  }
+  return { ok: true, updates };
+}
+
+async function missingFieldsMessage(missing: string[], stageName: string): Promise<string> {
+  const definitions = await storage.getCustomFieldDefinitions('lead');
+  const customLabels = Object.fromEntries(definitions.map(d => [d.key, d.label]));
+  return `Fill in ${missing.map(field => stageFieldLabel(field, customLabels)).join(', ')} before moving to ${stageName}`;
+}
+
+// When the lead was won, for a lead being created or updated; `body` already holds the resolved stage.
+// Set when the lead enters a won stage or is converted, kept while it stays won, cleared when it is reopened.
+export async function resolveLeadWin(existing: Lead | undefined, body: Partial<InsertLead>): Promise<Pick<Partial<InsertLead>, 'wonAt'>> {
+  const outcome = await stageOutcome(body.pipelineId ?? existing?.pipelineId, body.pipelineStage ?? existing?.pipelineStage);
+  if (!isWonLead(body.status ?? existing?.status ?? 'new', outcome)) return { wonAt: null };
+  return { wonAt: existing?.wonAt ?? new Date() };
+}
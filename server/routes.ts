@@ -1,8 +1,58 @@
 import type { Express } from "express";
 import type { Server } from "http";
-import { storage } from "./storage";
+import { storage, type LeadQueryFilters, type CustomFieldFilter, type TimelineSubject } from "./storage";
 import { setupAuth, seedAdminUser, hashPassword } from "./auth";
-import { User, Lead, Client, leadSources } from "@shared/schema";
+import {
+  User, Lead, Client, LeadView, leadSources, leadSortColumns, leadViewFiltersSchema, type LeadViewFilters,
+  insertCustomFieldDefinitionSchema, type CustomFieldDefinition, type CustomFieldValues, type LeadImportJob,
+  type LeadMerge, leadNoteTypes, distributionMethods, insertDistributionRuleSchema, insertSlaPolicySchema,
+  insertLeadFormSchema, type LeadForm, quarantineStatuses, type QuarantineStatus, insertLossReasonSchema,
+  insertChecklistTemplateSchema,
+} from "@shared/schema";
+import {
+  validateCustomFieldValues, formatCustomFieldValue, parseCustomFieldOptions, type SerializedCustomFieldDefinition,
+} from "@shared/customFields";
+import {
+  duplicateStrategies, parseCsv, suggestLeadImportMapping, type LeadImportMapping, type SerializedLeadImportJob,
+} from "@shared/leadImport";
+import { DEFAULT_DUPLICATE_THRESHOLD } from "@shared/duplicates";
+import { resolveLeadMerge, type SerializedLeadMerge } from "@shared/leadMerge";
+import { timelineEntryTypes, type TimelineEntryType, type TimelineResponse } from "@shared/timeline";
+import { parseMentions, mentionsToPlainText } from "@shared/mentions";
+import { leadScoringModelConfigSchema } from "@shared/leadScoring";
+import { distributionMethodLabels, type DistributionRepStatus } from "@shared/distribution";
+import { leadWebhookPaths, type LeadWebhookOverview } from "@shared/leadWebhooks";
+import { leadDealFieldsSchema, type PipelineStageTotals } from "@shared/forecast";
+import { leadLossInputSchema } from "@shared/lossReasons";
+import {
+  pipelineInputSchema, requirableLeadFields, isCustomStageField, customStageField, type PipelineStageInput,
+} from "@shared/pipelines";
+import { runLeadImport, enqueueLeadImportJob, buildImportErrorReport } from "./leadImport";
+import { findDuplicateGroups } from "./duplicates";
+import {
+  getActiveScoringModel, rescoreLead, rescoreLeadAfterEvent, rescoreAllLeads, previewScoringModel, serializeLeadScoringModel,
+  serializeLeadScoreHistoryEntry,
+} from "./leadScoring";
+import { trainConversionModel, serializeConversionModel } from "./conversionModel";
+import { createLeadDistributor, recordAssignments, startOfToday, type LeadAssignment } from "./distribution";
+import { buildSlaReport } from "./sla";
+import {
+  validateLeadFormSubmission, renderLeadFormPage, renderLeadFormUnavailablePage, renderLeadFormEmbedScript,
+} from "./leadForms";
+import {
+  authenticateCapture, detectSpam, exceedsCaptureIpLimit, exceedsCapturePhoneLimit, generateLeadFormKeys,
+} from "./captureProtection";
+import { createCapturedLead } from "./leadCapture";
+import { seedDefaultPipeline, resolveLeadStage, resolveLeadWin, stageOutcome } from "./pipelines";
+import { buildForecast } from "./forecast";
+import { buildPipelineVelocity } from "./pipelineVelocity";
+import { seedLossReasons, resolveLeadLoss, resolveLeadOutcome, buildWinLossReport, getWinLossDeals } from "./lossReasons";
+import { convertLeadToClient, runStageEntryActions } from "./stageActions";
+import {
+  leadWebhookConfig, metaSubscriptionChallenge, verifyMetaSignature, metaLeadgenChanges, processMetaLeadgen,
+  googleLeadSchema, verifyGoogleKey, processGoogleLead, retryLeadWebhookEvent,
+} from "./leadWebhooks";
+import { phoneMatchKey } from "./phone";
 import { z } from "zod";
 import cors from "cors";
 
@@ -26,12 +76,166 @@ function requireRole(...roles: string[]) {
   };
 }
 
+// Pages through a lead or client timeline; ?types=note,call narrows it to some entry types
+async function getTimelinePage(subject: TimelineSubject, query: any): Promise<TimelineResponse> {
+  const pageNum = Math.max(parseInt(query.page as string) || 1, 1);
+  const limitNum = Math.min(Math.max(parseInt(query.limit as string) || 50, 1), 500);
+  const types = typeof query.types === "string"
+    ? query.types.split(",").filter((type: string): type is TimelineEntryType => (timelineEntryTypes as readonly string[]).includes(type))
+    : undefined;
+
+  const { entries, total } = await storage.getTimeline(subject, {
+    types,
+    limit: limitNum,
+    offset: (pageNum - 1) * limitNum,
+  });
+
+  return {
+    data: entries,
+    pagination: {
+      page: pageNum,
+      limit: limitNum,
+      total,
+      totalPages: Math.ceil(total / limitNum)
+    }
+  };
+}
+
+// Parse query string params into the shared lead filter shape; blank, "all" and invalid values are dropped
+function leadFiltersFromQuery(query: any): LeadViewFilters {
+  const filters: Record<string, unknown> = {};
+  for (const [key, fieldSchema] of Object.entries(leadViewFiltersSchema.shape)) {
+    const value = query[key];
+    // customFields[<key>]=<value> arrives as a nested object
+    if (key === "customFields") {
+      const customFields = customFieldFiltersFromQuery(value);
+      if (customFields) filters.customFields = customFields;
+      continue;
+    }
+    if (typeof value !== "string" || value === "" || value === "all") continue;
+    const parsed = fieldSchema.safeParse(value);
+    if (parsed.success && parsed.data !== undefined) filters[key] = parsed.data;
+  }
+  return filters as LeadViewFilters;
+}
+
+function customFieldFiltersFromQuery(value: unknown): Record<string, string> | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+  const result: Record<string, string> = {};
+  for (const [key, fieldValue] of Object.entries(value)) {
+    if (typeof fieldValue === "string" && fieldValue !== "" && fieldValue !== "all") result[key] = fieldValue;
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+// Attach each filtered key's field type; filters on unknown or inactive fields are ignored
+function toCustomFieldFilters(values: Record<string, string> | undefined, definitions: CustomFieldDefinition[]): CustomFieldFilter[] | undefined {
+  if (!values) return undefined;
+  const filters: CustomFieldFilter[] = [];
+  for (const [key, value] of Object.entries(values)) {
+    const definition = definitions.find(d => d.key === key && d.isActive);
+    if (definition) filters.push({ key, fieldType: definition.fieldType as CustomFieldFilter["fieldType"], value });
+  }
+  return filters;
+}
+
+// Saved views store their filters as JSON text; unreadable rows fall back to no filters
+function parseStoredLeadFilters(raw: string | null): LeadViewFilters {
+  try {
+    const parsed = leadViewFiltersSchema.safeParse(JSON.parse(raw || "{}"));
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+}
+
+function toLeadQueryFilters(filters: LeadViewFilters, definitions: CustomFieldDefinition[]): LeadQueryFilters {
+  // Date-only upper bounds include the whole day
+  const date = (value: string | undefined, endOfDay = false) => {
+    if (!value) return undefined;
+    const parsed = new Date(value);
+    if (isNaN(parsed.getTime())) return undefined;
+    if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) parsed.setUTCHours(23, 59, 59, 999);
+    return parsed;
+  };
+
+  return {
+    ...filters,
+    search: filters.search?.trim() || undefined,
+    createdFrom: date(filters.createdFrom),
+    createdTo: date(filters.createdTo, true),
+    lastActivityFrom: date(filters.lastActivityFrom),
+    lastActivityTo: date(filters.lastActivityTo, true),
+    customFields: toCustomFieldFilters(filters.customFields, definitions),
+  };
+}
+
+// Resolve lead list filters: an optional saved view (?viewId=) overlaid with explicit query params
+async function resolveLeadFilters(query: any, user: User): Promise<LeadQueryFilters> {
+  let viewFilters: LeadViewFilters = {};
+  let sortBy = query.sortBy;
+  let sortOrder = query.sortOrder;
+
+  if (typeof query.viewId === "string" && query.viewId) {
+    const view = await storage.getLeadView(query.viewId);
+    if (view && (view.userId === user.id || view.isShared)) {
+      viewFilters = parseStoredLeadFilters(view.filters);
+      sortBy = sortBy ?? view.sortBy;
+      sortOrder = sortOrder ?? view.sortOrder;
+    }
+  }
+
+  const queryFilters = leadFiltersFromQuery(query);
+  const definitions = await storage.getCustomFieldDefinitions("lead");
+
+  return {
+    ...toLeadQueryFilters({
+      ...viewFilters,
+      ...queryFilters,
+      customFields: { ...viewFilters.customFields, ...queryFilters.customFields },
+    }, definitions),
+    sortBy: leadSortColumns.includes(sortBy) ? sortBy : undefined,
+    sortOrder: sortOrder === "asc" ? "asc" : "desc",
+  };
+}
+
+// Validate the customFields object of a lead/client body against the active definitions.
+// Returns the cleaned values, or null after sending a 400 response.
+async function resolveCustomFieldValues(
+  entityType: "lead" | "client",
+  body: any,
+  res: any,
+  existing?: CustomFieldValues,
+): Promise<CustomFieldValues | undefined | null> {
+  if (body.customFields === undefined) return undefined;
+  if (body.customFields === null || typeof body.customFields !== "object" || Array.isArray(body.customFields)) {
+    res.status(400).json({ message: "customFields must be an object" });
+    return null;
+  }
+
+  const definitions = await storage.getCustomFieldDefinitions(entityType);
+  // Updates merge into the stored values, so fields not sent keep their value
+  const merged = existing ? { ...existing, ...body.customFields } : body.customFields;
+  const { values, errors } = validateCustomFieldValues(definitions, merged, { partial: !!existing });
+  if (Object.keys(errors).length > 0) {
+    res.status(400).json({ message: "Validation failed", errors: { customFields: errors } });
+    return null;
+  }
+
+  // Keep values of deactivated fields so re-enabling a field restores its data
+  const activeKeys = new Set(definitions.filter(d => d.isActive).map(d => d.key));
+  const retained = Object.fromEntries(Object.entries(existing ?? {}).filter(([key]) => !activeKeys.has(key)));
+  return { ...retained, ...values } as CustomFieldValues;
+}
+
 export async function registerRoutes(server: Server, app: Express) {
   // Setup authentication
   setupAuth(app);
 
   // Seed admin user
   await seedAdminUser();
+  await seedDefaultPipeline();
+  await seedLossReasons();
 
   // Configure CORS for deployment
   const allowedOrigins = [
@@ -64,7 +268,8 @@ export async function registerRoutes(server: Server, app: Express) {
     credentials: true, // Allow cookies/sessions
   }));
 
-  // Lead Capture API - Public endpoint for external website forms
+  // Lead Capture API - Public endpoint for external website forms. Every submission goes through a lead
+  // form and must carry that form's API key, a signature made with its secret, or its hosted page's token.
   const captureLeadSchema = z.object({
     name: z.string().min(2, "Name must be at least 2 characters"),
     mobile: z.string().min(10, "Mobile must be at least 10 digits"),
@@ -79,10 +284,19 @@ export async function registerRoutes(server: Server, app: Express) {
     utmCampaign: z.string().optional(),
     utmContent: z.string().optional(),
     utmTerm: z.string().optional(),
+    // The form decides source, campaign and which custom fields are accepted
+    formId: z.string({ required_error: "formId is required" }),
+    customFields: z.record(z.unknown()).optional(),
+    formToken: z.string().optional(), // issued by the hosted form page
+    website: z.string().optional(), // honeypot: hidden on the hosted form, so only bots fill it in
   });
 
   app.post("/api/leads/capture", async (req, res) => {
     try {
+      if (exceedsCaptureIpLimit(req.ip)) {
+        return res.status(429).json({ success: false, message: "Too many submissions, please try again later" });
+      }
+
       // Validate request body with Zod
       const parseResult = captureLeadSchema.safeParse(req.body);
 
@@ -99,43 +313,52 @@ export async function registerRoutes(server: Server, app: Express) {
 
       const data = parseResult.data;
 
-      // Check for duplicate lead by mobile or email
-      const existingLead = await storage.findLeadByMobileOrEmail(
-        data.mobile,
-        data.email || undefined
-      );
+      const form = await storage.getLeadForm(data.formId);
+      if (!form || !form.isActive) {
+        return res.status(404).json({ success: false, message: "Form not found" });
+      }
+      const auth = authenticateCapture(form, req, data.formToken);
+      if (!auth.ok) {
+        return res.status(401).json({ success: false, message: auth.message });
+      }
+      const submission = await validateLeadFormSubmission(form, data);
+      if (submission.errors.length > 0) {
+        return res.status(400).json({ success: false, message: "Validation failed", errors: submission.errors });
+      }
+      if (exceedsCapturePhoneLimit(data.mobile)) {
+        return res.status(429).json({ success: false, message: "Too many submissions, please try again later" });
+      }
 
-      if (existingLead) {
+      const reasons = detectSpam(data, auth.filledInMs);
+      if (reasons.length > 0) {
+        const { formToken, website, ...payload } = data;
+        await storage.createQuarantinedLead({
+          formId: form.id,
+          name: data.name,
+          mobile: data.mobile,
+          email: data.email || null,
+          payload: { ...payload, customFields: submission.customFields },
+          reasons,
+          ipAddress: req.ip ?? null,
+          userAgent: req.get("user-agent") ?? null,
+        });
+        // Answered like an accepted lead so a bot learns nothing from the response
+        return res.status(201).json({ success: true, message: "Lead captured successfully" });
+      }
+
+      const result = await createCapturedLead(data, form, submission.customFields);
+      if ("existingLead" in result) {
         return res.status(409).json({
           success: false,
           message: "A lead with this mobile number or email already exists",
-          leadId: existingLead.id
+          leadId: result.existingLead.id
         });
       }
 
-      // Create the lead with proper source and UTM tracking
-      const lead = await storage.createLead({
-        name: data.name,
-        mobile: data.mobile,
-        email: data.email || null,
-        city: data.city || null,
-        source: data.source,
-        status: "new",
-        notes: data.notes || null,
-        campaignId: data.campaignId || null,
-        ownerId: null, // Will be assigned later by CRM user
-        // UTM tracking fields
-        utmSource: data.utmSource || null,
-        utmMedium: data.utmMedium || null,
-        utmCampaign: data.utmCampaign || null,
-        utmContent: data.utmContent || null,
-        utmTerm: data.utmTerm || null,
-      });
-
       res.status(201).json({
         success: true,
         message: "Lead captured successfully",
-        leadId: lead.id
+        leadId: result.lead.id
       });
     } catch (error: any) {
       res.status(500).json({
@@ -146,6 +369,281 @@ export async function registerRoutes(server: Server, app: Express) {
     }
   });
 
+  // Lead quarantine: captured submissions held back as suspected spam, for admins to release or discard
+  app.get("/api/lead-quarantine", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      if (status && !quarantineStatuses.includes(status as QuarantineStatus)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      res.json(await storage.getQuarantinedLeads(status as QuarantineStatus | undefined));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/lead-quarantine/:id/release", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const entry = await storage.reviewQuarantinedLead(req.params.id, "released", user.id);
+      if (!entry) {
+        return res.status(404).json({ message: "No pending submission with this ID" });
+      }
+      const parseResult = captureLeadSchema.safeParse(entry.payload);
+      if (!parseResult.success) {
+        await storage.updateQuarantinedLead(entry.id, { status: "pending", reviewedById: null, reviewedAt: null });
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const form = entry.formId ? await storage.getLeadForm(entry.formId) : undefined;
+      const result = await createCapturedLead(
+        parseResult.data,
+        form,
+        (parseResult.data.customFields ?? {}) as CustomFieldValues,
+      );
+      if ("existingLead" in result) {
+        // Left pending so it can be discarded instead
+        await storage.updateQuarantinedLead(entry.id, { status: "pending", reviewedById: null, reviewedAt: null });
+        return res.status(409).json({
+          message: "A lead with this mobile number or email already exists",
+          leadId: result.existingLead.id,
+        });
+      }
+      const released = await storage.updateQuarantinedLead(entry.id, { leadId: result.lead.id });
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "quarantined_lead_released",
+        entityType: "lead",
+        entityId: result.lead.id,
+        details: `Released quarantined submission from ${entry.name}`,
+      });
+      res.json(released);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/lead-quarantine/:id/discard", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const entry = await storage.reviewQuarantinedLead(req.params.id, "discarded", user.id);
+      if (!entry) {
+        return res.status(404).json({ message: "No pending submission with this ID" });
+      }
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "quarantined_lead_discarded",
+        entityType: "quarantined_lead",
+        entityId: entry.id,
+        details: `Discarded quarantined submission from ${entry.name}`,
+      });
+      res.json(entry);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Hosted lead forms: the form page (also what the JS embed frames) and the embed script. Public.
+  app.get("/forms/:id", async (req, res) => {
+    try {
+      const form = await storage.getLeadForm(req.params.id);
+      if (!form || !form.isActive) {
+        return res.status(404).type("html").send(renderLeadFormUnavailablePage());
+      }
+      // Previews from the form builder are not counted as views
+      if (req.query.preview !== "1") await storage.recordLeadFormView(form.id);
+      const definitions = await storage.getCustomFieldDefinitions("lead");
+      res.type("html").send(renderLeadFormPage(form, definitions));
+    } catch (error: any) {
+      res.status(500).type("text").send("Internal server error");
+    }
+  });
+
+  app.get("/forms/:id/embed.js", async (req, res) => {
+    try {
+      const form = await storage.getLeadForm(req.params.id);
+      if (!form || !form.isActive) {
+        return res.status(404).type("js").send("/* Form not found */");
+      }
+      res.type("js").send(renderLeadFormEmbedScript(form));
+    } catch (error: any) {
+      res.status(500).type("js").send("/* Internal server error */");
+    }
+  });
+
+  // A form's custom fields must be existing lead custom fields
+  const unknownFormFields = async (fields: { key: string; custom: boolean }[]) => {
+    const definitions = await storage.getCustomFieldDefinitions("lead");
+    return fields.filter(f => f.custom && !definitions.some(d => d.key === f.key)).map(f => f.key);
+  };
+
+  app.get("/api/lead-forms", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+    try {
+      res.json(await storage.getLeadForms());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/lead-forms/:id", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+    try {
+      const form = await storage.getLeadForm(req.params.id);
+      if (!form) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+      res.json(form);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/lead-forms", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      const parseResult = insertLeadFormSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const unknown = await unknownFormFields(parseResult.data.fields);
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown custom field: ${unknown.join(", ")}` });
+      }
+      const user = req.user as User;
+      const form = await storage.createLeadForm({ ...parseResult.data, createdById: user.id });
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "lead_form_created",
+        entityType: "lead_form",
+        entityId: form.id,
+        details: `Created lead form "${form.name}"`,
+      });
+      res.status(201).json(form);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/lead-forms/:id", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      const parseResult = insertLeadFormSchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const unknown = parseResult.data.fields ? await unknownFormFields(parseResult.data.fields) : [];
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown custom field: ${unknown.join(", ")}` });
+      }
+      const form = await storage.updateLeadForm(req.params.id, parseResult.data);
+      if (!form) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+      res.json(form);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // New credentials for a form; integrations using the old key or secret stop working at once
+  app.post("/api/lead-forms/:id/rotate-keys", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      const form = await storage.setLeadFormKeys(req.params.id, generateLeadFormKeys());
+      if (!form) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+      const user = req.user as User;
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "lead_form_keys_rotated",
+        entityType: "lead_form",
+        entityId: form.id,
+        details: `Rotated the keys of lead form "${form.name}"`,
+      });
+      res.json(form);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/lead-forms/:id", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      await storage.deleteLeadForm(req.params.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Ad platform lead webhooks. Public; Meta deliveries are signed with the app secret and Google ones
+  // carry the key set on the lead form.
+  app.get(leadWebhookPaths.meta, (req, res) => {
+    const challenge = metaSubscriptionChallenge(req.query);
+    if (challenge === null) {
+      return res.status(403).type("text").send("Forbidden");
+    }
+    res.type("text").send(challenge);
+  });
+
+  app.post(leadWebhookPaths.meta, async (req, res) => {
+    try {
+      if (!verifyMetaSignature(req.rawBody, req.get("X-Hub-Signature-256"))) {
+        return res.status(401).json({ message: "Invalid signature" });
+      }
+      const changes = metaLeadgenChanges(req.body);
+      for (const change of changes) {
+        await processMetaLeadgen(change);
+      }
+      // Leads that could not be fetched are recorded as failed and retried from the CRM, not by Meta
+      res.json({ received: changes.length });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post(leadWebhookPaths.google, async (req, res) => {
+    try {
+      const parseResult = googleLeadSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      if (!verifyGoogleKey(parseResult.data.google_key)) {
+        return res.status(401).json({ message: "Invalid key" });
+      }
+      await processGoogleLead(parseResult.data);
+      res.json({});
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/lead-webhooks", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      const config = leadWebhookConfig();
+      const overview: LeadWebhookOverview = {
+        configured: {
+          meta: !!(config.metaAppSecret && config.metaVerifyToken && config.metaAccessToken),
+          google: !!config.googleKey,
+        },
+        events: await storage.getLeadWebhookEvents(50),
+      };
+      res.json(overview);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/lead-webhook-events/:id/retry", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      const event = await storage.getLeadWebhookEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "Webhook event not found" });
+      }
+      if (event.status !== "failed") {
+        return res.status(400).json({ message: "Only failed deliveries can be retried" });
+      }
+      res.json(await retryLeadWebhookEvent(event));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Dashboard stats
   app.get("/api/dashboard/stats", requireAuth, async (req, res) => {
     try {
@@ -330,243 +828,1008 @@ export async function registerRoutes(server: Server, app: Express) {
   // Leads CRUD
   app.get("/api/leads", requireAuth, async (req, res) => {
     try {
-      let leads = await storage.getAllLeads();
-      const { search, status, source, score, sortBy, sortOrder, page, limit } = req.query;
+      const pageNum = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limitNum = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 500);
 
-      if (search && typeof search === "string") {
-        const searchLower = search.toLowerCase();
-        leads = leads.filter(lead =>
-          lead.name.toLowerCase().includes(searchLower) ||
-          lead.mobile.toLowerCase().includes(searchLower) ||
-          (lead.email && lead.email.toLowerCase().includes(searchLower)) ||
-          (lead.city && lead.city.toLowerCase().includes(searchLower))
-        );
-      }
+      const { data, total } = await storage.queryLeads({
+        ...(await resolveLeadFilters(req.query, req.user as User)),
+        limit: limitNum,
+        offset: (pageNum - 1) * limitNum,
+      });
+
+      res.json({
+        data,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum)
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      if (status && typeof status === "string" && status !== "all") {
-        leads = leads.filter(lead => lead.status === status);
+  // Per-stage totals of one pipeline for the board's column headers, under the same filters as the list
+  // (must be before :id route)
+  app.get("/api/leads/stage-totals", requireAuth, async (req, res) => {
+    try {
+      const pipeline = typeof req.query.pipelineId === "string" ? await storage.getPipeline(req.query.pipelineId) : undefined;
+      if (!pipeline) {
+        return res.status(404).json({ message: "Pipeline not found" });
       }
+      const filters = await resolveLeadFilters(req.query, req.user as User);
+      const totals = await storage.getLeadStageTotals({ ...filters, pipelineId: pipeline.id, pipelineStage: undefined });
 
-      if (source && typeof source === "string" && source !== "all") {
-        leads = leads.filter(lead => lead.source === source);
+      const result: Record<string, PipelineStageTotals> = {};
+      for (const stage of pipeline.stages) {
+        const { count, value } = totals[stage.key] ?? { count: 0, value: 0 };
+        result[stage.key] = { count, value, weighted: (value * stage.winProbability) / 100 };
       }
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Export leads to CSV (must be before :id route)
+  app.get("/api/leads/export", requireAuth, async (req, res) => {
+    try {
+      const { data: leads } = await storage.queryLeads(await resolveLeadFilters(req.query, req.user as User));
+      const customFieldDefs = (await storage.getCustomFieldDefinitions("lead")).filter(d => d.isActive);
+
+      // Generate CSV content; custom fields are exported under their key so the file can be re-imported
+      const headers = ["Name", "Email", "Mobile", "City", "Source", "Status", "Notes", "Created At", ...customFieldDefs.map(d => d.key)];
+      const csvRows = [headers.join(",")];
 
-      // Temperature (score) filter
-      if (score && typeof score === "string" && score !== "all") {
-        leads = leads.filter(lead => lead.score === score);
+      for (const lead of leads) {
+        const row = [
+          `"${(lead.name || "").replace(/"/g, '""')}"`,
+          `"${(lead.email || "").replace(/"/g, '""')}"`,
+          `"${(lead.mobile || "").replace(/"/g, '""')}"`,
+          `"${(lead.city || "").replace(/"/g, '""')}"`,
+          `"${(lead.source || "").replace(/"/g, '""')}"`,
+          `"${(lead.status || "").replace(/"/g, '""')}"`,
+          `"${(lead.notes || "").replace(/"/g, '""')}"`,
+          `"${lead.createdAt ? new Date(lead.createdAt).toISOString() : ""}"`,
+          ...customFieldDefs.map(d => `"${formatCustomFieldValue(lead.customFields?.[d.key]).replace(/"/g, '""')}"`),
+        ];
+        csvRows.push(row.join(","));
       }
 
-      if (sortBy && typeof sortBy === "string") {
-        const order = sortOrder === "asc" ? 1 : -1;
-        leads.sort((a: any, b: any) => {
-          if (a[sortBy] < b[sortBy]) return -1 * order;
-          if (a[sortBy] > b[sortBy]) return 1 * order;
-          return 0;
-        });
+      const csvContent = csvRows.join("\n");
+
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", `attachment; filename="leads_export_${Date.now()}.csv"`);
+      res.send(csvContent);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Duplicate detection is registered before /api/leads/:id so "duplicates" is not read as a lead id
+  app.get("/api/leads/duplicates", requireAuth, requireRole("admin", "manager", "sales"), async (req, res) => {
+    try {
+      const minConfidence = req.query.minConfidence !== undefined ? Number(req.query.minConfidence) : DEFAULT_DUPLICATE_THRESHOLD;
+      if (!Number.isFinite(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+        return res.status(400).json({ message: "minConfidence must be between 0 and 1" });
       }
 
-      const totalCount = leads.length;
-      const pageNum = parseInt(page as string) || 1;
-      const limitNum = parseInt(limit as string) || 50;
-      const startIndex = (pageNum - 1) * limitNum;
-      const paginatedLeads = leads.slice(startIndex, startIndex + limitNum);
+      res.json(await findDuplicateGroups(minConfidence));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  const duplicateDismissalSchema = z.object({
+    leadId: z.string().min(1),
+    matchLeadId: z.string().min(1).optional(),
+    matchClientId: z.string().min(1).optional(),
+  }).refine(data => !!data.matchLeadId !== !!data.matchClientId, {
+    message: "Provide either matchLeadId or matchClientId",
+  });
 
-      res.json({
-        data: paginatedLeads,
-        pagination: {
-          page: pageNum,
-          limit: limitNum,
-          total: totalCount,
-          totalPages: Math.ceil(totalCount / limitNum)
-        }
+  // Mark a lead/lead or lead/client pair as "not a duplicate"
+  app.post("/api/leads/duplicates/dismissals", requireAuth, requireRole("admin", "manager", "sales"), async (req, res) => {
+    try {
+      const parseResult = duplicateDismissalSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const { matchClientId } = parseResult.data;
+      let { leadId, matchLeadId } = parseResult.data;
+
+      if (!(await storage.getLead(leadId))) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      if (matchLeadId) {
+        if (matchLeadId === leadId) {
+          return res.status(400).json({ message: "A lead cannot be compared with itself" });
+        }
+        if (!(await storage.getLead(matchLeadId))) {
+          return res.status(404).json({ message: "Lead not found" });
+        }
+        // Lead pairs are stored in a fixed order so each pair has one row
+        if (matchLeadId < leadId) [leadId, matchLeadId] = [matchLeadId, leadId];
+      }
+      if (matchClientId && !(await storage.getClient(matchClientId))) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const existing = (await storage.getDuplicateDismissals()).find(d =>
+        d.leadId === leadId && d.matchLeadId === (matchLeadId ?? null) && d.matchClientId === (matchClientId ?? null)
+      );
+      if (existing) {
+        return res.json(existing);
+      }
+
+      const user = req.user as User;
+      const dismissal = await storage.createDuplicateDismissal({
+        leadId,
+        matchLeadId: matchLeadId ?? null,
+        matchClientId: matchClientId ?? null,
+        dismissedById: user.id,
+      });
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "duplicate_dismissed",
+        entityType: "lead",
+        entityId: leadId,
+        details: matchLeadId ? `Not a duplicate of lead ${matchLeadId}` : `Not a duplicate of client ${matchClientId}`,
+      });
+      res.status(201).json(dismissal);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Undo a "not a duplicate" decision
+  app.delete("/api/leads/duplicates/dismissals/:id", requireAuth, requireRole("admin", "manager", "sales"), async (req, res) => {
+    try {
+      const dismissal = await storage.getDuplicateDismissal(req.params.id);
+      if (!dismissal) {
+        return res.status(404).json({ message: "Dismissal not found" });
+      }
+      await storage.deleteDuplicateDismissal(dismissal.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/leads/:id", requireAuth, async (req, res) => {
+    try {
+      const lead = await storage.getLead(req.params.id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      res.json(lead);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Notes, follow-ups, calls, WhatsApp messages, tasks, quotations and activity, newest first
+  app.get("/api/leads/:id/timeline", requireAuth, async (req, res) => {
+    try {
+      const lead = await storage.getLead(req.params.id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      res.json(await getTimelinePage({ leadIds: [lead.id] }, req.query));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Lead Notes
+  const leadNoteSchema = z.object({
+    content: z.string().trim().min(1, "Note cannot be empty"),
+    type: z.enum(leadNoteTypes).default("note"),
+  });
+
+  const leadNoteUpdateSchema = leadNoteSchema.partial().extend({
+    isPinned: z.boolean().optional(),
+  });
+
+  // Keeps only mentions of active teammates, so hand-typed markup cannot notify arbitrary ids
+  const resolveNoteMentions = async (content: string): Promise<string[]> => {
+    const ids = parseMentions(content);
+    if (ids.length === 0) return [];
+    const activeIds = new Set((await storage.getAllUsers()).filter(u => u.isActive).map(u => u.id));
+    return ids.filter(id => activeIds.has(id));
+  };
+
+  const notifyNoteMentions = async (userIds: string[], lead: Lead, author: User, content: string) => {
+    const preview = mentionsToPlainText(content);
+    for (const userId of userIds) {
+      if (userId === author.id) continue;
+      await storage.createNotification({
+        userId,
+        title: "You were mentioned",
+        message: `${author.name} mentioned you on ${lead.name}: ${preview.length > 120 ? `${preview.slice(0, 117)}...` : preview}`,
+        type: "mention",
+        link: `/leads?notes=${lead.id}`,
+      });
+    }
+  };
+
+  const canEditLeadNote = (user: User, note: { userId: string }) =>
+    note.userId === user.id || user.role === "admin" || user.role === "manager";
+
+  app.get("/api/leads/:id/notes", requireAuth, async (req, res) => {
+    try {
+      const lead = await storage.getLead(req.params.id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      const notes = await storage.getLeadNotes(lead.id);
+      res.json(notes);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/leads/:id/notes", requireAuth, async (req, res) => {
+    try {
+      const parseResult = leadNoteSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const lead = await storage.getLead(req.params.id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+
+      const user = req.user as User;
+      const { content, type } = parseResult.data;
+      const mentionedUserIds = await resolveNoteMentions(content);
+      const note = await storage.createLeadNote({ leadId: lead.id, userId: user.id, content, type, mentionedUserIds });
+      await storage.updateLead(lead.id, { lastActivityAt: note.createdAt });
+      await rescoreLeadAfterEvent(lead.id, "note_added");
+      await notifyNoteMentions(mentionedUserIds, lead, user, content);
+
+      res.status(201).json(note);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Edit content or type (author, admin or manager), or pin/unpin (anyone who can see the lead)
+  app.patch("/api/lead-notes/:id", requireAuth, async (req, res) => {
+    try {
+      const parseResult = leadNoteUpdateSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const note = await storage.getLeadNote(req.params.id);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+
+      const user = req.user as User;
+      const { content, type, isPinned } = parseResult.data;
+      const isEdit = (content !== undefined && content !== note.content) || (type !== undefined && type !== note.type);
+      if (isEdit && !canEditLeadNote(user, note)) {
+        return res.status(403).json({ message: "Only the author or a manager can edit this note" });
+      }
+
+      const updates: Parameters<typeof storage.updateLeadNote>[1] = {};
+      if (isEdit) {
+        updates.updatedAt = new Date();
+        if (type !== undefined) updates.type = type;
+      }
+      let newMentions: string[] = [];
+      if (content !== undefined && content !== note.content) {
+        updates.content = content;
+        updates.mentionedUserIds = await resolveNoteMentions(content);
+        newMentions = updates.mentionedUserIds.filter(id => !note.mentionedUserIds.includes(id));
+      }
+      if (isPinned !== undefined && isPinned !== note.isPinned) {
+        updates.isPinned = isPinned;
+        updates.pinnedAt = isPinned ? new Date() : null;
+      }
+      if (Object.keys(updates).length === 0) {
+        return res.json(note);
+      }
+
+      const updated = await storage.updateLeadNote(note.id, updates);
+      if (newMentions.length > 0) {
+        const lead = await storage.getLead(note.leadId);
+        if (lead) await notifyNoteMentions(newMentions, lead, user, updates.content!);
+      }
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/lead-notes/:id", requireAuth, async (req, res) => {
+    try {
+      const note = await storage.getLeadNote(req.params.id);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      const user = req.user as User;
+      if (!canEditLeadNote(user, note)) {
+        return res.status(403).json({ message: "Only the author or a manager can delete this note" });
+      }
+      await storage.deleteLeadNote(note.id);
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "note_deleted",
+        entityType: "lead",
+        entityId: note.leadId,
+        details: mentionsToPlainText(note.content).slice(0, 200),
+      });
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/leads", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const { mobile, email } = req.body;
+
+      const existingLead = await storage.findLeadByMobileOrEmail(mobile, email);
+      if (existingLead) {
+        const duplicateField = mobile && phoneMatchKey(existingLead.mobile) === phoneMatchKey(mobile) ? "mobile number" : "email";
+        return res.status(400).json({ message: `A lead with this ${duplicateField} already exists` });
+      }
+
+      const deal = leadDealFieldsSchema.safeParse(req.body);
+      if (!deal.success) {
+        return res.status(400).json({ message: "Validation failed", errors: deal.error.errors });
+      }
+      const lossInput = leadLossInputSchema.safeParse(req.body);
+      if (!lossInput.success) {
+        return res.status(400).json({ message: "Validation failed", errors: lossInput.error.errors });
+      }
+
+      const customFields = await resolveCustomFieldValues("lead", { customFields: {}, ...req.body }, res);
+      if (customFields === null) return;
+
+      const stage = await resolveLeadStage(undefined, { ...req.body, ...deal.data, customFields });
+      if (!stage.ok) {
+        return res.status(400).json({ message: stage.message, missingFields: stage.missingFields });
+      }
+
+      const loss = await resolveLeadLoss(undefined, { ...req.body, ...stage.updates }, lossInput.data);
+      if (!loss.ok) {
+        return res.status(400).json({ message: loss.message, lossReasonRequired: loss.lossReasonRequired });
+      }
+
+      const win = await resolveLeadWin(undefined, { ...req.body, ...stage.updates });
+      const lead = await storage.createLead({ ...req.body, ...deal.data, ...stage.updates, ...loss.updates, ...win, customFields, ownerId: req.body.ownerId || user.id }, user.id);
+      await rescoreLeadAfterEvent(lead.id, "lead_created");
+      res.status(201).json(await storage.getLead(lead.id) ?? lead);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/leads/:id", requireAuth, async (req, res) => {
+    try {
+      const existing = await storage.getLead(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+
+      const { mobile, email } = req.body;
+
+      if (mobile || email) {
+        const existingLead = await storage.findLeadByMobileOrEmail(mobile || "", email, req.params.id);
+        if (existingLead) {
+          const duplicateField = mobile && phoneMatchKey(existingLead.mobile) === phoneMatchKey(mobile) ? "mobile number" : "email";
+          return res.status(400).json({ message: `A lead with this ${duplicateField} already exists` });
+        }
+      }
+
+      const deal = leadDealFieldsSchema.safeParse(req.body);
+      if (!deal.success) {
+        return res.status(400).json({ message: "Validation failed", errors: deal.error.errors });
+      }
+      const lossInput = leadLossInputSchema.safeParse(req.body);
+      if (!lossInput.success) {
+        return res.status(400).json({ message: "Validation failed", errors: lossInput.error.errors });
+      }
+
+      let customFields;
+      if (req.body.customFields !== undefined) {
+        customFields = await resolveCustomFieldValues("lead", req.body, res, existing.customFields);
+        if (customFields === null) return;
+      }
+
+      // A manual change of owner takes the lead off the distribution SLA timer
+      let distribution = {};
+      if (req.body.ownerId !== undefined && existing.ownerId !== req.body.ownerId) {
+        distribution = { distributedAt: null, reassignCount: 0 };
+      }
+
+      // Entering a stage requires its fields; moving pipeline without a stage starts at the first stage
+      let stage = {};
+      const stageChanging = req.body.pipelineId !== undefined || req.body.pipelineStage !== undefined;
+      if (stageChanging) {
+        const result = await resolveLeadStage(existing, { ...req.body, ...deal.data, customFields });
+        if (!result.ok) {
+          return res.status(400).json({ message: result.message, missingFields: result.missingFields });
+        }
+        stage = result.updates;
+      }
+
+      // Losing a lead needs a loss reason; reopening it clears the loss details and the won date
+      let loss = {};
+      let win = {};
+      if (["status", "pipelineId", "pipelineStage", "lossReasonId", "lossCompetitor", "lossNotes"].some(key => req.body[key] !== undefined)) {
+        const result = await resolveLeadLoss(existing, { ...req.body, ...stage }, lossInput.data);
+        if (!result.ok) {
+          return res.status(400).json({ message: result.message, lossReasonRequired: result.lossReasonRequired });
+        }
+        loss = result.updates;
+        win = await resolveLeadWin(existing, { ...req.body, ...stage });
+      }
+
+      const lead = await storage.updateLead(req.params.id, { ...req.body, ...deal.data, customFields, ...distribution, ...stage, ...loss, ...win }, (req.user as User).id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+
+      // A lead moved into another stage runs that stage's entry actions; the results go back for the board to show
+      const enteredStage = stageChanging && (existing.pipelineId !== lead.pipelineId || existing.pipelineStage !== lead.pipelineStage);
+      const stageActions = enteredStage ? await runStageEntryActions(lead, req.user as User) : [];
+
+      await rescoreLeadAfterEvent(lead.id, "lead_updated");
+      res.json({ ...(await storage.getLead(lead.id) ?? lead), ...(stageActions.length > 0 && { stageActions }) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/leads/:id", requireAuth, async (req, res) => {
+    try {
+      await storage.deleteLead(req.params.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Bulk Import leads via CSV: upload raw CSV text, map columns, dry-run, then commit
+  const importRequestSchema = z.object({
+    csvText: z.string().min(1, "CSV file is empty"),
+    mapping: z.array(z.string().nullable()).optional(),
+    duplicateStrategy: z.enum(duplicateStrategies).optional().default("skip"),
+  });
+
+  // Parse the upload; without an explicit mapping, fall back to the auto-detected one
+  const parseImportRequest = async (body: any) => {
+    const parseResult = importRequestSchema.safeParse(body);
+    if (!parseResult.success) {
+      return { error: { message: "Validation failed", errors: parseResult.error.errors } };
+    }
+    const { csvText, duplicateStrategy } = parseResult.data;
+    const [headers = [], ...rows] = parseCsv(csvText);
+    if (rows.length === 0) {
+      return { error: { message: "The file is empty or has no data rows" } };
+    }
+
+    const customFields = await storage.getCustomFieldDefinitions("lead");
+    const mapping = (parseResult.data.mapping ?? suggestLeadImportMapping(headers, customFields)) as LeadImportMapping;
+    const targets = mapping.filter(Boolean);
+    if (!targets.includes("name") || !targets.includes("mobile")) {
+      return { error: { message: "Map a column to both Name and Mobile before importing" } };
+    }
+    if (new Set(targets).size !== targets.length) {
+      return { error: { message: "Each lead field can only be mapped from one column" } };
+    }
+    return { headers, rows, mapping, duplicateStrategy };
+  };
+
+  app.post("/api/leads/import/preview", requireAuth, async (req, res) => {
+    try {
+      const csvText = typeof req.body.csvText === "string" ? req.body.csvText : "";
+      const [headers = [], ...rows] = parseCsv(csvText);
+      if (headers.length === 0 || rows.length === 0) {
+        return res.status(400).json({ message: "The file is empty or has no data rows" });
+      }
+      const customFields = await storage.getCustomFieldDefinitions("lead");
+      res.json({
+        headers,
+        sampleRows: rows.slice(0, 5),
+        totalRows: rows.length,
+        suggestedMapping: suggestLeadImportMapping(headers, customFields.filter(f => f.isActive)),
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/leads/import/dry-run", requireAuth, async (req, res) => {
+    try {
+      const parsed = await parseImportRequest(req.body);
+      if ("error" in parsed) {
+        return res.status(400).json(parsed.error);
+      }
+      const summary = await runLeadImport({ ...parsed, user: req.user as User, dryRun: true });
+      res.json(summary);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Committing queues a background job; poll GET /api/lead-import-jobs/:id for progress
+  app.post("/api/leads/import", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const parsed = await parseImportRequest(req.body);
+      if ("error" in parsed) {
+        return res.status(400).json(parsed.error);
+      }
+
+      const job = await storage.createLeadImportJob({
+        userId: user.id,
+        fileName: typeof req.body.fileName === "string" ? req.body.fileName : null,
+        csvText: req.body.csvText,
+        mapping: JSON.stringify(parsed.mapping),
+        duplicateStrategy: parsed.duplicateStrategy,
+        totalRows: parsed.rows.length,
+      });
+      enqueueLeadImportJob(job);
+      res.status(202).json(serializeImportJob(job));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Lead Import Jobs
+  // The raw CSV stays on the server; clients only see progress and row results
+  const serializeImportJob = ({ csvText, results, ...job }: LeadImportJob): SerializedLeadImportJob => ({
+    ...job,
+    rows: results ? JSON.parse(results) : [],
+  });
+
+  // Owners see their own jobs; admins and managers see every job
+  const canAccessImportJob = (job: LeadImportJob, user: User) =>
+    job.userId === user.id || user.role === "admin" || user.role === "manager";
+
+  app.get("/api/lead-import-jobs", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const seeAll = user.role === "admin" || user.role === "manager";
+      const jobs = await storage.getLeadImportJobs(seeAll ? undefined : user.id);
+      res.json(jobs.slice(0, 20).map(serializeImportJob));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/lead-import-jobs/:id", requireAuth, async (req, res) => {
+    try {
+      const job = await storage.getLeadImportJob(req.params.id);
+      if (!job || !canAccessImportJob(job, req.user as User)) {
+        return res.status(404).json({ message: "Import job not found" });
+      }
+      res.json(serializeImportJob(job));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/lead-import-jobs/:id/errors", requireAuth, async (req, res) => {
+    try {
+      const job = await storage.getLeadImportJob(req.params.id);
+      if (!job || !canAccessImportJob(job, req.user as User)) {
+        return res.status(404).json({ message: "Import job not found" });
+      }
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader("Content-Disposition", `attachment; filename="import_errors_${job.id}.csv"`);
+      res.send(buildImportErrorReport(job));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Undo deletes the leads this job created, except ones that have been worked on since
+  app.post("/api/lead-import-jobs/:id/undo", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const job = await storage.getLeadImportJob(req.params.id);
+      if (!job || !canAccessImportJob(job, user)) {
+        return res.status(404).json({ message: "Import job not found" });
+      }
+      if (job.status !== "completed" && job.status !== "failed") {
+        return res.status(400).json({ message: `Cannot undo an import that is ${job.status}` });
+      }
+
+      const { deleted, kept } = await storage.deleteUntouchedImportedLeads(job.id, job.completedAt ?? new Date());
+      const updated = await storage.updateLeadImportJob(job.id, { status: "undone", undoneAt: new Date() });
+
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "import_undone",
+        entityType: "lead_import_job",
+        entityId: job.id,
+        details: `${deleted} leads removed, ${kept} kept because they changed after the import`,
+      });
+      res.json({ job: updated ? serializeImportJob(updated) : null, deleted, kept });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Saved Lead Views
+  const leadViewSchema = z.object({
+    name: z.string().min(1, "Name is required"),
+    isShared: z.boolean().optional().default(false),
+    filters: leadViewFiltersSchema.optional().default({}),
+    sortBy: z.enum(leadSortColumns).optional().default("createdAt"),
+    sortOrder: z.enum(["asc", "desc"]).optional().default("desc"),
+  });
+
+  const serializeLeadView = (view: LeadView) => ({
+    ...view,
+    filters: parseStoredLeadFilters(view.filters),
+  });
+
+  app.get("/api/lead-views", requireAuth, async (req, res) => {
+    try {
+      const views = await storage.getLeadViewsForUser((req.user as User).id);
+      res.json(views.map(serializeLeadView));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/lead-views", requireAuth, async (req, res) => {
+    try {
+      const parseResult = leadViewSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const { filters, ...data } = parseResult.data;
+      const view = await storage.createLeadView({
+        ...data,
+        filters: JSON.stringify(filters),
+        userId: (req.user as User).id,
+      });
+      res.status(201).json(serializeLeadView(view));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/lead-views/:id", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const existing = await storage.getLeadView(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "View not found" });
+      }
+      if (existing.userId !== user.id && user.role !== "admin") {
+        return res.status(403).json({ message: "Only the owner can edit this view" });
+      }
+
+      const parseResult = leadViewSchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const { filters, ...data } = parseResult.data;
+      const view = await storage.updateLeadView(existing.id, {
+        ...data,
+        ...(filters ? { filters: JSON.stringify(filters) } : {}),
+      });
+      res.json(view ? serializeLeadView(view) : null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/lead-views/:id", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const existing = await storage.getLeadView(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "View not found" });
+      }
+      if (existing.userId !== user.id && user.role !== "admin") {
+        return res.status(403).json({ message: "Only the owner can delete this view" });
+      }
+      await storage.deleteLeadView(existing.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Custom Field Definitions
+  const customFieldSchema = insertCustomFieldDefinitionSchema.extend({
+    options: z.array(z.string().min(1)).optional(),
+  }).refine(
+    (data) => !["select", "multi_select"].includes(data.fieldType) || (data.options?.length ?? 0) > 0,
+    { message: "Select fields need at least one option", path: ["options"] },
+  );
+
+  const serializeCustomField = (definition: CustomFieldDefinition): SerializedCustomFieldDefinition => ({
+    ...definition,
+    options: parseCustomFieldOptions(definition),
+  });
+
+  app.get("/api/custom-fields", requireAuth, async (req, res) => {
+    try {
+      const entityType = typeof req.query.entityType === "string" ? req.query.entityType : undefined;
+      const definitions = await storage.getCustomFieldDefinitions(entityType);
+      res.json(definitions.map(serializeCustomField));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/custom-fields", requireRole("admin"), async (req, res) => {
+    try {
+      const parseResult = customFieldSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const { options, ...data } = parseResult.data;
+
+      const existing = await storage.getCustomFieldDefinitions(data.entityType);
+      if (existing.some(d => d.key === data.key)) {
+        return res.status(400).json({ message: `A ${data.entityType} field with key "${data.key}" already exists` });
+      }
+
+      const definition = await storage.createCustomFieldDefinition({
+        ...data,
+        options: options ? JSON.stringify(options) : null,
+      });
+      res.status(201).json(serializeCustomField(definition));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/custom-fields/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const existing = await storage.getCustomFieldDefinition(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Custom field not found" });
+      }
+
+      // Key, entity and type are fixed once created: stored values are keyed and typed by them
+      const parseResult = customFieldSchema.innerType()
+        .omit({ key: true, entityType: true, fieldType: true })
+        .partial()
+        .safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const { options, ...data } = parseResult.data;
+
+      const definition = await storage.updateCustomFieldDefinition(existing.id, {
+        ...data,
+        ...(options ? { options: JSON.stringify(options) } : {}),
+      });
+      res.json(definition ? serializeCustomField(definition) : null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/custom-fields/:id", requireRole("admin"), async (req, res) => {
+    try {
+      await storage.deleteCustomFieldDefinition(req.params.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Pipelines: everyone signed in reads them (the board, lead forms); admins define them
+  app.get("/api/pipelines", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getPipelines());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Stages may only require lead fields the board can fill in, or existing lead custom fields
+  const unknownStageFields = async (stages: PipelineStageInput[]) => {
+    const definitions = await storage.getCustomFieldDefinitions("lead");
+    const fields = Array.from(new Set(stages.flatMap(s => s.requiredFields)));
+    return fields.filter(field => isCustomStageField(field)
+      ? !definitions.some(d => customStageField(d.key) === field)
+      : !(field in requirableLeadFields));
+  };
+
+  // Entry actions may only draft quotations from existing packages and add existing checklist templates
+  const unknownStageActionTargets = async (stages: PipelineStageInput[]) => {
+    const [packages, templates] = await Promise.all([storage.getAllPackages(), storage.getChecklistTemplates()]);
+    const actions = stages.flatMap(s => s.entryActions);
+    const packageIds = new Set(actions.flatMap(a => a.type === "create_quotation" ? [a.packageId] : []));
+    const templateIds = new Set(actions.flatMap(a => a.type === "assign_checklists" ? a.checklistTemplateIds : []));
+    return [
+      ...Array.from(packageIds).filter(id => !packages.some(p => p.id === id)).map(id => `quotation package ${id}`),
+      ...Array.from(templateIds).filter(id => !templates.some(t => t.id === id)).map(id => `checklist template ${id}`),
+    ];
+  };
+
+  app.post("/api/pipelines", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      const parseResult = pipelineInputSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const { stages, ...data } = parseResult.data;
+      if (stages.some(stage => stage.id)) {
+        return res.status(400).json({ message: "New pipelines cannot take existing stages" });
+      }
+      const unknown = await unknownStageFields(stages);
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown required field: ${unknown.join(", ")}` });
+      }
+      const unknownTargets = await unknownStageActionTargets(stages);
+      if (unknownTargets.length > 0) {
+        return res.status(400).json({ message: `Unknown ${unknownTargets.join(", ")}` });
+      }
+      const pipeline = await storage.createPipeline(data, stages);
+      const user = req.user as User;
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "pipeline_created",
+        entityType: "pipeline",
+        entityId: pipeline.id,
+        details: `Created pipeline "${pipeline.name}"`,
       });
+      res.status(201).json(pipeline);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Export leads to CSV (must be before :id route)
-  app.get("/api/leads/export", requireAuth, async (req, res) => {
+  // Sending stages replaces the whole list. Stage keys are fixed once created (leads store them), and a
+  // stage can only be removed once no lead is in it.
+  app.patch("/api/pipelines/:id", requireAuth, requireRole("admin"), async (req, res) => {
     try {
-      let leads = await storage.getAllLeads();
-
-      // Apply filters
-      const { status, source, search } = req.query;
-
-      if (status && status !== "all") {
-        leads = leads.filter(l => l.status === status);
+      const parseResult = pipelineInputSchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
       }
-
-      if (source && source !== "all") {
-        leads = leads.filter(l => l.source === source);
+      const existing = await storage.getPipeline(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Pipeline not found" });
       }
-
-      if (search && typeof search === "string") {
-        const query = search.toLowerCase();
-        leads = leads.filter(l =>
-          l.name.toLowerCase().includes(query) ||
-          l.email?.toLowerCase().includes(query) ||
-          l.mobile.includes(query) ||
-          l.city?.toLowerCase().includes(query)
-        );
+      const { stages, ...data } = parseResult.data;
+      if (existing.isDefault && data.isDefault === false) {
+        return res.status(400).json({ message: "Make another pipeline the default instead" });
       }
 
-      // Generate CSV content
-      const headers = ["Name", "Email", "Mobile", "City", "Source", "Status", "Notes", "Created At"];
-      const csvRows = [headers.join(",")];
-
-      for (const lead of leads) {
-        const row = [
-          `"${(lead.name || "").replace(/"/g, '""')}"`,
-          `"${(lead.email || "").replace(/"/g, '""')}"`,
-          `"${(lead.mobile || "").replace(/"/g, '""')}"`,
-          `"${(lead.city || "").replace(/"/g, '""')}"`,
-          `"${(lead.source || "").replace(/"/g, '""')}"`,
-          `"${(lead.status || "").replace(/"/g, '""')}"`,
-          `"${(lead.notes || "").replace(/"/g, '""')}"`,
-          `"${lead.createdAt ? new Date(lead.createdAt).toISOString() : ""}"`,
-        ];
-        csvRows.push(row.join(","));
+      if (stages) {
+        for (const stage of stages) {
+          if (!stage.id) continue;
+          const current = existing.stages.find(s => s.id === stage.id);
+          if (!current) {
+            return res.status(400).json({ message: `Stage "${stage.name}" is not part of this pipeline` });
+          }
+          if (current.key !== stage.key) {
+            return res.status(400).json({ message: `The key of stage "${current.name}" cannot be changed` });
+          }
+        }
+        const unknown = await unknownStageFields(stages);
+        if (unknown.length > 0) {
+          return res.status(400).json({ message: `Unknown required field: ${unknown.join(", ")}` });
+        }
+        const unknownTargets = await unknownStageActionTargets(stages);
+        if (unknownTargets.length > 0) {
+          return res.status(400).json({ message: `Unknown ${unknownTargets.join(", ")}` });
+        }
+        const counts = await storage.countPipelineLeads(existing.id);
+        const occupied = existing.stages.filter(s => counts[s.key] && !stages.some(stage => stage.id === s.id));
+        if (occupied.length > 0) {
+          return res.status(400).json({
+            message: `Move the leads out of ${occupied.map(s => `"${s.name}"`).join(", ")} before removing it`,
+          });
+        }
       }
 
-      const csvContent = csvRows.join("\n");
-
-      res.setHeader("Content-Type", "text/csv");
-      res.setHeader("Content-Disposition", `attachment; filename="leads_export_${Date.now()}.csv"`);
-      res.send(csvContent);
+      const pipeline = await storage.updatePipeline(existing.id, data, stages);
+      const user = req.user as User;
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "pipeline_updated",
+        entityType: "pipeline",
+        entityId: existing.id,
+        details: `Updated pipeline "${pipeline?.name ?? existing.name}"`,
+      });
+      res.json(pipeline);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/leads/:id", requireAuth, async (req, res) => {
+  app.delete("/api/pipelines/:id", requireAuth, requireRole("admin"), async (req, res) => {
     try {
-      const lead = await storage.getLead(req.params.id);
-      if (!lead) {
-        return res.status(404).json({ message: "Lead not found" });
+      const existing = await storage.getPipeline(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Pipeline not found" });
       }
-      res.json(lead);
+      if (existing.isDefault) {
+        return res.status(400).json({ message: "The default pipeline cannot be deleted" });
+      }
+      const counts = await storage.countPipelineLeads(existing.id);
+      if (Object.keys(counts).length > 0) {
+        return res.status(400).json({ message: "Move this pipeline's leads to another pipeline first" });
+      }
+      await storage.deletePipeline(existing.id);
+      const user = req.user as User;
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "pipeline_deleted",
+        entityType: "pipeline",
+        entityId: existing.id,
+        details: `Deleted pipeline "${existing.name}"`,
+      });
+      res.status(204).send();
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/leads", requireAuth, async (req, res) => {
+  // Loss reasons: every rep picks from them, admins edit the list
+  app.get("/api/loss-reasons", requireAuth, async (req, res) => {
     try {
-      const user = req.user as User;
-      const { mobile, email } = req.body;
-
-      const existingLead = await storage.findLeadByMobileOrEmail(mobile, email);
-      if (existingLead) {
-        const duplicateField = existingLead.mobile === mobile ? "mobile number" : "email";
-        return res.status(400).json({ message: `A lead with this ${duplicateField} already exists` });
-      }
-
-      const lead = await storage.createLead({ ...req.body, ownerId: req.body.ownerId || user.id });
-      res.status(201).json(lead);
+      res.json(await storage.getLossReasons());
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.patch("/api/leads/:id", requireAuth, async (req, res) => {
+  app.post("/api/loss-reasons", requireAuth, requireRole("admin"), async (req, res) => {
     try {
-      const { mobile, email } = req.body;
-
-      if (mobile || email) {
-        const existingLead = await storage.findLeadByMobileOrEmail(mobile || "", email, req.params.id);
-        if (existingLead) {
-          const duplicateField = mobile && existingLead.mobile === mobile ? "mobile number" : "email";
-          return res.status(400).json({ message: `A lead with this ${duplicateField} already exists` });
-        }
-      }
-
-      const lead = await storage.updateLead(req.params.id, req.body);
-      if (!lead) {
-        return res.status(404).json({ message: "Lead not found" });
+      const parseResult = insertLossReasonSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
       }
-      res.json(lead);
+      const reason = await storage.createLossReason(parseResult.data);
+      await storage.createActivityLog({
+        userId: (req.user as User).id,
+        action: "loss_reason_created",
+        entityType: "loss_reason",
+        entityId: reason.id,
+        details: `Created loss reason "${reason.label}"`,
+      });
+      res.status(201).json(reason);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.delete("/api/leads/:id", requireAuth, async (req, res) => {
+  app.patch("/api/loss-reasons/:id", requireAuth, requireRole("admin"), async (req, res) => {
     try {
-      await storage.deleteLead(req.params.id);
-      res.status(204).send();
+      const parseResult = insertLossReasonSchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const reason = await storage.updateLossReason(req.params.id, parseResult.data);
+      if (!reason) {
+        return res.status(404).json({ message: "Loss reason not found" });
+      }
+      res.json(reason);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Bulk Import leads via CSV
-  app.post("/api/leads/import", requireAuth, async (req, res) => {
+  // Reasons recorded on leads keep the win/loss report intact, so they can only be deactivated
+  app.delete("/api/loss-reasons/:id", requireAuth, requireRole("admin"), async (req, res) => {
     try {
-      const user = req.user as User;
-      const { csvData } = req.body;
-
-      if (!csvData || !Array.isArray(csvData)) {
-        return res.status(400).json({ message: "Invalid CSV data" });
-      }
-
-      const results = {
-        success: [] as any[],
-        failed: [] as { row: number; data: any; error: string }[],
-        total: csvData.length,
-      };
-
-      const validSources = ["facebook", "instagram", "google", "website", "referral"];
-      const validStatuses = ["new", "interested", "follow_up", "converted", "not_interested"];
-
-      for (let i = 0; i < csvData.length; i++) {
-        const row = csvData[i];
-        const rowNum = i + 1;
-
-        // Validate required fields
-        if (!row.name || typeof row.name !== "string" || row.name.trim().length < 2) {
-          results.failed.push({ row: rowNum, data: row, error: "Name is required (min 2 characters)" });
-          continue;
-        }
-
-        if (!row.mobile || typeof row.mobile !== "string" || row.mobile.trim().length < 10) {
-          results.failed.push({ row: rowNum, data: row, error: "Mobile is required (min 10 digits)" });
-          continue;
-        }
-
-        // Validate optional fields
-        const source = row.source && validSources.includes(row.source.toLowerCase())
-          ? row.source.toLowerCase()
-          : "website";
-        const status = row.status && validStatuses.includes(row.status.toLowerCase())
-          ? row.status.toLowerCase()
-          : "new";
-
-        // Check for duplicates
-        const existingLead = await storage.findLeadByMobileOrEmail(row.mobile.trim(), row.email?.trim());
-        if (existingLead) {
-          results.failed.push({ row: rowNum, data: row, error: "Duplicate lead (mobile or email already exists)" });
-          continue;
-        }
-
-        try {
-          const lead = await storage.createLead({
-            name: row.name.trim(),
-            email: row.email?.trim() || null,
-            mobile: row.mobile.trim(),
-            city: row.city?.trim() || null,
-            source,
-            status,
-            notes: row.notes?.trim() || null,
-            ownerId: user.id,
-          });
-          results.success.push({ row: rowNum, lead });
-        } catch (err: any) {
-          results.failed.push({ row: rowNum, data: row, error: err.message });
-        }
+      if (await storage.countLossReasonLeads(req.params.id) > 0) {
+        return res.status(400).json({ message: "This reason is recorded on leads. Deactivate it instead." });
       }
-
-      res.json(results);
+      await storage.deleteLossReason(req.params.id);
+      res.status(204).send();
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -689,6 +1952,7 @@ export async function registerRoutes(server: Server, app: Express) {
           leadName = lead.name;
           // Update lastActivityAt and recalculate score
           await storage.updateLead(lead.id, { lastActivityAt: new Date() });
+          await rescoreLeadAfterEvent(lead.id, "follow_up_scheduled");
         }
       }
 
@@ -708,10 +1972,14 @@ export async function registerRoutes(server: Server, app: Express) {
 
   app.patch("/api/follow-ups/:id", requireAuth, async (req, res) => {
     try {
+      const existing = await storage.getFollowUp(req.params.id);
       const followUp = await storage.updateFollowUp(req.params.id, req.body);
       if (!followUp) {
         return res.status(404).json({ message: "Follow-up not found" });
       }
+      if (followUp.isCompleted && !existing?.isCompleted) {
+        await rescoreLeadAfterEvent(followUp.leadId, "follow_up_completed");
+      }
       res.json(followUp);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -730,7 +1998,12 @@ export async function registerRoutes(server: Server, app: Express) {
   // Clients CRUD
   app.get("/api/clients", requireAuth, async (req, res) => {
     try {
-      const clients = await storage.getAllClients();
+      const definitions = await storage.getCustomFieldDefinitions("client");
+      const clients = await storage.queryClients({
+        search: typeof req.query.search === "string" ? req.query.search.trim() || undefined : undefined,
+        ownerId: typeof req.query.ownerId === "string" && req.query.ownerId !== "all" ? req.query.ownerId : undefined,
+        customFields: toCustomFieldFilters(customFieldFiltersFromQuery(req.query.customFields), definitions),
+      });
       res.json(clients);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -749,10 +2022,26 @@ export async function registerRoutes(server: Server, app: Express) {
     }
   });
 
+  // A converted client's timeline continues from the lead it was converted from
+  app.get("/api/clients/:id/timeline", requireAuth, async (req, res) => {
+    try {
+      const client = await storage.getClient(req.params.id);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      res.json(await getTimelinePage({ leadIds: client.leadId ? [client.leadId] : [], clientId: client.id }, req.query));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.post("/api/clients", requireAuth, async (req, res) => {
     try {
       const user = req.user as User;
-      const client = await storage.createClient({ ...req.body, ownerId: req.body.ownerId || user.id });
+      const customFields = await resolveCustomFieldValues("client", { customFields: {}, ...req.body }, res);
+      if (customFields === null) return;
+
+      const client = await storage.createClient({ ...req.body, customFields, ownerId: req.body.ownerId || user.id });
       res.status(201).json(client);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -761,7 +2050,17 @@ export async function registerRoutes(server: Server, app: Express) {
 
   app.patch("/api/clients/:id", requireAuth, async (req, res) => {
     try {
-      const client = await storage.updateClient(req.params.id, req.body);
+      let customFields;
+      if (req.body.customFields !== undefined) {
+        const existing = await storage.getClient(req.params.id);
+        if (!existing) {
+          return res.status(404).json({ message: "Client not found" });
+        }
+        customFields = await resolveCustomFieldValues("client", req.body, res, existing.customFields);
+        if (customFields === null) return;
+      }
+
+      const client = await storage.updateClient(req.params.id, { ...req.body, customFields });
       if (!client) {
         return res.status(404).json({ message: "Client not found" });
       }
@@ -880,8 +2179,17 @@ export async function registerRoutes(server: Server, app: Express) {
     }
   });
 
+  // Packages a pipeline stage drafts quotations from stay until the stage stops using them
   app.delete("/api/packages/:id", requireRole("admin"), async (req, res) => {
     try {
+      const stages = (await storage.getPipelines()).flatMap(p => p.stages.map(stage => ({ pipeline: p, stage })));
+      const usedBy = stages.find(({ stage }) =>
+        stage.entryActions.some(a => a.type === "create_quotation" && a.packageId === req.params.id));
+      if (usedBy) {
+        return res.status(400).json({
+          message: `The ${usedBy.stage.name} stage of the ${usedBy.pipeline.name} pipeline drafts quotations from this package. Remove it there first.`,
+        });
+      }
       await storage.deletePackage(req.params.id);
       res.status(204).send();
     } catch (error: any) {
@@ -1016,23 +2324,11 @@ export async function registerRoutes(server: Server, app: Express) {
         return res.status(400).json({ message: "Lead is already converted to a client" });
       }
 
-      // Create client from lead data
-      const clientData = {
-        leadId: lead.id,
-        companyName: req.body.companyName || lead.name,
-        contactName: lead.name,
-        email: lead.email || "",
-        phone: lead.mobile,
-        city: lead.city || "",
-        ownerId: lead.ownerId,
+      const client = await convertLeadToClient(lead, {
+        companyName: req.body.companyName,
         contractStartDate: req.body.contractStartDate,
         contractEndDate: req.body.contractEndDate,
-      };
-
-      const client = await storage.createClient(clientData);
-
-      // Update lead status to converted
-      await storage.updateLead(lead.id, { status: "converted" });
+      });
 
       res.status(201).json(client);
     } catch (error: any) {
@@ -1127,11 +2423,10 @@ export async function registerRoutes(server: Server, app: Express) {
   app.post("/api/quotations", requireAuth, async (req, res) => {
     try {
       const user = req.user as User;
-      const count = (await storage.getAllQuotations()).length + 1;
-      const quotationNumber = `QT-${new Date().getFullYear()}-${String(count).padStart(4, "0")}`;
+      // The number is assigned when the quotation is stored; one sent in the body is ignored
+      const { quotationNumber, ...body } = req.body;
       const quotation = await storage.createQuotation({
-        ...req.body,
-        quotationNumber,
+        ...body,
         createdById: user.id,
       });
       res.status(201).json(quotation);
@@ -1142,10 +2437,14 @@ export async function registerRoutes(server: Server, app: Express) {
 
   app.patch("/api/quotations/:id", requireAuth, async (req, res) => {
     try {
+      const existing = await storage.getQuotation(req.params.id);
       const quotation = await storage.updateQuotation(req.params.id, req.body);
       if (!quotation) {
         return res.status(404).json({ message: "Quotation not found" });
       }
+      if (existing && quotation.status !== existing.status) {
+        await rescoreLeadAfterEvent(quotation.leadId, "quotation_status_changed");
+      }
       res.json(quotation);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -1710,7 +3009,7 @@ export async function registerRoutes(server: Server, app: Express) {
   // Reports
   app.get("/api/reports", requireAuth, async (req, res) => {
     try {
-      const leads = await storage.getAllLeads();
+      const { data: leads } = await storage.queryLeads(await resolveLeadFilters(req.query, req.user as User));
       const clients = await storage.getAllClients();
       const invoices = await storage.getAllInvoices();
       const users = await storage.getAllUsers();
@@ -1793,13 +3092,77 @@ export async function registerRoutes(server: Server, app: Express) {
     }
   });
 
+  // First response times and SLA breaches per rep over the last `days` days
+  app.get("/api/reports/sla", requireAuth, async (req, res) => {
+    try {
+      const days = Number(req.query.days ?? 30);
+      if (!Number.isInteger(days) || days < 1 || days > 365) {
+        return res.status(400).json({ message: "days must be a whole number between 1 and 365" });
+      }
+      const to = new Date();
+      const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+      res.json(await buildSlaReport(from, to));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Weighted, committed and best-case pipeline value by expected close month
+  app.get("/api/reports/forecast", requireAuth, async (req, res) => {
+    try {
+      const months = Number(req.query.months ?? 6);
+      if (!Number.isInteger(months) || months < 1 || months > 24) {
+        return res.status(400).json({ message: "months must be a whole number between 1 and 24" });
+      }
+      res.json(await buildForecast(await resolveLeadFilters(req.query, req.user as User), months));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Time in stage, stage funnel, sales cycle length and stuck deals for one pipeline over the last `days` days
+  app.get("/api/reports/pipeline-velocity", requireAuth, async (req, res) => {
+    try {
+      const days = Number(req.query.days ?? 90);
+      if (!Number.isInteger(days) || days < 1 || days > 365) {
+        return res.status(400).json({ message: "days must be a whole number between 1 and 365" });
+      }
+      const pipeline = typeof req.query.pipelineId === "string" && req.query.pipelineId
+        ? await storage.getPipeline(req.query.pipelineId)
+        : await storage.getDefaultPipeline();
+      if (!pipeline) {
+        return res.status(404).json({ message: "Pipeline not found" });
+      }
+      const to = new Date();
+      const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+      res.json(await buildPipelineVelocity(pipeline, from, to));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Won and lost leads over the last `days` days, with loss reasons by source, rep and stage
+  app.get("/api/reports/win-loss", requireAuth, async (req, res) => {
+    try {
+      const days = Number(req.query.days ?? 90);
+      if (!Number.isInteger(days) || days < 1 || days > 365) {
+        return res.status(400).json({ message: "days must be a whole number between 1 and 365" });
+      }
+      const to = new Date();
+      const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+      res.json(await buildWinLossReport(await resolveLeadFilters(req.query, req.user as User), from, to));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // CSV Export
   app.get("/api/reports/export", requireAuth, async (req, res) => {
     try {
       const { type } = req.query;
 
       if (type === "leads") {
-        const leads = await storage.getAllLeads();
+        const { data: leads } = await storage.queryLeads(await resolveLeadFilters(req.query, req.user as User));
         const csv = [
           "Name,Email,Mobile,City,Source,Status,Created At",
           ...leads.map(l =>
@@ -1810,6 +3173,64 @@ export async function registerRoutes(server: Server, app: Express) {
         res.setHeader("Content-Type", "text/csv");
         res.setHeader("Content-Disposition", "attachment; filename=leads.csv");
         res.send(csv);
+      } else if (type === "clients") {
+        const clients = await storage.getAllClients();
+        const customFieldDefs = (await storage.getCustomFieldDefinitions("client")).filter(d => d.isActive);
+        const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+        const csv = [
+          ["Company", "Contact", "Email", "Phone", "City", "Created At", ...customFieldDefs.map(d => d.key)].join(","),
+          ...clients.map(c => [
+            escape(c.companyName),
+            escape(c.contactName),
+            escape(c.email),
+            escape(c.phone),
+            escape(c.city || ""),
+            escape(String(c.createdAt)),
+            ...customFieldDefs.map(d => escape(formatCustomFieldValue(c.customFields?.[d.key]))),
+          ].join(",")),
+        ].join("\n");
+
+        res.setHeader("Content-Type", "text/csv");
+        res.setHeader("Content-Disposition", "attachment; filename=clients.csv");
+        res.send(csv);
+      } else if (type === "win-loss") {
+        const days = Number(req.query.days ?? 90);
+        if (!Number.isInteger(days) || days < 1 || days > 365) {
+          return res.status(400).json({ message: "days must be a whole number between 1 and 365" });
+        }
+        const to = new Date();
+        const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+        const [deals, reasons, users, pipelines] = await Promise.all([
+          getWinLossDeals(await resolveLeadFilters(req.query, req.user as User), from, to),
+          storage.getLossReasons(),
+          storage.getAllUsers(),
+          storage.getPipelines(),
+        ]);
+        const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+        const stageName = (pipelineId: string | null, key: string | null) =>
+          key ? pipelines.find(p => p.id === pipelineId)?.stages.find(s => s.key === key)?.name ?? key : "";
+        const csv = [
+          ["Name", "Mobile", "Email", "Source", "Owner", "Pipeline", "Outcome", "Closed On", "Stage Lost From", "Loss Reason", "Competitor", "Loss Notes", "Deal Value"].join(","),
+          ...deals.map(({ lead, outcome, closedOn }) => [
+            escape(lead.name),
+            escape(lead.mobile),
+            escape(lead.email || ""),
+            escape(lead.source),
+            escape(users.find(u => u.id === lead.ownerId)?.name ?? ""),
+            escape(pipelines.find(p => p.id === lead.pipelineId)?.name ?? ""),
+            outcome,
+            closedOn,
+            escape(stageName(lead.pipelineId, lead.lostFromStage)),
+            escape(reasons.find(r => r.id === lead.lossReasonId)?.label ?? ""),
+            escape(lead.lossCompetitor || ""),
+            escape(lead.lossNotes || ""),
+            lead.dealValue ?? "",
+          ].join(",")),
+        ].join("\n");
+
+        res.setHeader("Content-Type", "text/csv");
+        res.setHeader("Content-Disposition", "attachment; filename=win-loss.csv");
+        res.send(csv);
       } else {
         res.status(400).json({ message: "Invalid export type" });
       }
@@ -1822,135 +3243,173 @@ export async function registerRoutes(server: Server, app: Express) {
   // ADVANCED FEATURES APIs
   // ==========================================
 
-  // AI Lead Scoring - Calculate score based on engagement signals
-  function calculateLeadScore(
-    lead: Lead,
-    followUps: any[],
-    notes: any[],
-    callLogs: any[] = []
-  ): { score: string; leadScore: number; reason: string } {
-    let points = 50; // Start at neutral
-    const reasons: string[] = [];
-
-    // 1. Call/WhatsApp interactions count
-    const callCount = callLogs.filter(c => c.leadId === lead.id).length;
-    const whatsappNotes = notes.filter(n => n.type === "whatsapp" || n.type === "call").length;
-    const totalInteractions = callCount + whatsappNotes;
-
-    if (totalInteractions >= 5) { points += 20; reasons.push(`${totalInteractions} interactions`); }
-    else if (totalInteractions >= 2) { points += 10; reasons.push(`${totalInteractions} interactions`); }
-    else if (totalInteractions > 0) { points += 5; reasons.push("Has interaction"); }
-
-    // 2. Budget match (if budget exists)
-    if (lead.budget) {
-      const budgetVal = parseFloat(lead.budget.toString());
-      if (budgetVal >= 50000) { points += 25; reasons.push("High budget"); }
-      else if (budgetVal >= 20000) { points += 15; reasons.push("Good budget"); }
-      else if (budgetVal >= 5000) { points += 10; reasons.push("Has budget"); }
-    }
-
-    // 3. Interest level
-    if (lead.interestLevel === "high") { points += 20; reasons.push("High interest"); }
-    else if (lead.interestLevel === "medium") { points += 10; reasons.push("Medium interest"); }
-    else if (lead.interestLevel === "low") { points -= 10; reasons.push("Low interest"); }
-
-    // 4. Last activity time (recent activity increases score)
-    const lastActivity = lead.lastActivityAt ? new Date(lead.lastActivityAt) : new Date(lead.createdAt);
-    const daysSinceActivity = Math.floor((Date.now() - lastActivity.getTime()) / (1000 * 60 * 60 * 24));
-
-    if (daysSinceActivity <= 1) { points += 20; reasons.push("Active today"); }
-    else if (daysSinceActivity <= 3) { points += 15; reasons.push("Active recently"); }
-    else if (daysSinceActivity <= 7) { points += 10; reasons.push("Active this week"); }
-    else if (daysSinceActivity > 30) { points -= 15; reasons.push("Inactive >30d"); }
-
-    // 5. Engagement signals
-    if (lead.email) { points += 5; reasons.push("Has email"); }
-    if (lead.city) { points += 3; reasons.push("Location provided"); }
-
-    // 6. Source quality
-    if (lead.source === "referral") { points += 15; reasons.push("Referral"); }
-    else if (lead.source === "google") { points += 10; reasons.push("Google"); }
-    else if (lead.source === "website") { points += 8; reasons.push("Website"); }
-
-    // 7. Pipeline progress
-    if (lead.pipelineStage === "negotiation") { points += 25; reasons.push("Negotiation"); }
-    else if (lead.pipelineStage === "proposal_sent") { points += 20; reasons.push("Proposal sent"); }
-    else if (lead.pipelineStage === "qualified") { points += 15; reasons.push("Qualified"); }
-    else if (lead.pipelineStage === "contacted") { points += 5; reasons.push("Contacted"); }
-
-    // 8. Status signals
-    if (lead.status === "interested") { points += 15; reasons.push("Interested"); }
-    else if (lead.status === "converted") { points += 30; reasons.push("Converted"); }
-    else if (lead.status === "not_interested") { points -= 30; reasons.push("Not interested"); }
-
-    // 9. Follow-up engagement
-    const completedFollowUps = followUps.filter(f => f.isCompleted).length;
-    if (completedFollowUps >= 3) { points += 15; reasons.push(`${completedFollowUps} completed follow-ups`); }
-    else if (completedFollowUps > 0) { points += 8; reasons.push("Has follow-ups"); }
-
-    // Clamp points to 0-100
-    const leadScore = Math.max(0, Math.min(100, points));
-
-    // Determine temperature tier
-    let score: string;
-    if (leadScore >= 70) score = "hot";
-    else if (leadScore >= 40) score = "warm";
-    else score = "cold";
-
-    return { score, leadScore, reason: reasons.slice(0, 4).join(", ") };
-  }
+  // Lead Scoring - rules and weights come from the active, versioned scoring model
+  app.get("/api/leads/:id/score-history", requireAuth, async (req, res) => {
+    try {
+      const lead = await storage.getLead(req.params.id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      const history = await storage.getLeadScoreHistory(lead.id);
+      res.json(history.map(serializeLeadScoreHistoryEntry));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/leads/:id/score", requireAuth, requireRole("admin", "manager", "sales"), async (req, res) => {
+    try {
+      const lead = await storage.getLead(req.params.id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+
+      const { lead: updated, result, model } = await rescoreLead(lead, "manual");
+
+      // Log activity
+      await storage.createActivityLog({
+        userId: (req.user as User).id,
+        action: "score_updated",
+        entityType: "lead",
+        entityId: lead.id,
+        details: `Score changed to ${result.score} (${result.leadScore}, model v${model.version}): ${result.reason}`,
+      });
+
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Bulk score all leads
+  app.post("/api/leads/score-all", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+    try {
+      const updated = await rescoreAllLeads("manual");
+      res.json({ message: `Scored ${updated} leads`, count: updated });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/lead-scoring/models", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+    try {
+      await getActiveScoringModel(); // makes sure version 1 exists
+      const models = await storage.getLeadScoringModels();
+      res.json(models.map(serializeLeadScoringModel));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/lead-scoring/models/active", requireAuth, async (req, res) => {
+    try {
+      res.json(serializeLeadScoringModel(await getActiveScoringModel()));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Shows how the proposed config would re-tier current leads; nothing is saved
+  app.post("/api/lead-scoring/preview", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+    try {
+      const parseResult = leadScoringModelConfigSchema.safeParse(req.body.config);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      res.json(await previewScoringModel(parseResult.data));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  const leadScoringModelSchema = z.object({
+    config: leadScoringModelConfigSchema,
+    notes: z.string().trim().max(500).optional(),
+  });
+
+  // Saves the config as a new version, makes it active and re-scores every lead with it
+  app.post("/api/lead-scoring/models", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+    try {
+      const parseResult = leadScoringModelSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const user = req.user as User;
+      await getActiveScoringModel(); // the defaults stay on record as version 1
+      const created = await storage.createLeadScoringModel({
+        config: JSON.stringify(parseResult.data.config),
+        notes: parseResult.data.notes || null,
+        createdById: user.id,
+      });
+      const model = (await storage.activateLeadScoringModel(created.id))!;
+      const rescored = await rescoreAllLeads("model_change", model);
+
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "scoring_model_activated",
+        entityType: "lead_scoring_model",
+        entityId: model.id,
+        details: `Scoring model v${model.version} applied to ${rescored} leads${model.notes ? `: ${model.notes}` : ""}`,
+      });
+      res.status(201).json({ model: serializeLeadScoringModel(model), rescored });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-  // Recalculate lead score endpoint
-  app.post("/api/leads/:id/score", requireAuth, requireRole("admin", "manager", "sales"), async (req, res) => {
+  // Switches back to an earlier version and re-scores every lead with it
+  app.post("/api/lead-scoring/models/:id/activate", requireAuth, requireRole("admin", "manager"), async (req, res) => {
     try {
-      const lead = await storage.getLead(req.params.id);
-      if (!lead) {
-        return res.status(404).json({ message: "Lead not found" });
+      const model = await storage.activateLeadScoringModel(req.params.id);
+      if (!model) {
+        return res.status(404).json({ message: "Scoring model not found" });
       }
+      const rescored = await rescoreAllLeads("model_change", model);
 
-      const followUps = await storage.getAllFollowUps();
-      const leadFollowUps = followUps.filter(f => f.leadId === lead.id);
-      const notes = await storage.getLeadNotes(lead.id);
-      const callLogs = await storage.getAllCallLogs();
-      const leadCallLogs = callLogs.filter(c => c.leadId === lead.id);
-
-      const { score, leadScore, reason } = calculateLeadScore(lead, leadFollowUps, notes, leadCallLogs);
-
-      const updated = await storage.updateLead(lead.id, { score, leadScore, scoreReason: reason });
-
-      // Log activity
       await storage.createActivityLog({
         userId: (req.user as User).id,
-        action: "score_updated",
-        entityType: "lead",
-        entityId: lead.id,
-        details: `Score changed to ${score}: ${reason}`,
+        action: "scoring_model_activated",
+        entityType: "lead_scoring_model",
+        entityId: model.id,
+        details: `Scoring model v${model.version} re-activated and applied to ${rescored} leads`,
       });
-
-      res.json(updated);
+      res.json({ model: serializeLeadScoringModel(model), rescored });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Bulk score all leads
-  app.post("/api/leads/score-all", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+  // Conversion model: the latest one plus earlier runs, so accuracy can be compared across retrains
+  app.get("/api/conversion-model", requireAuth, requireRole("admin", "manager"), async (req, res) => {
     try {
-      const leads = await storage.getAllLeads();
-      const followUps = await storage.getAllFollowUps();
-      const callLogs = await storage.getAllCallLogs();
-      let updated = 0;
+      const models = await storage.getConversionModels(10);
+      res.json({
+        current: models[0] ? serializeConversionModel(models[0]) : null,
+        history: models.map(serializeConversionModel),
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      for (const lead of leads) {
-        const leadFollowUps = followUps.filter(f => f.leadId === lead.id);
-        const notes = await storage.getLeadNotes(lead.id);
-        const leadCallLogs = callLogs.filter(c => c.leadId === lead.id);
-        const { score, leadScore, reason } = calculateLeadScore(lead, leadFollowUps, notes, leadCallLogs);
-        await storage.updateLead(lead.id, { score, leadScore, scoreReason: reason });
-        updated++;
+  // Retrains now instead of waiting for the nightly run
+  app.post("/api/conversion-model/train", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+    try {
+      const user = req.user as User;
+      const result = await trainConversionModel(user.id);
+      if (!result.trained) {
+        return res.status(400).json({ message: result.reason });
       }
+      const model = serializeConversionModel(result.model);
 
-      res.json({ message: `Scored ${updated} leads`, count: updated });
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "conversion_model_trained",
+        entityType: "conversion_model",
+        entityId: model.id,
+        details: `Conversion model trained on ${model.metrics.trainingSize} leads, holdout accuracy ${(model.metrics.accuracy * 100).toFixed(1)}%`,
+      });
+      res.json(model);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -2172,6 +3631,11 @@ export async function registerRoutes(server: Server, app: Express) {
         details: `${log.callType} call - ${log.outcome || "completed"}`,
       });
 
+      if (log.leadId) {
+        await storage.updateLead(log.leadId, { lastActivityAt: log.calledAt });
+        await rescoreLeadAfterEvent(log.leadId, "call_logged");
+      }
+
       res.status(201).json(log);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -2254,11 +3718,8 @@ export async function registerRoutes(server: Server, app: Express) {
       let detectedContactName = contactName;
 
       if (!detectedLeadId && !detectedClientId) {
-        const allLeads = await storage.getAllLeads();
-        const allClients = await storage.getAllClients();
-
-        const matchingLead = allLeads.find(l => l.mobile === phone);
-        const matchingClient = allClients.find(c => c.phone === phone);
+        const matchingLead = await storage.findLeadByPhone(phone);
+        const matchingClient = await storage.findClientByPhone(phone);
 
         if (matchingLead) {
           detectedLeadId = matchingLead.id;
@@ -2327,6 +3788,15 @@ export async function registerRoutes(server: Server, app: Express) {
         sentByUserId: user.id,
         sentAt: new Date(),
       });
+
+      // A reply from the lead is an interaction: it counts as activity and can move the score
+      if (message.direction === "in" && !message.isNote) {
+        const conversation = await storage.getWhatsappConversation(conversationId);
+        if (conversation?.leadId) {
+          await storage.updateLead(conversation.leadId, { lastActivityAt: message.sentAt });
+          await rescoreLeadAfterEvent(conversation.leadId, "whatsapp_reply");
+        }
+      }
       res.status(201).json(message);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -2404,93 +3874,169 @@ export async function registerRoutes(server: Server, app: Express) {
   });
 
   // ==========================================
-  // DUPLICATE LEAD DETECTION
+  // LEAD MERGE
   // ==========================================
 
-  app.get("/api/leads/duplicates", requireAuth, requireRole("admin", "manager", "sales"), async (req, res) => {
+  const leadMergeSchema = z.object({
+    primaryId: z.string().min(1),
+    duplicateIds: z.array(z.string().min(1)).min(1),
+    // Winning lead id per field ("custom:<key>" for custom fields); unspecified fields keep the primary's value
+    fields: z.record(z.string()).optional(),
+  });
+
+  function serializeLeadMerge(merge: LeadMerge): SerializedLeadMerge {
+    return {
+      ...merge,
+      mergedLeadIds: JSON.parse(merge.mergedLeadIds),
+      mergedLeads: JSON.parse(merge.mergedLeads),
+      fieldSources: JSON.parse(merge.fieldSources),
+      primaryBefore: JSON.parse(merge.primaryBefore),
+      primaryAfter: JSON.parse(merge.primaryAfter),
+      movedRecords: JSON.parse(merge.movedRecords),
+    };
+  }
+
+  // Merge duplicate leads into a primary lead, keeping every related record
+  app.post("/api/leads/merge", requireAuth, requireRole("admin", "manager"), async (req, res) => {
     try {
-      const leads = await storage.getAllLeads();
-      const duplicates: { lead: Lead; matches: Lead[] }[] = [];
-      const processed = new Set<string>();
+      const parseResult = leadMergeSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const { primaryId, fields = {} } = parseResult.data;
+      const duplicateIds = Array.from(new Set(parseResult.data.duplicateIds));
 
-      for (const lead of leads) {
-        if (processed.has(lead.id)) continue;
+      if (duplicateIds.includes(primaryId)) {
+        return res.status(400).json({ message: "The primary lead cannot also be a duplicate" });
+      }
 
-        const matches = leads.filter(l =>
-          l.id !== lead.id &&
-          !processed.has(l.id) &&
-          (l.mobile === lead.mobile || (l.email && lead.email && l.email === lead.email))
-        );
+      const primary = await storage.getLead(primaryId);
+      if (!primary) {
+        return res.status(404).json({ message: "Primary lead not found" });
+      }
+      const duplicates: Lead[] = [];
+      for (const id of duplicateIds) {
+        const lead = await storage.getLead(id);
+        if (!lead) {
+          return res.status(404).json({ message: `Lead ${id} not found` });
+        }
+        duplicates.push(lead);
+      }
+
+      const leadIds = new Set([primaryId, ...duplicateIds]);
+      const invalidChoices = Object.entries(fields).filter(([, leadId]) => !leadIds.has(leadId)).map(([field]) => field);
+      if (invalidChoices.length > 0) {
+        return res.status(400).json({ message: `Field choices must name one of the merged leads: ${invalidChoices.join(", ")}` });
+      }
 
-        if (matches.length > 0) {
-          duplicates.push({ lead, matches });
-          processed.add(lead.id);
-          matches.forEach(m => processed.add(m.id));
+      const user = req.user as User;
+      const { updates, fieldSources } = resolveLeadMerge(primary, duplicates, fields);
+
+      // The merged lead's loss details and won date must agree with the stage and status it ends up with
+      const merged = { ...primary, ...updates };
+      const outcome = resolveLeadOutcome(primary, merged, await stageOutcome(merged.pipelineId, merged.pipelineStage));
+      const changes = updates as Record<string, unknown>;
+      for (const [key, value] of Object.entries(outcome)) {
+        if (JSON.stringify(value) !== JSON.stringify(primary[key as keyof Lead])) {
+          changes[key] = value;
+        } else {
+          delete changes[key];
+          delete fieldSources[key];
         }
       }
 
-      res.json(duplicates);
+      const merge = await storage.mergeLeads({ primaryId, duplicateIds, updates, fieldSources, mergedById: user.id });
+
+      await storage.createActivityLog({
+        userId: user.id,
+        action: "leads_merged",
+        entityType: "lead",
+        entityId: primaryId,
+        details: `Merged ${duplicates.map(d => d.name).join(", ")} into this lead`,
+      });
+
+      res.json({
+        message: `Merged ${duplicateIds.length} duplicates into primary lead`,
+        lead: await storage.getLead(primaryId),
+        merge: serializeLeadMerge(merge),
+      });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Merge duplicate leads
-  app.post("/api/leads/merge", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+  // Merge history, optionally for one primary lead
+  app.get("/api/lead-merges", requireAuth, requireRole("admin", "manager", "sales"), async (req, res) => {
     try {
-      const { primaryId, duplicateIds } = req.body;
+      const leadId = typeof req.query.leadId === "string" ? req.query.leadId : undefined;
+      const merges = await storage.getLeadMerges(leadId);
+      res.json(merges.map(serializeLeadMerge));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      if (!primaryId || !duplicateIds || !Array.isArray(duplicateIds)) {
-        return res.status(400).json({ message: "Primary ID and duplicate IDs required" });
+  app.get("/api/lead-merges/:id", requireAuth, requireRole("admin", "manager", "sales"), async (req, res) => {
+    try {
+      const merge = await storage.getLeadMerge(req.params.id);
+      if (!merge) {
+        return res.status(404).json({ message: "Merge not found" });
       }
+      res.json(serializeLeadMerge(merge));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      const primary = await storage.getLead(primaryId);
-      if (!primary) {
-        return res.status(404).json({ message: "Primary lead not found" });
+  app.post("/api/lead-merges/:id/undo", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+    try {
+      const merge = await storage.getLeadMerge(req.params.id);
+      if (!merge) {
+        return res.status(404).json({ message: "Merge not found" });
+      }
+      if (merge.undoneAt) {
+        return res.status(400).json({ message: "This merge has already been undone" });
       }
 
-      // Merge notes and follow-ups from duplicates to primary
-      for (const dupId of duplicateIds) {
-        const dupFollowUps = (await storage.getAllFollowUps()).filter(f => f.leadId === dupId);
-        for (const fu of dupFollowUps) {
-          await storage.createFollowUp({
-            ...fu,
-            leadId: primaryId,
-          });
-        }
-
-        const dupNotes = await storage.getLeadNotes(dupId);
-        for (const note of dupNotes) {
-          await storage.createLeadNote({
-            leadId: primaryId,
-            userId: note.userId,
-            content: `[Merged] ${note.content}`,
-            type: note.type,
-          });
-        }
-
-        // Delete the duplicate
-        await storage.deleteLead(dupId);
+      const user = req.user as User;
+      const result = await storage.undoLeadMerge(merge.id, user.id);
+      if (!result) {
+        return res.status(400).json({ message: "This merge has already been undone" });
       }
+      const { merge: undone, keptFields } = result;
 
       await storage.createActivityLog({
-        userId: (req.user as User).id,
-        action: "leads_merged",
+        userId: user.id,
+        action: "merge_undone",
         entityType: "lead",
-        entityId: primaryId,
-        details: `Merged ${duplicateIds.length} duplicate leads`,
+        entityId: merge.primaryLeadId,
+        details: keptFields.length > 0
+          ? `Restored ${JSON.parse(merge.mergedLeadIds).length} leads; kept later edits to ${keptFields.join(", ")}`
+          : `Restored ${JSON.parse(merge.mergedLeadIds).length} leads`,
       });
 
-      res.json({ message: `Merged ${duplicateIds.length} duplicates into primary lead` });
+      res.json({ merge: serializeLeadMerge(undone), keptFields });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
   // ==========================================
-  // LEAD DISTRIBUTION (Round Robin)
+  // LEAD DISTRIBUTION
   // ==========================================
 
+  const distributionSettingsSchema = z.object({
+    isEnabled: z.boolean(),
+    method: z.enum(distributionMethods),
+    reassignAfterMinutes: z.number().int().min(1).max(7 * 24 * 60).nullable(),
+  }).partial();
+
+  const distributionRepSchema = z.object({
+    weight: z.number().int().min(0).max(1000),
+    dailyCap: z.number().int().min(0).nullable(),
+    isOutOfOffice: z.boolean(),
+  }).partial();
+
   app.get("/api/distribution-settings", requireAuth, requireRole("admin", "manager"), async (req, res) => {
     try {
       let settings = await storage.getDistributionSettings();
@@ -2505,41 +4051,253 @@ export async function registerRoutes(server: Server, app: Express) {
 
   app.patch("/api/distribution-settings", requireAuth, requireRole("admin"), async (req, res) => {
     try {
-      const settings = await storage.updateDistributionSettings(req.body);
+      const parseResult = distributionSettingsSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      // Turning reassignment on starts its clock, so leads distributed before are never swept up at once
+      const current = await storage.getDistributionSettings();
+      const enabling = !!parseResult.data.reassignAfterMinutes && !current?.reassignAfterMinutes;
+      const settings = await storage.updateDistributionSettings({
+        ...parseResult.data,
+        ...(enabling && { reassignEnabledAt: new Date() }),
+      });
       res.json(settings);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
+  // Every active user with their distribution settings and today's load
+  app.get("/api/distribution/reps", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+    try {
+      const [users, reps, loads] = await Promise.all([
+        storage.getAllUsers(),
+        storage.getDistributionReps(),
+        storage.getRepLoads(startOfToday()),
+      ]);
+      const statuses: DistributionRepStatus[] = users
+        .filter(u => u.isActive)
+        .map(u => {
+          const rep = reps.find(r => r.userId === u.id);
+          const load = loads.get(u.id);
+          return {
+            userId: u.id,
+            name: u.name,
+            role: u.role,
+            inRotation: u.role === "sales",
+            weight: rep?.weight ?? 1,
+            dailyCap: rep?.dailyCap ?? null,
+            isOutOfOffice: rep?.isOutOfOffice ?? false,
+            openLeads: load?.openLeads ?? 0,
+            distributedToday: load?.distributedSince ?? 0,
+          };
+        });
+      res.json(statuses);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // The signed-in user's own availability
+  app.get("/api/distribution/reps/me", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const rep = (await storage.getDistributionReps()).find(r => r.userId === user.id);
+      res.json({ isOutOfOffice: rep?.isOutOfOffice ?? false });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Admins and managers set any rep's weight, cap and availability; reps may mark themselves out of office
+  app.patch("/api/distribution/reps/:userId", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const parseResult = distributionRepSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const isManager = user.role === "admin" || user.role === "manager";
+      const onlyAvailability = Object.keys(parseResult.data).every(key => key === "isOutOfOffice");
+      if (!isManager && !(req.params.userId === user.id && onlyAvailability)) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      const target = await storage.getUser(req.params.userId);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const existing = (await storage.getDistributionReps()).find(r => r.userId === target.id);
+      const rep = await storage.upsertDistributionRep({
+        userId: target.id,
+        weight: existing?.weight ?? 1,
+        dailyCap: existing?.dailyCap ?? null,
+        isOutOfOffice: existing?.isOutOfOffice ?? false,
+        ...parseResult.data,
+      });
+      res.json(rep);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/distribution/rules", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+    try {
+      res.json(await storage.getDistributionRules());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Rule assignees must be existing users
+  const unknownAssignees = async (assigneeIds: string[]) => {
+    const users = await storage.getAllUsers();
+    return assigneeIds.filter(id => !users.some(u => u.id === id));
+  };
+
+  app.post("/api/distribution/rules", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      const parseResult = insertDistributionRuleSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      if ((await unknownAssignees(parseResult.data.assigneeIds)).length > 0) {
+        return res.status(400).json({ message: "Unknown assignee" });
+      }
+      const rule = await storage.createDistributionRule(parseResult.data);
+      res.status(201).json(rule);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/distribution/rules/:id", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      const parseResult = insertDistributionRuleSchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      if (parseResult.data.assigneeIds && (await unknownAssignees(parseResult.data.assigneeIds)).length > 0) {
+        return res.status(400).json({ message: "Unknown assignee" });
+      }
+      const rule = await storage.updateDistributionRule(req.params.id, parseResult.data);
+      if (!rule) {
+        return res.status(404).json({ message: "Distribution rule not found" });
+      }
+      res.json(rule);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/distribution/rules/:id", requireAuth, requireRole("admin"), async (req, res) => {
+    try {
+      await storage.deleteDistributionRule(req.params.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Distribute unassigned leads
   app.post("/api/leads/distribute", requireAuth, requireRole("admin", "manager"), async (req, res) => {
     try {
+      const distributor = await createLeadDistributor();
+      if (!distributor) {
+        return res.status(400).json({ message: "Lead distribution is disabled" });
+      }
+
       const leads = await storage.getAllLeads();
       const unassigned = leads.filter(l => !l.ownerId);
-      let distributed = 0;
+      const assignments: LeadAssignment[] = [];
 
       for (const lead of unassigned) {
-        const assignee = await storage.getNextAssignee();
+        const assignee = distributor.assign(lead);
         if (assignee) {
           await storage.updateLead(lead.id, {
             ownerId: assignee.id,
             distributedAt: new Date(),
+            reassignCount: 0,
           });
-          await storage.updateDistributionSettings({ lastAssignedUserId: assignee.id });
-          distributed++;
+          assignments.push({ leadId: lead.id, leadName: lead.name, userId: assignee.id });
         }
       }
+      await recordAssignments(distributor, assignments);
+      const distributed = assignments.length;
 
       await storage.createActivityLog({
         userId: (req.user as User).id,
         action: "leads_distributed",
         entityType: "lead",
         entityId: null,
-        details: `Distributed ${distributed} leads via round robin`,
+        details: `Distributed ${distributed} leads via ${distributionMethodLabels[distributor.method].toLowerCase()}`,
+      });
+
+      // Leads left over when every eligible rep is out of office or at their daily cap
+      const skipped = unassigned.length - distributed;
+      res.json({
+        message: `Distributed ${distributed} leads${skipped > 0 ? `; ${skipped} left unassigned, no rep available` : ""}`,
+        count: distributed,
+        skipped,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // ==========================================
+  // RESPONSE SLAS
+  // ==========================================
+
+  app.get("/api/sla-policies", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+    try {
+      res.json(await storage.getSlaPolicies());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/sla-policies", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+    try {
+      const parseResult = insertSlaPolicySchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const policy = await storage.createSlaPolicy(parseResult.data);
+      await storage.createActivityLog({
+        userId: (req.user as User).id,
+        action: "sla_policy_created",
+        entityType: "sla_policy",
+        entityId: policy.id,
+        details: `Created SLA policy "${policy.name}" (${policy.responseMinutes} minutes)`,
       });
+      res.status(201).json(policy);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      res.json({ message: `Distributed ${distributed} leads`, count: distributed });
+  app.patch("/api/sla-policies/:id", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+    try {
+      const parseResult = insertSlaPolicySchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const policy = await storage.updateSlaPolicy(req.params.id, parseResult.data);
+      if (!policy) {
+        return res.status(404).json({ message: "SLA policy not found" });
+      }
+      res.json(policy);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/sla-policies/:id", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+    try {
+      await storage.deleteSlaPolicy(req.params.id);
+      res.status(204).send();
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -2654,6 +4412,62 @@ export async function registerRoutes(server: Server, app: Express) {
     }
   });
 
+  // Checklist templates, copied onto clients by pipeline stage-entry actions
+  app.get("/api/checklist-templates", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getChecklistTemplates());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/checklist-templates", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+    try {
+      const parseResult = insertChecklistTemplateSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const template = await storage.createChecklistTemplate({ ...parseResult.data, createdById: (req.user as User).id });
+      res.status(201).json(template);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/checklist-templates/:id", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+    try {
+      const parseResult = insertChecklistTemplateSchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Validation failed", errors: parseResult.error.errors });
+      }
+      const template = await storage.updateChecklistTemplate(req.params.id, parseResult.data);
+      if (!template) {
+        return res.status(404).json({ message: "Checklist template not found" });
+      }
+      res.json(template);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Templates a pipeline stage adds to new clients stay until the stage stops using them
+  app.delete("/api/checklist-templates/:id", requireAuth, requireRole("admin", "manager"), async (req, res) => {
+    try {
+      const stages = (await storage.getPipelines()).flatMap(p => p.stages.map(stage => ({ pipeline: p, stage })));
+      const usedBy = stages.find(({ stage }) =>
+        stage.entryActions.some(a => a.type === "assign_checklists" && a.checklistTemplateIds.includes(req.params.id)));
+      if (usedBy) {
+        return res.status(400).json({
+          message: `The ${usedBy.stage.name} stage of the ${usedBy.pipeline.name} pipeline adds this checklist. Remove it there first.`,
+        });
+      }
+      await storage.deleteChecklistTemplate(req.params.id);
+      res.status(204).send();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // ==========================================
   // KPI DASHBOARD ADVANCED STATS
   // ==========================================
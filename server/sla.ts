@@ -0,0 +1,218 @@
+import { storage } from './storage';
+import type { InsertSlaBreach, Lead, SlaBreach, SlaPolicy, SlaScope } from '@shared/schema';
+import type { SlaRepReport, SlaReport } from '@shared/sla';
+
+// First-response SLAs. A lead is answered by its first call, outbound WhatsApp message or completed
+// follow-up; an inbound WhatsApp message by the next outbound message in its conversation.
+// The scheduler looks back over the last week, records a breach for every subject answered late or
+// not at all, and escalates new unanswered breaches to managers and the owner. Policies only apply to
+// subjects that started after the policy was created, so adding one does not flag old history.
+
+const LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+type PolicyLead = Pick<Lead, 'source' | 'score'>;
+
+interface SlaSubject {
+  scope: SlaScope;
+  subjectId: string;
+  leadId: string | null;
+  conversationId: string | null;
+  ownerId: string | null;
+  name: string;
+  lead?: PolicyLead;
+  startedAt: Date;
+  respondedAt: Date | null;
+}
+
+const specificity = (policy: SlaPolicy) => (policy.source ? 1 : 0) + (policy.score ? 1 : 0);
+
+// The most specific active policy for the subject; among equally specific ones, the strictest
+export function matchSlaPolicy(policies: SlaPolicy[], scope: SlaScope, startedAt: Date, lead?: PolicyLead): SlaPolicy | undefined {
+  return policies
+    .filter(policy => policy.isActive && policy.scope === scope && new Date(policy.createdAt) <= startedAt)
+    .filter(policy => (!policy.source || policy.source === lead?.source) && (!policy.score || policy.score === lead?.score))
+    .sort((a, b) => specificity(b) - specificity(a) || a.responseMinutes - b.responseMinutes)[0];
+}
+
+async function collectSubjects(since: Date): Promise<SlaSubject[]> {
+  const { data: leads } = await storage.queryLeads({ createdFrom: since });
+  const firstResponses = await storage.getLeadFirstResponses(leads.map(lead => lead.id));
+  const subjects: SlaSubject[] = leads.map(lead => ({
+    scope: 'new_lead',
+    subjectId: lead.id,
+    leadId: lead.id,
+    conversationId: null,
+    ownerId: lead.ownerId,
+    name: lead.name,
+    lead,
+    startedAt: new Date(lead.createdAt),
+    respondedAt: firstResponses.get(lead.id) ?? null,
+  }));
+
+  const messages = await storage.getAwaitedInboundMessages({ since });
+  const leadsById = new Map(leads.map(lead => [lead.id, lead as Lead | undefined]));
+  for (const message of messages) {
+    if (message.leadId && !leadsById.has(message.leadId)) leadsById.set(message.leadId, await storage.getLead(message.leadId));
+  }
+  const conversations = new Map((await storage.getAllWhatsappConversations()).map(c => [c.id, c]));
+  for (const message of messages) {
+    const lead = message.leadId ? leadsById.get(message.leadId) : undefined;
+    const conversation = conversations.get(message.conversationId);
+    subjects.push({
+      scope: 'inbound_message',
+      subjectId: message.messageId,
+      leadId: message.leadId,
+      conversationId: message.conversationId,
+      ownerId: message.assignedUserId ?? lead?.ownerId ?? null,
+      name: lead?.name ?? conversation?.contactName ?? conversation?.phone ?? 'WhatsApp contact',
+      lead,
+      startedAt: message.receivedAt,
+      respondedAt: message.respondedAt,
+    });
+  }
+  return subjects;
+}
+
+// Records when open breaches were eventually answered. A lead breach follows its lead through merges,
+// so the response is looked up on the lead it belongs to now rather than the one it was recorded for.
+async function closeAnsweredBreaches(): Promise<void> {
+  const open = await storage.getOpenSlaBreaches();
+  if (open.length === 0) return;
+  const breachLeadId = (breach: SlaBreach) => breach.leadId ?? breach.subjectId;
+  const leadBreaches = open.filter(breach => breach.scope === 'new_lead');
+  const messageBreaches = open.filter(breach => breach.scope === 'inbound_message');
+  const [firstResponses, messages] = await Promise.all([
+    storage.getLeadFirstResponses(leadBreaches.map(breachLeadId)),
+    storage.getAwaitedInboundMessages({ messageIds: messageBreaches.map(breach => breach.subjectId) }),
+  ]);
+  const replies = new Map(messages.map(message => [message.messageId, message.respondedAt]));
+  for (const breach of open) {
+    const respondedAt = breach.scope === 'new_lead' ? firstResponses.get(breachLeadId(breach)) : replies.get(breach.subjectId);
+    if (respondedAt) await storage.updateSlaBreach(breach.id, { respondedAt });
+  }
+}
+
+// Tells managers (admins when there are none) and the owner about breaches nobody has answered yet
+async function escalate(breaches: SlaBreach[], subjects: Map<string, SlaSubject>, policies: Map<string, SlaPolicy>): Promise<void> {
+  const open = breaches.filter(breach => !breach.respondedAt);
+  if (open.length === 0) return;
+  const users = (await storage.getAllUsers()).filter(user => user.isActive);
+  const managers = users.filter(user => user.role === 'manager');
+  const escalateTo = managers.length > 0 ? managers : users.filter(user => user.role === 'admin');
+  const names = new Map(users.map(user => [user.id, user.name]));
+
+  for (const breach of open) {
+    const subject = subjects.get(`${breach.scope}:${breach.subjectId}`)!;
+    const policy = breach.policyId ? policies.get(breach.policyId) : undefined;
+    const what = breach.scope === 'new_lead' ? `New lead ${subject.name}` : `WhatsApp message from ${subject.name}`;
+    const limit = policy ? `${policy.responseMinutes} minutes (${policy.name})` : 'the SLA';
+    const link = breach.scope === 'new_lead' ? `/leads?notes=${breach.leadId}` : '/whatsapp-inbox';
+    const owner = breach.ownerId ? names.get(breach.ownerId) : undefined;
+
+    for (const manager of escalateTo) {
+      if (manager.id === breach.ownerId) continue;
+      await storage.createNotification({
+        userId: manager.id,
+        type: 'sla_breach',
+        title: 'Response SLA breached',
+        message: `${what} was not answered within ${limit}${owner ? `; owner ${owner}` : '; no owner'}`,
+        link,
+      });
+    }
+    if (breach.ownerId) {
+      await storage.createNotification({
+        userId: breach.ownerId,
+        type: 'sla_breach',
+        title: 'Response SLA breached',
+        message: `${what} was not answered within ${limit} and has been escalated`,
+        link,
+      });
+    }
+    await storage.updateSlaBreach(breach.id, { escalatedAt: new Date() });
+  }
+}
+
+export async function checkResponseSlas(): Promise<void> {
+  try {
+    await closeAnsweredBreaches();
+    const policies = (await storage.getSlaPolicies()).filter(policy => policy.isActive);
+    if (policies.length === 0) return;
+
+    const now = new Date();
+    const subjects = await collectSubjects(new Date(now.getTime() - LOOKBACK_MS));
+    const breaches: InsertSlaBreach[] = [];
+    for (const subject of subjects) {
+      const policy = matchSlaPolicy(policies, subject.scope, subject.startedAt, subject.lead);
+      if (!policy) continue;
+      const dueAt = new Date(subject.startedAt.getTime() + policy.responseMinutes * MINUTE_MS);
+      if (subject.respondedAt ? subject.respondedAt <= dueAt : now <= dueAt) continue;
+      breaches.push({
+        scope: subject.scope,
+        subjectId: subject.subjectId,
+        leadId: subject.leadId,
+        conversationId: subject.conversationId,
+        policyId: policy.id,
+        ownerId: subject.ownerId,
+        startedAt: subject.startedAt,
+        dueAt,
+        respondedAt: subject.respondedAt,
+      });
+    }
+
+    const created = await storage.createSlaBreaches(breaches);
+    await escalate(
+      created,
+      new Map(subjects.map(subject => [`${subject.scope}:${subject.subjectId}`, subject])),
+      new Map(policies.map(policy => [policy.id, policy])),
+    );
+    if (created.length > 0) console.log(`Recorded ${created.length} response SLA breaches`);
+  } catch (error) {
+    console.error('Response SLA check error:', error);
+  }
+}
+
+// Per rep: leads created in the period, how quickly they were first answered, and SLA breaches
+export async function buildSlaReport(from: Date, to: Date): Promise<SlaReport> {
+  const [{ data: leads }, breaches, users] = await Promise.all([
+    storage.queryLeads({ createdFrom: from, createdTo: to }),
+    storage.getSlaBreaches({ from, to }),
+    storage.getAllUsers(),
+  ]);
+  const firstResponses = await storage.getLeadFirstResponses(leads.map(lead => lead.id));
+
+  const rows = new Map<string | null, SlaRepReport & { totalMinutes: number }>();
+  const rowFor = (userId: string | null) => {
+    let row = rows.get(userId);
+    if (!row) {
+      const name = userId ? users.find(user => user.id === userId)?.name ?? 'Unknown user' : 'Unassigned';
+      row = { userId, name, leads: 0, responded: 0, avgFirstResponseMinutes: null, leadBreaches: 0, messageBreaches: 0, openBreaches: 0, totalMinutes: 0 };
+      rows.set(userId, row);
+    }
+    return row;
+  };
+
+  for (const lead of leads) {
+    const row = rowFor(lead.ownerId);
+    row.leads++;
+    const respondedAt = firstResponses.get(lead.id);
+    if (respondedAt) {
+      row.responded++;
+      row.totalMinutes += Math.max(0, respondedAt.getTime() - new Date(lead.createdAt).getTime()) / MINUTE_MS;
+    }
+  }
+  for (const breach of breaches) {
+    const row = rowFor(breach.ownerId);
+    if (breach.scope === 'new_lead') row.leadBreaches++;
+    else row.messageBreaches++;
+    if (!breach.respondedAt) row.openBreaches++;
+  }
+
+  const reps = Array.from(rows.values())
+    .map(({ totalMinutes, ...row }) => ({
+      ...row,
+      avgFirstResponseMinutes: row.responded > 0 ? Math.round(totalMinutes / row.responded) : null,
+    }))
+    .sort((a, b) => (b.leadBreaches + b.messageBreaches) - (a.leadBreaches + a.messageBreaches) || a.name.localeCompare(b.name));
+  return { from: from.toISOString(), to: to.toISOString(), reps };
+}
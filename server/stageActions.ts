@@ -0,0 +1,142 @@
+import { addDays } from 'date-fns';
+import { storage } from './storage';
+import type { StageActionResult } from '@shared/stageActions';
+import { stageEntryActionTypes, type Client, type Lead, type PipelineStage, type StageEntryAction, type User } from '@shared/schema';
+
+export interface ClientConversionDetails {
+  companyName?: string;
+  contractStartDate?: string;
+  contractEndDate?: string;
+}
+
+// Creates a client from the lead and marks the lead converted
+export async function convertLeadToClient(lead: Lead, details: ClientConversionDetails = {}): Promise<Client> {
+  const client = await storage.createClient({
+    leadId: lead.id,
+    companyName: details.companyName || lead.name,
+    contactName: lead.name,
+    email: lead.email || '',
+    phone: lead.mobile,
+    city: lead.city || '',
+    ownerId: lead.ownerId,
+    contractStartDate: details.contractStartDate,
+    contractEndDate: details.contractEndDate,
+  });
+  await storage.updateLead(lead.id, { status: 'converted', wonAt: lead.wonAt ?? new Date() });
+  return client;
+}
+
+interface ActionContext {
+  lead: Lead;
+  stage: PipelineStage;
+  user: User;
+  client: Client | undefined; // set once the lead is a client, including by an earlier action of the same run
+}
+
+async function runAction(action: StageEntryAction, ctx: ActionContext): Promise<StageActionResult> {
+  const { lead, stage, user } = ctx;
+  switch (action.type) {
+    case 'convert_to_client': {
+      if (ctx.client || lead.status === 'converted') {
+        return { type: action.type, status: 'skipped', message: 'Already a client' };
+      }
+      ctx.client = await convertLeadToClient(lead);
+      return { type: action.type, status: 'done', message: `Converted to client ${ctx.client.companyName}` };
+    }
+    case 'create_quotation': {
+      const pkg = await storage.getPackage(action.packageId);
+      if (!pkg) return { type: action.type, status: 'failed', message: 'Quotation package not found' };
+      const quotations = await storage.getQuotationsByLead(lead.id);
+      if (quotations.some(q => q.packageName === pkg.name && q.status !== 'rejected')) {
+        return { type: action.type, status: 'skipped', message: `A quotation for ${pkg.name} already exists` };
+      }
+      const quotation = await storage.createQuotation({
+        leadId: lead.id,
+        clientId: ctx.client?.id ?? null,
+        createdById: user.id,
+        packageName: pkg.name,
+        items: JSON.stringify([{ name: pkg.name, description: pkg.description || pkg.name, quantity: 1, price: Number(pkg.price) }]),
+        subtotal: pkg.price,
+        tax: '0',
+        total: pkg.price,
+        status: 'draft',
+        notes: `Drafted when the lead moved to ${stage.name}`,
+      });
+      return { type: action.type, status: 'done', message: `Drafted quotation ${quotation.quotationNumber}` };
+    }
+    case 'create_task': {
+      const tasks = await storage.getTasksByLead(lead.id);
+      if (tasks.some(t => t.title === action.title && t.status !== 'done')) {
+        return { type: action.type, status: 'skipped', message: `"${action.title}" is already open` };
+      }
+      await storage.createTask({
+        title: action.title,
+        description: action.description ?? null,
+        priority: action.priority,
+        status: 'pending',
+        dueDate: addDays(new Date(), action.dueInDays),
+        assigneeId: lead.ownerId ?? user.id,
+        creatorId: user.id,
+        leadId: lead.id,
+        clientId: ctx.client?.id ?? null,
+      });
+      return { type: action.type, status: 'done', message: `Created task "${action.title}"` };
+    }
+    case 'assign_checklists': {
+      if (!ctx.client) return { type: action.type, status: 'skipped', message: 'Not a client yet, so no checklists were added' };
+      const existing = new Set((await storage.getChecklistsByClient(ctx.client.id)).map(c => c.name));
+      const added: string[] = [];
+      const missing: string[] = [];
+      for (const templateId of action.checklistTemplateIds) {
+        const template = await storage.getChecklistTemplate(templateId);
+        if (!template) {
+          missing.push(templateId);
+        } else if (!existing.has(template.name)) {
+          await storage.createChecklistFromTemplate(ctx.client.id, template, user.id);
+          added.push(template.name);
+        }
+      }
+      if (missing.length > 0) {
+        return { type: action.type, status: 'failed', message: `${missing.length} checklist template${missing.length === 1 ? ' was' : 's were'} not found${added.length > 0 ? `; added ${added.join(', ')}` : ''}` };
+      }
+      return added.length > 0
+        ? { type: action.type, status: 'done', message: `Added checklists ${added.join(', ')}` }
+        : { type: action.type, status: 'skipped', message: 'The client already has these checklists' };
+    }
+  }
+}
+
+// Runs the entry actions of the stage a lead was just moved into, on behalf of the user who moved it.
+// Conversion runs first so the quotation, task and checklists attach to the new client. Actions whose
+// result already exists are skipped, so moving a lead out of a stage and back does not repeat them.
+// A failing action does not stop the others; the run is recorded in the activity log.
+export async function runStageEntryActions(lead: Lead, user: User): Promise<StageActionResult[]> {
+  const pipeline = lead.pipelineId ? await storage.getPipeline(lead.pipelineId) : undefined;
+  const stage = pipeline?.stages.find(s => s.key === lead.pipelineStage);
+  if (!stage || stage.entryActions.length === 0) return [];
+
+  const ctx: ActionContext = {
+    lead,
+    stage,
+    user,
+    client: await storage.getClientByLead(lead.id),
+  };
+  const actions = [...stage.entryActions].sort((a, b) => stageEntryActionTypes.indexOf(a.type) - stageEntryActionTypes.indexOf(b.type));
+  const results: StageActionResult[] = [];
+  for (const action of actions) {
+    try {
+      results.push(await runAction(action, ctx));
+    } catch (error: any) {
+      results.push({ type: action.type, status: 'failed', message: error.message });
+    }
+  }
+
+  await storage.createActivityLog({
+    userId: user.id,
+    action: 'stage_actions_run',
+    entityType: 'lead',
+    entityId: lead.id,
+    details: `Entered ${stage.name}: ${results.map(r => r.message).join('; ')}`,
+  });
+  return results;
+}
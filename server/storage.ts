@@ -1,8 +1,8 @@
 import {
   users, leads, leadNotes, followUps, clients, services, clientServices, packages,
   tasks, quotations, invoices, payments, campaigns, activityLogs, notifications,
-  automationRules, automationRunLogs, callLogs, checklists, checklistItems, distributionSettings,
-  whatsappConversations, whatsappMessages, quickReplyTemplates,
+  automationRules, automationRunLogs, callLogs, checklists, checklistItems, checklistTemplates, distributionSettings,
+  whatsappConversations, whatsappMessages, quickReplyTemplates, leadViews,
   type User, type InsertUser, type Lead, type InsertLead, type LeadNote, type InsertLeadNote,
   type FollowUp, type InsertFollowUp, type Client, type InsertClient, type Service, type InsertService,
   type ClientService, type InsertClientService, type Package, type InsertPackage,
@@ -12,13 +12,380 @@ import {
   type AutomationRule, type InsertAutomationRule, type AutomationRunLog, type InsertAutomationRunLog,
   type CallLog, type InsertCallLog,
   type Checklist, type InsertChecklist, type ChecklistItem, type InsertChecklistItem,
+  type ChecklistTemplate, type InsertChecklistTemplate,
   type DistributionSettings,
   type WhatsappConversation, type InsertWhatsappConversation,
   type WhatsappMessage, type InsertWhatsappMessage,
-  type QuickReplyTemplate, type InsertQuickReplyTemplate
+  type QuickReplyTemplate, type InsertQuickReplyTemplate,
+  type LeadSortColumn, type LeadView, type InsertLeadView,
+  customFieldDefinitions, type CustomFieldDefinition, type InsertCustomFieldDefinition, type CustomFieldType,
+  leadImportJobs, type LeadImportJob, type InsertLeadImportJob,
+  duplicateDismissals, type DuplicateDismissal, type InsertDuplicateDismissal,
+  leadMerges, type LeadMerge,
+  leadScoringModels, type LeadScoringModel, type InsertLeadScoringModel,
+  leadScoreHistory, type LeadScoreHistoryEntry, type InsertLeadScoreHistoryEntry,
+  conversionModels, type ConversionModel, type InsertConversionModel,
+  distributionReps, type DistributionRep, type InsertDistributionRep,
+  distributionRules, type DistributionRule, type InsertDistributionRule,
+  leadForms, type LeadForm, type InsertLeadForm,
+  quarantinedLeads, type QuarantinedLead, type InsertQuarantinedLead, type QuarantineStatus,
+  leadWebhookEvents, type LeadWebhookEvent, type InsertLeadWebhookEvent, type LeadWebhookProvider,
+  pipelines, pipelineStageDefinitions, type InsertPipeline,
+  leadStageChanges, type LeadStageChange, type InsertLeadStageChange,
+  lossReasons, type LossReason, type InsertLossReason,
+  slaPolicies, type SlaPolicy, type InsertSlaPolicy,
+  slaBreaches, type SlaBreach, type InsertSlaBreach
 } from "@shared/schema";
+import type { LeadMergeMovedRecords, LeadMergeRelatedRecord, LeadMergeUpdates } from "@shared/leadMerge";
+import type { TimelineEntry, TimelineEntryType } from "@shared/timeline";
+import type { LeadScoringSignals } from "@shared/leadScoring";
+import type { PipelineStageInput, PipelineWithStages } from "@shared/pipelines";
 import { db } from "./db";
-import { eq, desc, and, like, sql, asc } from "drizzle-orm";
+import { toE164 } from "./phone";
+import { eq, desc, and, or, like, ilike, gte, lte, lt, sql, asc, exists, notExists, inArray, notInArray, isNull, getTableColumns, type SQL } from "drizzle-orm";
+import { getTableConfig, unionAll, type PgColumn, type PgTable } from "drizzle-orm/pg-core";
+
+// An inbound WhatsApp message that started a wait for a reply, with the first reply if there was one
+export interface AwaitedInboundMessage {
+  messageId: string;
+  conversationId: string;
+  leadId: string | null;
+  assignedUserId: string | null;
+  receivedAt: Date;
+  respondedAt: Date | null;
+}
+
+// Typed filters for the lead list, pushed down to SQL by queryLeads()
+export interface LeadQueryFilters {
+  search?: string;
+  status?: string;
+  source?: string;
+  score?: string;
+  ownerId?: string;
+  campaignId?: string;
+  pipelineId?: string;
+  pipelineStage?: string;
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+  utmContent?: string;
+  utmTerm?: string;
+  interestLevel?: string;
+  budgetMin?: number;
+  budgetMax?: number;
+  leadScoreMin?: number;
+  leadScoreMax?: number;
+  createdFrom?: Date;
+  createdTo?: Date;
+  lastActivityFrom?: Date;
+  lastActivityTo?: Date;
+  hasOverdueFollowUp?: boolean;
+  customFields?: CustomFieldFilter[];
+  sortBy?: LeadSortColumn;
+  sortOrder?: "asc" | "desc";
+  // Omit limit to fetch every matching row (exports, reports)
+  limit?: number;
+  offset?: number;
+}
+
+export interface LeadQueryResult {
+  data: Lead[];
+  total: number;
+}
+
+// A filter on one custom field; number and date values may be "from..to" ranges (either side optional)
+export interface CustomFieldFilter {
+  key: string;
+  fieldType: CustomFieldType;
+  value: string;
+}
+
+export interface ClientQueryFilters {
+  search?: string;
+  ownerId?: string;
+  customFields?: CustomFieldFilter[];
+}
+
+const leadSortColumnMap = {
+  createdAt: leads.createdAt,
+  updatedAt: leads.updatedAt,
+  name: leads.name,
+  status: leads.status,
+  source: leads.source,
+  city: leads.city,
+  leadScore: leads.leadScore,
+  lastActivityAt: leads.lastActivityAt,
+} satisfies Record<LeadSortColumn, unknown>;
+
+// Escape LIKE wildcards so user search text is matched literally
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+function parseRange(value: string): [string | undefined, string | undefined] {
+  if (!value.includes("..")) return [value, value];
+  const [from, to] = value.split("..").map(part => part.trim());
+  return [from || undefined, to || undefined];
+}
+
+// Builds SQL conditions against a jsonb custom_fields column
+function customFieldConditions(column: typeof leads.customFields | typeof clients.customFields, filters: CustomFieldFilter[]): SQL[] {
+  const conditions: SQL[] = [];
+  for (const filter of filters) {
+    const text = sql`(${column} ->> ${filter.key}::text)`;
+    switch (filter.fieldType) {
+      case "number": {
+        const [from, to] = parseRange(filter.value);
+        const typed = sql`jsonb_typeof(${column} -> ${filter.key}::text) = 'number'`;
+        conditions.push(typed);
+        if (from !== undefined && !isNaN(Number(from))) conditions.push(sql`${text}::numeric >= ${Number(from)}`);
+        if (to !== undefined && !isNaN(Number(to))) conditions.push(sql`${text}::numeric <= ${Number(to)}`);
+        break;
+      }
+      case "date": {
+        // Dates are stored as YYYY-MM-DD strings, which compare correctly as text
+        const [from, to] = parseRange(filter.value);
+        if (from) conditions.push(sql`${text} >= ${from}`);
+        if (to) conditions.push(sql`${text} <= ${to}`);
+        break;
+      }
+      case "multi_select":
+        conditions.push(sql`${column} -> ${filter.key}::text @> ${JSON.stringify([filter.value])}::jsonb`);
+        break;
+      case "boolean":
+        conditions.push(sql`${text} = ${filter.value === "true" ? "true" : "false"}`);
+        break;
+      case "select":
+        conditions.push(sql`${text} = ${filter.value}`);
+        break;
+      default:
+        conditions.push(sql`${text} ilike ${`%${escapeLikePattern(filter.value)}%`}`);
+    }
+  }
+  return conditions;
+}
+
+// The lead list filters as one condition; sorting and paging are left to the caller
+function leadFilterCondition(filters: LeadQueryFilters): SQL | undefined {
+  const conditions: (SQL | undefined)[] = [];
+
+  if (filters.search) {
+    const pattern = `%${escapeLikePattern(filters.search)}%`;
+    conditions.push(or(
+      ilike(leads.name, pattern),
+      ilike(leads.mobile, pattern),
+      ilike(leads.email, pattern),
+      ilike(leads.city, pattern),
+    ));
+  }
+  if (filters.status) conditions.push(eq(leads.status, filters.status));
+  if (filters.source) conditions.push(eq(leads.source, filters.source));
+  if (filters.score) conditions.push(eq(leads.score, filters.score));
+  if (filters.ownerId) conditions.push(eq(leads.ownerId, filters.ownerId));
+  if (filters.campaignId) conditions.push(eq(leads.campaignId, filters.campaignId));
+  if (filters.pipelineId) conditions.push(eq(leads.pipelineId, filters.pipelineId));
+  if (filters.pipelineStage) conditions.push(eq(leads.pipelineStage, filters.pipelineStage));
+  if (filters.utmSource) conditions.push(eq(leads.utmSource, filters.utmSource));
+  if (filters.utmMedium) conditions.push(eq(leads.utmMedium, filters.utmMedium));
+  if (filters.utmCampaign) conditions.push(eq(leads.utmCampaign, filters.utmCampaign));
+  if (filters.utmContent) conditions.push(eq(leads.utmContent, filters.utmContent));
+  if (filters.utmTerm) conditions.push(eq(leads.utmTerm, filters.utmTerm));
+  if (filters.interestLevel) conditions.push(eq(leads.interestLevel, filters.interestLevel));
+  if (filters.budgetMin !== undefined) conditions.push(gte(leads.budget, String(filters.budgetMin)));
+  if (filters.budgetMax !== undefined) conditions.push(lte(leads.budget, String(filters.budgetMax)));
+  if (filters.leadScoreMin !== undefined) conditions.push(gte(leads.leadScore, filters.leadScoreMin));
+  if (filters.leadScoreMax !== undefined) conditions.push(lte(leads.leadScore, filters.leadScoreMax));
+  if (filters.createdFrom) conditions.push(gte(leads.createdAt, filters.createdFrom));
+  if (filters.createdTo) conditions.push(lte(leads.createdAt, filters.createdTo));
+
+  // Leads never touched count their creation as the last activity (same rule as automation.ts)
+  const lastActivity = sql`coalesce(${leads.lastActivityAt}, ${leads.createdAt})`;
+  if (filters.lastActivityFrom) conditions.push(gte(lastActivity, filters.lastActivityFrom));
+  if (filters.lastActivityTo) conditions.push(lte(lastActivity, filters.lastActivityTo));
+
+  if (filters.hasOverdueFollowUp !== undefined) {
+    const overdue = exists(
+      db.select({ id: followUps.id }).from(followUps).where(and(
+        eq(followUps.leadId, leads.id),
+        eq(followUps.isCompleted, false),
+        lt(followUps.scheduledAt, new Date()),
+      ))
+    );
+    conditions.push(filters.hasOverdueFollowUp ? overdue : sql`not ${overdue}`);
+  }
+  if (filters.customFields) conditions.push(...customFieldConditions(leads.customFields, filters.customFields));
+  return and(...conditions);
+}
+
+// Matches leads on the canonical mobile; numbers that do not normalize fall back to the raw value
+function leadPhoneCondition(phone: string): SQL {
+  const e164 = toE164(phone);
+  return e164 ? eq(leads.mobileE164, e164) : eq(leads.mobile, phone.trim());
+}
+
+// Every record that points at a lead, with the column holding the lead id. A merge moves these
+// to the primary lead, and undo moves them back. Duplicate dismissals and score history are not moved:
+// they are dropped with the duplicate.
+const leadReferences: Record<LeadMergeRelatedRecord, { table: PgTable; id: PgColumn; leadId: PgColumn; where?: SQL }> = {
+  leadNotes: { table: leadNotes, id: leadNotes.id, leadId: leadNotes.leadId },
+  followUps: { table: followUps, id: followUps.id, leadId: followUps.leadId },
+  callLogs: { table: callLogs, id: callLogs.id, leadId: callLogs.leadId },
+  tasks: { table: tasks, id: tasks.id, leadId: tasks.leadId },
+  quotations: { table: quotations, id: quotations.id, leadId: quotations.leadId },
+  whatsappConversations: { table: whatsappConversations, id: whatsappConversations.id, leadId: whatsappConversations.leadId },
+  automationRunLogs: { table: automationRunLogs, id: automationRunLogs.id, leadId: automationRunLogs.leadId },
+  clients: { table: clients, id: clients.id, leadId: clients.leadId },
+  activityLogs: { table: activityLogs, id: activityLogs.id, leadId: activityLogs.entityId, where: eq(activityLogs.entityType, "lead") },
+  leadMerges: { table: leadMerges, id: leadMerges.id, leadId: leadMerges.primaryLeadId },
+  slaBreaches: { table: slaBreaches, id: slaBreaches.id, leadId: slaBreaches.leadId },
+  leadStageChanges: { table: leadStageChanges, id: leadStageChanges.id, leadId: leadStageChanges.leadId },
+  leadWebhookEvents: { table: leadWebhookEvents, id: leadWebhookEvents.id, leadId: leadWebhookEvents.leadId },
+  quarantinedLeads: { table: quarantinedLeads, id: quarantinedLeads.id, leadId: quarantinedLeads.leadId },
+};
+
+type LeadPlacement = Pick<Lead, "pipelineId" | "pipelineStage">;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// The records a lead points at (owner, pipeline, campaign, ...), by the lead field holding the id
+const leadForeignKeys = getTableConfig(leads).foreignKeys.map(foreignKey => {
+  const { columns: [column], foreignColumns: [id], foreignTable } = foreignKey.reference();
+  const field = Object.entries(getTableColumns(leads)).find(([, c]) => c === column)![0] as keyof Lead;
+  return { field, table: foreignTable, id };
+});
+
+// Fields of a stored lead snapshot that point at records deleted since it was taken
+async function danglingLeadReferences(tx: Transaction, values: Partial<Lead>): Promise<(keyof Lead)[]> {
+  const dangling: (keyof Lead)[] = [];
+  for (const { field, table, id } of leadForeignKeys) {
+    const value = values[field];
+    if (typeof value !== "string") continue;
+    const [found] = await tx.select({ id }).from(table).where(eq(id, value)).limit(1);
+    if (!found) dangling.push(field);
+  }
+  return dangling;
+}
+
+async function pipelineStageKeys(tx: Transaction, pipelineId: string | null): Promise<string[]> {
+  if (!pipelineId) return [];
+  const stages = await tx.select({ key: pipelineStageDefinitions.key }).from(pipelineStageDefinitions)
+    .where(eq(pipelineStageDefinitions.pipelineId, pipelineId))
+    .orderBy(asc(pipelineStageDefinitions.position));
+  return stages.map(stage => stage.key);
+}
+
+// The stage history row for a lead that moved between stages or pipelines; undefined when it stayed put
+function stageChange(leadId: string, before: LeadPlacement, after: LeadPlacement, changedById: string | null): InsertLeadStageChange | undefined {
+  if (before.pipelineId === after.pipelineId && before.pipelineStage === after.pipelineStage) return undefined;
+  return {
+    leadId,
+    fromPipelineId: before.pipelineId,
+    fromStage: before.pipelineStage,
+    pipelineId: after.pipelineId,
+    toStage: after.pipelineStage,
+    changedById,
+  };
+}
+
+// Lead snapshots are stored as JSON, so timestamps come back as strings
+function leadFromSnapshot(snapshot: Record<string, unknown>): Lead {
+  const restored: Record<string, unknown> = { ...snapshot };
+  for (const [key, column] of Object.entries(getTableColumns(leads))) {
+    if (column.columnType === "PgTimestamp" && typeof restored[key] === "string") {
+      restored[key] = new Date(restored[key] as string);
+    }
+  }
+  return restored as Lead;
+}
+
+// Where each timeline entry type comes from and which of its timestamps places it on the timeline.
+// `match` returns undefined when the subject cannot have records of that type.
+const timelineSources: Record<TimelineEntryType, {
+  table: PgTable;
+  id: PgColumn;
+  occurredAt: PgColumn;
+  userId: PgColumn;
+  match: (subject: TimelineSubject) => SQL | undefined;
+}> = {
+  note: {
+    table: leadNotes, id: leadNotes.id, occurredAt: leadNotes.createdAt, userId: leadNotes.userId,
+    match: (subject) => subjectCondition(subject, leadNotes.leadId),
+  },
+  follow_up: {
+    table: followUps, id: followUps.id, occurredAt: followUps.createdAt, userId: followUps.userId,
+    match: (subject) => subjectCondition(subject, followUps.leadId, followUps.clientId),
+  },
+  call: {
+    table: callLogs, id: callLogs.id, occurredAt: callLogs.calledAt, userId: callLogs.userId,
+    match: (subject) => subjectCondition(subject, callLogs.leadId, callLogs.clientId),
+  },
+  whatsapp_message: {
+    table: whatsappMessages, id: whatsappMessages.id, occurredAt: whatsappMessages.sentAt, userId: whatsappMessages.sentByUserId,
+    match: (subject) => {
+      const conversations = subjectCondition(subject, whatsappConversations.leadId, whatsappConversations.clientId);
+      if (!conversations) return undefined;
+      return inArray(whatsappMessages.conversationId,
+        db.select({ id: whatsappConversations.id }).from(whatsappConversations).where(conversations));
+    },
+  },
+  task: {
+    table: tasks, id: tasks.id, occurredAt: tasks.createdAt, userId: tasks.creatorId,
+    match: (subject) => subjectCondition(subject, tasks.leadId, tasks.clientId),
+  },
+  quotation: {
+    table: quotations, id: quotations.id, occurredAt: quotations.createdAt, userId: quotations.createdById,
+    match: (subject) => subjectCondition(subject, quotations.leadId, quotations.clientId),
+  },
+  stage_change: {
+    table: leadStageChanges, id: leadStageChanges.id, occurredAt: leadStageChanges.changedAt, userId: leadStageChanges.changedById,
+    match: (subject) => subjectCondition(subject, leadStageChanges.leadId),
+  },
+  activity: {
+    table: activityLogs, id: activityLogs.id, occurredAt: activityLogs.createdAt, userId: activityLogs.userId,
+    match: (subject) => {
+      const conditions: SQL[] = [];
+      if (subject.leadIds.length > 0) {
+        conditions.push(and(eq(activityLogs.entityType, "lead"), inArray(activityLogs.entityId, subject.leadIds))!);
+      }
+      if (subject.clientId) {
+        conditions.push(and(eq(activityLogs.entityType, "client"), eq(activityLogs.entityId, subject.clientId))!);
+      }
+      return conditions.length > 0 ? or(...conditions) : undefined;
+    },
+  },
+};
+
+function subjectCondition(subject: TimelineSubject, leadId: PgColumn, clientId?: PgColumn): SQL | undefined {
+  const conditions: SQL[] = [];
+  if (subject.leadIds.length > 0) conditions.push(inArray(leadId, subject.leadIds));
+  if (clientId && subject.clientId) conditions.push(eq(clientId, subject.clientId));
+  return conditions.length > 0 ? or(...conditions) : undefined;
+}
+
+export interface LeadMergeInput {
+  primaryId: string;
+  duplicateIds: string[];
+  updates: LeadMergeUpdates;
+  fieldSources: Record<string, string>;
+  mergedById: string;
+}
+
+// Whose records a timeline shows: a lead's, or a client's together with the lead it was converted from
+export interface TimelineSubject {
+  leadIds: string[];
+  clientId?: string;
+}
+
+export interface TimelineQuery {
+  types?: TimelineEntryType[];
+  limit: number;
+  offset: number;
+}
+
+export interface RepLoad {
+  openLeads: number;
+  distributedSince: number;
+}
 
 export interface IStorage {
   // Users
@@ -32,14 +399,76 @@ export interface IStorage {
   // Leads
   getLead(id: string): Promise<Lead | undefined>;
   findLeadByMobileOrEmail(mobile: string, email?: string, excludeId?: string): Promise<Lead | undefined>;
-  createLead(lead: InsertLead): Promise<Lead>;
-  updateLead(id: string, lead: Partial<InsertLead>): Promise<Lead | undefined>;
+  findLeadByPhone(phone: string): Promise<Lead | undefined>;
+  createLead(lead: InsertLead, changedById?: string | null): Promise<Lead>;
+  updateLead(id: string, lead: Partial<InsertLead>, changedById?: string | null): Promise<Lead | undefined>;
+  updateLeadScore(id: string, score: Pick<Lead, "score" | "leadScore" | "scoreReason" | "scoreBreakdown" | "scoringModelId">): Promise<Lead | undefined>;
   deleteLead(id: string): Promise<void>;
   getAllLeads(): Promise<Lead[]>;
+  queryLeads(filters?: LeadQueryFilters): Promise<LeadQueryResult>;
   
+  // Lead Views
+  getLeadView(id: string): Promise<LeadView | undefined>;
+  getLeadViewsForUser(userId: string): Promise<LeadView[]>;
+  createLeadView(view: InsertLeadView): Promise<LeadView>;
+  updateLeadView(id: string, view: Partial<InsertLeadView>): Promise<LeadView | undefined>;
+  deleteLeadView(id: string): Promise<void>;
+
+  // Custom Fields
+  getCustomFieldDefinition(id: string): Promise<CustomFieldDefinition | undefined>;
+  getCustomFieldDefinitions(entityType?: string): Promise<CustomFieldDefinition[]>;
+  createCustomFieldDefinition(definition: InsertCustomFieldDefinition): Promise<CustomFieldDefinition>;
+  updateCustomFieldDefinition(id: string, definition: Partial<InsertCustomFieldDefinition>): Promise<CustomFieldDefinition | undefined>;
+  deleteCustomFieldDefinition(id: string): Promise<void>;
+
+  // Lead Import Jobs
+  getLeadImportJob(id: string): Promise<LeadImportJob | undefined>;
+  getLeadImportJobs(userId?: string): Promise<LeadImportJob[]>;
+  getLeadImportJobsByStatus(statuses: string[]): Promise<LeadImportJob[]>;
+  createLeadImportJob(job: InsertLeadImportJob): Promise<LeadImportJob>;
+  updateLeadImportJob(id: string, job: Partial<InsertLeadImportJob>): Promise<LeadImportJob | undefined>;
+  deleteUntouchedImportedLeads(jobId: string, importedAt: Date): Promise<{ deleted: number; kept: number }>;
+
+  // Lead Merges
+  getLeadMerge(id: string): Promise<LeadMerge | undefined>;
+  getLeadMerges(leadId?: string): Promise<LeadMerge[]>;
+  mergeLeads(input: LeadMergeInput): Promise<LeadMerge>;
+  undoLeadMerge(id: string, userId: string): Promise<{ merge: LeadMerge; keptFields: string[] } | undefined>;
+
+  // Duplicate Dismissals
+  getDuplicateDismissal(id: string): Promise<DuplicateDismissal | undefined>;
+  getDuplicateDismissals(): Promise<DuplicateDismissal[]>;
+  createDuplicateDismissal(dismissal: InsertDuplicateDismissal): Promise<DuplicateDismissal>;
+  deleteDuplicateDismissal(id: string): Promise<void>;
+
+  // Lead Scoring Models
+  getLeadScoringModel(id: string): Promise<LeadScoringModel | undefined>;
+  getActiveLeadScoringModel(): Promise<LeadScoringModel | undefined>;
+  getLeadScoringModels(): Promise<LeadScoringModel[]>;
+  createLeadScoringModel(model: Omit<InsertLeadScoringModel, "version">): Promise<LeadScoringModel>;
+  activateLeadScoringModel(id: string): Promise<LeadScoringModel | undefined>;
+  getLeadScoringSignals(leadIds?: string[]): Promise<Map<string, LeadScoringSignals>>;
+
+  // Lead Score History
+  getLeadScoreHistory(leadId: string): Promise<LeadScoreHistoryEntry[]>;
+  createLeadScoreHistoryEntry(entry: InsertLeadScoreHistoryEntry): Promise<LeadScoreHistoryEntry>;
+
+  // Conversion Models
+  getLatestConversionModel(): Promise<ConversionModel | undefined>;
+  getConversionModels(limit: number): Promise<ConversionModel[]>;
+  createConversionModel(model: InsertConversionModel): Promise<ConversionModel>;
+  getLeadFirstResponses(leadIds?: string[]): Promise<Map<string, Date>>;
+  setLeadConversionProbabilities(probabilities: Map<string, number>, modelId: string): Promise<void>;
+
+  // Timeline
+  getTimeline(subject: TimelineSubject, query: TimelineQuery): Promise<{ entries: TimelineEntry[]; total: number }>;
+
   // Lead Notes
+  getLeadNote(id: string): Promise<LeadNote | undefined>;
   getLeadNotes(leadId: string): Promise<LeadNote[]>;
   createLeadNote(note: InsertLeadNote): Promise<LeadNote>;
+  updateLeadNote(id: string, note: Partial<InsertLeadNote> & { updatedAt?: Date }): Promise<LeadNote | undefined>;
+  deleteLeadNote(id: string): Promise<void>;
   
   // Follow-ups
   getFollowUp(id: string): Promise<FollowUp | undefined>;
@@ -54,6 +483,9 @@ export interface IStorage {
   updateClient(id: string, client: Partial<InsertClient>): Promise<Client | undefined>;
   deleteClient(id: string): Promise<void>;
   getAllClients(): Promise<Client[]>;
+  getClientByLead(leadId: string): Promise<Client | undefined>;
+  queryClients(filters?: ClientQueryFilters): Promise<Client[]>;
+  findClientByPhone(phone: string): Promise<Client | undefined>;
   
   // Services
   getService(id: string): Promise<Service | undefined>;
@@ -75,13 +507,15 @@ export interface IStorage {
   updateTask(id: string, task: Partial<InsertTask>): Promise<Task | undefined>;
   deleteTask(id: string): Promise<void>;
   getAllTasks(): Promise<Task[]>;
+  getTasksByLead(leadId: string): Promise<Task[]>;
   
   // Quotations
   getQuotation(id: string): Promise<Quotation | undefined>;
-  createQuotation(quotation: InsertQuotation): Promise<Quotation>;
+  createQuotation(quotation: Omit<InsertQuotation, "quotationNumber">): Promise<Quotation>;
   updateQuotation(id: string, quotation: Partial<InsertQuotation>): Promise<Quotation | undefined>;
   deleteQuotation(id: string): Promise<void>;
   getAllQuotations(): Promise<Quotation[]>;
+  getQuotationsByLead(leadId: string): Promise<Quotation[]>;
   
   // Invoices
   getInvoice(id: string): Promise<Invoice | undefined>;
@@ -102,6 +536,7 @@ export interface IStorage {
   updateCampaign(id: string, campaign: Partial<InsertCampaign>): Promise<Campaign | undefined>;
   deleteCampaign(id: string): Promise<void>;
   getAllCampaigns(): Promise<Campaign[]>;
+  getCampaignByExternalId(externalCampaignId: string, platforms: string[]): Promise<Campaign | undefined>;
   
   // Client Services
   getClientServices(clientId: string): Promise<ClientService[]>;
@@ -154,14 +589,94 @@ export interface IStorage {
   updateChecklistItem(id: string, item: Partial<InsertChecklistItem>): Promise<ChecklistItem | undefined>;
   deleteChecklistItem(id: string): Promise<void>;
 
+  // Checklist Templates
+  getChecklistTemplates(): Promise<ChecklistTemplate[]>;
+  getChecklistTemplate(id: string): Promise<ChecklistTemplate | undefined>;
+  createChecklistTemplate(template: InsertChecklistTemplate & { createdById: string }): Promise<ChecklistTemplate>;
+  updateChecklistTemplate(id: string, template: Partial<InsertChecklistTemplate>): Promise<ChecklistTemplate | undefined>;
+  deleteChecklistTemplate(id: string): Promise<void>;
+  createChecklistFromTemplate(clientId: string, template: ChecklistTemplate, createdById: string): Promise<Checklist>;
+
   // Distribution Settings
   getDistributionSettings(): Promise<DistributionSettings | undefined>;
   updateDistributionSettings(settings: Partial<DistributionSettings>): Promise<DistributionSettings>;
-  getNextAssignee(): Promise<User | undefined>;
+  getDistributionReps(): Promise<DistributionRep[]>;
+  upsertDistributionRep(rep: InsertDistributionRep): Promise<DistributionRep>;
+  getRepLoads(since: Date): Promise<Map<string, RepLoad>>;
+  getUncontactedDistributedLeads(distributedAfter: Date, distributedBefore: Date): Promise<Lead[]>;
+  getDistributionRules(): Promise<DistributionRule[]>;
+  getDistributionRule(id: string): Promise<DistributionRule | undefined>;
+  createDistributionRule(rule: InsertDistributionRule): Promise<DistributionRule>;
+  updateDistributionRule(id: string, rule: Partial<InsertDistributionRule>): Promise<DistributionRule | undefined>;
+  deleteDistributionRule(id: string): Promise<void>;
+
+  // Lead Forms
+  getLeadForms(): Promise<LeadForm[]>;
+  getLeadForm(id: string): Promise<LeadForm | undefined>;
+  createLeadForm(form: InsertLeadForm & { createdById: string }): Promise<LeadForm>;
+  updateLeadForm(id: string, form: Partial<InsertLeadForm>): Promise<LeadForm | undefined>;
+  deleteLeadForm(id: string): Promise<void>;
+  recordLeadFormView(id: string): Promise<void>;
+  recordLeadFormSubmission(id: string): Promise<void>;
+  setLeadFormKeys(id: string, keys: { apiKey: string; signingSecret: string }): Promise<LeadForm | undefined>;
+
+  // Lead Quarantine
+  getQuarantinedLeads(status?: QuarantineStatus): Promise<QuarantinedLead[]>;
+  getQuarantinedLead(id: string): Promise<QuarantinedLead | undefined>;
+  createQuarantinedLead(entry: InsertQuarantinedLead): Promise<QuarantinedLead>;
+  updateQuarantinedLead(id: string, updates: Partial<InsertQuarantinedLead>): Promise<QuarantinedLead | undefined>;
+  reviewQuarantinedLead(id: string, status: QuarantineStatus, reviewedById: string): Promise<QuarantinedLead | undefined>;
+
+  // Lead Webhook Events
+  getLeadWebhookEvents(limit: number): Promise<LeadWebhookEvent[]>;
+  getLeadWebhookEvent(id: string): Promise<LeadWebhookEvent | undefined>;
+  findLeadWebhookEvent(provider: LeadWebhookProvider, externalLeadId: string): Promise<LeadWebhookEvent | undefined>;
+  saveLeadWebhookEvent(event: InsertLeadWebhookEvent): Promise<LeadWebhookEvent>;
+
+  // Pipelines
+  getPipelines(): Promise<PipelineWithStages[]>;
+  getPipeline(id: string): Promise<PipelineWithStages | undefined>;
+  getDefaultPipeline(): Promise<PipelineWithStages | undefined>;
+  createPipeline(pipeline: InsertPipeline, stages: PipelineStageInput[]): Promise<PipelineWithStages>;
+  updatePipeline(id: string, pipeline: Partial<InsertPipeline>, stages?: PipelineStageInput[]): Promise<PipelineWithStages | undefined>;
+  deletePipeline(id: string): Promise<void>;
+  countPipelineLeads(pipelineId: string): Promise<Record<string, number>>;
+  getLeadStageTotals(filters: LeadQueryFilters): Promise<Record<string, { count: number; value: number }>>;
+  moveLeadsWithoutPipeline(pipelineId: string): Promise<number>;
+
+  // Lead Stage Changes
+  getLeadStageChanges(filters: { leadId?: string; pipelineId?: string }): Promise<LeadStageChange[]>;
+  addMissingLeadStageChanges(): Promise<number>;
+  addMissingWonDates(): Promise<number>;
+
+  // Loss Reasons
+  getLossReasons(): Promise<LossReason[]>;
+  getLossReason(id: string): Promise<LossReason | undefined>;
+  createLossReason(reason: InsertLossReason): Promise<LossReason>;
+  updateLossReason(id: string, updates: Partial<InsertLossReason>): Promise<LossReason | undefined>;
+  deleteLossReason(id: string): Promise<void>;
+  countLossReasonLeads(id: string): Promise<number>;
+
+  // SLA Policies
+  getSlaPolicies(): Promise<SlaPolicy[]>;
+  getSlaPolicy(id: string): Promise<SlaPolicy | undefined>;
+  createSlaPolicy(policy: InsertSlaPolicy): Promise<SlaPolicy>;
+  updateSlaPolicy(id: string, policy: Partial<InsertSlaPolicy>): Promise<SlaPolicy | undefined>;
+  deleteSlaPolicy(id: string): Promise<void>;
+
+  // SLA Breaches
+  getSlaBreaches(range?: { from?: Date; to?: Date }): Promise<SlaBreach[]>;
+  getOpenSlaBreaches(): Promise<SlaBreach[]>;
+  createSlaBreaches(breaches: InsertSlaBreach[]): Promise<SlaBreach[]>;
+  updateSlaBreach(id: string, breach: Partial<InsertSlaBreach>): Promise<SlaBreach | undefined>;
+  getAwaitedInboundMessages(filter: { since: Date } | { messageIds: string[] }): Promise<AwaitedInboundMessage[]>;
 
   // Lead scoring helper
   findDuplicateLeads(mobile: string, email?: string): Promise<Lead[]>;
 
+  // Phone normalization
+  backfillPhoneNumbers(options?: { all?: boolean }): Promise<{ leads: number; clients: number; conversations: number; unparseable: number }>;
+
   // WhatsApp Conversations
   getWhatsappConversation(id: string): Promise<WhatsappConversation | undefined>;
   getWhatsappConversationByPhone(phone: string): Promise<WhatsappConversation | undefined>;
@@ -221,23 +736,65 @@ export class DatabaseStorage implements IStorage {
   }
 
   async findLeadByMobileOrEmail(mobile: string, email?: string, excludeId?: string): Promise<Lead | undefined> {
-    const allLeads = await db.select().from(leads);
-    const match = allLeads.find(lead => {
-      if (excludeId && lead.id === excludeId) return false;
-      if (lead.mobile === mobile) return true;
-      if (email && lead.email && lead.email === email) return true;
-      return false;
+    const matches: SQL[] = [];
+    if (mobile) matches.push(leadPhoneCondition(mobile));
+    if (email) matches.push(sql`lower(${leads.email}) = ${email.trim().toLowerCase()}`);
+    if (matches.length === 0) return undefined;
+
+    const conditions = [or(...matches)!];
+    if (excludeId) conditions.push(sql`${leads.id} <> ${excludeId}`);
+    const [lead] = await db.select().from(leads).where(and(...conditions)).orderBy(asc(leads.createdAt)).limit(1);
+    return lead || undefined;
+  }
+
+  async findLeadByPhone(phone: string): Promise<Lead | undefined> {
+    const [lead] = await db.select().from(leads).where(leadPhoneCondition(phone)).orderBy(asc(leads.createdAt)).limit(1);
+    return lead || undefined;
+  }
+
+  // Leads created without a pipeline go to the default one; without a stage, they enter the pipeline's first stage
+  // `changedById` is who put the lead in its stage, recorded in the stage history
+  async createLead(insertLead: InsertLead, changedById: string | null = null): Promise<Lead> {
+    const pipeline = insertLead.pipelineId ? await this.getPipeline(insertLead.pipelineId) : await this.getDefaultPipeline();
+    return db.transaction(async (tx) => {
+      const [lead] = await tx.insert(leads).values({
+        ...insertLead,
+        pipelineId: pipeline?.id ?? insertLead.pipelineId ?? null,
+        pipelineStage: insertLead.pipelineStage || pipeline?.stages[0]?.key,
+        mobileE164: toE164(insertLead.mobile),
+      }).returning();
+      await tx.insert(leadStageChanges).values({
+        leadId: lead.id,
+        pipelineId: lead.pipelineId,
+        toStage: lead.pipelineStage,
+        changedById,
+        changedAt: lead.createdAt,
+      });
+      return lead;
     });
-    return match;
   }
 
-  async createLead(insertLead: InsertLead): Promise<Lead> {
-    const [lead] = await db.insert(leads).values(insertLead).returning();
-    return lead;
+  // Updates that move the lead to another stage or pipeline are recorded in the stage history
+  async updateLead(id: string, updates: Partial<InsertLead>, changedById: string | null = null): Promise<Lead | undefined> {
+    const values = updates.mobile !== undefined ? { ...updates, mobileE164: toE164(updates.mobile) } : updates;
+    if (updates.pipelineStage === undefined && updates.pipelineId === undefined) {
+      const [lead] = await db.update(leads).set({ ...values, updatedAt: new Date() }).where(eq(leads.id, id)).returning();
+      return lead || undefined;
+    }
+
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select({ pipelineId: leads.pipelineId, pipelineStage: leads.pipelineStage })
+        .from(leads).where(eq(leads.id, id)).for("update");
+      const [lead] = await tx.update(leads).set({ ...values, updatedAt: new Date() }).where(eq(leads.id, id)).returning();
+      const change = before && lead ? stageChange(lead.id, before, lead, changedById) : undefined;
+      if (change) await tx.insert(leadStageChanges).values(change);
+      return lead || undefined;
+    });
   }
 
-  async updateLead(id: string, updates: Partial<InsertLead>): Promise<Lead | undefined> {
-    const [lead] = await db.update(leads).set({ ...updates, updatedAt: new Date() }).where(eq(leads.id, id)).returning();
+  // Scores are derived, so saving one does not count as editing the lead: updatedAt is left alone
+  async updateLeadScore(id: string, score: Pick<Lead, "score" | "leadScore" | "scoreReason" | "scoreBreakdown" | "scoringModelId">): Promise<Lead | undefined> {
+    const [lead] = await db.update(leads).set(score).where(eq(leads.id, id)).returning();
     return lead || undefined;
   }
 
@@ -249,9 +806,523 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(leads).orderBy(desc(leads.createdAt));
   }
 
+  async queryLeads(filters: LeadQueryFilters = {}): Promise<LeadQueryResult> {
+    const where = leadFilterCondition(filters);
+    const sortColumn = leadSortColumnMap[filters.sortBy ?? "createdAt"];
+    const direction = filters.sortOrder === "asc" ? asc : desc;
+
+    // Tie-break on id so OFFSET pagination is stable across pages
+    let query = db.select().from(leads)
+      .where(where)
+      .orderBy(direction(sortColumn), direction(leads.id))
+      .$dynamic();
+    if (filters.limit !== undefined) {
+      query = query.limit(filters.limit).offset(filters.offset ?? 0);
+    }
+
+    const [data, [{ total }]] = await Promise.all([
+      query,
+      db.select({ total: sql<number>`count(*)::int` }).from(leads).where(where),
+    ]);
+    return { data, total };
+  }
+
+  // Lead Views
+  async getLeadView(id: string): Promise<LeadView | undefined> {
+    const [view] = await db.select().from(leadViews).where(eq(leadViews.id, id));
+    return view || undefined;
+  }
+
+  async getLeadViewsForUser(userId: string): Promise<LeadView[]> {
+    return db.select().from(leadViews)
+      .where(or(eq(leadViews.userId, userId), eq(leadViews.isShared, true)))
+      .orderBy(asc(leadViews.name));
+  }
+
+  async createLeadView(view: InsertLeadView): Promise<LeadView> {
+    const [created] = await db.insert(leadViews).values(view).returning();
+    return created;
+  }
+
+  async updateLeadView(id: string, updates: Partial<InsertLeadView>): Promise<LeadView | undefined> {
+    const [updated] = await db.update(leadViews)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(leadViews.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteLeadView(id: string): Promise<void> {
+    await db.delete(leadViews).where(eq(leadViews.id, id));
+  }
+
+  // Custom Fields
+  async getCustomFieldDefinition(id: string): Promise<CustomFieldDefinition | undefined> {
+    const [definition] = await db.select().from(customFieldDefinitions).where(eq(customFieldDefinitions.id, id));
+    return definition || undefined;
+  }
+
+  async getCustomFieldDefinitions(entityType?: string): Promise<CustomFieldDefinition[]> {
+    return db.select().from(customFieldDefinitions)
+      .where(entityType ? eq(customFieldDefinitions.entityType, entityType) : undefined)
+      .orderBy(asc(customFieldDefinitions.sortOrder), asc(customFieldDefinitions.createdAt));
+  }
+
+  async createCustomFieldDefinition(definition: InsertCustomFieldDefinition): Promise<CustomFieldDefinition> {
+    const [created] = await db.insert(customFieldDefinitions).values(definition).returning();
+    return created;
+  }
+
+  async updateCustomFieldDefinition(id: string, updates: Partial<InsertCustomFieldDefinition>): Promise<CustomFieldDefinition | undefined> {
+    const [updated] = await db.update(customFieldDefinitions).set(updates).where(eq(customFieldDefinitions.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteCustomFieldDefinition(id: string): Promise<void> {
+    await db.delete(customFieldDefinitions).where(eq(customFieldDefinitions.id, id));
+  }
+
+  // Lead Import Jobs
+  async getLeadImportJob(id: string): Promise<LeadImportJob | undefined> {
+    const [job] = await db.select().from(leadImportJobs).where(eq(leadImportJobs.id, id));
+    return job || undefined;
+  }
+
+  async getLeadImportJobs(userId?: string): Promise<LeadImportJob[]> {
+    return db.select().from(leadImportJobs)
+      .where(userId ? eq(leadImportJobs.userId, userId) : undefined)
+      .orderBy(desc(leadImportJobs.createdAt));
+  }
+
+  async getLeadImportJobsByStatus(statuses: string[]): Promise<LeadImportJob[]> {
+    return db.select().from(leadImportJobs).where(inArray(leadImportJobs.status, statuses));
+  }
+
+  async createLeadImportJob(job: InsertLeadImportJob): Promise<LeadImportJob> {
+    const [created] = await db.insert(leadImportJobs).values(job).returning();
+    return created;
+  }
+
+  async updateLeadImportJob(id: string, updates: Partial<InsertLeadImportJob>): Promise<LeadImportJob | undefined> {
+    const [job] = await db.update(leadImportJobs).set(updates).where(eq(leadImportJobs.id, id)).returning();
+    return job || undefined;
+  }
+
+  // Deletes the job's leads that nobody has touched since the import: not edited, and with
+  // no notes, follow-ups, calls, tasks, quotations, conversations or client conversion.
+  async deleteUntouchedImportedLeads(jobId: string, importedAt: Date): Promise<{ deleted: number; kept: number }> {
+    const related = [leadNotes, followUps, callLogs, tasks, quotations, whatsappConversations, clients] as const;
+    const untouched = and(
+      eq(leads.importJobId, jobId),
+      lte(leads.updatedAt, importedAt),
+      ...related.map(table => notExists(
+        db.select({ id: table.id }).from(table).where(eq(table.leadId, leads.id))
+      )),
+    );
+
+    return db.transaction(async (tx) => {
+      const deleted = await tx.delete(leads).where(untouched).returning({ id: leads.id });
+      const [{ kept }] = await tx.select({ kept: sql<number>`count(*)::int` }).from(leads)
+        .where(eq(leads.importJobId, jobId));
+      return { deleted: deleted.length, kept };
+    });
+  }
+
+  // Lead Merges
+  async getLeadMerge(id: string): Promise<LeadMerge | undefined> {
+    const [merge] = await db.select().from(leadMerges).where(eq(leadMerges.id, id));
+    return merge || undefined;
+  }
+
+  async getLeadMerges(leadId?: string): Promise<LeadMerge[]> {
+    return db.select().from(leadMerges)
+      .where(leadId ? eq(leadMerges.primaryLeadId, leadId) : undefined)
+      .orderBy(desc(leadMerges.createdAt));
+  }
+
+  // Moves every related record from the duplicates to the primary, applies the chosen field values
+  // and deletes the duplicates, all in one transaction. The history row keeps what undo needs.
+  async mergeLeads(input: LeadMergeInput): Promise<LeadMerge> {
+    const { primaryId, duplicateIds, updates, fieldSources, mergedById } = input;
+
+    return db.transaction(async (tx) => {
+      const [primary] = await tx.select().from(leads).where(eq(leads.id, primaryId));
+      const duplicates = await tx.select().from(leads).where(inArray(leads.id, duplicateIds));
+      if (!primary || duplicates.length !== duplicateIds.length) {
+        throw new Error("Lead not found");
+      }
+
+      const movedRecords: LeadMergeMovedRecords = {};
+      for (const [name, ref] of Object.entries(leadReferences) as [LeadMergeRelatedRecord, typeof leadReferences[LeadMergeRelatedRecord]][]) {
+        const match = and(inArray(ref.leadId, duplicateIds), ref.where);
+        const rows = await tx.select({ id: ref.id, fromLeadId: ref.leadId }).from(ref.table).where(match);
+        if (rows.length === 0) continue;
+        await tx.execute(sql`update ${ref.table} set ${sql.identifier(ref.leadId.name)} = ${primaryId} where ${match}`);
+        movedRecords[name] = rows.map(row => ({ id: row.id as string, fromLeadId: row.fromLeadId as string }));
+      }
+
+      const after: Partial<Lead> = { ...updates };
+      if (updates.mobile !== undefined) after.mobileE164 = toE164(updates.mobile);
+      const before = Object.fromEntries(Object.keys(after).map(key => [key, primary[key as keyof Lead]]));
+
+      await tx.delete(leads).where(inArray(leads.id, duplicateIds));
+      if (Object.keys(after).length > 0) {
+        const [merged] = await tx.update(leads).set({ ...after, updatedAt: new Date() }).where(eq(leads.id, primaryId)).returning();
+        const change = stageChange(primaryId, primary, merged, mergedById);
+        if (change) await tx.insert(leadStageChanges).values(change);
+      }
+
+      const [merge] = await tx.insert(leadMerges).values({
+        primaryLeadId: primaryId,
+        mergedLeadIds: JSON.stringify(duplicateIds),
+        mergedLeads: JSON.stringify(duplicates),
+        fieldSources: JSON.stringify(fieldSources),
+        primaryBefore: JSON.stringify(before),
+        primaryAfter: JSON.stringify(after),
+        movedRecords: JSON.stringify(movedRecords),
+        mergedById,
+      }).returning();
+      return merge;
+    });
+  }
+
+  // Recreates the merged leads, moves their records back and restores the primary's fields.
+  // Fields edited on the primary since the merge, or whose earlier value points at something deleted
+  // since, keep their current value and are reported in keptFields. Restored leads lose links to deleted
+  // records, and go to the default pipeline's first stage when their stage is gone.
+  // Undefined when the merge does not exist or was already undone, including by a concurrent request.
+  async undoLeadMerge(id: string, userId: string): Promise<{ merge: LeadMerge; keptFields: string[] } | undefined> {
+    return db.transaction(async (tx) => {
+      const [merge] = await tx.update(leadMerges)
+        .set({ undoneAt: new Date(), undoneById: userId })
+        .where(and(eq(leadMerges.id, id), isNull(leadMerges.undoneAt)))
+        .returning();
+      if (!merge) return undefined;
+      const [primary] = await tx.select().from(leads).where(eq(leads.id, merge.primaryLeadId));
+
+      const [defaultPipeline] = await tx.select({ id: pipelines.id }).from(pipelines).where(eq(pipelines.isDefault, true)).limit(1);
+      const defaultStages = await pipelineStageKeys(tx, defaultPipeline?.id ?? null);
+      const snapshots: Record<string, unknown>[] = JSON.parse(merge.mergedLeads);
+      const restoredValues: Lead[] = [];
+      const replaced: { before: LeadPlacement; after: Lead }[] = [];
+      for (const snapshot of snapshots) {
+        const lead = leadFromSnapshot(snapshot);
+        for (const field of await danglingLeadReferences(tx, lead)) {
+          (lead as Record<string, unknown>)[field] = null;
+        }
+        if (!(await pipelineStageKeys(tx, lead.pipelineId)).includes(lead.pipelineStage) && defaultPipeline && defaultStages.length > 0) {
+          const before = leadFromSnapshot(snapshot);
+          lead.pipelineId = defaultPipeline.id;
+          lead.pipelineStage = defaultStages[0];
+          replaced.push({ before, after: lead });
+        }
+        restoredValues.push(lead);
+      }
+      const restored = restoredValues.length > 0
+        ? await tx.insert(leads).values(restoredValues).onConflictDoNothing().returning()
+        : [];
+
+      const movedRecords: LeadMergeMovedRecords = JSON.parse(merge.movedRecords);
+      for (const [name, records] of Object.entries(movedRecords) as [LeadMergeRelatedRecord, { id: string; fromLeadId: string }[]][]) {
+        const ref = leadReferences[name];
+        const byLead = new Map<string, string[]>();
+        for (const record of records) {
+          byLead.set(record.fromLeadId, [...(byLead.get(record.fromLeadId) ?? []), record.id]);
+        }
+        for (const [fromLeadId, ids] of Array.from(byLead)) {
+          // Records moved on to another lead since the merge are left where they are
+          await tx.execute(sql`update ${ref.table} set ${sql.identifier(ref.leadId.name)} = ${fromLeadId}
+            where ${and(inArray(ref.id, ids), eq(ref.leadId, merge.primaryLeadId))}`);
+        }
+      }
+
+      // Merged leads whose stage history did not come back, e.g. merges made before it was moved with them,
+      // restart it from the stage they were in; the others record their move out of a stage that is gone
+      if (restored.length > 0) {
+        const withHistory = await tx.selectDistinct({ leadId: leadStageChanges.leadId }).from(leadStageChanges)
+          .where(inArray(leadStageChanges.leadId, restored.map(lead => lead.id)));
+        const restarted = restored.filter(lead => !withHistory.some(row => row.leadId === lead.id));
+        if (restarted.length > 0) {
+          await tx.insert(leadStageChanges).values(restarted.map(lead => ({
+            leadId: lead.id,
+            pipelineId: lead.pipelineId,
+            toStage: lead.pipelineStage,
+            changedById: userId,
+          })));
+        }
+        for (const { before, after } of replaced) {
+          if (!withHistory.some(row => row.leadId === after.id)) continue;
+          const change = stageChange(after.id, before, after, userId);
+          if (change) await tx.insert(leadStageChanges).values(change);
+        }
+      }
+
+      const before: Record<string, unknown> = JSON.parse(merge.primaryBefore);
+      const after: Record<string, unknown> = JSON.parse(merge.primaryAfter);
+      const restore: Record<string, unknown> = {};
+      const keptFields: string[] = [];
+      if (primary) {
+        const current = JSON.parse(JSON.stringify(primary)) as Record<string, unknown>;
+        for (const key of Object.keys(after)) {
+          if (JSON.stringify(current[key]) === JSON.stringify(after[key])) restore[key] = before[key];
+          else keptFields.push(key);
+        }
+      }
+      if (primary) {
+        const dangling: string[] = await danglingLeadReferences(tx, restore as Partial<Lead>);
+        const pipelineId = (restore.pipelineId ?? primary.pipelineId) as string | null;
+        const stage = (restore.pipelineStage ?? primary.pipelineStage) as string;
+        if (("pipelineId" in restore || "pipelineStage" in restore) && !(await pipelineStageKeys(tx, pipelineId)).includes(stage)) {
+          dangling.push("pipelineId", "pipelineStage");
+        }
+        for (const key of Object.keys(restore).filter(key => dangling.includes(key))) {
+          delete restore[key];
+          keptFields.push(key);
+        }
+      }
+      if (primary && Object.keys(restore).length > 0) {
+        const values = leadFromSnapshot(restore);
+        const [reverted] = await tx.update(leads).set({ ...values, updatedAt: new Date() }).where(eq(leads.id, merge.primaryLeadId)).returning();
+        const change = stageChange(primary.id, primary, reverted, userId);
+        if (change) await tx.insert(leadStageChanges).values(change);
+      }
+
+      return { merge, keptFields };
+    });
+  }
+
+  // Duplicate Dismissals
+  async getDuplicateDismissal(id: string): Promise<DuplicateDismissal | undefined> {
+    const [dismissal] = await db.select().from(duplicateDismissals).where(eq(duplicateDismissals.id, id));
+    return dismissal || undefined;
+  }
+
+  async getDuplicateDismissals(): Promise<DuplicateDismissal[]> {
+    return db.select().from(duplicateDismissals).orderBy(desc(duplicateDismissals.createdAt));
+  }
+
+  async createDuplicateDismissal(dismissal: InsertDuplicateDismissal): Promise<DuplicateDismissal> {
+    const [created] = await db.insert(duplicateDismissals).values(dismissal).returning();
+    return created;
+  }
+
+  async deleteDuplicateDismissal(id: string): Promise<void> {
+    await db.delete(duplicateDismissals).where(eq(duplicateDismissals.id, id));
+  }
+
+  // Lead Scoring Models
+  async getLeadScoringModel(id: string): Promise<LeadScoringModel | undefined> {
+    const [model] = await db.select().from(leadScoringModels).where(eq(leadScoringModels.id, id));
+    return model || undefined;
+  }
+
+  async getActiveLeadScoringModel(): Promise<LeadScoringModel | undefined> {
+    const [model] = await db.select().from(leadScoringModels).where(eq(leadScoringModels.isActive, true));
+    return model || undefined;
+  }
+
+  async getLeadScoringModels(): Promise<LeadScoringModel[]> {
+    return db.select().from(leadScoringModels).orderBy(desc(leadScoringModels.version));
+  }
+
+  // Saves the next version number; activating it is a separate step
+  async createLeadScoringModel(model: Omit<InsertLeadScoringModel, "version">): Promise<LeadScoringModel> {
+    return db.transaction(async (tx) => {
+      const [{ latest }] = await tx.select({ latest: sql<number>`coalesce(max(${leadScoringModels.version}), 0)::int` })
+        .from(leadScoringModels);
+      const [created] = await tx.insert(leadScoringModels)
+        .values({ ...model, version: latest + 1, isActive: false })
+        .returning();
+      return created;
+    });
+  }
+
+  async activateLeadScoringModel(id: string): Promise<LeadScoringModel | undefined> {
+    return db.transaction(async (tx) => {
+      await tx.update(leadScoringModels).set({ isActive: false }).where(eq(leadScoringModels.isActive, true));
+      const [activated] = await tx.update(leadScoringModels)
+        .set({ isActive: true, activatedAt: new Date() })
+        .where(eq(leadScoringModels.id, id))
+        .returning();
+      return activated || undefined;
+    });
+  }
+
+  // Interaction and completed follow-up counts per lead, for every lead when leadIds is omitted
+  async getLeadScoringSignals(leadIds?: string[]): Promise<Map<string, LeadScoringSignals>> {
+    const signals = new Map<string, LeadScoringSignals>();
+    if (leadIds && leadIds.length === 0) return signals;
+    const signalFor = (leadId: string) => {
+      let entry = signals.get(leadId);
+      if (!entry) {
+        entry = { interactions: 0, completedFollowUps: 0 };
+        signals.set(leadId, entry);
+      }
+      return entry;
+    };
+
+    const calls = await db.select({ leadId: callLogs.leadId, count: sql<number>`count(*)::int` })
+      .from(callLogs)
+      .where(leadIds ? inArray(callLogs.leadId, leadIds) : sql`${callLogs.leadId} is not null`)
+      .groupBy(callLogs.leadId);
+    for (const row of calls) signalFor(row.leadId!).interactions += row.count;
+
+    const notes = await db.select({ leadId: leadNotes.leadId, count: sql<number>`count(*)::int` })
+      .from(leadNotes)
+      .where(and(inArray(leadNotes.type, ["call", "whatsapp"]), leadIds ? inArray(leadNotes.leadId, leadIds) : undefined))
+      .groupBy(leadNotes.leadId);
+    for (const row of notes) signalFor(row.leadId).interactions += row.count;
+
+    const completed = await db.select({ leadId: followUps.leadId, count: sql<number>`count(*)::int` })
+      .from(followUps)
+      .where(and(eq(followUps.isCompleted, true), leadIds ? inArray(followUps.leadId, leadIds) : sql`${followUps.leadId} is not null`))
+      .groupBy(followUps.leadId);
+    for (const row of completed) signalFor(row.leadId!).completedFollowUps += row.count;
+
+    return signals;
+  }
+
+  // Lead Score History
+  async getLeadScoreHistory(leadId: string): Promise<LeadScoreHistoryEntry[]> {
+    return db.select().from(leadScoreHistory)
+      .where(eq(leadScoreHistory.leadId, leadId))
+      .orderBy(asc(leadScoreHistory.createdAt));
+  }
+
+  async createLeadScoreHistoryEntry(entry: InsertLeadScoreHistoryEntry): Promise<LeadScoreHistoryEntry> {
+    const [created] = await db.insert(leadScoreHistory).values(entry).returning();
+    return created;
+  }
+
+  // Conversion Models
+  async getLatestConversionModel(): Promise<ConversionModel | undefined> {
+    const [model] = await db.select().from(conversionModels).orderBy(desc(conversionModels.trainedAt)).limit(1);
+    return model || undefined;
+  }
+
+  async getConversionModels(limit: number): Promise<ConversionModel[]> {
+    return db.select().from(conversionModels).orderBy(desc(conversionModels.trainedAt)).limit(limit);
+  }
+
+  async createConversionModel(model: InsertConversionModel): Promise<ConversionModel> {
+    const [created] = await db.insert(conversionModels).values(model).returning();
+    return created;
+  }
+
+  // When each lead was first responded to: its earliest call, outbound WhatsApp message or completed follow-up
+  async getLeadFirstResponses(leadIds?: string[]): Promise<Map<string, Date>> {
+    const responses = new Map<string, Date>();
+    if (leadIds && leadIds.length === 0) return responses;
+    const record = (leadId: string | null, at: Date) => {
+      const current = leadId ? responses.get(leadId) : undefined;
+      if (leadId && (!current || at < current)) responses.set(leadId, at);
+    };
+
+    const calls = await db.select({ leadId: callLogs.leadId, at: sql<Date>`min(${callLogs.calledAt})`.mapWith(callLogs.calledAt) })
+      .from(callLogs)
+      .where(leadIds ? inArray(callLogs.leadId, leadIds) : sql`${callLogs.leadId} is not null`)
+      .groupBy(callLogs.leadId);
+    for (const row of calls) record(row.leadId, row.at);
+
+    const messages = await db.select({
+      leadId: whatsappConversations.leadId,
+      at: sql<Date>`min(${whatsappMessages.sentAt})`.mapWith(whatsappMessages.sentAt),
+    })
+      .from(whatsappMessages)
+      .innerJoin(whatsappConversations, eq(whatsappMessages.conversationId, whatsappConversations.id))
+      .where(and(
+        eq(whatsappMessages.direction, "out"),
+        eq(whatsappMessages.isNote, false),
+        leadIds ? inArray(whatsappConversations.leadId, leadIds) : sql`${whatsappConversations.leadId} is not null`,
+      ))
+      .groupBy(whatsappConversations.leadId);
+    for (const row of messages) record(row.leadId, row.at);
+
+    const completed = await db.select({ leadId: followUps.leadId, at: sql<Date>`min(${followUps.completedAt})`.mapWith(followUps.completedAt) })
+      .from(followUps)
+      .where(and(sql`${followUps.completedAt} is not null`, leadIds ? inArray(followUps.leadId, leadIds) : undefined))
+      .groupBy(followUps.leadId);
+    for (const row of completed) record(row.leadId, row.at);
+
+    return responses;
+  }
+
+  // Like updateLeadScore, leaves updatedAt alone: predictions are not edits
+  async setLeadConversionProbabilities(probabilities: Map<string, number>, modelId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const [leadId, probability] of Array.from(probabilities)) {
+        await tx.update(leads)
+          .set({ conversionProbability: probability, conversionModelId: modelId })
+          .where(eq(leads.id, leadId));
+      }
+    });
+  }
+
+  // Timeline
+  // Pages over a union of (type, id, time) from every source, then loads the full rows for that page only.
+  async getTimeline(subject: TimelineSubject, query: TimelineQuery): Promise<{ entries: TimelineEntry[]; total: number }> {
+    const types = query.types?.length ? query.types : (Object.keys(timelineSources) as TimelineEntryType[]);
+    const parts = types.flatMap(type => {
+      const source = timelineSources[type];
+      const match = source.match(subject);
+      if (!match) return [];
+      return [db.select({
+        type: sql<TimelineEntryType>`${sql.raw(`'${type}'`)}`.as("type"),
+        id: sql<string>`${source.id}`.as("id"),
+        occurredAt: sql<Date>`${source.occurredAt}`.as("occurred_at"),
+      }).from(source.table).where(match)];
+    });
+    if (parts.length === 0) return { entries: [], total: 0 };
+
+    const timeline = (parts.length === 1 ? parts[0] : unionAll(parts[0], parts[1], ...parts.slice(2))).as("timeline");
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` }).from(timeline);
+    const page = await db.select({ type: timeline.type, id: timeline.id }).from(timeline)
+      .orderBy(desc(timeline.occurredAt), desc(timeline.id))
+      .limit(query.limit)
+      .offset(query.offset);
+
+    const records = new Map<string, { record: unknown; userId: string | null; occurredAt: Date }>();
+    for (const type of Array.from(new Set(page.map(row => row.type)))) {
+      const source = timelineSources[type];
+      const ids = page.filter(row => row.type === type).map(row => row.id);
+      const rows = await db.select({ record: source.table, id: source.id, userId: source.userId, occurredAt: source.occurredAt })
+        .from(source.table)
+        .where(inArray(source.id, ids));
+      for (const row of rows) {
+        records.set(`${type}:${row.id}`, { record: row.record, userId: row.userId as string | null, occurredAt: row.occurredAt as Date });
+      }
+    }
+
+    const userIds = new Set<string>();
+    const entries = page.flatMap(row => {
+      const found = records.get(`${row.type}:${row.id}`);
+      if (!found) return []; // deleted between the two queries
+      if (found.userId) userIds.add(found.userId);
+      return [{ type: row.type, id: row.id, occurredAt: found.occurredAt, userId: found.userId, userName: null as string | null, data: found.record }];
+    });
+
+    const names = userIds.size > 0
+      ? new Map((await db.select({ id: users.id, name: users.name }).from(users).where(inArray(users.id, Array.from(userIds))))
+        .map(user => [user.id, user.name]))
+      : new Map<string, string>();
+    for (const entry of entries) {
+      entry.userName = entry.userId ? names.get(entry.userId) ?? null : null;
+    }
+
+    return { entries: entries as unknown as TimelineEntry[], total };
+  }
+
   // Lead Notes
+  async getLeadNote(id: string): Promise<LeadNote | undefined> {
+    const [note] = await db.select().from(leadNotes).where(eq(leadNotes.id, id));
+    return note || undefined;
+  }
+
+  // Pinned notes first (most recently pinned on top), then newest first
   async getLeadNotes(leadId: string): Promise<LeadNote[]> {
-    return db.select().from(leadNotes).where(eq(leadNotes.leadId, leadId)).orderBy(desc(leadNotes.createdAt));
+    return db.select().from(leadNotes)
+      .where(eq(leadNotes.leadId, leadId))
+      .orderBy(desc(leadNotes.isPinned), sql`${leadNotes.pinnedAt} desc nulls last`, desc(leadNotes.createdAt));
   }
 
   async createLeadNote(note: InsertLeadNote): Promise<LeadNote> {
@@ -259,6 +1330,15 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async updateLeadNote(id: string, note: Partial<InsertLeadNote> & { updatedAt?: Date }): Promise<LeadNote | undefined> {
+    const [updated] = await db.update(leadNotes).set(note).where(eq(leadNotes.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteLeadNote(id: string): Promise<void> {
+    await db.delete(leadNotes).where(eq(leadNotes.id, id));
+  }
+
   // Follow-ups
   async getFollowUp(id: string): Promise<FollowUp | undefined> {
     const [followUp] = await db.select().from(followUps).where(eq(followUps.id, id));
@@ -301,12 +1381,26 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createClient(insertClient: InsertClient): Promise<Client> {
-    const [client] = await db.insert(clients).values(insertClient).returning();
+    const [client] = await db.insert(clients).values({ ...insertClient, phoneE164: toE164(insertClient.phone) }).returning();
     return client;
   }
 
   async updateClient(id: string, updates: Partial<InsertClient>): Promise<Client | undefined> {
-    const [client] = await db.update(clients).set(updates).where(eq(clients.id, id)).returning();
+    const values = updates.phone !== undefined ? { ...updates, phoneE164: toE164(updates.phone) } : updates;
+    const [client] = await db.update(clients).set(values).where(eq(clients.id, id)).returning();
+    return client || undefined;
+  }
+
+  // The client a lead was converted into; the first one if it was converted more than once
+  async getClientByLead(leadId: string): Promise<Client | undefined> {
+    const [client] = await db.select().from(clients).where(eq(clients.leadId, leadId)).orderBy(asc(clients.createdAt)).limit(1);
+    return client || undefined;
+  }
+
+  async findClientByPhone(phone: string): Promise<Client | undefined> {
+    const e164 = toE164(phone);
+    const condition = e164 ? eq(clients.phoneE164, e164) : eq(clients.phone, phone.trim());
+    const [client] = await db.select().from(clients).where(condition).orderBy(asc(clients.createdAt)).limit(1);
     return client || undefined;
   }
 
@@ -318,6 +1412,24 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(clients).orderBy(desc(clients.createdAt));
   }
 
+  async queryClients(filters: ClientQueryFilters = {}): Promise<Client[]> {
+    const conditions: (SQL | undefined)[] = [];
+
+    if (filters.search) {
+      const pattern = `%${escapeLikePattern(filters.search)}%`;
+      conditions.push(or(
+        ilike(clients.companyName, pattern),
+        ilike(clients.contactName, pattern),
+        ilike(clients.email, pattern),
+        ilike(clients.phone, pattern),
+      ));
+    }
+    if (filters.ownerId) conditions.push(eq(clients.ownerId, filters.ownerId));
+    if (filters.customFields) conditions.push(...customFieldConditions(clients.customFields, filters.customFields));
+
+    return db.select().from(clients).where(and(...conditions)).orderBy(desc(clients.createdAt));
+  }
+
   // Services
   async getService(id: string): Promise<Service | undefined> {
     const [service] = await db.select().from(services).where(eq(services.id, id));
@@ -394,15 +1506,31 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(tasks).orderBy(desc(tasks.createdAt));
   }
 
+  async getTasksByLead(leadId: string): Promise<Task[]> {
+    return db.select().from(tasks).where(eq(tasks.leadId, leadId)).orderBy(desc(tasks.createdAt));
+  }
+
   // Quotations
   async getQuotation(id: string): Promise<Quotation | undefined> {
     const [quotation] = await db.select().from(quotations).where(eq(quotations.id, id));
     return quotation || undefined;
   }
 
-  async createQuotation(insertQuotation: InsertQuotation): Promise<Quotation> {
-    const [quotation] = await db.insert(quotations).values(insertQuotation).returning();
-    return quotation;
+  // Numbered QT-<year>-<sequence>, one after the highest number of the year. The advisory lock makes
+  // concurrent creates take turns, so two quotations never read the same highest number.
+  async createQuotation(insertQuotation: Omit<InsertQuotation, "quotationNumber">): Promise<Quotation> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('quotations.quotation_number'))`);
+      const prefix = `QT-${new Date().getFullYear()}-`;
+      const [{ last }] = await tx.select({
+        last: sql<number>`coalesce(max(substring(${quotations.quotationNumber} from ${prefix.length + 1}::int)::int), 0)`,
+      })
+        .from(quotations)
+        .where(sql`${quotations.quotationNumber} ~ ${`^${prefix}[0-9]+$`}`);
+      const quotationNumber = `${prefix}${String(last + 1).padStart(4, "0")}`;
+      const [quotation] = await tx.insert(quotations).values({ ...insertQuotation, quotationNumber }).returning();
+      return quotation;
+    });
   }
 
   async updateQuotation(id: string, updates: Partial<InsertQuotation>): Promise<Quotation | undefined> {
@@ -418,6 +1546,10 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(quotations).orderBy(desc(quotations.createdAt));
   }
 
+  async getQuotationsByLead(leadId: string): Promise<Quotation[]> {
+    return db.select().from(quotations).where(eq(quotations.leadId, leadId)).orderBy(desc(quotations.createdAt));
+  }
+
   // Invoices
   async getInvoice(id: string): Promise<Invoice | undefined> {
     const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
@@ -502,6 +1634,14 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(campaigns).orderBy(desc(campaigns.createdAt));
   }
 
+  async getCampaignByExternalId(externalCampaignId: string, platforms: string[]): Promise<Campaign | undefined> {
+    const [campaign] = await db.select().from(campaigns)
+      .where(and(eq(campaigns.externalCampaignId, externalCampaignId), inArray(campaigns.platform, platforms)))
+      .orderBy(desc(campaigns.createdAt))
+      .limit(1);
+    return campaign || undefined;
+  }
+
   // Client Services
   async getClientServices(clientId: string): Promise<ClientService[]> {
     return db.select().from(clientServices).where(eq(clientServices.clientId, clientId)).orderBy(desc(clientServices.createdAt));
@@ -668,6 +1808,46 @@ export class DatabaseStorage implements IStorage {
     await db.delete(checklistItems).where(eq(checklistItems.id, id));
   }
 
+  // Checklist Templates
+  async getChecklistTemplates(): Promise<ChecklistTemplate[]> {
+    return db.select().from(checklistTemplates).orderBy(asc(checklistTemplates.name));
+  }
+
+  async getChecklistTemplate(id: string): Promise<ChecklistTemplate | undefined> {
+    const [template] = await db.select().from(checklistTemplates).where(eq(checklistTemplates.id, id));
+    return template || undefined;
+  }
+
+  async createChecklistTemplate(template: InsertChecklistTemplate & { createdById: string }): Promise<ChecklistTemplate> {
+    const [created] = await db.insert(checklistTemplates).values(template).returning();
+    return created;
+  }
+
+  async updateChecklistTemplate(id: string, updates: Partial<InsertChecklistTemplate>): Promise<ChecklistTemplate | undefined> {
+    const [updated] = await db.update(checklistTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(checklistTemplates.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteChecklistTemplate(id: string): Promise<void> {
+    await db.delete(checklistTemplates).where(eq(checklistTemplates.id, id));
+  }
+
+  // A client checklist named after the template, with one item per template item
+  async createChecklistFromTemplate(clientId: string, template: ChecklistTemplate, createdById: string): Promise<Checklist> {
+    return db.transaction(async (tx) => {
+      const [checklist] = await tx.insert(checklists).values({ clientId, name: template.name, createdById }).returning();
+      if (template.items.length > 0) {
+        await tx.insert(checklistItems).values(
+          template.items.map((title, sortOrder) => ({ checklistId: checklist.id, title, sortOrder })),
+        );
+      }
+      return checklist;
+    });
+  }
+
   // Distribution Settings
   async getDistributionSettings(): Promise<DistributionSettings | undefined> {
     const [settings] = await db.select().from(distributionSettings).limit(1);
@@ -690,35 +1870,502 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getNextAssignee(): Promise<User | undefined> {
-    const settings = await this.getDistributionSettings();
-    if (!settings || !settings.isEnabled) return undefined;
+  async getDistributionReps(): Promise<DistributionRep[]> {
+    return db.select().from(distributionReps);
+  }
+
+  async upsertDistributionRep(rep: InsertDistributionRep): Promise<DistributionRep> {
+    const { userId, ...settings } = rep;
+    const [saved] = await db.insert(distributionReps)
+      .values(rep)
+      .onConflictDoUpdate({ target: distributionReps.userId, set: { ...settings, updatedAt: new Date() } })
+      .returning();
+    return saved;
+  }
+
+  // Per owner: leads still being worked, and leads distributed to them since the given time
+  async getRepLoads(since: Date): Promise<Map<string, RepLoad>> {
+    const rows = await db.select({
+      userId: leads.ownerId,
+      openLeads: sql<number>`count(*) filter (where ${leads.status} not in ('converted', 'not_interested'))::int`,
+      distributedSince: sql<number>`count(*) filter (where ${leads.distributedAt} >= ${since})::int`,
+    })
+      .from(leads)
+      .where(sql`${leads.ownerId} is not null`)
+      .groupBy(leads.ownerId);
+    return new Map(rows.map(({ userId, ...load }) => [userId!, load]));
+  }
+
+  // Open leads (by status and pipeline stage) distributed in the window that nobody has contacted since
+  async getUncontactedDistributedLeads(distributedAfter: Date, distributedBefore: Date): Promise<Lead[]> {
+    return db.select().from(leads).where(and(
+      sql`${leads.ownerId} is not null`,
+      gte(leads.distributedAt, distributedAfter),
+      lte(leads.distributedAt, distributedBefore),
+      sql`${leads.status} not in ('converted', 'not_interested')`,
+      notExists(db.select({ id: pipelineStageDefinitions.id }).from(pipelineStageDefinitions)
+        .where(and(
+          eq(pipelineStageDefinitions.pipelineId, leads.pipelineId),
+          eq(pipelineStageDefinitions.key, leads.pipelineStage),
+          sql`${pipelineStageDefinitions.outcome} <> 'open'`,
+        ))),
+      notExists(db.select({ id: callLogs.id }).from(callLogs)
+        .where(and(eq(callLogs.leadId, leads.id), gte(callLogs.calledAt, leads.distributedAt)))),
+      notExists(db.select({ id: leadNotes.id }).from(leadNotes)
+        .where(and(
+          eq(leadNotes.leadId, leads.id),
+          inArray(leadNotes.type, ["call", "email", "whatsapp"]),
+          gte(leadNotes.createdAt, leads.distributedAt),
+        ))),
+      notExists(db.select({ id: followUps.id }).from(followUps)
+        .where(and(eq(followUps.leadId, leads.id), gte(followUps.completedAt, leads.distributedAt)))),
+      notExists(db.select({ id: whatsappMessages.id }).from(whatsappMessages)
+        .innerJoin(whatsappConversations, eq(whatsappMessages.conversationId, whatsappConversations.id))
+        .where(and(
+          eq(whatsappConversations.leadId, leads.id),
+          eq(whatsappMessages.direction, "out"),
+          eq(whatsappMessages.isNote, false),
+          gte(whatsappMessages.sentAt, leads.distributedAt),
+        ))),
+    ));
+  }
+
+  async getDistributionRules(): Promise<DistributionRule[]> {
+    return db.select().from(distributionRules).orderBy(asc(distributionRules.priority), asc(distributionRules.createdAt));
+  }
+
+  async getDistributionRule(id: string): Promise<DistributionRule | undefined> {
+    const [rule] = await db.select().from(distributionRules).where(eq(distributionRules.id, id));
+    return rule || undefined;
+  }
+
+  async createDistributionRule(rule: InsertDistributionRule): Promise<DistributionRule> {
+    const [created] = await db.insert(distributionRules).values(rule).returning();
+    return created;
+  }
+
+  async updateDistributionRule(id: string, rule: Partial<InsertDistributionRule>): Promise<DistributionRule | undefined> {
+    const [updated] = await db.update(distributionRules).set(rule).where(eq(distributionRules.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteDistributionRule(id: string): Promise<void> {
+    await db.delete(distributionRules).where(eq(distributionRules.id, id));
+  }
+
+  // Lead Forms
+  async getLeadForms(): Promise<LeadForm[]> {
+    return db.select().from(leadForms).orderBy(desc(leadForms.createdAt));
+  }
+
+  async getLeadForm(id: string): Promise<LeadForm | undefined> {
+    const [form] = await db.select().from(leadForms).where(eq(leadForms.id, id));
+    return form || undefined;
+  }
+
+  async createLeadForm(form: InsertLeadForm & { createdById: string }): Promise<LeadForm> {
+    const [created] = await db.insert(leadForms).values(form).returning();
+    return created;
+  }
+
+  async updateLeadForm(id: string, updates: Partial<InsertLeadForm>): Promise<LeadForm | undefined> {
+    const [form] = await db.update(leadForms)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(leadForms.id, id))
+      .returning();
+    return form || undefined;
+  }
+
+  async deleteLeadForm(id: string): Promise<void> {
+    await db.delete(leadForms).where(eq(leadForms.id, id));
+  }
+
+  // Counters are bumped in SQL so concurrent visitors are not lost; updatedAt is for edits only
+  async recordLeadFormView(id: string): Promise<void> {
+    await db.update(leadForms).set({ viewCount: sql`${leadForms.viewCount} + 1` }).where(eq(leadForms.id, id));
+  }
+
+  async recordLeadFormSubmission(id: string): Promise<void> {
+    await db.update(leadForms).set({ submissionCount: sql`${leadForms.submissionCount} + 1` }).where(eq(leadForms.id, id));
+  }
+
+  async setLeadFormKeys(id: string, keys: { apiKey: string; signingSecret: string }): Promise<LeadForm | undefined> {
+    const [form] = await db.update(leadForms)
+      .set({ ...keys, updatedAt: new Date() })
+      .where(eq(leadForms.id, id))
+      .returning();
+    return form || undefined;
+  }
+
+  // Lead Quarantine
+  async getQuarantinedLeads(status?: QuarantineStatus): Promise<QuarantinedLead[]> {
+    return db.select().from(quarantinedLeads)
+      .where(status ? eq(quarantinedLeads.status, status) : undefined)
+      .orderBy(desc(quarantinedLeads.createdAt));
+  }
+
+  async getQuarantinedLead(id: string): Promise<QuarantinedLead | undefined> {
+    const [entry] = await db.select().from(quarantinedLeads).where(eq(quarantinedLeads.id, id));
+    return entry || undefined;
+  }
+
+  async createQuarantinedLead(entry: InsertQuarantinedLead): Promise<QuarantinedLead> {
+    const [created] = await db.insert(quarantinedLeads).values(entry).returning();
+    return created;
+  }
+
+  async updateQuarantinedLead(id: string, updates: Partial<InsertQuarantinedLead>): Promise<QuarantinedLead | undefined> {
+    const [entry] = await db.update(quarantinedLeads).set(updates).where(eq(quarantinedLeads.id, id)).returning();
+    return entry || undefined;
+  }
+
+  // Only a pending entry can be reviewed, so two admins acting at once cannot both release it
+  async reviewQuarantinedLead(id: string, status: QuarantineStatus, reviewedById: string): Promise<QuarantinedLead | undefined> {
+    const [entry] = await db.update(quarantinedLeads)
+      .set({ status, reviewedById, reviewedAt: new Date() })
+      .where(and(eq(quarantinedLeads.id, id), eq(quarantinedLeads.status, "pending")))
+      .returning();
+    return entry || undefined;
+  }
+
+  // Lead Webhook Events
+  async getLeadWebhookEvents(limit: number): Promise<LeadWebhookEvent[]> {
+    return db.select().from(leadWebhookEvents).orderBy(desc(leadWebhookEvents.processedAt)).limit(limit);
+  }
+
+  async getLeadWebhookEvent(id: string): Promise<LeadWebhookEvent | undefined> {
+    const [event] = await db.select().from(leadWebhookEvents).where(eq(leadWebhookEvents.id, id));
+    return event || undefined;
+  }
+
+  async findLeadWebhookEvent(provider: LeadWebhookProvider, externalLeadId: string): Promise<LeadWebhookEvent | undefined> {
+    const [event] = await db.select().from(leadWebhookEvents)
+      .where(and(eq(leadWebhookEvents.provider, provider), eq(leadWebhookEvents.externalLeadId, externalLeadId)));
+    return event || undefined;
+  }
 
-    const activeUsers = await db.select().from(users)
-      .where(and(eq(users.isActive, true), eq(users.role, 'sales')))
-      .orderBy(asc(users.createdAt));
+  // A lead delivered again (a retry, or a failed event being reprocessed) overwrites its earlier row
+  async saveLeadWebhookEvent(event: InsertLeadWebhookEvent): Promise<LeadWebhookEvent> {
+    const { provider, externalLeadId, ...updates } = event;
+    const [saved] = await db.insert(leadWebhookEvents)
+      .values(event)
+      .onConflictDoUpdate({
+        target: [leadWebhookEvents.provider, leadWebhookEvents.externalLeadId],
+        set: { ...updates, processedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Pipelines
+  async getPipelines(): Promise<PipelineWithStages[]> {
+    const [rows, stages] = await Promise.all([
+      db.select().from(pipelines).orderBy(asc(pipelines.position), asc(pipelines.createdAt)),
+      db.select().from(pipelineStageDefinitions).orderBy(asc(pipelineStageDefinitions.position)),
+    ]);
+    return rows.map(pipeline => ({ ...pipeline, stages: stages.filter(stage => stage.pipelineId === pipeline.id) }));
+  }
+
+  async getPipeline(id: string): Promise<PipelineWithStages | undefined> {
+    const [pipeline] = await db.select().from(pipelines).where(eq(pipelines.id, id));
+    if (!pipeline) return undefined;
+    const stages = await db.select().from(pipelineStageDefinitions)
+      .where(eq(pipelineStageDefinitions.pipelineId, id))
+      .orderBy(asc(pipelineStageDefinitions.position));
+    return { ...pipeline, stages };
+  }
+
+  async getDefaultPipeline(): Promise<PipelineWithStages | undefined> {
+    const [pipeline] = await db.select({ id: pipelines.id }).from(pipelines).where(eq(pipelines.isDefault, true)).limit(1);
+    return pipeline ? this.getPipeline(pipeline.id) : undefined;
+  }
+
+  // New pipelines go to the end of the switcher. Making one the default takes the flag off the previous default.
+  async createPipeline(pipeline: InsertPipeline, stages: PipelineStageInput[]): Promise<PipelineWithStages> {
+    const id = await db.transaction(async (tx) => {
+      if (pipeline.isDefault) await tx.update(pipelines).set({ isDefault: false }).where(eq(pipelines.isDefault, true));
+      const [{ next }] = await tx.select({ next: sql<number>`coalesce(max(${pipelines.position}), -1)::int + 1` }).from(pipelines);
+      const [created] = await tx.insert(pipelines).values({ ...pipeline, position: pipeline.position ?? next }).returning();
+      await tx.insert(pipelineStageDefinitions).values(
+        stages.map(({ id: _id, ...stage }, position) => ({ ...stage, pipelineId: created.id, position })),
+      );
+      return created.id;
+    });
+    return (await this.getPipeline(id))!;
+  }
 
-    if (activeUsers.length === 0) return undefined;
+  // With stages, replaces the pipeline's stage list: stages with an id are updated in place (keeping their
+  // key), new ones are inserted and any left out are deleted. Positions follow the order given.
+  async updatePipeline(id: string, updates: Partial<InsertPipeline>, stages?: PipelineStageInput[]): Promise<PipelineWithStages | undefined> {
+    const found = await db.transaction(async (tx) => {
+      if (updates.isDefault) {
+        await tx.update(pipelines).set({ isDefault: false }).where(and(eq(pipelines.isDefault, true), sql`${pipelines.id} <> ${id}`));
+      }
+      const [pipeline] = await tx.update(pipelines).set({ ...updates, updatedAt: new Date() }).where(eq(pipelines.id, id)).returning();
+      if (!pipeline || !stages) return !!pipeline;
+
+      const keptIds = stages.flatMap(stage => stage.id ? [stage.id] : []);
+      await tx.delete(pipelineStageDefinitions).where(and(
+        eq(pipelineStageDefinitions.pipelineId, id),
+        keptIds.length > 0 ? notInArray(pipelineStageDefinitions.id, keptIds) : undefined,
+      ));
+      for (let position = 0; position < stages.length; position++) {
+        const { id: stageId, key, ...stage } = stages[position];
+        if (stageId) {
+          await tx.update(pipelineStageDefinitions)
+            .set({ ...stage, position })
+            .where(and(eq(pipelineStageDefinitions.id, stageId), eq(pipelineStageDefinitions.pipelineId, id)));
+        } else {
+          await tx.insert(pipelineStageDefinitions).values({ ...stage, key, pipelineId: id, position });
+        }
+      }
+      return true;
+    });
+    return found ? this.getPipeline(id) : undefined;
+  }
+
+  async deletePipeline(id: string): Promise<void> {
+    await db.delete(pipelines).where(eq(pipelines.id, id));
+  }
 
-    if (settings.method === 'round_robin') {
-      const lastIndex = settings.lastAssignedUserId 
-        ? activeUsers.findIndex(u => u.id === settings.lastAssignedUserId)
-        : -1;
-      const nextIndex = (lastIndex + 1) % activeUsers.length;
-      return activeUsers[nextIndex];
+  // Leads matching the filters per stage key, with their total deal value
+  async getLeadStageTotals(filters: LeadQueryFilters): Promise<Record<string, { count: number; value: number }>> {
+    const rows = await db.select({
+      stage: leads.pipelineStage,
+      count: sql<number>`count(*)::int`,
+      value: sql<string>`coalesce(sum(${leads.dealValue}), 0)`,
+    })
+      .from(leads)
+      .where(leadFilterCondition(filters))
+      .groupBy(leads.pipelineStage);
+    return Object.fromEntries(rows.map(row => [row.stage, { count: row.count, value: Number(row.value) }]));
+  }
+
+  // Leads in the pipeline per stage key
+  async countPipelineLeads(pipelineId: string): Promise<Record<string, number>> {
+    const rows = await db.select({ stage: leads.pipelineStage, count: sql<number>`count(*)::int` })
+      .from(leads)
+      .where(eq(leads.pipelineId, pipelineId))
+      .groupBy(leads.pipelineStage);
+    return Object.fromEntries(rows.map(row => [row.stage, row.count]));
+  }
+
+  // Backfilling the pipeline is not an edit of the lead, so updatedAt is left alone
+  async moveLeadsWithoutPipeline(pipelineId: string): Promise<number> {
+    const moved = await db.update(leads).set({ pipelineId }).where(isNull(leads.pipelineId)).returning({ id: leads.id });
+    return moved.length;
+  }
+
+  // Lead Stage Changes
+  // Oldest first. With a pipeline: the full history of every lead that has been in it
+  async getLeadStageChanges(filters: { leadId?: string; pipelineId?: string }): Promise<LeadStageChange[]> {
+    const conditions: (SQL | undefined)[] = [];
+    if (filters.leadId) conditions.push(eq(leadStageChanges.leadId, filters.leadId));
+    if (filters.pipelineId) {
+      conditions.push(inArray(leadStageChanges.leadId,
+        db.selectDistinct({ leadId: leadStageChanges.leadId }).from(leadStageChanges).where(eq(leadStageChanges.pipelineId, filters.pipelineId))));
     }
+    return db.select().from(leadStageChanges)
+      .where(and(...conditions))
+      .orderBy(asc(leadStageChanges.changedAt));
+  }
+
+  // Leads from before stage history was kept get one entry: their current stage, entered when they were created
+  async addMissingLeadStageChanges(): Promise<number> {
+    const added = await db.insert(leadStageChanges)
+      .select(db.select({
+        id: sql<string>`gen_random_uuid()`.as("id"),
+        leadId: leads.id,
+        fromPipelineId: sql<string | null>`null`.as("from_pipeline_id"),
+        fromStage: sql<string | null>`null`.as("from_stage"),
+        pipelineId: leads.pipelineId,
+        toStage: leads.pipelineStage,
+        changedById: sql<string | null>`null`.as("changed_by_id"),
+        changedAt: leads.createdAt,
+      }).from(leads).where(notExists(db.select({ id: leadStageChanges.id }).from(leadStageChanges).where(eq(leadStageChanges.leadId, leads.id)))))
+      .returning({ id: leadStageChanges.id });
+    return added.length;
+  }
+
+  // Won leads from before won dates were kept: the last time they entered a won stage, else their last update
+  async addMissingWonDates(): Promise<number> {
+    const wonStage = (pipelineId: PgColumn, stageKey: PgColumn) => exists(db.select({ id: pipelineStageDefinitions.id })
+      .from(pipelineStageDefinitions)
+      .where(and(
+        eq(pipelineStageDefinitions.pipelineId, pipelineId),
+        eq(pipelineStageDefinitions.key, stageKey),
+        eq(pipelineStageDefinitions.outcome, "won"),
+      )));
+    const lastWonEntry = db.select({ changedAt: sql`max(${leadStageChanges.changedAt})` })
+      .from(leadStageChanges)
+      .where(and(eq(leadStageChanges.leadId, leads.id), wonStage(leadStageChanges.pipelineId, leadStageChanges.toStage)));
+    const dated = await db.update(leads)
+      .set({ wonAt: sql`coalesce((${lastWonEntry}), ${leads.updatedAt})` })
+      .where(and(isNull(leads.wonAt), or(eq(leads.status, "converted"), wonStage(leads.pipelineId, leads.pipelineStage))))
+      .returning({ id: leads.id });
+    return dated.length;
+  }
+
+  // Loss Reasons
+  async getLossReasons(): Promise<LossReason[]> {
+    return db.select().from(lossReasons).orderBy(asc(lossReasons.position), asc(lossReasons.createdAt));
+  }
+
+  async getLossReason(id: string): Promise<LossReason | undefined> {
+    const [reason] = await db.select().from(lossReasons).where(eq(lossReasons.id, id));
+    return reason || undefined;
+  }
+
+  // New reasons go to the end of the list
+  async createLossReason(reason: InsertLossReason): Promise<LossReason> {
+    const [{ next }] = await db.select({ next: sql<number>`coalesce(max(${lossReasons.position}) + 1, 0)::int` }).from(lossReasons);
+    const [created] = await db.insert(lossReasons).values({ position: next, ...reason }).returning();
+    return created;
+  }
 
-    return activeUsers[0];
+  async updateLossReason(id: string, updates: Partial<InsertLossReason>): Promise<LossReason | undefined> {
+    const [updated] = await db.update(lossReasons).set(updates).where(eq(lossReasons.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteLossReason(id: string): Promise<void> {
+    await db.delete(lossReasons).where(eq(lossReasons.id, id));
+  }
+
+  async countLossReasonLeads(id: string): Promise<number> {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(leads).where(eq(leads.lossReasonId, id));
+    return count;
+  }
+
+  // SLA Policies
+  async getSlaPolicies(): Promise<SlaPolicy[]> {
+    return db.select().from(slaPolicies).orderBy(asc(slaPolicies.scope), asc(slaPolicies.responseMinutes));
+  }
+
+  async getSlaPolicy(id: string): Promise<SlaPolicy | undefined> {
+    const [policy] = await db.select().from(slaPolicies).where(eq(slaPolicies.id, id));
+    return policy || undefined;
+  }
+
+  async createSlaPolicy(policy: InsertSlaPolicy): Promise<SlaPolicy> {
+    const [created] = await db.insert(slaPolicies).values(policy).returning();
+    return created;
+  }
+
+  async updateSlaPolicy(id: string, updates: Partial<InsertSlaPolicy>): Promise<SlaPolicy | undefined> {
+    const [policy] = await db.update(slaPolicies).set(updates).where(eq(slaPolicies.id, id)).returning();
+    return policy || undefined;
+  }
+
+  async deleteSlaPolicy(id: string): Promise<void> {
+    await db.delete(slaPolicies).where(eq(slaPolicies.id, id));
+  }
+
+  // SLA Breaches
+  async getSlaBreaches(range: { from?: Date; to?: Date } = {}): Promise<SlaBreach[]> {
+    return db.select().from(slaBreaches)
+      .where(and(
+        range.from ? gte(slaBreaches.startedAt, range.from) : undefined,
+        range.to ? lte(slaBreaches.startedAt, range.to) : undefined,
+      ))
+      .orderBy(desc(slaBreaches.startedAt));
+  }
+
+  async getOpenSlaBreaches(): Promise<SlaBreach[]> {
+    return db.select().from(slaBreaches).where(sql`${slaBreaches.respondedAt} is null`);
+  }
+
+  // Breaches already on record for the same subject are skipped; only new rows are returned
+  async createSlaBreaches(breaches: InsertSlaBreach[]): Promise<SlaBreach[]> {
+    if (breaches.length === 0) return [];
+    return db.insert(slaBreaches).values(breaches).onConflictDoNothing().returning();
+  }
+
+  async updateSlaBreach(id: string, updates: Partial<InsertSlaBreach>): Promise<SlaBreach | undefined> {
+    const [breach] = await db.update(slaBreaches).set(updates).where(eq(slaBreaches.id, id)).returning();
+    return breach || undefined;
+  }
+
+  // Inbound messages that arrived after an outbound message (or opened the conversation), i.e. the first of
+  // each run of inbound messages. The reply is the first outbound message sent at or after it; notes do not count.
+  async getAwaitedInboundMessages(filter: { since: Date } | { messageIds: string[] }): Promise<AwaitedInboundMessage[]> {
+    if ("messageIds" in filter && filter.messageIds.length === 0) return [];
+    const ordered = db.select({
+      id: whatsappMessages.id,
+      conversationId: whatsappMessages.conversationId,
+      direction: whatsappMessages.direction,
+      sentAt: whatsappMessages.sentAt,
+      previousDirection: sql<string | null>`lag(${whatsappMessages.direction}) over (partition by ${whatsappMessages.conversationId} order by ${whatsappMessages.sentAt})`.as("previous_direction"),
+    })
+      .from(whatsappMessages)
+      .where(eq(whatsappMessages.isNote, false))
+      .as("ordered");
+
+    return db.select({
+      messageId: ordered.id,
+      conversationId: ordered.conversationId,
+      leadId: whatsappConversations.leadId,
+      assignedUserId: whatsappConversations.assignedUserId,
+      receivedAt: ordered.sentAt,
+      // The outer query only reads the "ordered" subquery, so whatsapp_messages here is the correlated reply
+      respondedAt: sql<Date | null>`(
+        select min(${whatsappMessages.sentAt}) from ${whatsappMessages}
+        where ${whatsappMessages.conversationId} = ${ordered.conversationId} and ${whatsappMessages.direction} = 'out'
+          and ${whatsappMessages.isNote} = false and ${whatsappMessages.sentAt} >= ${ordered.sentAt}
+      )`.mapWith(whatsappMessages.sentAt),
+    })
+      .from(ordered)
+      .innerJoin(whatsappConversations, eq(ordered.conversationId, whatsappConversations.id))
+      .where(and(
+        eq(ordered.direction, "in"),
+        sql`${ordered.previousDirection} is distinct from 'in'`,
+        "since" in filter ? gte(ordered.sentAt, filter.since) : inArray(ordered.id, filter.messageIds),
+      ));
   }
 
   // Duplicate Lead Detection
   async findDuplicateLeads(mobile: string, email?: string): Promise<Lead[]> {
-    const allLeads = await db.select().from(leads);
-    return allLeads.filter(lead => {
-      if (lead.mobile === mobile) return true;
-      if (email && lead.email === email) return true;
-      return false;
-    });
+    const matches: SQL[] = [leadPhoneCondition(mobile)];
+    if (email) matches.push(sql`lower(${leads.email}) = ${email.trim().toLowerCase()}`);
+    return db.select().from(leads).where(or(...matches));
+  }
+
+  // Fills the canonical phone columns. Without `all`, only rows that were never normalized are touched;
+  // with `all`, every row is recomputed (run after changing DEFAULT_PHONE_COUNTRY).
+  async backfillPhoneNumbers(options: { all?: boolean } = {}): Promise<{ leads: number; clients: number; conversations: number; unparseable: number }> {
+    const result = { leads: 0, clients: 0, conversations: 0, unparseable: 0 };
+
+    const leadRows = await db.select({ id: leads.id, mobile: leads.mobile, mobileE164: leads.mobileE164 })
+      .from(leads).where(options.all ? undefined : sql`${leads.mobileE164} is null`);
+    for (const row of leadRows) {
+      const e164 = toE164(row.mobile);
+      if (!e164) result.unparseable++;
+      if (e164 === row.mobileE164) continue;
+      await db.update(leads).set({ mobileE164: e164 }).where(eq(leads.id, row.id));
+      result.leads++;
+    }
+
+    const clientRows = await db.select({ id: clients.id, phone: clients.phone, phoneE164: clients.phoneE164 })
+      .from(clients).where(options.all ? undefined : sql`${clients.phoneE164} is null`);
+    for (const row of clientRows) {
+      const e164 = toE164(row.phone);
+      if (!e164) result.unparseable++;
+      if (e164 === row.phoneE164) continue;
+      await db.update(clients).set({ phoneE164: e164 }).where(eq(clients.id, row.id));
+      result.clients++;
+    }
+
+    const conversationRows = await db.select({ id: whatsappConversations.id, phone: whatsappConversations.phone, phoneE164: whatsappConversations.phoneE164 })
+      .from(whatsappConversations).where(options.all ? undefined : sql`${whatsappConversations.phoneE164} is null`);
+    for (const row of conversationRows) {
+      const e164 = toE164(row.phone);
+      if (!e164) result.unparseable++;
+      if (e164 === row.phoneE164) continue;
+      await db.update(whatsappConversations).set({ phoneE164: e164 }).where(eq(whatsappConversations.id, row.id));
+      result.conversations++;
+    }
+
+    return result;
   }
 
   // WhatsApp Conversations
@@ -728,18 +2375,23 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getWhatsappConversationByPhone(phone: string): Promise<WhatsappConversation | undefined> {
-    const [conversation] = await db.select().from(whatsappConversations).where(eq(whatsappConversations.phone, phone));
+    const e164 = toE164(phone);
+    const condition = e164 ? eq(whatsappConversations.phoneE164, e164) : eq(whatsappConversations.phone, phone.trim());
+    const [conversation] = await db.select().from(whatsappConversations).where(condition);
     return conversation || undefined;
   }
 
   async createWhatsappConversation(conversation: InsertWhatsappConversation): Promise<WhatsappConversation> {
-    const [created] = await db.insert(whatsappConversations).values(conversation).returning();
+    const [created] = await db.insert(whatsappConversations)
+      .values({ ...conversation, phoneE164: toE164(conversation.phone) })
+      .returning();
     return created;
   }
 
   async updateWhatsappConversation(id: string, conversation: Partial<InsertWhatsappConversation>): Promise<WhatsappConversation | undefined> {
+    const values = conversation.phone !== undefined ? { ...conversation, phoneE164: toE164(conversation.phone) } : conversation;
     const [updated] = await db.update(whatsappConversations)
-      .set({ ...conversation, updatedAt: new Date() })
+      .set({ ...values, updatedAt: new Date() })
       .where(eq(whatsappConversations.id, id))
       .returning();
     return updated || undefined;
@@ -0,0 +1,57 @@
+import type { ConversionModel } from "./schema";
+
+// Lead attributes the conversion model one-hot encodes. Values seen fewer than a few times in
+// training share the "other" slot, which is the all-zeros reference.
+export const conversionCategoricalFeatures = ["source", "utmSource", "utmMedium", "utmCampaign", "city", "interestLevel"] as const;
+export type ConversionCategoricalFeature = typeof conversionCategoricalFeatures[number];
+
+export const conversionNumericFeatures = ["budget", "hasBudget", "interactions", "responded", "responseHours"] as const;
+export type ConversionNumericFeature = typeof conversionNumericFeatures[number];
+
+export const conversionFeatureLabels: Record<ConversionCategoricalFeature | ConversionNumericFeature, string> = {
+  source: "Source",
+  utmSource: "UTM source",
+  utmMedium: "UTM medium",
+  utmCampaign: "UTM campaign",
+  city: "City",
+  interestLevel: "Interest level",
+  budget: "Budget",
+  hasBudget: "Budget given",
+  interactions: "Interactions",
+  responded: "Contacted",
+  responseHours: "Hours to first contact",
+};
+
+// Everything needed to predict: the encoding learned from the training set and the fitted weights
+export interface TrainedConversionModel {
+  vocabulary: Record<ConversionCategoricalFeature, string[]>;
+  means: number[]; // per numeric feature, for standardizing
+  stds: number[];
+  featureNames: string[]; // e.g. "source=google" or "budget", one per weight
+  weights: number[];
+  bias: number;
+}
+
+export interface CalibrationBin {
+  from: number;
+  to: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number; // share of the bin that actually converted
+}
+
+export interface ConversionModelMetrics {
+  trainingSize: number;
+  holdoutSize: number;
+  positiveRate: number; // share of converted leads in the training set
+  accuracy: number; // at a 0.5 threshold
+  baselineAccuracy: number; // always predicting the majority class
+  logLoss: number;
+  brierScore: number;
+  calibration: CalibrationBin[]; // non-empty tenths of the probability range
+}
+
+export type SerializedConversionModel = Omit<ConversionModel, "model" | "metrics"> & {
+  metrics: ConversionModelMetrics;
+  topFeatures: { feature: string; weight: number }[]; // largest weights by magnitude
+};
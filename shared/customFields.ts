@@ -0,0 +1,125 @@
+import type { CustomFieldDefinition, CustomFieldValue, CustomFieldValues } from "./schema";
+
+// Definitions as stored (options as JSON text) or as returned by the API (options parsed)
+export type CustomFieldDefinitionLike = Pick<CustomFieldDefinition, "key" | "label" | "fieldType" | "isRequired" | "isActive"> & {
+  options: string | string[] | null;
+};
+
+export type SerializedCustomFieldDefinition = Omit<CustomFieldDefinition, "options"> & { options: string[] };
+
+export interface CustomFieldValidationResult {
+  values: CustomFieldValues;
+  errors: Record<string, string>;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function parseCustomFieldOptions(definition: Pick<CustomFieldDefinitionLike, "options">): string[] {
+  if (!definition.options) return [];
+  if (Array.isArray(definition.options)) return definition.options;
+  try {
+    const parsed = JSON.parse(definition.options);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+// Coerces a raw value (form input, JSON body or CSV cell) to the field's type.
+// Returns an error message instead when the value does not fit the definition.
+export function coerceCustomFieldValue(
+  definition: CustomFieldDefinitionLike,
+  raw: unknown,
+): { value: CustomFieldValue } | { error: string } {
+  const options = parseCustomFieldOptions(definition);
+
+  switch (definition.fieldType) {
+    case "number": {
+      const num = typeof raw === "number" ? raw : Number(String(raw).trim());
+      if (!Number.isFinite(num)) return { error: `${definition.label} must be a number` };
+      return { value: num };
+    }
+    case "date": {
+      const str = String(raw).trim();
+      if (!ISO_DATE.test(str) || isNaN(new Date(str).getTime())) {
+        return { error: `${definition.label} must be a date (YYYY-MM-DD)` };
+      }
+      return { value: str };
+    }
+    case "boolean": {
+      if (typeof raw === "boolean") return { value: raw };
+      const str = String(raw).trim().toLowerCase();
+      if (["true", "yes", "1"].includes(str)) return { value: true };
+      if (["false", "no", "0"].includes(str)) return { value: false };
+      return { error: `${definition.label} must be yes or no` };
+    }
+    case "select": {
+      const str = String(raw).trim();
+      if (options.length > 0 && !options.includes(str)) {
+        return { error: `${definition.label} must be one of: ${options.join(", ")}` };
+      }
+      return { value: str };
+    }
+    case "multi_select": {
+      // CSV cells carry multiple values separated by semicolons
+      const list = Array.isArray(raw)
+        ? raw.map(v => String(v).trim())
+        : String(raw).split(";").map(v => v.trim());
+      const values = list.filter(Boolean);
+      const invalid = options.length > 0 ? values.filter(v => !options.includes(v)) : [];
+      if (invalid.length > 0) {
+        return { error: `${definition.label} has invalid option(s): ${invalid.join(", ")}` };
+      }
+      return { value: values };
+    }
+    default:
+      return { value: String(raw) };
+  }
+}
+
+// Validates submitted values against the active definitions for an entity.
+// Unknown keys are dropped, empty values are removed, and required fields are enforced.
+// With `partial`, required fields missing from the input are not reported (used for updates).
+export function validateCustomFieldValues(
+  definitions: CustomFieldDefinitionLike[],
+  input: Record<string, unknown> | null | undefined,
+  options: { partial?: boolean } = {},
+): CustomFieldValidationResult {
+  const values: CustomFieldValues = {};
+  const errors: Record<string, string> = {};
+  const source = input ?? {};
+
+  for (const definition of definitions) {
+    if (!definition.isActive) continue;
+    const present = Object.prototype.hasOwnProperty.call(source, definition.key);
+    const raw = source[definition.key];
+
+    if (isEmpty(raw)) {
+      if (definition.isRequired && (present || !options.partial)) {
+        errors[definition.key] = `${definition.label} is required`;
+      }
+      continue;
+    }
+
+    const result = coerceCustomFieldValue(definition, raw);
+    if ("error" in result) {
+      errors[definition.key] = result.error;
+    } else {
+      values[definition.key] = result.value;
+    }
+  }
+
+  return { values, errors };
+}
+
+// Renders a stored value for CSV export and list display
+export function formatCustomFieldValue(value: CustomFieldValue | undefined): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.join("; ");
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
@@ -0,0 +1,30 @@
+import type { DistributionMethod, DistributionRuleField } from "./schema";
+
+// A lead still not contacted after this many reassignments stays with its owner and goes to managers
+export const MAX_LEAD_REASSIGNMENTS = 2;
+
+export const distributionMethodLabels: Record<DistributionMethod, string> = {
+  round_robin: "Round robin",
+  load_based: "Fewest open leads",
+  weighted: "Weighted share",
+};
+
+export const distributionRuleFieldLabels: Record<DistributionRuleField, string> = {
+  source: "Source",
+  city: "City",
+  campaignId: "Campaign",
+  utmCampaign: "UTM campaign",
+};
+
+// A user's distribution settings together with their current load
+export interface DistributionRepStatus {
+  userId: string;
+  name: string;
+  role: string;
+  inRotation: boolean; // active sales users take part in the general rotation
+  weight: number;
+  dailyCap: number | null;
+  isOutOfOffice: boolean;
+  openLeads: number;
+  distributedToday: number;
+}
@@ -0,0 +1,172 @@
+import type { Client, Lead } from "./schema";
+
+// Signals the duplicate finder weighs. Each matching signal contributes a weight in 0..1 and
+// the confidence is their noisy-OR: 1 - (1 - w1)(1 - w2)...
+export const duplicateReasonTypes = ["phone", "email", "email_local_part", "email_domain", "name", "city"] as const;
+export type DuplicateReasonType = typeof duplicateReasonTypes[number];
+
+export interface DuplicateReason {
+  type: DuplicateReasonType;
+  label: string;
+  weight: number;
+}
+
+export interface DuplicateScore {
+  confidence: number; // 0..1
+  reasons: DuplicateReason[];
+}
+
+// The comparable parts of a lead or client
+export interface DuplicateCandidate {
+  name: string;
+  phone: string | null; // E.164 when available, otherwise as entered
+  email: string | null;
+  city: string | null;
+}
+
+export interface LeadDuplicateMatch extends DuplicateScore {
+  lead: Lead;
+}
+
+export interface ClientDuplicateMatch extends DuplicateScore {
+  client: Client;
+}
+
+// A lead (the oldest record of the group) with the leads and clients that look like the same person
+export interface DuplicateGroup {
+  lead: Lead;
+  confidence: number; // highest match confidence in the group
+  matches: LeadDuplicateMatch[];
+  clientMatches: ClientDuplicateMatch[];
+}
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.6;
+
+const WEIGHTS = {
+  phone: 0.9,
+  phoneSuffix: 0.6,
+  email: 0.9,
+  emailLocalPart: 0.4,
+  emailDomain: 0.15,
+  name: 0.45,
+  city: 0.15,
+};
+
+const NAME_SIMILARITY_THRESHOLD = 0.75;
+const PHONE_SUFFIX_DIGITS = 8;
+
+// Shared mailbox providers say nothing about whether two people work at the same company
+const FREE_EMAIL_DOMAINS = new Set([
+  "gmail.com", "googlemail.com", "yahoo.com", "yahoo.co.in", "hotmail.com", "outlook.com", "live.com",
+  "icloud.com", "me.com", "aol.com", "rediffmail.com", "protonmail.com", "proton.me", "zoho.com",
+]);
+
+const HONORIFICS = new Set(["mr", "mrs", "ms", "miss", "dr", "shri", "smt", "sri", "prof"]);
+
+export function leadToCandidate(lead: Lead): DuplicateCandidate {
+  return { name: lead.name, phone: lead.mobileE164 ?? lead.mobile, email: lead.email, city: lead.city };
+}
+
+export function clientToCandidate(client: Client): DuplicateCandidate {
+  return { name: client.contactName, phone: client.phoneE164 ?? client.phone, email: client.email, city: client.city };
+}
+
+export function nameTokens(name: string): string[] {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(token => token && !HONORIFICS.has(token));
+}
+
+function bigrams(value: string): Map<string, number> {
+  const result = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i++) {
+    const gram = value.slice(i, i + 2);
+    result.set(gram, (result.get(gram) ?? 0) + 1);
+  }
+  return result;
+}
+
+// Dice coefficient over character bigrams of the sorted name tokens, so "Sharma Rahul" matches "Rahul Sharma"
+export function nameSimilarity(a: string, b: string): number {
+  const left = nameTokens(a).sort().join(" ");
+  const right = nameTokens(b).sort().join(" ");
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  let overlap = 0;
+  leftGrams.forEach((count, gram) => {
+    overlap += Math.min(count, rightGrams.get(gram) ?? 0);
+  });
+  const total = Math.max(left.length - 1, 0) + Math.max(right.length - 1, 0);
+  return total === 0 ? 0 : (2 * overlap) / total;
+}
+
+export function emailParts(email: string | null | undefined): { local: string; domain: string } | null {
+  if (!email) return null;
+  const [rawLocal, domain] = email.trim().toLowerCase().split("@");
+  if (!rawLocal || !domain) return null;
+  // Plus-addressing and (for Gmail) dots do not change the mailbox
+  let local = rawLocal.split("+")[0];
+  if (domain === "gmail.com" || domain === "googlemail.com") local = local.replace(/\./g, "");
+  return { local, domain: domain === "googlemail.com" ? "gmail.com" : domain };
+}
+
+export function phoneSuffix(phone: string | null | undefined): string | null {
+  const digits = (phone ?? "").replace(/\D/g, "");
+  return digits.length >= PHONE_SUFFIX_DIGITS ? digits.slice(-PHONE_SUFFIX_DIGITS) : null;
+}
+
+const normalizeCity = (city: string | null) => (city ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+
+export function scoreDuplicate(a: DuplicateCandidate, b: DuplicateCandidate): DuplicateScore {
+  const reasons: DuplicateReason[] = [];
+
+  if (a.phone && b.phone && a.phone.trim() === b.phone.trim()) {
+    reasons.push({ type: "phone", label: "Same phone number", weight: WEIGHTS.phone });
+  } else {
+    const suffix = phoneSuffix(a.phone);
+    if (suffix && suffix === phoneSuffix(b.phone)) {
+      reasons.push({ type: "phone", label: `Phone numbers share the last ${PHONE_SUFFIX_DIGITS} digits`, weight: WEIGHTS.phoneSuffix });
+    }
+  }
+
+  const emailA = emailParts(a.email);
+  const emailB = emailParts(b.email);
+  if (emailA && emailB) {
+    if (emailA.local === emailB.local && emailA.domain === emailB.domain) {
+      reasons.push({ type: "email", label: "Same email address", weight: WEIGHTS.email });
+    } else {
+      // Dots are ignored here so "rahul.s@company.com" still matches "rahuls@gmail.com"
+      const localA = emailA.local.replace(/\./g, "");
+      if (localA === emailB.local.replace(/\./g, "") && localA.length >= 3) {
+        reasons.push({ type: "email_local_part", label: `Same email name "${emailA.local}"`, weight: WEIGHTS.emailLocalPart });
+      }
+      if (emailA.domain === emailB.domain && !FREE_EMAIL_DOMAINS.has(emailA.domain)) {
+        reasons.push({ type: "email_domain", label: `Same company domain "${emailA.domain}"`, weight: WEIGHTS.emailDomain });
+      }
+    }
+  }
+
+  const similarity = nameSimilarity(a.name, b.name);
+  if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+    reasons.push({
+      type: "name",
+      label: similarity === 1 ? "Same name" : `Similar name (${Math.round(similarity * 100)}%)`,
+      weight: Math.round(WEIGHTS.name * similarity * 100) / 100,
+    });
+  }
+
+  const cityA = normalizeCity(a.city);
+  if (cityA && cityA === normalizeCity(b.city)) {
+    reasons.push({ type: "city", label: "Same city", weight: WEIGHTS.city });
+  }
+
+  const miss = reasons.reduce((product, reason) => product * (1 - reason.weight), 1);
+  return { confidence: Math.round((1 - miss) * 100) / 100, reasons };
+}
@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+// Open deals at or above this stage probability count as committed in the forecast
+export const COMMITTED_MIN_PROBABILITY = 70;
+
+const emptyToNull = (value: unknown) => (value === "" ? null : value);
+
+// Deal fields as sent on lead create/update; empty strings clear them
+export const leadDealFieldsSchema = z.object({
+  dealValue: z.preprocess(
+    emptyToNull,
+    z.string().regex(/^\d+(\.\d{1,2})?$/, "Deal value must be an amount like 25000 or 25000.50").nullable().optional(),
+  ),
+  expectedCloseDate: z.preprocess(
+    emptyToNull,
+    z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected close date must be a date (YYYY-MM-DD)").nullable().optional(),
+  ),
+});
+
+// One month of the forecast. Every figure includes the deals already won that month:
+// committed adds open deals at or above COMMITTED_MIN_PROBABILITY, best case adds every open deal,
+// and weighted adds each open deal's value times its stage probability.
+export interface ForecastMonth {
+  month: string; // YYYY-MM
+  label: string;
+  won: number;
+  committed: number;
+  bestCase: number;
+  weighted: number;
+  deals: number;
+}
+
+export interface ForecastReport {
+  months: ForecastMonth[];
+  // Open deals with a value but no expected close date, left out of the months
+  unscheduled: { deals: number; value: number; weighted: number };
+  // Open deals whose expected close date has passed; they are counted in the current month
+  overdue: { deals: number; value: number };
+  committedMinProbability: number;
+}
+
+// Leads in one pipeline column with their deal value and the value weighted by the stage's win probability
+export interface PipelineStageTotals {
+  count: number;
+  value: number;
+  weighted: number;
+}
@@ -0,0 +1,46 @@
+import type { LeadFormField, LeadFormStandardField } from "./schema";
+
+export const leadFormStandardFieldLabels: Record<LeadFormStandardField, string> = {
+  name: "Name",
+  mobile: "Mobile",
+  email: "Email",
+  city: "City",
+  notes: "Message",
+};
+
+export const defaultLeadFormFields: LeadFormField[] = [
+  { key: "name", custom: false, label: "Your name", required: true },
+  { key: "mobile", custom: false, label: "Mobile number", required: true },
+  { key: "email", custom: false, label: "Email", required: false },
+];
+
+// Query parameters a form copies from the page URL onto the lead
+export const leadFormUtmParams = {
+  utm_source: "utmSource",
+  utm_medium: "utmMedium",
+  utm_campaign: "utmCampaign",
+  utm_content: "utmContent",
+  utm_term: "utmTerm",
+} as const;
+
+// Message type the hosted form posts to the page embedding it (height changes and redirects)
+export const LEAD_FORM_MESSAGE_TYPE = "dgcrm-lead-form";
+
+// Request headers for posting to /api/leads/capture from a server: the form's API key, or a signature
+// "t=<unix seconds>,v1=<hex HMAC-SHA256 of '<t>.<raw body>' keyed with the signing secret>"
+export const LEAD_FORM_KEY_HEADER = "X-Form-Key";
+export const LEAD_FORM_SIGNATURE_HEADER = "X-Form-Signature";
+
+export function leadFormUrl(baseUrl: string, formId: string): string {
+  return `${baseUrl}/forms/${formId}`;
+}
+
+// The script embed passes the page's UTM parameters on to the form and resizes it to fit
+export function leadFormScriptSnippet(baseUrl: string, formId: string): string {
+  return `<script src="${leadFormUrl(baseUrl, formId)}/embed.js" async></script>`;
+}
+
+// A plain iframe only sees UTM parameters added to its own src
+export function leadFormIframeSnippet(baseUrl: string, formId: string): string {
+  return `<iframe src="${leadFormUrl(baseUrl, formId)}" title="Contact form" style="width:100%;height:640px;border:0"></iframe>`;
+}
@@ -0,0 +1,117 @@
+import type { CustomFieldDefinition, LeadImportJob } from "./schema";
+
+// What to do when an imported row matches an existing lead (by mobile or email)
+export const duplicateStrategies = ["skip", "update", "create"] as const;
+export type DuplicateStrategy = typeof duplicateStrategies[number];
+
+export const leadImportFields = [
+  { key: "name", label: "Name", required: true, aliases: ["full name", "lead name", "contact name"] },
+  { key: "mobile", label: "Mobile", required: true, aliases: ["phone", "mobile number", "phone number", "contact number", "whatsapp"] },
+  { key: "email", label: "Email", aliases: ["email address", "e-mail"] },
+  { key: "city", label: "City", aliases: ["location", "town"] },
+  { key: "source", label: "Source", aliases: ["lead source", "channel"] },
+  { key: "status", label: "Status", aliases: ["lead status"] },
+  { key: "pipelineStage", label: "Pipeline Stage", aliases: ["stage", "pipeline"] },
+  { key: "notes", label: "Notes", aliases: ["note", "comments", "remarks"] },
+  { key: "interestLevel", label: "Interest Level", aliases: ["interest"] },
+  { key: "budget", label: "Budget", aliases: ["amount", "deal value"] },
+  { key: "utmSource", label: "UTM Source", aliases: ["utm_source"] },
+  { key: "utmMedium", label: "UTM Medium", aliases: ["utm_medium"] },
+  { key: "utmCampaign", label: "UTM Campaign", aliases: ["utm_campaign"] },
+  { key: "utmContent", label: "UTM Content", aliases: ["utm_content"] },
+  { key: "utmTerm", label: "UTM Term", aliases: ["utm_term"] },
+  { key: "campaign", label: "Campaign", aliases: ["campaign name", "campaign id"] },
+  { key: "owner", label: "Owner", aliases: ["assigned to", "owner email", "sales rep", "assignee"] },
+] as const;
+
+export type LeadImportField = typeof leadImportFields[number]["key"];
+
+// A column maps to a built-in lead field, a custom field ("custom:<key>") or nothing (null)
+export type LeadImportTarget = LeadImportField | `custom:${string}`;
+export type LeadImportMapping = (LeadImportTarget | null)[];
+
+export interface LeadImportRowResult {
+  row: number; // 1-based data row number (header excluded)
+  action: "create" | "update" | "skip" | "error";
+  errors: string[];
+  duplicateOf?: { id: string; name: string };
+  leadId?: string;
+}
+
+export interface LeadImportSummary {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  rows: LeadImportRowResult[];
+}
+
+// RFC 4180 style parser: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ""));
+}
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Guess a target for each header from field keys, labels and common aliases
+export function suggestLeadImportMapping(
+  headers: string[],
+  customFields: Pick<CustomFieldDefinition, "key" | "label">[] = [],
+): LeadImportMapping {
+  const candidates: { target: LeadImportTarget; names: string[] }[] = [
+    ...leadImportFields.map(f => ({ target: f.key as LeadImportTarget, names: [f.key, f.label, ...f.aliases] })),
+    ...customFields.map(f => ({ target: `custom:${f.key}` as LeadImportTarget, names: [f.key, f.label] })),
+  ];
+  const used = new Set<LeadImportTarget>();
+
+  return headers.map(header => {
+    const normalized = normalizeHeader(header);
+    const match = candidates.find(c => !used.has(c.target) && c.names.some(name => normalizeHeader(name) === normalized));
+    if (!match) return null;
+    used.add(match.target);
+    return match.target;
+  });
+}
+
+// Import job as returned by the API (raw CSV omitted, notable row results parsed)
+export type SerializedLeadImportJob = Omit<LeadImportJob, "csvText" | "results"> & { rows: LeadImportRowResult[] };
@@ -0,0 +1,125 @@
+import type { CustomFieldValues, Lead, LeadMerge } from "./schema";
+
+// Lead fields the user can pick a winning value for when merging
+export const mergeableLeadFields = [
+  { key: "name", label: "Name" },
+  { key: "mobile", label: "Mobile" },
+  { key: "email", label: "Email" },
+  { key: "city", label: "City" },
+  { key: "source", label: "Source" },
+  { key: "status", label: "Status" },
+  { key: "pipelineStage", label: "Pipeline Stage" },
+  { key: "interestLevel", label: "Interest Level" },
+  { key: "budget", label: "Budget" },
+  { key: "dealValue", label: "Deal Value" },
+  { key: "expectedCloseDate", label: "Expected Close Date" },
+  { key: "lossReasonId", label: "Loss Reason" },
+  { key: "lossCompetitor", label: "Lost To" },
+  { key: "lossNotes", label: "Loss Notes" },
+  { key: "ownerId", label: "Owner" },
+  { key: "campaignId", label: "Campaign" },
+  { key: "notes", label: "Notes" },
+  { key: "utmSource", label: "UTM Source" },
+  { key: "utmMedium", label: "UTM Medium" },
+  { key: "utmCampaign", label: "UTM Campaign" },
+  { key: "utmContent", label: "UTM Content" },
+  { key: "utmTerm", label: "UTM Term" },
+] as const;
+
+export type MergeableLeadField = typeof mergeableLeadFields[number]["key"];
+
+// When and from where the lead was won or lost; these follow the stage rather than being picked
+const leadOutcomeFields = ["wonAt", "lostAt", "lostFromStage"] as const;
+type LeadOutcomeField = typeof leadOutcomeFields[number];
+
+// Records that point at a lead and are moved to the primary lead on merge
+export const leadMergeRelatedRecords = [
+  "leadNotes", "followUps", "callLogs", "tasks", "quotations", "whatsappConversations",
+  "automationRunLogs", "clients", "activityLogs", "leadMerges", "slaBreaches",
+  "leadStageChanges", "leadWebhookEvents", "quarantinedLeads",
+] as const;
+
+export type LeadMergeRelatedRecord = typeof leadMergeRelatedRecords[number];
+export type LeadMergeMovedRecords = Partial<Record<LeadMergeRelatedRecord, { id: string; fromLeadId: string }[]>>;
+
+// Winning lead id per field; custom fields are keyed "custom:<key>"
+export type LeadMergeChoices = Record<string, string>;
+
+export type LeadMergeUpdates = Partial<Pick<Lead, MergeableLeadField | LeadOutcomeField | "pipelineId" | "customFields" | "lastActivityAt">>;
+
+export interface LeadMergeResolution {
+  updates: LeadMergeUpdates; // only fields whose value changes on the primary
+  fieldSources: Record<string, string>; // field -> id of the duplicate the value was taken from
+}
+
+export type SerializedLeadMerge = Omit<LeadMerge, "mergedLeadIds" | "mergedLeads" | "fieldSources" | "primaryBefore" | "primaryAfter" | "movedRecords"> & {
+  mergedLeadIds: string[];
+  mergedLeads: Lead[];
+  fieldSources: Record<string, string>;
+  primaryBefore: Record<string, unknown>;
+  primaryAfter: Record<string, unknown>;
+  movedRecords: LeadMergeMovedRecords;
+};
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === "";
+
+// Picks the value for each field: the user's choice when given, otherwise the primary's value,
+// falling back to the first duplicate that has one so a merge never loses data to an empty field.
+export function resolveLeadMerge(primary: Lead, duplicates: Lead[], choices: LeadMergeChoices = {}): LeadMergeResolution {
+  const all = [primary, ...duplicates];
+  const byId = new Map(all.map(lead => [lead.id, lead]));
+  const updates: LeadMergeUpdates = {};
+  const fieldSources: Record<string, string> = {};
+
+  const pick = <T>(choiceKey: string, read: (lead: Lead) => T): { value: T; source: Lead } => {
+    const chosen = choices[choiceKey] ? byId.get(choices[choiceKey]) : undefined;
+    if (chosen) return { value: read(chosen), source: chosen };
+    const source = all.find(lead => !isBlank(read(lead))) ?? primary;
+    return { value: read(source), source };
+  };
+
+  for (const { key } of mergeableLeadFields) {
+    const { value, source } = pick(key, lead => lead[key]);
+    if (source.id !== primary.id && value !== primary[key]) {
+      (updates as Record<string, unknown>)[key] = value;
+      fieldSources[key] = source.id;
+    }
+  }
+
+  // A stage key only means something within its pipeline, so the stage's pipeline comes with it
+  const stageSource = fieldSources.pipelineStage ? byId.get(fieldSources.pipelineStage) : undefined;
+  if (stageSource && stageSource.pipelineId !== primary.pipelineId) updates.pipelineId = stageSource.pipelineId;
+
+  // So do when the lead was won or lost, taken from the status's lead when the stage is the primary's
+  const outcomeSource = byId.get(fieldSources.pipelineStage ?? fieldSources.status ?? primary.id) ?? primary;
+  for (const key of leadOutcomeFields) {
+    if (JSON.stringify(outcomeSource[key]) !== JSON.stringify(primary[key])) {
+      (updates as Record<string, unknown>)[key] = outcomeSource[key];
+    }
+  }
+
+  const customKeys = new Set(all.flatMap(lead => Object.keys(lead.customFields ?? {})));
+  const customFields: CustomFieldValues = { ...primary.customFields };
+  let customChanged = false;
+  customKeys.forEach(key => {
+    const { value, source } = pick(`custom:${key}`, lead => lead.customFields?.[key]);
+    if (source.id === primary.id) return;
+    if (JSON.stringify(value) === JSON.stringify(primary.customFields?.[key])) return;
+    if (value === undefined) delete customFields[key];
+    else customFields[key] = value;
+    fieldSources[`custom:${key}`] = source.id;
+    customChanged = true;
+  });
+  if (customChanged) updates.customFields = customFields;
+
+  // The merged lead was last active whenever any of its parts was
+  const latest = all
+    .map(lead => (lead.lastActivityAt ? new Date(lead.lastActivityAt) : null))
+    .reduce<Date | null>((max, date) => (date && (!max || date > max) ? date : max), null);
+  const primaryActivity = primary.lastActivityAt ? new Date(primary.lastActivityAt) : null;
+  if (latest && (!primaryActivity || latest > primaryActivity)) {
+    updates.lastActivityAt = latest;
+  }
+
+  return { updates, fieldSources };
+}
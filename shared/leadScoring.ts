@@ -0,0 +1,238 @@
+import { z } from "zod";
+import type { Lead, LeadScoreHistoryEntry, LeadScoringModel, ScoreTrigger } from "./schema";
+
+// A lead's score is the model's base score plus the points of every rule that matches,
+// clamped to 0..100, then tiered hot/warm/cold by the model's thresholds.
+
+const bandSchema = z.object({
+  min: z.number(),
+  points: z.number().int().min(-100).max(100),
+});
+
+const recencyBandSchema = z.object({
+  maxDays: z.number().int().min(0),
+  points: z.number().int().min(-100).max(100),
+});
+
+const pointsMapSchema = z.record(z.string(), z.number().int().min(-100).max(100));
+
+export const leadScoringModelConfigSchema = z.object({
+  baseScore: z.number().int().min(0).max(100),
+  hotThreshold: z.number().int().min(0).max(100),
+  warmThreshold: z.number().int().min(0).max(100),
+  // Calls plus notes of type call/whatsapp; the first band the count reaches applies
+  interactions: z.array(bandSchema),
+  completedFollowUps: z.array(bandSchema),
+  budget: z.array(bandSchema),
+  // Days since the last activity (or creation); the first band not exceeded applies
+  recency: z.array(recencyBandSchema),
+  inactivity: z.object({ minDays: z.number().int().min(0), points: z.number().int().min(-100).max(100) }),
+  interestLevel: pointsMapSchema,
+  sourceQuality: pointsMapSchema,
+  pipelineStage: pointsMapSchema,
+  status: pointsMapSchema,
+  hasEmail: z.number().int().min(-100).max(100),
+  hasCity: z.number().int().min(-100).max(100),
+}).refine(config => config.hotThreshold > config.warmThreshold, {
+  message: "Hot threshold must be above the warm threshold",
+  path: ["hotThreshold"],
+});
+
+export type LeadScoringModelConfig = z.infer<typeof leadScoringModelConfigSchema>;
+export type ScoreBand = z.infer<typeof bandSchema>;
+
+export type SerializedLeadScoringModel = Omit<LeadScoringModel, "config"> & { config: LeadScoringModelConfig };
+
+// The points the scoring used to hard-code; version 1 of every installation
+export const DEFAULT_LEAD_SCORING_CONFIG: LeadScoringModelConfig = {
+  baseScore: 50,
+  hotThreshold: 70,
+  warmThreshold: 40,
+  interactions: [
+    { min: 5, points: 20 },
+    { min: 2, points: 10 },
+    { min: 1, points: 5 },
+  ],
+  completedFollowUps: [
+    { min: 3, points: 15 },
+    { min: 1, points: 8 },
+  ],
+  budget: [
+    { min: 50000, points: 25 },
+    { min: 20000, points: 15 },
+    { min: 5000, points: 10 },
+  ],
+  recency: [
+    { maxDays: 1, points: 20 },
+    { maxDays: 3, points: 15 },
+    { maxDays: 7, points: 10 },
+  ],
+  inactivity: { minDays: 30, points: -15 },
+  interestLevel: { high: 20, medium: 10, low: -10 },
+  sourceQuality: { referral: 15, google: 10, website: 8, facebook: 0, instagram: 0 },
+  pipelineStage: { negotiation: 25, proposal_sent: 20, qualified: 15, contacted: 5 },
+  status: { converted: 30, interested: 15, not_interested: -30 },
+  hasEmail: 5,
+  hasCity: 3,
+};
+
+// Counts gathered from a lead's related records
+export interface LeadScoringSignals {
+  interactions: number;
+  completedFollowUps: number;
+}
+
+export const scoreFactors = [
+  "interactions", "budget", "interestLevel", "recency", "hasEmail", "hasCity",
+  "sourceQuality", "pipelineStage", "status", "completedFollowUps",
+] as const;
+export type ScoreFactor = typeof scoreFactors[number];
+
+export const scoreFactorLabels: Record<ScoreFactor, string> = {
+  interactions: "Interactions",
+  budget: "Budget",
+  interestLevel: "Interest level",
+  recency: "Recency",
+  hasEmail: "Email",
+  hasCity: "City",
+  sourceQuality: "Source quality",
+  pipelineStage: "Pipeline stage",
+  status: "Status",
+  completedFollowUps: "Completed follow-ups",
+};
+
+export interface ScoreContribution {
+  factor: ScoreFactor;
+  label: string; // why, e.g. "High budget" or "6 interactions"
+  points: number;
+}
+
+export interface LeadScoreResult {
+  score: "hot" | "warm" | "cold";
+  leadScore: number;
+  reason: string;
+  baseScore: number;
+  breakdown: ScoreContribution[]; // every rule that matched, in factor order
+}
+
+export type SerializedLeadScoreHistoryEntry = Omit<LeadScoreHistoryEntry, "breakdown"> & {
+  breakdown: ScoreContribution[] | null;
+};
+
+export const scoreTriggerLabels: Record<ScoreTrigger, string> = {
+  manual: "Recalculated manually",
+  model_change: "Scoring model changed",
+  lead_created: "Lead created",
+  lead_updated: "Lead updated",
+  note_added: "Note added",
+  follow_up_scheduled: "Follow-up scheduled",
+  follow_up_completed: "Follow-up completed",
+  call_logged: "Call logged",
+  whatsapp_reply: "WhatsApp reply",
+  quotation_status_changed: "Quotation status changed",
+  nightly_decay: "Nightly recency update",
+};
+
+export function parseScoreBreakdown(breakdown: string | null | undefined): ScoreContribution[] | null {
+  return breakdown ? JSON.parse(breakdown) : null;
+}
+
+// True when both breakdowns give the same points per factor. Labels are ignored: they carry
+// day counts ("Active 3 days ago") that change daily without moving the score.
+export function samePoints(a: ScoreContribution[], b: ScoreContribution[]): boolean {
+  const key = (breakdown: ScoreContribution[]) => breakdown.map(c => `${c.factor}:${c.points}`).join(",");
+  return key(a) === key(b);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const humanize = (value: string) => {
+  const text = value.replace(/_/g, " ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+const bandFor = (bands: ScoreBand[], value: number) =>
+  [...bands].sort((a, b) => b.min - a.min).find(band => value >= band.min);
+
+export function tierForScore(leadScore: number, config: LeadScoringModelConfig): LeadScoreResult["score"] {
+  if (leadScore >= config.hotThreshold) return "hot";
+  if (leadScore >= config.warmThreshold) return "warm";
+  return "cold";
+}
+
+export function scoreLead(
+  lead: Lead,
+  signals: LeadScoringSignals,
+  config: LeadScoringModelConfig,
+  now: Date = new Date(),
+): LeadScoreResult {
+  const breakdown: ScoreContribution[] = [];
+  const add = (factor: ScoreFactor, label: string, points: number) => {
+    if (points !== 0) breakdown.push({ factor, label, points });
+  };
+
+  const interactionBand = bandFor(config.interactions, signals.interactions);
+  if (interactionBand && signals.interactions > 0) {
+    add("interactions", signals.interactions === 1 ? "Has interaction" : `${signals.interactions} interactions`, interactionBand.points);
+  }
+
+  if (lead.budget) {
+    const budget = parseFloat(lead.budget.toString());
+    const budgetBand = bandFor(config.budget, budget);
+    if (budgetBand) add("budget", `Budget ${budget.toLocaleString("en-IN")}`, budgetBand.points);
+  }
+
+  if (lead.interestLevel) {
+    add("interestLevel", `${humanize(lead.interestLevel)} interest`, config.interestLevel[lead.interestLevel] ?? 0);
+  }
+
+  const lastActivity = lead.lastActivityAt ? new Date(lead.lastActivityAt) : new Date(lead.createdAt);
+  const daysSinceActivity = Math.floor((now.getTime() - lastActivity.getTime()) / DAY_MS);
+  const recencyBand = [...config.recency].sort((a, b) => a.maxDays - b.maxDays).find(band => daysSinceActivity <= band.maxDays);
+  if (recencyBand) {
+    add("recency", daysSinceActivity <= 1 ? "Active today" : `Active ${daysSinceActivity} days ago`, recencyBand.points);
+  } else if (daysSinceActivity > config.inactivity.minDays) {
+    add("recency", `Inactive ${daysSinceActivity} days`, config.inactivity.points);
+  }
+
+  if (lead.email) add("hasEmail", "Has email", config.hasEmail);
+  if (lead.city) add("hasCity", "Location provided", config.hasCity);
+
+  add("sourceQuality", humanize(lead.source), config.sourceQuality[lead.source] ?? 0);
+  add("pipelineStage", humanize(lead.pipelineStage), config.pipelineStage[lead.pipelineStage] ?? 0);
+  add("status", humanize(lead.status), config.status[lead.status] ?? 0);
+
+  const followUpBand = bandFor(config.completedFollowUps, signals.completedFollowUps);
+  if (followUpBand && signals.completedFollowUps > 0) {
+    add("completedFollowUps", `${signals.completedFollowUps} completed follow-up${signals.completedFollowUps === 1 ? "" : "s"}`, followUpBand.points);
+  }
+
+  const points = config.baseScore + breakdown.reduce((sum, c) => sum + c.points, 0);
+  const leadScore = Math.max(0, Math.min(100, points));
+
+  // The strongest signals explain the score best
+  const reason = [...breakdown]
+    .sort((a, b) => Math.abs(b.points) - Math.abs(a.points))
+    .slice(0, 4)
+    .map(c => c.label)
+    .join(", ");
+
+  return { score: tierForScore(leadScore, config), leadScore, reason, baseScore: config.baseScore, breakdown };
+}
+
+// How a proposed model would re-tier the current leads
+export interface LeadScoringPreview {
+  total: number;
+  before: Record<LeadScoreResult["score"], number>;
+  after: Record<LeadScoreResult["score"], number>;
+  // transitions["warm"]["hot"] = leads that would move from warm to hot
+  transitions: Record<LeadScoreResult["score"], Record<LeadScoreResult["score"], number>>;
+  changed: {
+    leadId: string;
+    name: string;
+    fromScore: number;
+    toScore: number;
+    fromTier: LeadScoreResult["score"];
+    toTier: LeadScoreResult["score"];
+  }[]; // leads whose tier changes, biggest score change first
+}
@@ -0,0 +1,25 @@
+import type { LeadWebhookEvent, LeadWebhookEventStatus, LeadWebhookProvider } from "./schema";
+
+export const leadWebhookProviderLabels: Record<LeadWebhookProvider, string> = {
+  meta: "Facebook / Instagram Lead Ads",
+  google: "Google Ads lead forms",
+};
+
+export const leadWebhookEventStatusLabels: Record<LeadWebhookEventStatus, string> = {
+  processed: "Lead created",
+  duplicate: "Existing lead",
+  test: "No lead created",
+  failed: "Failed",
+};
+
+// Webhook paths, relative to the CRM's URL, to enter in Meta's app dashboard and the Google Ads lead form
+export const leadWebhookPaths: Record<LeadWebhookProvider, string> = {
+  meta: "/api/webhooks/meta/leads",
+  google: "/api/webhooks/google/leads",
+};
+
+export interface LeadWebhookOverview {
+  // Whether the environment variables each webhook needs are set
+  configured: Record<LeadWebhookProvider, boolean>;
+  events: LeadWebhookEvent[];
+}
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import type { PipelineStageOutcome } from "./schema";
+
+// Reasons created on first start; admins edit the list under Settings → Pipelines
+export const defaultLossReasons = [
+  "Price too high",
+  "Went with a competitor",
+  "No budget",
+  "Stopped responding",
+  "Bad timing",
+  "Not a fit for our services",
+];
+
+// A lead counts as lost when it is in a lost stage or marked not interested
+export function isLostLead(status: string | null | undefined, stageOutcome: PipelineStageOutcome | string | undefined): boolean {
+  return status === "not_interested" || stageOutcome === "lost";
+}
+
+const emptyToNull = (value: unknown) => (value === "" ? null : value);
+
+// Loss details sent with the update that loses a lead, or later to correct them
+export const leadLossInputSchema = z.object({
+  lossReasonId: z.preprocess(emptyToNull, z.string().nullable().optional()),
+  lossCompetitor: z.preprocess(emptyToNull, z.string().trim().max(200).nullable().optional()),
+  lossNotes: z.preprocess(emptyToNull, z.string().trim().max(2000).nullable().optional()),
+});
+
+export type LeadLossInput = z.infer<typeof leadLossInputSchema>;
+
+export const winLossGroupings = ["source", "owner", "stage"] as const;
+export type WinLossGrouping = typeof winLossGroupings[number];
+
+export const winLossGroupingLabels: Record<WinLossGrouping, string> = {
+  source: "Source",
+  owner: "Rep",
+  stage: "Stage lost from",
+};
+
+export interface LossReasonCount {
+  reasonId: string | null; // null for leads lost without a reason, e.g. imported or whose reason was deleted
+  label: string;
+  count: number;
+  value: number; // sum of the lost deal values
+}
+
+// Wins and losses of one source, rep or stage, with the losses per reason id ("none" for no reason).
+// Wins are not counted per stage, since a win leaves its lead in a won stage or converted.
+export interface WinLossGroup {
+  key: string | null;
+  label: string;
+  won: number | null;
+  lost: number;
+  reasons: Record<string, number>;
+}
+
+// Leads won in the period (by when they entered a won stage or were converted) and lost in it
+export interface WinLossReport {
+  from: string;
+  to: string;
+  won: number;
+  lost: number;
+  wonValue: number;
+  lostValue: number;
+  reasons: LossReasonCount[];
+  competitors: { name: string; count: number }[];
+  groups: Record<WinLossGrouping, WinLossGroup[]>;
+}
@@ -0,0 +1,35 @@
+// Mentions are stored inline in note text as @[Display Name](userId), so the note still reads
+// naturally when the markup is stripped and renaming a user does not break the link.
+const mentionPattern = /@\[([^\]\n]+)\]\(([^)\s]+)\)/g;
+
+export type MentionSegment =
+  | { type: "text"; text: string }
+  | { type: "mention"; name: string; userId: string };
+
+export function formatMention(user: { id: string; name: string }): string {
+  return `@[${user.name.replace(/[\[\]]/g, "")}](${user.id})`;
+}
+
+// Ids of every user mentioned in the text, without duplicates
+export function parseMentions(content: string): string[] {
+  const ids = Array.from(content.matchAll(mentionPattern), match => match[2]);
+  return Array.from(new Set(ids));
+}
+
+export function splitMentions(content: string): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let last = 0;
+  for (const match of Array.from(content.matchAll(mentionPattern))) {
+    const index = match.index ?? 0;
+    if (index > last) segments.push({ type: "text", text: content.slice(last, index) });
+    segments.push({ type: "mention", name: match[1], userId: match[2] });
+    last = index + match[0].length;
+  }
+  if (last < content.length) segments.push({ type: "text", text: content.slice(last) });
+  return segments;
+}
+
+// "@[Priya](id) call back" -> "@Priya call back", for notifications and previews
+export function mentionsToPlainText(content: string): string {
+  return content.replace(mentionPattern, (_match, name: string) => `@${name}`);
+}
@@ -0,0 +1,73 @@
+// Phone number normalization to E.164 (+<country code><national number>).
+// Numbers are stored as typed and alongside a canonical form used for matching and WhatsApp links.
+
+interface PhoneCountry {
+  dialCode: string;
+  nationalLengths: number[]; // digit counts of a national number without the trunk prefix
+}
+
+export const phoneCountries: Record<string, PhoneCountry> = {
+  IN: { dialCode: "91", nationalLengths: [10] },
+  US: { dialCode: "1", nationalLengths: [10] },
+  CA: { dialCode: "1", nationalLengths: [10] },
+  GB: { dialCode: "44", nationalLengths: [10] },
+  AE: { dialCode: "971", nationalLengths: [8, 9] },
+  SA: { dialCode: "966", nationalLengths: [9] },
+  QA: { dialCode: "974", nationalLengths: [8] },
+  SG: { dialCode: "65", nationalLengths: [8] },
+  MY: { dialCode: "60", nationalLengths: [9, 10] },
+  AU: { dialCode: "61", nationalLengths: [9] },
+  NZ: { dialCode: "64", nationalLengths: [8, 9, 10] },
+  DE: { dialCode: "49", nationalLengths: [10, 11] },
+  FR: { dialCode: "33", nationalLengths: [9] },
+  NP: { dialCode: "977", nationalLengths: [10] },
+  BD: { dialCode: "880", nationalLengths: [10] },
+  LK: { dialCode: "94", nationalLengths: [9] },
+  PK: { dialCode: "92", nationalLengths: [10] },
+};
+
+export const DEFAULT_PHONE_COUNTRY = "IN";
+
+const MIN_E164_DIGITS = 8;
+const MAX_E164_DIGITS = 15;
+
+function toInternational(digits: string): string | null {
+  if (digits.length < MIN_E164_DIGITS || digits.length > MAX_E164_DIGITS || digits.startsWith("0")) return null;
+  return `+${digits}`;
+}
+
+// Returns the E.164 form of a number, or null when it cannot be interpreted.
+// Numbers written with "+" or "00" are taken as international; anything else is read
+// as a national number of `defaultCountry`, accepting a leading trunk "0" or the country code without "+".
+export function normalizePhone(raw: string | null | undefined, defaultCountry: string = DEFAULT_PHONE_COUNTRY): string | null {
+  if (!raw) return null;
+  const trimmed = raw.trim();
+  const digits = trimmed.replace(/\D/g, "");
+  if (!digits) return null;
+
+  if (trimmed.startsWith("+")) return toInternational(digits);
+  if (digits.startsWith("00")) return toInternational(digits.slice(2));
+
+  const country = phoneCountries[defaultCountry.toUpperCase()] ?? phoneCountries[DEFAULT_PHONE_COUNTRY];
+  const national = digits.replace(/^0+/, "");
+
+  if (country.nationalLengths.includes(national.length)) {
+    return toInternational(country.dialCode + national);
+  }
+  // Country code typed without the "+", e.g. 919876543210
+  if (national.startsWith(country.dialCode) && country.nationalLengths.includes(national.length - country.dialCode.length)) {
+    return toInternational(national);
+  }
+  return null;
+}
+
+// Digits-only form expected by wa.me links. Falls back to the raw digits for numbers that do not normalize.
+export function toWhatsAppNumber(raw: string, defaultCountry: string = DEFAULT_PHONE_COUNTRY): string {
+  const e164 = normalizePhone(raw, defaultCountry);
+  return e164 ? e164.slice(1) : raw.replace(/\D/g, "");
+}
+
+export function whatsAppLink(raw: string, message?: string, defaultCountry: string = DEFAULT_PHONE_COUNTRY): string {
+  const base = `https://wa.me/${toWhatsAppNumber(raw, defaultCountry)}`;
+  return message ? `${base}?text=${encodeURIComponent(message)}` : base;
+}
@@ -0,0 +1,68 @@
+import type { PipelineStageOutcome } from "./schema";
+
+// A stage's normal dwell time is this percentile of the completed stays in it
+export const NORMAL_DWELL_PERCENTILE = 75;
+// Fewer completed stays than this and a stage has no normal dwell time, so none of its leads count as stuck
+export const MIN_DWELL_SAMPLES = 3;
+
+export const salesCycleGroupings = ["source", "campaign", "owner"] as const;
+export type SalesCycleGrouping = typeof salesCycleGroupings[number];
+
+export const salesCycleGroupingLabels: Record<SalesCycleGrouping, string> = {
+  source: "Source",
+  campaign: "Campaign",
+  owner: "Rep",
+};
+
+// Time leads spend in one stage. Completed stays are stays that ended in the period.
+export interface StageVelocity {
+  key: string;
+  name: string;
+  outcome: PipelineStageOutcome;
+  completedStays: number;
+  avgDays: number | null;
+  medianDays: number | null;
+  normalDays: number | null;
+  currentLeads: number;
+  avgCurrentDays: number | null; // how long the leads in the stage now have been there
+}
+
+// Leads that entered the pipeline in the period and got at least as far as this stage
+export interface FunnelStep {
+  key: string;
+  name: string;
+  reached: number;
+  conversion: number | null; // share of the previous step's leads that reached this one, 0..1
+}
+
+// Days from lead creation to won, for leads won in the period
+export interface SalesCycleGroup {
+  key: string | null; // null for leads without a campaign or owner
+  label: string;
+  won: number;
+  avgDays: number;
+  medianDays: number;
+}
+
+// An open lead that has been in its stage longer than the stage's normal dwell time
+export interface StuckDeal {
+  leadId: string;
+  name: string;
+  ownerName: string | null;
+  stageKey: string;
+  stageName: string;
+  daysInStage: number;
+  normalDays: number;
+  dealValue: string | null;
+}
+
+export interface PipelineVelocityReport {
+  pipelineId: string;
+  pipelineName: string;
+  from: string;
+  to: string;
+  stages: StageVelocity[];
+  funnel: FunnelStep[];
+  salesCycle: Record<SalesCycleGrouping, SalesCycleGroup[]>;
+  stuck: StuckDeal[];
+}
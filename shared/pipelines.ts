@@ -0,0 +1,99 @@
+import { z } from "zod";
+import {
+  insertPipelineSchema,
+  insertPipelineStageSchema,
+  type Lead,
+  type Pipeline,
+  type PipelineStage,
+  type PipelineStageOutcome,
+} from "./schema";
+
+export type PipelineWithStages = Pipeline & { stages: PipelineStage[] };
+
+export const pipelineStageOutcomeLabels: Record<PipelineStageOutcome, string> = {
+  open: "Open",
+  won: "Won",
+  lost: "Lost",
+};
+
+// A lead counts as won when it is in a won stage or has been converted to a client
+export function isWonLead(status: string | null | undefined, stageOutcome: PipelineStageOutcome | string | undefined): boolean {
+  return status === "converted" || stageOutcome === "won";
+}
+
+// Lead fields a stage can require before a lead enters it; custom fields are required as "custom:<key>"
+export const requirableLeadFields = {
+  email: "Email",
+  city: "City",
+  budget: "Budget",
+  interestLevel: "Interest level",
+  ownerId: "Owner",
+  campaignId: "Campaign",
+  notes: "Notes",
+} as const;
+
+export type RequirableLeadField = keyof typeof requirableLeadFields;
+
+const CUSTOM_PREFIX = "custom:";
+
+export function isCustomStageField(field: string): boolean {
+  return field.startsWith(CUSTOM_PREFIX);
+}
+
+export function customStageField(key: string): string {
+  return `${CUSTOM_PREFIX}${key}`;
+}
+
+// Label for a required field; custom field labels come from their definitions
+export function stageFieldLabel(field: string, customLabels: Record<string, string> = {}): string {
+  if (isCustomStageField(field)) {
+    const key = field.slice(CUSTOM_PREFIX.length);
+    return customLabels[key] ?? key;
+  }
+  return requirableLeadFields[field as RequirableLeadField] ?? field;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+// Required fields of the stage that the lead has not filled in
+export function missingStageFields(
+  lead: Partial<Pick<Lead, RequirableLeadField | "customFields">>,
+  stage: Pick<PipelineStage, "requiredFields">,
+): string[] {
+  return stage.requiredFields.filter((field) => {
+    const value = isCustomStageField(field)
+      ? lead.customFields?.[field.slice(CUSTOM_PREFIX.length)]
+      : lead[field as RequirableLeadField];
+    return isEmpty(value);
+  });
+}
+
+// A stage as edited in the pipeline editor. Stages with an id are kept (their key cannot change);
+// stages without one are created, and stages left out are deleted.
+export const pipelineStageInputSchema = insertPipelineStageSchema
+  .omit({ pipelineId: true, position: true })
+  .extend({ id: z.string().optional() });
+
+// Create/update body: the pipeline and its full, ordered list of stages
+export const pipelineInputSchema = insertPipelineSchema.omit({ position: true }).extend({
+  stages: z.array(pipelineStageInputSchema)
+    .min(1, "A pipeline needs at least one stage")
+    .refine(stages => new Set(stages.map(s => s.key)).size === stages.length, "Two stages have the same key")
+    .refine(stages => stages.some(s => s.outcome === "open"), "At least one stage must be open"),
+});
+
+export type PipelineStageInput = z.infer<typeof pipelineStageInputSchema>;
+export type PipelineInput = z.infer<typeof pipelineInputSchema>;
+
+// Stages of the pipeline seeded on first start, matching the stage keys leads had before pipelines
+export const defaultPipelineStages: PipelineStageInput[] = [
+  { key: "new_lead", name: "New Lead", winProbability: 10, outcome: "open", requiredFields: [], entryActions: [] },
+  { key: "contacted", name: "Contacted", winProbability: 20, outcome: "open", requiredFields: [], entryActions: [] },
+  { key: "qualified", name: "Qualified", winProbability: 40, outcome: "open", requiredFields: [], entryActions: [] },
+  { key: "proposal_sent", name: "Proposal Sent", winProbability: 60, outcome: "open", requiredFields: [], entryActions: [] },
+  { key: "negotiation", name: "Negotiation", winProbability: 80, outcome: "open", requiredFields: [], entryActions: [] },
+  { key: "won", name: "Won", winProbability: 100, outcome: "won", requiredFields: [], entryActions: [] },
+  { key: "lost", name: "Lost", winProbability: 0, outcome: "lost", requiredFields: [], entryActions: [] },
+];
@@ -0,0 +1,16 @@
+import type { QuarantineReason, QuarantineStatus } from "./schema";
+
+export const quarantineReasonLabels: Record<QuarantineReason, string> = {
+  honeypot: "Filled in the hidden field",
+  too_fast: "Submitted too quickly",
+  disposable_email: "Disposable email address",
+  suspicious_phone: "Placeholder phone number",
+  invalid_phone: "Invalid phone number",
+  links: "Links in the name or message",
+};
+
+export const quarantineStatusLabels: Record<QuarantineStatus, string> = {
+  pending: "Pending review",
+  released: "Released",
+  discarded: "Discarded",
+};
@@ -1,5 +1,5 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, decimal, date } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, decimal, date, jsonb, real, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,12 +7,38 @@ import { z } from "zod";
 export const userRoles = ["admin", "manager", "sales", "support", "client"] as const;
 export const leadSources = ["facebook", "instagram", "google", "website", "referral"] as const;
 export const leadStatuses = ["new", "interested", "follow_up", "converted", "not_interested"] as const;
-export const pipelineStages = ["new_lead", "contacted", "qualified", "proposal_sent", "negotiation", "won", "lost"] as const;
+// Whether leads in a pipeline stage are still being worked, or closed as won or lost
+export const pipelineStageOutcomes = ["open", "won", "lost"] as const;
+// Actions a pipeline stage runs when a lead is moved into it, in the order they run
+export const stageEntryActionTypes = ["convert_to_client", "create_quotation", "create_task", "assign_checklists"] as const;
 export const taskStatuses = ["pending", "in_progress", "done"] as const;
 export const taskPriorities = ["low", "medium", "high"] as const;
 export const serviceStatuses = ["active", "paused", "completed"] as const;
 export const invoiceStatuses = ["draft", "sent", "paid", "overdue", "cancelled"] as const;
 export const paymentMethods = ["cash", "bank_transfer", "upi", "card", "cheque"] as const;
+export const customFieldTypes = ["text", "number", "date", "select", "multi_select", "boolean"] as const;
+export const customFieldEntities = ["lead", "client"] as const;
+export const importJobStatuses = ["pending", "running", "completed", "failed", "undone"] as const;
+export const leadNoteTypes = ["note", "call", "email", "whatsapp"] as const;
+// What caused a lead to be re-scored
+export const scoreTriggers = [
+  "manual", "model_change", "lead_created", "lead_updated", "note_added", "follow_up_scheduled", "follow_up_completed",
+  "call_logged", "whatsapp_reply", "quotation_status_changed", "nightly_decay",
+] as const;
+// How the next rep is picked: in rotation, whoever has the fewest open leads, or by weighted share
+export const distributionMethods = ["round_robin", "load_based", "weighted"] as const;
+// Lead fields a distribution rule can match on
+export const distributionRuleFields = ["source", "city", "campaignId", "utmCampaign"] as const;
+// Lead fields a hosted form can ask for besides custom fields; name and mobile are always on the form
+export const leadFormStandardFields = ["name", "mobile", "email", "city", "notes"] as const;
+// What a response SLA clock starts on: a new lead, or an inbound WhatsApp message waiting for a reply
+export const slaScopes = ["new_lead", "inbound_message"] as const;
+// Why a captured lead was held back as suspected spam
+export const quarantineReasons = ["honeypot", "too_fast", "disposable_email", "suspicious_phone", "invalid_phone", "links"] as const;
+export const quarantineStatuses = ["pending", "released", "discarded"] as const;
+// Ad platforms whose lead-form webhooks are received, and what became of each delivered lead
+export const leadWebhookProviders = ["meta", "google"] as const;
+export const leadWebhookEventStatuses = ["processed", "duplicate", "test", "failed"] as const;
 
 // Users table with RBAC
 export const users = pgTable("users", {
@@ -30,6 +56,8 @@ export const users = pgTable("users", {
 // Lead score enum
 export const leadScores = ["hot", "warm", "cold"] as const;
 export const interestLevels = ["low", "medium", "high"] as const;
+// Columns the lead list may be sorted by (whitelisted for SQL ORDER BY)
+export const leadSortColumns = ["createdAt", "updatedAt", "name", "status", "source", "city", "leadScore", "lastActivityAt"] as const;
 
 // Leads table
 export const leads = pgTable("leads", {
@@ -37,10 +65,12 @@ export const leads = pgTable("leads", {
   name: text("name").notNull(),
   email: text("email"),
   mobile: text("mobile").notNull(),
+  mobileE164: text("mobile_e164"), // canonical form of mobile, used for duplicate matching
   city: text("city"),
   source: text("source").notNull().default("website"),
   status: text("status").notNull().default("new"),
-  pipelineStage: text("pipeline_stage").notNull().default("new_lead"),
+  pipelineId: varchar("pipeline_id").references(() => pipelines.id), // set to the default pipeline when created without one
+  pipelineStage: text("pipeline_stage").notNull().default("new_lead"), // stage key within the lead's pipeline
   notes: text("notes"),
   ownerId: varchar("owner_id").references(() => users.id),
   campaignId: varchar("campaign_id").references(() => campaigns.id),
@@ -48,8 +78,22 @@ export const leads = pgTable("leads", {
   score: text("score").default("warm"), // hot, warm, cold (temperature)
   leadScore: integer("lead_score").default(50), // Numeric score 0-100
   scoreReason: text("score_reason"),
+  scoreBreakdown: text("score_breakdown"), // JSON ScoreContribution[] behind the current score
+  scoringModelId: varchar("scoring_model_id").references(() => leadScoringModels.id), // model version that produced the score
+  conversionProbability: real("conversion_probability"), // 0..1, predicted by the latest conversion model
+  conversionModelId: varchar("conversion_model_id").references(() => conversionModels.id),
   interestLevel: text("interest_level").default("medium"), // low, medium, high
   budget: decimal("budget", { precision: 12, scale: 2 }), // Optional budget field
+  // Forecasting: what the deal is expected to be worth and when it should close
+  dealValue: decimal("deal_value", { precision: 12, scale: 2 }),
+  expectedCloseDate: date("expected_close_date"),
+  wonAt: timestamp("won_at"), // when it entered a won stage or was converted; cleared when it is reopened
+  // Why the lead was lost (lost stage or not interested); cleared when the lead is reopened
+  lossReasonId: varchar("loss_reason_id").references(() => lossReasons.id, { onDelete: "set null" }),
+  lossCompetitor: text("loss_competitor"),
+  lossNotes: text("loss_notes"),
+  lostFromStage: text("lost_from_stage"), // stage the lead was in when it was lost
+  lostAt: timestamp("lost_at"),
   lastActivityAt: timestamp("last_activity_at"), // Last interaction timestamp
   // UTM Tracking
   utmSource: text("utm_source"),
@@ -57,8 +101,14 @@ export const leads = pgTable("leads", {
   utmCampaign: text("utm_campaign"),
   utmContent: text("utm_content"),
   utmTerm: text("utm_term"),
-  // Distribution tracking
+  // Distribution tracking: when distribution gave the lead to its current owner (cleared on manual reassignment)
   distributedAt: timestamp("distributed_at"),
+  reassignCount: integer("reassign_count").notNull().default(0), // times it moved on for not being contacted
+  // Set when the lead was created by a CSV import job (used to undo the import)
+  importJobId: varchar("import_job_id").references(() => leadImportJobs.id, { onDelete: "set null" }),
+  leadFormId: varchar("lead_form_id").references(() => leadForms.id, { onDelete: "set null" }), // hosted form it was submitted through
+  // Admin-defined custom field values keyed by definition key
+  customFields: jsonb("custom_fields").$type<CustomFieldValues>().notNull().default({}),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -70,7 +120,12 @@ export const leadNotes = pgTable("lead_notes", {
   userId: varchar("user_id").notNull().references(() => users.id),
   content: text("content").notNull(),
   type: text("type").notNull().default("note"), // note, call, email, whatsapp
+  // Teammates @mentioned in the content; each was notified when first mentioned
+  mentionedUserIds: jsonb("mentioned_user_ids").$type<string[]>().notNull().default([]),
+  isPinned: boolean("is_pinned").notNull().default(false),
+  pinnedAt: timestamp("pinned_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at"), // set when the content is edited
 });
 
 // Follow-ups
@@ -95,12 +150,14 @@ export const clients = pgTable("clients", {
   contactName: text("contact_name").notNull(),
   email: text("email").notNull(),
   phone: text("phone").notNull(),
+  phoneE164: text("phone_e164"), // canonical form of phone
   address: text("address"),
   city: text("city"),
   gstNumber: text("gst_number"),
   contractStartDate: date("contract_start_date"),
   contractEndDate: date("contract_end_date"),
   ownerId: varchar("owner_id").references(() => users.id),
+  customFields: jsonb("custom_fields").$type<CustomFieldValues>().notNull().default({}),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -208,6 +265,7 @@ export const campaigns = pgTable("campaigns", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   platform: text("platform").notNull(), // facebook, google, instagram
+  externalCampaignId: text("external_campaign_id"), // the ad platform's campaign ID; links webhook leads to this campaign
   budget: decimal("budget", { precision: 10, scale: 2 }).notNull(),
   startDate: date("start_date"),
   endDate: date("end_date"),
@@ -243,8 +301,8 @@ export const notifications = pgTable("notifications", {
 export const automationRules = pgTable("automation_rules", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
-  trigger: text("trigger").notNull(), // new_lead, status_change, no_activity
-  triggerValue: text("trigger_value"), // status value for status_change, days for no_activity
+  trigger: text("trigger").notNull(), // new_lead, status_change, no_activity, custom_field
+  triggerValue: text("trigger_value"), // status value for status_change, days for no_activity, key=value for custom_field
   action: text("action").notNull(), // create_followup, send_notification, change_status
   actionValue: text("action_value"), // days offset for followup, status for change_status
   isActive: boolean("is_active").notNull().default(true),
@@ -300,15 +358,186 @@ export const checklistItems = pgTable("checklist_items", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Reusable checklists, e.g. client onboarding, copied onto a client by pipeline stage-entry actions
+export const checklistTemplates = pgTable("checklist_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  items: jsonb("items").$type<string[]>().notNull().default([]), // item titles, in order
+  createdById: varchar("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 // Lead Distribution Settings
 export const distributionSettings = pgTable("distribution_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   isEnabled: boolean("is_enabled").notNull().default(false),
-  method: text("method").notNull().default("round_robin"), // round_robin, load_based
+  method: text("method").notNull().default("round_robin"), // one of distributionMethods
   lastAssignedUserId: varchar("last_assigned_user_id").references(() => users.id),
+  // A distributed lead nobody contacts within this many minutes moves to the next rep; null to never reassign
+  reassignAfterMinutes: integer("reassign_after_minutes"),
+  reassignEnabledAt: timestamp("reassign_enabled_at"), // only leads distributed since reassignment was turned on move
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Per-rep distribution settings. Reps without a row have weight 1, no daily cap and are in the office.
+export const distributionReps = pgTable("distribution_reps", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  weight: integer("weight").notNull().default(1), // share relative to the other reps, for the weighted method
+  dailyCap: integer("daily_cap"), // most leads distributed to the rep per day; null for no cap
+  isOutOfOffice: boolean("is_out_of_office").notNull().default(false),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Hosted lead-capture forms, served as a page and a JS embed that post to /api/leads/capture.
+// `fields` lists what the form asks for, in order: standard lead fields and lead custom fields by key.
+export const leadForms = pgTable("lead_forms", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(), // also the form's heading
+  fields: jsonb("fields").$type<LeadFormField[]>().notNull().default([]),
+  source: text("source").notNull().default("website"), // source given to captured leads
+  campaignId: varchar("campaign_id").references(() => campaigns.id, { onDelete: "set null" }),
+  submitLabel: text("submit_label").notNull().default("Submit"),
+  thankYouMessage: text("thank_you_message").notNull().default("Thank you! We will be in touch soon."),
+  redirectUrl: text("redirect_url"), // where visitors go after submitting, instead of the thank-you message
+  isActive: boolean("is_active").notNull().default(true),
+  viewCount: integer("view_count").notNull().default(0),
+  submissionCount: integer("submission_count").notNull().default(0), // accepted submissions, duplicates included
+  // Credentials for posting to /api/leads/capture: the key as a header, or the secret to sign the body with
+  apiKey: text("api_key").notNull().default(sql`replace(gen_random_uuid()::text, '-', '')`),
+  signingSecret: text("signing_secret").notNull().default(sql`replace(gen_random_uuid()::text, '-', '')`),
+  createdById: varchar("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Captured leads held back as suspected spam. Nothing is written to leads until an admin releases one.
+export const quarantinedLeads = pgTable("quarantined_leads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  formId: varchar("form_id").references(() => leadForms.id, { onDelete: "set null" }),
+  name: text("name").notNull(),
+  mobile: text("mobile").notNull(),
+  email: text("email"),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(), // the validated capture body
+  reasons: jsonb("reasons").$type<QuarantineReason[]>().notNull().default([]),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  status: text("status").notNull().default("pending"), // one of quarantineStatuses
+  leadId: varchar("lead_id").references(() => leads.id, { onDelete: "set null" }), // the lead created on release
+  reviewedById: varchar("reviewed_by_id").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One row per lead delivered by an ad platform webhook, with the raw payload it arrived in. Platforms
+// retry deliveries, so a lead is processed once per provider; failed ones can be retried from the payload.
+export const leadWebhookEvents = pgTable("lead_webhook_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: text("provider").notNull(), // one of leadWebhookProviders
+  externalLeadId: text("external_lead_id").notNull(),
+  externalFormId: text("external_form_id"),
+  externalCampaignId: text("external_campaign_id"),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  isTest: boolean("is_test").notNull().default(false), // sent from the platform's "test lead" tools
+  status: text("status").notNull(), // one of leadWebhookEventStatuses
+  error: text("error"),
+  leadId: varchar("lead_id").references(() => leads.id, { onDelete: "set null" }), // created lead, or the existing one for duplicates
+  campaignId: varchar("campaign_id").references(() => campaigns.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  processedAt: timestamp("processed_at").notNull().defaultNow(),
+}, (table) => [unique("lead_webhook_events_provider_lead").on(table.provider, table.externalLeadId)]);
+
+// First-response SLA policies. The most specific active policy that matches applies: one naming both a
+// source and a score tier beats one naming either, which beats a catch-all; ties go to the shortest limit.
+export const slaPolicies = pgTable("sla_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  scope: text("scope").notNull(), // one of slaScopes
+  source: text("source"), // lead source to match; null for any
+  score: text("score"), // lead temperature to match: hot, warm, cold; null for any
+  responseMinutes: integer("response_minutes").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One row per missed SLA. The subject is the lead (new_lead) or the inbound message (inbound_message).
+export const slaBreaches = pgTable("sla_breaches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: text("scope").notNull(),
+  subjectId: varchar("subject_id").notNull(),
+  leadId: varchar("lead_id").references(() => leads.id, { onDelete: "cascade" }),
+  conversationId: varchar("conversation_id").references(() => whatsappConversations.id, { onDelete: "cascade" }),
+  policyId: varchar("policy_id").references(() => slaPolicies.id, { onDelete: "set null" }),
+  ownerId: varchar("owner_id").references(() => users.id), // rep responsible when the SLA was missed
+  startedAt: timestamp("started_at").notNull(),
+  dueAt: timestamp("due_at").notNull(),
+  respondedAt: timestamp("responded_at"), // filled in when the late response arrives
+  escalatedAt: timestamp("escalated_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [unique("sla_breaches_scope_subject").on(table.scope, table.subjectId)]);
+
+// Leads matching a rule go only to its assignees (a single rep or a team), picked by the distribution method.
+// Rules are tried by ascending priority; when no assignee of the first matching rule is available, the next is tried.
+export const distributionRules = pgTable("distribution_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  field: text("field").notNull(), // one of distributionRuleFields
+  value: text("value").notNull(), // matched case-insensitively
+  assigneeIds: jsonb("assignee_ids").$type<string[]>().notNull().default([]),
+  priority: integer("priority").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Sales pipelines. Every lead belongs to one; leads created without one (captured, imported, from
+// webhooks) go to the default pipeline, of which there is exactly one.
+export const pipelines = pgTable("pipelines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+  isDefault: boolean("is_default").notNull().default(false),
+  position: integer("position").notNull().default(0), // order of the pipeline switcher
+  createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Ordered stages of a pipeline. Leads store the stage key, so a key never changes once created.
+// `requiredFields` must be filled in before a lead enters the stage: lead fields by name, custom fields as "custom:<key>".
+// `entryActions` run when a lead is moved into the stage through the board or the lead form.
+export const pipelineStageDefinitions = pgTable("pipeline_stages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  pipelineId: varchar("pipeline_id").notNull().references(() => pipelines.id, { onDelete: "cascade" }),
+  key: text("key").notNull(),
+  name: text("name").notNull(),
+  position: integer("position").notNull().default(0),
+  winProbability: integer("win_probability").notNull().default(0), // percent chance a lead in this stage is won
+  outcome: text("outcome").notNull().default("open"), // one of pipelineStageOutcomes
+  requiredFields: jsonb("required_fields").$type<string[]>().notNull().default([]),
+  entryActions: jsonb("entry_actions").$type<StageEntryAction[]>().notNull().default([]),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [unique("pipeline_stages_pipeline_key").on(table.pipelineId, table.key)]);
+
+// One row per move of a lead into a stage, including the stage it was created in, for stage velocity reports
+export const leadStageChanges = pgTable("lead_stage_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  fromPipelineId: varchar("from_pipeline_id").references(() => pipelines.id, { onDelete: "set null" }),
+  fromStage: text("from_stage"), // null for the stage the lead was created in
+  pipelineId: varchar("pipeline_id").references(() => pipelines.id, { onDelete: "set null" }),
+  toStage: text("to_stage").notNull(),
+  changedById: varchar("changed_by_id").references(() => users.id), // null for capture, webhooks and other automatic moves
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+});
+
+// Reasons to pick from when a lead is lost. Reasons in use are deactivated rather than deleted.
+export const lossReasons = pgTable("loss_reasons", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  label: text("label").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // WhatsApp Conversation temperature tags
 export const conversationTags = ["hot", "warm", "cold"] as const;
 
@@ -316,6 +545,7 @@ export const conversationTags = ["hot", "warm", "cold"] as const;
 export const whatsappConversations = pgTable("whatsapp_conversations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   phone: text("phone").notNull(),
+  phoneE164: text("phone_e164"), // canonical form of phone
   leadId: varchar("lead_id").references(() => leads.id, { onDelete: "set null" }),
   clientId: varchar("client_id").references(() => clients.id, { onDelete: "set null" }),
   assignedUserId: varchar("assigned_user_id").references(() => users.id),
@@ -352,6 +582,122 @@ export const quickReplyTemplates = pgTable("quick_reply_templates", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Saved lead views (named filter sets, per user, optionally shared with the team)
+export const leadViews = pgTable("lead_views", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  isShared: boolean("is_shared").notNull().default(false),
+  filters: text("filters").notNull().default("{}"), // JSON LeadViewFilters
+  sortBy: text("sort_by").default("createdAt"),
+  sortOrder: text("sort_order").default("desc"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Custom field definitions (admin-defined extra fields for leads and clients)
+export const customFieldDefinitions = pgTable("custom_field_definitions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entityType: text("entity_type").notNull(), // lead, client
+  key: text("key").notNull(), // stable identifier used in storage, filters and CSV
+  label: text("label").notNull(),
+  fieldType: text("field_type").notNull().default("text"), // text, number, date, select, multi_select, boolean
+  options: text("options"), // JSON array of allowed values for select / multi_select
+  isRequired: boolean("is_required").notNull().default(false),
+  sortOrder: integer("sort_order").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Lead import jobs (CSV imports processed in the background)
+export const leadImportJobs = pgTable("lead_import_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  fileName: text("file_name"),
+  status: text("status").notNull().default("pending"), // pending, running, completed, failed, undone
+  csvText: text("csv_text").notNull(),
+  mapping: text("mapping").notNull(), // JSON LeadImportMapping
+  duplicateStrategy: text("duplicate_strategy").notNull().default("skip"),
+  totalRows: integer("total_rows").notNull().default(0),
+  processedRows: integer("processed_rows").notNull().default(0),
+  createdCount: integer("created_count").notNull().default(0),
+  updatedCount: integer("updated_count").notNull().default(0),
+  skippedCount: integer("skipped_count").notNull().default(0),
+  failedCount: integer("failed_count").notNull().default(0),
+  results: text("results"), // JSON LeadImportRowResult[] for rows that were not created cleanly
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  undoneAt: timestamp("undone_at"),
+});
+
+// Pairs a user marked as "not a duplicate" so the duplicate finder stops suggesting them.
+// Lead pairs are stored with the smaller id in lead_id; client pairs leave match_lead_id empty.
+export const duplicateDismissals = pgTable("duplicate_dismissals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  matchLeadId: varchar("match_lead_id").references(() => leads.id, { onDelete: "cascade" }),
+  matchClientId: varchar("match_client_id").references(() => clients.id, { onDelete: "cascade" }),
+  dismissedById: varchar("dismissed_by_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Lead merge history. Holds enough to audit a merge and to undo it: the merged leads as they were,
+// the primary's field values before and after, and every related record that was re-pointed.
+export const leadMerges = pgTable("lead_merges", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  primaryLeadId: varchar("primary_lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  mergedLeadIds: text("merged_lead_ids").notNull(), // JSON string[]
+  mergedLeads: text("merged_leads").notNull(), // JSON Lead[] snapshots of the deleted duplicates
+  fieldSources: text("field_sources").notNull().default("{}"), // JSON field -> lead id the value came from
+  primaryBefore: text("primary_before").notNull().default("{}"), // JSON of changed primary fields before the merge
+  primaryAfter: text("primary_after").notNull().default("{}"), // JSON of the same fields after the merge
+  movedRecords: text("moved_records").notNull().default("{}"), // JSON LeadMergeMovedRecords
+  mergedById: varchar("merged_by_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  undoneAt: timestamp("undone_at"),
+  undoneById: varchar("undone_by_id").references(() => users.id),
+});
+
+// Versions of the lead scoring model. Versions are never edited: a change saves a new version,
+// and leads record which version scored them. Exactly one version is active.
+export const leadScoringModels = pgTable("lead_scoring_models", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  version: integer("version").notNull().unique(),
+  config: text("config").notNull(), // JSON LeadScoringModelConfig
+  notes: text("notes"), // what changed in this version
+  isActive: boolean("is_active").notNull().default(false),
+  createdById: varchar("created_by_id").references(() => users.id), // null for the built-in default
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  activatedAt: timestamp("activated_at"),
+});
+
+// Conversion-probability models trained on our own converted/not_interested leads. The latest one
+// predicts; older rows are kept so accuracy can be compared across retrains.
+export const conversionModels = pgTable("conversion_models", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  model: text("model").notNull(), // JSON TrainedConversionModel
+  metrics: text("metrics").notNull(), // JSON ConversionModelMetrics, measured on the holdout set
+  trainedById: varchar("trained_by_id").references(() => users.id), // null when trained by the scheduler
+  trainedAt: timestamp("trained_at").notNull().defaultNow(),
+});
+
+// One row per change of a lead's score, for charting it over time
+export const leadScoreHistory = pgTable("lead_score_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  leadScore: integer("lead_score").notNull(),
+  score: text("score").notNull(), // hot, warm, cold
+  previousLeadScore: integer("previous_lead_score"),
+  previousScore: text("previous_score"),
+  scoringModelId: varchar("scoring_model_id").references(() => leadScoringModels.id),
+  baseScore: integer("base_score"),
+  breakdown: text("breakdown"), // JSON ScoreContribution[]; null on entries recorded before breakdowns were kept
+  trigger: text("trigger").notNull(), // one of scoreTriggers
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   leads: many(leads),
@@ -378,10 +724,10 @@ export const clientsRelations = relations(clients, ({ one, many }) => ({
 
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
-export const insertLeadSchema = createInsertSchema(leads).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertLeadNoteSchema = createInsertSchema(leadNotes).omit({ id: true, createdAt: true });
+export const insertLeadSchema = createInsertSchema(leads).omit({ id: true, mobileE164: true, createdAt: true, updatedAt: true });
+export const insertLeadNoteSchema = createInsertSchema(leadNotes).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertFollowUpSchema = createInsertSchema(followUps).omit({ id: true, createdAt: true });
-export const insertClientSchema = createInsertSchema(clients).omit({ id: true, createdAt: true });
+export const insertClientSchema = createInsertSchema(clients).omit({ id: true, phoneE164: true, createdAt: true });
 export const insertServiceSchema = createInsertSchema(services).omit({ id: true, createdAt: true });
 export const insertClientServiceSchema = createInsertSchema(clientServices).omit({ id: true, createdAt: true });
 export const insertPackageSchema = createInsertSchema(packages).omit({ id: true, createdAt: true });
@@ -396,6 +742,72 @@ export const insertAutomationRunLogSchema = createInsertSchema(automationRunLogs
 export const insertCallLogSchema = createInsertSchema(callLogs).omit({ id: true, createdAt: true });
 export const insertChecklistSchema = createInsertSchema(checklists).omit({ id: true, createdAt: true });
 export const insertChecklistItemSchema = createInsertSchema(checklistItems).omit({ id: true, createdAt: true });
+export const insertChecklistTemplateSchema = createInsertSchema(checklistTemplates, {
+  name: z.string().trim().min(1, "Name is required"),
+  items: z.array(z.string().trim().min(1)).min(1, "Add at least one item"),
+}).omit({ id: true, createdById: true, createdAt: true, updatedAt: true });
+export const leadFormFieldSchema = z.object({
+  key: z.string().min(1), // a leadFormStandardFields entry, or a custom field key when `custom` is set
+  custom: z.boolean().default(false),
+  label: z.string().trim().min(1, "Label is required"),
+  required: z.boolean().default(false),
+});
+const httpUrl = z.string().trim().url("Must be a URL").refine(url => /^https?:\/\//i.test(url), "Must be an http(s) URL");
+export const insertLeadFormSchema = createInsertSchema(leadForms, {
+  name: z.string().trim().min(1, "Name is required"),
+  fields: z.array(leadFormFieldSchema)
+    .refine(fields => ["name", "mobile"].every(key => fields.some(f => !f.custom && f.key === key)), "Name and mobile must be on the form")
+    .refine(fields => new Set(fields.map(f => `${f.custom}:${f.key}`)).size === fields.length, "A field appears twice")
+    .refine(fields => fields.every(f => f.custom || (leadFormStandardFields as readonly string[]).includes(f.key)), "Unknown lead field"),
+  source: z.enum(leadSources),
+  submitLabel: z.string().trim().min(1).max(40),
+  thankYouMessage: z.string().trim().min(1).max(500),
+  redirectUrl: httpUrl.nullable().optional(),
+}).omit({ id: true, viewCount: true, submissionCount: true, apiKey: true, signingSecret: true, createdById: true, createdAt: true, updatedAt: true });
+export const insertQuarantinedLeadSchema = createInsertSchema(quarantinedLeads).omit({ id: true, createdAt: true });
+export const insertLeadWebhookEventSchema = createInsertSchema(leadWebhookEvents).omit({ id: true, createdAt: true });
+export const insertSlaPolicySchema = createInsertSchema(slaPolicies, {
+  name: z.string().trim().min(1, "Name is required"),
+  scope: z.enum(slaScopes),
+  source: z.enum(leadSources).nullable().optional(),
+  score: z.enum(leadScores).nullable().optional(),
+  responseMinutes: z.number().int().min(1).max(7 * 24 * 60),
+}).omit({ id: true, createdAt: true });
+export const insertSlaBreachSchema = createInsertSchema(slaBreaches).omit({ id: true, createdAt: true });
+export const insertDistributionRepSchema = createInsertSchema(distributionReps).omit({ updatedAt: true });
+export const insertDistributionRuleSchema = createInsertSchema(distributionRules, {
+  field: z.enum(distributionRuleFields),
+  value: z.string().trim().min(1, "Value is required"),
+  assigneeIds: z.array(z.string()).min(1, "Pick at least one assignee"),
+}).omit({ id: true, createdAt: true });
+export const insertPipelineSchema = createInsertSchema(pipelines, {
+  name: z.string().trim().min(1, "Name is required"),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const stageEntryActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("convert_to_client") }),
+  z.object({ type: z.literal("create_quotation"), packageId: z.string().min(1, "Pick a package") }),
+  z.object({
+    type: z.literal("create_task"),
+    title: z.string().trim().min(1, "Task title is required"),
+    description: z.string().trim().nullable().optional(),
+    priority: z.enum(taskPriorities),
+    dueInDays: z.number().int().min(0).max(365),
+  }),
+  z.object({ type: z.literal("assign_checklists"), checklistTemplateIds: z.array(z.string().min(1)).min(1, "Pick at least one checklist") }),
+]);
+export const insertPipelineStageSchema = createInsertSchema(pipelineStageDefinitions, {
+  key: z.string().regex(/^[a-z][a-z0-9_]*$/, "Key must start with a letter and use lowercase letters, digits or underscores"),
+  name: z.string().trim().min(1, "Stage name is required"),
+  winProbability: z.number().int().min(0).max(100),
+  outcome: z.enum(pipelineStageOutcomes),
+  requiredFields: z.array(z.string().min(1)),
+  entryActions: z.array(stageEntryActionSchema)
+    .refine(actions => new Set(actions.map(a => a.type)).size === actions.length, "A stage can run each action once"),
+}).omit({ id: true, createdAt: true });
+export const insertLossReasonSchema = createInsertSchema(lossReasons, {
+  label: z.string().trim().min(1, "Label is required"),
+}).omit({ id: true, createdAt: true });
+export const insertLeadStageChangeSchema = createInsertSchema(leadStageChanges).omit({ id: true });
 export const insertActivityLogSchema = createInsertSchema(activityLogs).omit({ id: true, createdAt: true });
 
 // Types
@@ -439,10 +851,122 @@ export type Checklist = typeof checklists.$inferSelect;
 export type InsertChecklist = z.infer<typeof insertChecklistSchema>;
 export type ChecklistItem = typeof checklistItems.$inferSelect;
 export type InsertChecklistItem = z.infer<typeof insertChecklistItemSchema>;
+export type ChecklistTemplate = typeof checklistTemplates.$inferSelect;
+export type InsertChecklistTemplate = z.infer<typeof insertChecklistTemplateSchema>;
 export type DistributionSettings = typeof distributionSettings.$inferSelect;
+export type DistributionMethod = typeof distributionMethods[number];
+export type DistributionRuleField = typeof distributionRuleFields[number];
+export type LeadFormStandardField = typeof leadFormStandardFields[number];
+export type LeadFormField = z.infer<typeof leadFormFieldSchema>;
+export type LeadForm = typeof leadForms.$inferSelect;
+export type InsertLeadForm = z.infer<typeof insertLeadFormSchema>;
+export type QuarantineReason = typeof quarantineReasons[number];
+export type QuarantineStatus = typeof quarantineStatuses[number];
+export type QuarantinedLead = typeof quarantinedLeads.$inferSelect;
+export type InsertQuarantinedLead = z.infer<typeof insertQuarantinedLeadSchema>;
+export type LeadWebhookProvider = typeof leadWebhookProviders[number];
+export type LeadWebhookEventStatus = typeof leadWebhookEventStatuses[number];
+export type LeadWebhookEvent = typeof leadWebhookEvents.$inferSelect;
+export type InsertLeadWebhookEvent = z.infer<typeof insertLeadWebhookEventSchema>;
+export type PipelineStageOutcome = typeof pipelineStageOutcomes[number];
+export type Pipeline = typeof pipelines.$inferSelect;
+export type InsertPipeline = z.infer<typeof insertPipelineSchema>;
+export type PipelineStage = typeof pipelineStageDefinitions.$inferSelect;
+export type InsertPipelineStage = z.infer<typeof insertPipelineStageSchema>;
+export type StageEntryActionType = typeof stageEntryActionTypes[number];
+export type StageEntryAction = z.infer<typeof stageEntryActionSchema>;
+export type LeadStageChange = typeof leadStageChanges.$inferSelect;
+export type LossReason = typeof lossReasons.$inferSelect;
+export type InsertLossReason = z.infer<typeof insertLossReasonSchema>;
+export type InsertLeadStageChange = z.infer<typeof insertLeadStageChangeSchema>;
+export type SlaScope = typeof slaScopes[number];
+export type SlaPolicy = typeof slaPolicies.$inferSelect;
+export type InsertSlaPolicy = z.infer<typeof insertSlaPolicySchema>;
+export type SlaBreach = typeof slaBreaches.$inferSelect;
+export type InsertSlaBreach = z.infer<typeof insertSlaBreachSchema>;
+export type DistributionRep = typeof distributionReps.$inferSelect;
+export type InsertDistributionRep = z.infer<typeof insertDistributionRepSchema>;
+export type DistributionRule = typeof distributionRules.$inferSelect;
+export type InsertDistributionRule = z.infer<typeof insertDistributionRuleSchema>;
+export type LeadSortColumn = typeof leadSortColumns[number];
+export type CustomFieldType = typeof customFieldTypes[number];
+export type CustomFieldEntity = typeof customFieldEntities[number];
+export type LeadNoteType = typeof leadNoteTypes[number];
+export type ScoreTrigger = typeof scoreTriggers[number];
+export type CustomFieldValue = string | number | boolean | string[];
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+// Lead filter definition shared by the leads list, saved views and CSV export.
+// Dates are ISO strings (YYYY-MM-DD or full timestamps).
+const optionalBoolean = z.preprocess(
+  (value) => (value === undefined ? undefined : value === true || value === "true"),
+  z.boolean().optional(),
+);
+
+export const leadViewFiltersSchema = z.object({
+  search: z.string().optional(),
+  status: z.string().optional(),
+  source: z.string().optional(),
+  score: z.string().optional(),
+  ownerId: z.string().optional(),
+  pipelineId: z.string().optional(),
+  pipelineStage: z.string().optional(),
+  campaignId: z.string().optional(),
+  utmSource: z.string().optional(),
+  utmMedium: z.string().optional(),
+  utmCampaign: z.string().optional(),
+  utmContent: z.string().optional(),
+  utmTerm: z.string().optional(),
+  interestLevel: z.string().optional(),
+  budgetMin: z.coerce.number().optional(),
+  budgetMax: z.coerce.number().optional(),
+  leadScoreMin: z.coerce.number().int().min(0).max(100).optional(),
+  leadScoreMax: z.coerce.number().int().min(0).max(100).optional(),
+  createdFrom: z.string().optional(),
+  createdTo: z.string().optional(),
+  lastActivityFrom: z.string().optional(),
+  lastActivityTo: z.string().optional(),
+  hasOverdueFollowUp: optionalBoolean,
+  // Custom field filters keyed by definition key. Number and date fields accept "from..to" ranges.
+  customFields: z.record(z.string()).optional(),
+});
+
+export const insertLeadViewSchema = createInsertSchema(leadViews).omit({ id: true, createdAt: true, updatedAt: true });
+
+export const insertCustomFieldDefinitionSchema = createInsertSchema(customFieldDefinitions, {
+  entityType: z.enum(customFieldEntities),
+  key: z.string().regex(/^[a-z][a-z0-9_]*$/, "Key must start with a letter and use lowercase letters, digits or underscores"),
+  label: z.string().min(1),
+  fieldType: z.enum(customFieldTypes),
+}).omit({ id: true, createdAt: true });
+
+export const insertLeadImportJobSchema = createInsertSchema(leadImportJobs).omit({ id: true, createdAt: true });
+export const insertDuplicateDismissalSchema = createInsertSchema(duplicateDismissals).omit({ id: true, createdAt: true });
+export const insertLeadMergeSchema = createInsertSchema(leadMerges).omit({ id: true, createdAt: true });
+export const insertLeadScoringModelSchema = createInsertSchema(leadScoringModels).omit({ id: true, createdAt: true });
+export const insertConversionModelSchema = createInsertSchema(conversionModels).omit({ id: true, trainedAt: true });
+export const insertLeadScoreHistorySchema = createInsertSchema(leadScoreHistory).omit({ id: true, createdAt: true });
+
+export type LeadViewFilters = z.infer<typeof leadViewFiltersSchema>;
+export type LeadView = typeof leadViews.$inferSelect;
+export type InsertLeadView = z.infer<typeof insertLeadViewSchema>;
+export type CustomFieldDefinition = typeof customFieldDefinitions.$inferSelect;
+export type LeadImportJob = typeof leadImportJobs.$inferSelect;
+export type InsertLeadImportJob = z.infer<typeof insertLeadImportJobSchema>;
+export type InsertCustomFieldDefinition = z.infer<typeof insertCustomFieldDefinitionSchema>;
+export type DuplicateDismissal = typeof duplicateDismissals.$inferSelect;
+export type InsertDuplicateDismissal = z.infer<typeof insertDuplicateDismissalSchema>;
+export type LeadMerge = typeof leadMerges.$inferSelect;
+export type InsertLeadMerge = z.infer<typeof insertLeadMergeSchema>;
+export type LeadScoringModel = typeof leadScoringModels.$inferSelect;
+export type InsertLeadScoringModel = z.infer<typeof insertLeadScoringModelSchema>;
+export type ConversionModel = typeof conversionModels.$inferSelect;
+export type InsertConversionModel = z.infer<typeof insertConversionModelSchema>;
+export type LeadScoreHistoryEntry = typeof leadScoreHistory.$inferSelect;
+export type InsertLeadScoreHistoryEntry = z.infer<typeof insertLeadScoreHistorySchema>;
 
 // WhatsApp schemas and types
-export const insertWhatsappConversationSchema = createInsertSchema(whatsappConversations).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertWhatsappConversationSchema = createInsertSchema(whatsappConversations).omit({ id: true, phoneE164: true, createdAt: true, updatedAt: true });
 export const insertWhatsappMessageSchema = createInsertSchema(whatsappMessages).omit({ id: true, createdAt: true });
 export const insertQuickReplyTemplateSchema = createInsertSchema(quickReplyTemplates).omit({ id: true, createdAt: true });
 
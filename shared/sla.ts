@@ -0,0 +1,25 @@
+import type { SlaScope } from "./schema";
+
+export const slaScopeLabels: Record<SlaScope, string> = {
+  new_lead: "New lead",
+  inbound_message: "Inbound WhatsApp message",
+};
+
+// One rep's row in the response SLA report. Lead counts cover leads created in the period;
+// breach counts cover breaches whose clock started in the period.
+export interface SlaRepReport {
+  userId: string | null; // null for leads and conversations nobody owned
+  name: string;
+  leads: number;
+  responded: number;
+  avgFirstResponseMinutes: number | null;
+  leadBreaches: number;
+  messageBreaches: number;
+  openBreaches: number;
+}
+
+export interface SlaReport {
+  from: string;
+  to: string;
+  reps: SlaRepReport[];
+}
@@ -0,0 +1,29 @@
+import type { StageEntryAction, StageEntryActionType } from "./schema";
+
+export const stageEntryActionLabels: Record<StageEntryActionType, string> = {
+  convert_to_client: "Convert to client",
+  create_quotation: "Draft a quotation",
+  create_task: "Create a task",
+  assign_checklists: "Add checklists",
+};
+
+// A new action as first added in the pipeline editor
+export function newStageEntryAction(type: StageEntryActionType): StageEntryAction {
+  switch (type) {
+    case "convert_to_client":
+      return { type };
+    case "create_quotation":
+      return { type, packageId: "" };
+    case "create_task":
+      return { type, title: "", description: null, priority: "medium", dueInDays: 1 };
+    case "assign_checklists":
+      return { type, checklistTemplateIds: [] };
+  }
+}
+
+// Outcome of one entry action. Skipped actions had nothing to do, e.g. the lead was already a client.
+export interface StageActionResult {
+  type: StageEntryActionType;
+  status: "done" | "skipped" | "failed";
+  message: string;
+}
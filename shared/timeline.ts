@@ -0,0 +1,45 @@
+import type { ActivityLog, CallLog, FollowUp, LeadNote, LeadStageChange, Quotation, Task, WhatsappMessage } from "./schema";
+
+export const timelineEntryTypes = ["note", "follow_up", "call", "whatsapp_message", "task", "quotation", "stage_change", "activity"] as const;
+export type TimelineEntryType = typeof timelineEntryTypes[number];
+
+export const timelineEntryLabels: Record<TimelineEntryType, string> = {
+  note: "Notes",
+  follow_up: "Follow-ups",
+  call: "Calls",
+  whatsapp_message: "WhatsApp",
+  task: "Tasks",
+  quotation: "Quotations",
+  stage_change: "Stage changes",
+  activity: "Activity",
+};
+
+interface TimelineEntryBase<T extends TimelineEntryType, D> {
+  type: T;
+  id: string; // id of the underlying record
+  occurredAt: string | Date;
+  userId: string | null; // who did it, when known
+  userName: string | null;
+  data: D;
+}
+
+// One item of a lead or client timeline; `data` is the full underlying record
+export type TimelineEntry =
+  | TimelineEntryBase<"note", LeadNote>
+  | TimelineEntryBase<"follow_up", FollowUp>
+  | TimelineEntryBase<"call", CallLog>
+  | TimelineEntryBase<"whatsapp_message", WhatsappMessage>
+  | TimelineEntryBase<"task", Task>
+  | TimelineEntryBase<"quotation", Quotation>
+  | TimelineEntryBase<"stage_change", LeadStageChange>
+  | TimelineEntryBase<"activity", ActivityLog>;
+
+export interface TimelineResponse {
+  data: TimelineEntry[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}